@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { parseCliArgs, resolveRunConfig } from './args';
+import { checkRunConfig } from '../src/training/run';
+import { DEFAULT_SCHEDULE } from '../src/network/schedules';
+
+describe('CLI arguments', () => {
+  it('flags should override the config file, which overrides the defaults', () => {
+    const { overrides, modelPath, metricsPath } = parseCliArgs(['--lr', '0.1', '--noise', '0.3', '--epochs', '20']);
+    const config = resolveRunConfig({ hyperparameters: { learningRate: 2, optimizerName: 'adam' }, seed: 9 }, overrides);
+    expect(config.hyperparameters.learningRate).toBe(0.1);
+    expect(config.hyperparameters.optimizerName).toBe('adam');
+    expect(config.data.noiseLevel).toBe(0.3);
+    expect(config.seed).toBe(9);
+    expect(config.epochs).toBe(20);
+    expect(modelPath).toBe('model.json');
+    expect(metricsPath).toBeNull();
+  });
+
+  it('should size the input and output layers for the dataset unless layer sizes are given', () => {
+    const fitted = resolveRunConfig(null, parseCliArgs(['--dataset', 'quadrants']).overrides);
+    expect(fitted.architecture.layerSizes).toEqual([2, 4, 4]);
+    expect(fitted.architecture.lossName).toBe('softmaxCrossEntropy');
+
+    const given = resolveRunConfig(null, parseCliArgs(['--dataset', 'quadrants', '--layers', '2,3,1']).overrides);
+    expect(given.architecture.layerSizes).toEqual([2, 3, 1]);
+
+    const curve = parseCliArgs(['--dataset', 'curve', '--dataset-param', 'frequency=2']).overrides;
+    const regression = resolveRunConfig(null, curve);
+    expect(regression.architecture.layerSizes).toEqual([1, 4, 1]);
+    expect(regression.architecture.lossName).toBe('mse');
+    expect(regression.data.datasetParams).toEqual({ frequency: 2 });
+    expect(() => parseCliArgs(['--dataset-param', 'arms'])).toThrow(/key=value/);
+
+    const split = resolveRunConfig({ data: { split: { testSize: 50 } } }, parseCliArgs(['--split', 'kfold', '--fold', '2']).overrides);
+    expect(split.data.split).toMatchObject({ mode: 'kfold', folds: 5, fold: 1, testSize: 50 });
+    expect(() => parseCliArgs(['--split', 'bootstrap'])).toThrow(/--split must be one of/);
+  });
+
+  it('a config file setting part of a nested object should keep the rest of its defaults', () => {
+    const config = resolveRunConfig({
+      hyperparameters: { schedule: { name: 'step', stepSize: 1 }, optimizerHyperparams: { beta2: 0.99 }, clipping: { mode: 'norm' } },
+    }, {});
+    expect(config.hyperparameters.schedule).toEqual({ ...DEFAULT_SCHEDULE, name: 'step', stepSize: 1 });
+    expect(config.hyperparameters.optimizerHyperparams.beta1).toBe(0.9);
+    expect(config.hyperparameters.clipping.threshold).toBe(1);
+    expect(() => checkRunConfig(config)).not.toThrow();
+
+    const invalid = (hyperparameters: object) =>
+      () => checkRunConfig(resolveRunConfig({ hyperparameters } as Parameters<typeof resolveRunConfig>[0], {}));
+    expect(invalid({ schedule: { name: 'cosine', period: 0 } })).toThrow(/period of the cosine schedule must be .* got 0/);
+    expect(invalid({ optimizerName: 'magic' })).toThrow(/Optimizer must be one of/);
+    expect(invalid({ optimizerHyperparams: { epsilon: null } })).toThrow(/epsilon/);
+    expect(invalid({ clipping: { mode: 'norm', threshold: -1 } })).toThrow(/Clipping threshold/);
+    expect(invalid({ clipping: { mode: 'soft' } })).toThrow(/Clipping mode must be one of/);
+  });
+
+  it('should reject malformed values', () => {
+    expect(() => parseCliArgs(['--samples', '1.5'])).toThrow(/integer/);
+    expect(() => parseCliArgs(['--optimizer', 'magic'])).toThrow(/must be one of/);
+    expect(() => parseCliArgs(['--unknown'])).toThrow();
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Command-line options for the training CLI
+ *
+ * A run's config is built from three layers: DEFAULT_RUN_CONFIG, then an
+ * optional JSON config file (any part of a RunConfig), then flags. Flags
+ * cover the common settings; everything else goes in the config file.
+ */
+
+import { parseArgs } from 'node:util';
+import { ACTIVATION_NAMES } from '../src/network/activations';
+import type { ActivationName } from '../src/network/activations';
+import { OPTIMIZER_NAMES } from '../src/network/optimizers';
+import type { OptimizerName } from '../src/network/optimizers';
+import { DATASET_NAMES, datasetLoss } from '../src/data/datasets';
+import type { DatasetName, DatasetParams } from '../src/data/datasets';
+import { SPLIT_MODE_LABELS } from '../src/data/splits';
+import type { SplitConfig, SplitMode } from '../src/data/splits';
+import { DEFAULT_RUN_CONFIG, mergeRunConfig } from '../src/training/run';
+import type { RunConfig, RunConfigOverrides } from '../src/training/run';
+import { dataSpec } from '../src/training/session';
+import type { ArchitectureConfig, TrainingHyperparameters } from '../src/training/session';
+
+const SPLIT_MODES = Object.keys(SPLIT_MODE_LABELS) as SplitMode[];
+
+export const USAGE = `Usage: npm run train -- [options]
+
+Trains a network headlessly, streaming one JSON line of metrics per step.
+
+Options:
+  --config <file>              JSON run config (any part of { architecture, seed, data, hyperparameters, epochs })
+  --layers <sizes>             Layer sizes, e.g. 2,4,1 (default: fit the input and output layers to the dataset)
+  --activation <name>          Hidden activation (${ACTIVATION_NAMES.join(', ')})
+  --seed <n>                   Weight init seed
+  --dataset <name>             Dataset (${DATASET_NAMES.join(', ')})
+  --dataset-param <key=x>      Dataset generator parameter, e.g. arms=3 (repeatable)
+  --data-seed <n>              Training data seed
+  --noise <x>                  Noise level, 0 to 1
+  --samples <n>                Number of training samples
+  --split <mode>               Validation split (${SPLIT_MODES.join(', ')})
+  --validation <x>             Share of the samples held out for validation (holdout split)
+  --folds <n>                  Number of folds (k-fold split)
+  --fold <n>                   Fold used for validation, 1 to the number of folds (k-fold split)
+  --test-size <n>              Clean test points from the true distribution (imported data: rows held out)
+  --lr <x>                     Learning rate
+  --optimizer <name>           Optimizer (${OPTIMIZER_NAMES.join(', ')})
+  --confidence-penalty <x>     Confidence penalty strength
+  --epochs <n>                 Epochs to train
+  --metrics <file>             Write metrics here instead of stdout
+  --model <file>               Final model (default: model.json)
+  --trajectory <file>          Trajectory for replay in the web app (default: trajectory.json)
+  -h, --help                   Show this help`;
+
+export interface CliOptions {
+  help: boolean;
+  configPath: string | null;
+  overrides: RunConfigOverrides;
+  metricsPath: string | null;   // null: stdout
+  modelPath: string;
+  trajectoryPath: string;
+}
+
+function parseNumber(flag: string, value: string, integer: boolean = false): number {
+  const x = Number(value);
+  if (value.trim() === '' || !Number.isFinite(x) || (integer && !Number.isInteger(x))) {
+    throw new Error(`--${flag} expects ${integer ? 'an integer' : 'a number'}, got "${value}"`);
+  }
+  return x;
+}
+
+function parseName<T extends string>(flag: string, value: string, names: readonly T[]): T {
+  if (!names.includes(value as T)) throw new Error(`--${flag} must be one of ${names.join(', ')}, got "${value}"`);
+  return value as T;
+}
+
+export function parseCliArgs(argv: string[]): CliOptions {
+  const { values } = parseArgs({
+    args: argv,
+    strict: true,
+    options: {
+      'config': { type: 'string' },
+      'layers': { type: 'string' },
+      'activation': { type: 'string' },
+      'seed': { type: 'string' },
+      'dataset': { type: 'string' },
+      'dataset-param': { type: 'string', multiple: true },
+      'data-seed': { type: 'string' },
+      'noise': { type: 'string' },
+      'samples': { type: 'string' },
+      'split': { type: 'string' },
+      'validation': { type: 'string' },
+      'folds': { type: 'string' },
+      'fold': { type: 'string' },
+      'test-size': { type: 'string' },
+      'lr': { type: 'string' },
+      'optimizer': { type: 'string' },
+      'confidence-penalty': { type: 'string' },
+      'epochs': { type: 'string' },
+      'metrics': { type: 'string' },
+      'model': { type: 'string', default: 'model.json' },
+      'trajectory': { type: 'string', default: 'trajectory.json' },
+      'help': { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const architecture: Partial<ArchitectureConfig> = {};
+  const data: NonNullable<RunConfigOverrides['data']> = {};
+  const split: Partial<SplitConfig> = {};
+  const hyperparameters: Partial<TrainingHyperparameters> = {};
+  if (values.layers !== undefined) {
+    architecture.layerSizes = values.layers.split(',').map(n => parseNumber('layers', n, true));
+  }
+  if (values.activation !== undefined) {
+    architecture.hiddenActivation = parseName<ActivationName>('activation', values.activation, ACTIVATION_NAMES);
+  }
+  if (values.dataset !== undefined) data.datasetName = parseName<DatasetName>('dataset', values.dataset, DATASET_NAMES);
+  if (values['dataset-param'] !== undefined) {
+    data.datasetParams = Object.fromEntries(values['dataset-param'].map(entry => {
+      const [key, value, ...rest] = entry.split('=');
+      if (!key || value === undefined || rest.length > 0) {
+        throw new Error(`--dataset-param expects key=value, got "${entry}"`);
+      }
+      return [key, parseNumber('dataset-param', value)];
+    })) as DatasetParams;
+  }
+  if (values['data-seed'] !== undefined) data.dataSeed = parseNumber('data-seed', values['data-seed'], true);
+  if (values.noise !== undefined) data.noiseLevel = parseNumber('noise', values.noise);
+  if (values.samples !== undefined) data.numSamples = parseNumber('samples', values.samples, true);
+  if (values.split !== undefined) split.mode = parseName<SplitMode>('split', values.split, SPLIT_MODES);
+  if (values.validation !== undefined) split.validationFraction = parseNumber('validation', values.validation);
+  if (values.folds !== undefined) split.folds = parseNumber('folds', values.folds, true);
+  if (values.fold !== undefined) split.fold = parseNumber('fold', values.fold, true) - 1;
+  if (values['test-size'] !== undefined) split.testSize = parseNumber('test-size', values['test-size'], true);
+  if (Object.keys(split).length > 0) data.split = split;
+  if (values.lr !== undefined) hyperparameters.learningRate = parseNumber('lr', values.lr);
+  if (values.optimizer !== undefined) {
+    hyperparameters.optimizerName = parseName<OptimizerName>('optimizer', values.optimizer, OPTIMIZER_NAMES);
+  }
+  if (values['confidence-penalty'] !== undefined) {
+    hyperparameters.confidencePenalty = parseNumber('confidence-penalty', values['confidence-penalty']);
+  }
+
+  return {
+    help: values.help,
+    configPath: values.config ?? null,
+    overrides: {
+      architecture,
+      data,
+      hyperparameters,
+      seed: values.seed !== undefined ? parseNumber('seed', values.seed, true) : undefined,
+      epochs: values.epochs !== undefined ? parseNumber('epochs', values.epochs, true) : undefined,
+    },
+    metricsPath: values.metrics ?? null,
+    modelPath: values.model,
+    trajectoryPath: values.trajectory,
+  };
+}
+
+/**
+ * The run config for a config file (parsed JSON, or null) and flags. Unless
+ * layer sizes are given, the input and output layers are sized for the
+ * dataset; unless a loss is given, one is picked to match (as the web app
+ * does when switching datasets).
+ */
+export function resolveRunConfig(file: RunConfigOverrides | null, flags: RunConfigOverrides): RunConfig {
+  if (file !== null && (typeof file !== 'object' || Array.isArray(file))) {
+    throw new Error('The config file must contain a JSON object');
+  }
+  const config = mergeRunConfig(DEFAULT_RUN_CONFIG, file ?? {}, flags);
+  const layersGiven = file?.architecture?.layerSizes !== undefined || flags.architecture?.layerSizes !== undefined;
+  const lossGiven = file?.architecture?.lossName !== undefined || flags.architecture?.lossName !== undefined;
+
+  const spec = dataSpec(config.data);
+  const { layerSizes } = config.architecture;
+  const fittedSizes = layersGiven ? layerSizes : [spec.inputSize, ...layerSizes.slice(1, -1), spec.outputSize];
+  return {
+    ...config,
+    architecture: {
+      ...config.architecture,
+      layerSizes: fittedSizes,
+      lossName: lossGiven
+        ? config.architecture.lossName
+        : datasetLoss(spec.task, fittedSizes[fittedSizes.length - 1], config.architecture.lossName),
+    },
+  };
+}
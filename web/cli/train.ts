@@ -0,0 +1,52 @@
+/**
+ * Headless training CLI
+ *
+ * Trains one run (see src/training/run.ts) with no browser or React, streams
+ * one JSON line of metrics per step, and writes the final model and the
+ * trajectory; both can be loaded in the web app ("Load"), the trajectory
+ * replaying every step.
+ *
+ *   npm run train -- --layers 2,8,1 --noise 0.2 --epochs 200 --metrics run.jsonl
+ */
+
+import { createWriteStream, readFileSync, writeFileSync } from 'node:fs';
+import type { Writable } from 'node:stream';
+import { USAGE, parseCliArgs, resolveRunConfig } from './args';
+import { runTraining, stepMetrics } from '../src/training/run';
+import { toTrajectoryJSON } from '../src/training/trajectory';
+import { parameterLabel } from '../src/network/buffers';
+
+function main(argv: string[]): void {
+  const options = parseCliArgs(argv);
+  if (options.help) {
+    console.log(USAGE);
+    return;
+  }
+  const file = options.configPath === null ? null : JSON.parse(readFileSync(options.configPath, 'utf8'));
+  const config = resolveRunConfig(file, options.overrides);
+
+  const metrics: Writable = options.metricsPath === null ? process.stdout : createWriteStream(options.metricsPath);
+  const session = runTraining(config, step => {
+    metrics.write(JSON.stringify(stepMetrics(step)) + '\n');
+  });
+  if (metrics !== process.stdout) metrics.end();
+
+  // The model is the trajectory's last step: a diverged step's parameters can't be saved
+  const trajectory = toTrajectoryJSON(session.steps, session.currentStep, config.hyperparameters, config.data);
+  writeFileSync(options.modelPath, JSON.stringify(trajectory.model, null, 2));
+  writeFileSync(options.trajectoryPath, JSON.stringify(trajectory));
+  const last = session.steps[session.currentStep];
+  const summary = last.divergence
+    ? `diverged at step ${last.step} (${last.divergence.value} in ${last.divergence.buffer} ${parameterLabel(last.divergence)})`
+    : `${last.step} steps, ${last.epoch} epochs: loss ${last.loss.toFixed(4)}, accuracy ${(last.accuracy * 100).toFixed(1)}%`
+      + (last.metrics.validation ? `, validation accuracy ${(last.metrics.validation.accuracy * 100).toFixed(1)}%` : '')
+      + (last.metrics.test ? `, test accuracy ${(last.metrics.test.accuracy * 100).toFixed(1)}%` : '');
+  console.error(`${summary}; wrote ${options.modelPath} and ${options.trajectoryPath}`);
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exitCode = 1;
+}
@@ -1,26 +1,77 @@
 import { useState, useMemo } from 'react';
 import { useTraining } from './hooks/useTraining';
+import { useSweep } from './hooks/useSweep';
 import { NetworkVisualization, type EdgeSelection, type NodeSelection } from './components/NetworkVisualization';
-import { TrainingControls } from './components/TrainingControls';
+import { TrainingControls, type StaleRange } from './components/TrainingControls';
 import { ComputationPanel } from './components/ComputationPanel';
+import { GradientCheckPanel } from './components/GradientCheckPanel';
+import { InitComparison } from './components/InitComparison';
+import { ModelFileControls } from './components/ModelFileControls';
+import { DivergenceBanner } from './components/DivergenceBanner';
+import { WorkerErrorBanner } from './components/WorkerErrorBanner';
 import { PredictionsPanel } from './components/PredictionsPanel';
 import { ParameterGraphs } from './components/ParameterGraphs';
 import { DataVisualization } from './components/DataVisualization';
+import { DataImporter } from './components/DataImporter';
 import { Tabs } from './components/Tabs';
-import { sigmoid, binaryCrossEntropy, confidencePenalty as calcConfidencePenalty } from './network/functions';
+import { LossLandscapePanel } from './components/LossLandscapePanel';
+import { SweepPanel } from './components/SweepPanel';
+import { getLoss, computeLoss } from './network/losses';
+import { regularizationPenalty } from './network/regularization';
+import type { RegularizationConfig } from './network/regularization';
+import { INITIALIZERS, INITIALIZER_NAMES, BIAS_INIT_LABELS, BIAS_INIT_NAMES } from './network/initializers';
+import type { InitializerName, BiasInitName } from './network/initializers';
+import { CLIP_MODE_LABELS } from './network/stability';
+import { DATASETS, DATASET_NAMES, datasetParams as resolveDatasetParams, getDataset, isCorrect } from './data/datasets';
+import type { DatasetName } from './data/datasets';
+import { SPLIT_MODE_LABELS } from './data/splits';
+import type { SplitMode } from './data/splits';
+import { DEFAULT_PATIENCE, earlyStopping } from './training/earlyStopping';
+import type { ClipMode } from './network/stability';
 
-type RightPanelTab = 'graphs' | 'math' | 'data';
+type RightPanelTab = 'graphs' | 'landscape' | 'math' | 'verify' | 'init' | 'data' | 'sweep';
 
 const TABS = [
   { id: 'graphs', label: 'Graphs' },
+  { id: 'landscape', label: 'Landscape' },
   { id: 'math', label: 'Step-by-Step Math' },
+  { id: 'verify', label: 'Verify Gradients' },
+  { id: 'init', label: 'Initialization' },
   { id: 'data', label: 'Training Data' },
+  { id: 'sweep', label: 'Sweep' },
 ];
 
+const INIT_SCALE_OPTIONS = [0.01, 0.1, 0.5, 1, 2];
+
+const REGULARIZATION_OPTIONS: {
+  key: keyof RegularizationConfig;
+  label: string;
+  title: string;
+  values: number[];
+}[] = [
+  { key: 'l1', label: 'L1', title: 'λ₁·Σ|w| added to the loss - pushes weights to exactly zero', values: [0, 1e-4, 1e-3, 1e-2] },
+  { key: 'l2', label: 'L2', title: '(λ₂/2)·Σw² added to the loss - shrinks large weights', values: [0, 1e-4, 1e-3, 1e-2, 0.1] },
+  { key: 'weightDecay', label: 'Decay', title: 'Decoupled weight decay: w ← w - η·wd·w after each update (independent of the optimizer)', values: [0, 1e-4, 1e-3, 1e-2, 0.1] },
+  { key: 'dropout', label: 'Dropout', title: 'Probability of dropping each hidden unit during training (inverted dropout)', values: [0, 0.1, 0.25, 0.5] },
+  { key: 'maxNorm', label: 'Max-norm', title: "Cap on the norm of each unit's incoming weights", values: [0, 1, 2, 3] },
+];
+
+const CLIP_THRESHOLD_OPTIONS = [0.1, 0.5, 1, 5, 10];
+
+const VALIDATION_FRACTION_OPTIONS = [0.1, 0.2, 0.3, 0.5];
+const FOLD_OPTIONS = [3, 5, 10];
+const TEST_SIZE_OPTIONS = [0, 50, 100, 200, 500];
+const PATIENCE_OPTIONS = [5, 10, 20, 50, 100];
+
+// Dataset select values for imported datasets (generated ones use their name)
+const IMPORTED_PREFIX = 'imported:';
+
 function App() {
   const [rightPanelTab, setRightPanelTab] = useState<RightPanelTab>('graphs');
   const [selectedEdge, setSelectedEdge] = useState<EdgeSelection | null>(null);
   const [selectedNode, setSelectedNode] = useState<NodeSelection | null>(null);
+  // Steps without a new best validation loss before early stopping would stop
+  const [patience, setPatience] = useState(DEFAULT_PATIENCE);
 
   const {
     training,
@@ -31,49 +82,123 @@ function App() {
     regenerateData,
     setSelectedInput,
     setIsPlaying,
+    dismissError,
     learningRate,
     setLearningRate,
+    schedule,
+    setSchedule,
+    nextLearningRate,
     noiseLevel,
     setNoiseLevel,
     numSamples,
     setNumSamples,
     confidencePenalty,
     setConfidencePenalty,
+    hiddenActivation,
+    setHiddenActivation,
+    normalization,
+    setNormalization,
+    lossName,
+    setLossName,
+    optimizerName,
+    setOptimizerName,
+    optimizerHyperparams,
+    setOptimizerHyperparams,
+    batchMode,
+    setBatchMode,
+    miniBatchSize,
+    setMiniBatchSize,
+    shuffle,
+    setShuffle,
+    stepUnit,
+    setStepUnit,
+    regularization,
+    setRegularization,
+    clipping,
+    setClipping,
+    initConfig,
+    setInitConfig,
+    exportModel,
+    loadModel,
+    loadRun,
+    architecture,
+    dataConfig,
+    hyperparameters,
+    datasetName,
+    selectDataset,
+    datasetParams,
+    setDatasetParam,
+    dataSpec,
+    importedDatasets,
+    imported,
+    selectImported,
+    addImportedDataset,
+    removeImportedDataset,
+    split,
+    setSplit,
+    dataVersion,
+    editCount,
+    editData,
+    undoDataEdit,
+    redoDataEdit,
+    revertDataEdits,
+    canUndoDataEdit,
+    canRedoDataEdit,
     trainingData,
-    cleanXorData,
+    validationData,
+    evalData,
   } = useTraining();
+  // Held here so a sweep keeps running (and its results stay) while other tabs are shown
+  const { sweep, start: startSweep, stop: stopSweep } = useSweep();
 
+  const dataset = getDataset(datasetName);
+  const resolvedParams = resolveDatasetParams(dataset, datasetParams);
   const currentStep = training.steps[training.currentStep];
-  // Use clean XOR data for selected input display (the 4 canonical points)
-  const selectedData = cleanXorData[training.selectedInputIdx];
+  // Use the dataset's canonical points for selected input display
+  // (clamped: right after a dataset switch the selection may not be reset yet)
+  const selectedData = evalData[Math.min(training.selectedInputIdx, evalData.length - 1)];
+
+  const trainingInputs = useMemo(() => trainingData.map(d => d.input), [trainingData]);
 
-  // Compute live accuracy on clean XOR (matches what PredictionsPanel shows)
+  // Compute live accuracy on the canonical points (matches what PredictionsPanel shows)
   // Use training object as dependency (new reference on each state update)
   const liveAccuracy = useMemo(() => {
+    const outputs = training.network.predictBatch(evalData.map(d => d.input));
     let correct = 0;
-    for (const { input, target } of cleanXorData) {
-      const output = training.network.forward(input);
-      const sigmoidOutput = sigmoid(output as number[]) as number[];
-      const predicted = sigmoidOutput[0] >= 0.5 ? 1 : 0;
-      if (predicted === target[0]) correct++;
-    }
-    return correct / cleanXorData.length;
-  }, [training, cleanXorData]);
+    evalData.forEach((point, i) => {
+      if (isCorrect(dataSpec.task, outputs[i], point)) correct++;
+    });
+    return correct / evalData.length;
+  }, [training, evalData, dataSpec]);
 
   // Compute live training loss (with confidence penalty if enabled)
   const liveLoss = useMemo(() => {
+    const loss = getLoss(training.network.lossName);
+    const outputs = training.network.outputBatch(trainingData.map(d => d.input));
     let totalLoss = 0;
-    for (const { input, target } of trainingData) {
-      const output = training.network.forward(input);
-      const sigmoidOutput = sigmoid(output as number[]) as number[];
-      let loss = binaryCrossEntropy(sigmoidOutput, target);
-      if (confidencePenalty > 0) {
-        loss += confidencePenalty * calcConfidencePenalty(sigmoidOutput);
-      }
-      totalLoss += loss;
+    trainingData.forEach(({ target }, i) => {
+      totalLoss += computeLoss(loss, outputs[i], target, confidencePenalty);
+    });
+    return totalLoss / trainingData.length + regularizationPenalty(training.network.weights, regularization);
+  }, [training, trainingData, confidencePenalty, regularization]);
+
+  // Where early stopping would checkpoint and stop (needs a validation split)
+  const earlyStop = useMemo(
+    () => (split.mode === 'none' ? undefined : earlyStopping(training.steps, patience)),
+    [split.mode, training.steps, patience]
+  );
+
+  // Runs of steps trained on another version of the (edited) data than the current one
+  const staleRanges = useMemo(() => {
+    const ranges: StaleRange[] = [];
+    for (const step of training.steps) {
+      if (step.dataVersion === dataVersion) continue;
+      const last = ranges[ranges.length - 1];
+      if (last && last.end === step.step - 1 && last.version === step.dataVersion) last.end = step.step;
+      else ranges.push({ start: step.step, end: step.step, version: step.dataVersion });
     }
-    return totalLoss / trainingData.length;
-  }, [training, trainingData, confidencePenalty]);
+    return ranges;
+  }, [training.steps, dataVersion]);
 
   // Count noisy samples
   const noisyCount = useMemo(() => {
@@ -87,15 +212,19 @@ function App() {
         <div className="flex items-center justify-between">
           <div>
             <h1 className="text-lg font-bold text-gray-900">
-              Neural Network Visualizer: XOR
+              Neural Network Visualizer: {dataSpec.label}
             </h1>
             <p className="text-xs text-gray-500">
               Step through training to see weights, activations, and gradients
             </p>
           </div>
+          <ModelFileControls onExport={exportModel} onLoad={loadModel} />
           <div className="text-right text-sm">
             <span className="text-gray-500">Step </span>
             <span className="font-mono font-bold">{training.currentStep}/{training.steps.length - 1}</span>
+            {stepUnit === 'update' && (
+              <span className="text-gray-500 text-xs ml-1">(epoch {currentStep.epoch})</span>
+            )}
             <span className="mx-2 text-gray-300">|</span>
             <span className="text-gray-500">Train Loss </span>
             <span className="font-mono font-bold text-blue-600">{liveLoss.toFixed(4)}</span>
@@ -110,6 +239,20 @@ function App() {
             <span className={`font-mono font-bold ${liveAccuracy === 1 ? 'text-green-600' : 'text-orange-600'}`}>
               {(liveAccuracy * 100).toFixed(0)}%
             </span>
+            {currentStep.metrics.validation && (
+              <>
+                <span className="mx-2 text-gray-300">|</span>
+                <span className="text-gray-500">Val </span>
+                <span className="font-mono font-bold">{(currentStep.metrics.validation.accuracy * 100).toFixed(0)}%</span>
+              </>
+            )}
+            {currentStep.metrics.test && (
+              <>
+                <span className="mx-2 text-gray-300">|</span>
+                <span className="text-gray-500">Test </span>
+                <span className="font-mono font-bold">{(currentStep.metrics.test.accuracy * 100).toFixed(0)}%</span>
+              </>
+            )}
           </div>
         </div>
       </header>
@@ -126,6 +269,28 @@ function App() {
           currentTarget={selectedData.target}
           learningRate={learningRate}
           onLearningRateChange={setLearningRate}
+          schedule={schedule}
+          onScheduleChange={setSchedule}
+          nextLearningRate={nextLearningRate}
+          hiddenActivation={hiddenActivation}
+          onHiddenActivationChange={setHiddenActivation}
+          normalization={normalization}
+          onNormalizationChange={setNormalization}
+          lossName={lossName}
+          onLossChange={setLossName}
+          outputSize={training.network.layerSizes[training.network.layerSizes.length - 1]}
+          optimizerName={optimizerName}
+          onOptimizerChange={setOptimizerName}
+          optimizerHyperparams={optimizerHyperparams}
+          onOptimizerHyperparamsChange={setOptimizerHyperparams}
+          batchMode={batchMode}
+          onBatchModeChange={setBatchMode}
+          miniBatchSize={miniBatchSize}
+          onMiniBatchSizeChange={setMiniBatchSize}
+          shuffle={shuffle}
+          onShuffleChange={setShuffle}
+          stepUnit={stepUnit}
+          onStepUnitChange={setStepUnit}
           onPrev={() => goToStep(training.currentStep - 1)}
           onNext={() => {
             if (training.currentStep === training.steps.length - 1) {
@@ -138,6 +303,8 @@ function App() {
           onRandomize={randomize}
           onTogglePlay={() => setIsPlaying(!training.isPlaying)}
           onGoToStep={goToStep}
+          earlyStop={earlyStop}
+          staleRanges={staleRanges}
         />
 
         {/* Data Controls */}
@@ -145,32 +312,154 @@ function App() {
           <span className="text-gray-500 font-medium">Data:</span>
 
           <div className="flex items-center gap-1">
-            <span className="text-gray-500">Noise:</span>
-            <input
-              type="range"
-              min="0"
-              max="0.5"
-              step="0.05"
-              value={noiseLevel}
-              onChange={(e) => setNoiseLevel(parseFloat(e.target.value))}
-              className="w-20 h-1"
-              title="Proportion of labels that get randomly flipped"
-            />
-            <span className="font-mono w-10">{(noiseLevel * 100).toFixed(0)}%</span>
+            <select
+              value={imported ? `${IMPORTED_PREFIX}${imported.id}` : datasetName}
+              onChange={(e) => {
+                const value = e.target.value;
+                if (value.startsWith(IMPORTED_PREFIX)) selectImported(value.slice(IMPORTED_PREFIX.length));
+                else selectDataset(value as DatasetName);
+              }}
+              className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+              title="Dataset to train on (the input layer is sized for its inputs, and the output layer gets one unit per class, a single unit for two classes or for regression; changing it resets training)"
+            >
+              {DATASET_NAMES.map((name) => (
+                <option key={name} value={name}>{DATASETS[name].label}</option>
+              ))}
+              {importedDatasets.length > 0 && (
+                <optgroup label="Imported">
+                  {importedDatasets.map((d) => (
+                    <option key={d.id} value={`${IMPORTED_PREFIX}${d.id}`}>{d.name}</option>
+                  ))}
+                </optgroup>
+              )}
+            </select>
           </div>
 
+          {!imported && dataset.params.map((param) => (
+            <div key={param.key} className="flex items-center gap-1 border-l border-gray-300 pl-2">
+              <span className="text-gray-500">{param.label}:</span>
+              <input
+                type="range"
+                min={param.min}
+                max={param.max}
+                step={param.step}
+                value={resolvedParams[param.key]}
+                onChange={(e) => setDatasetParam(param.key, parseFloat(e.target.value))}
+                className="w-16 h-1"
+                title={param.title}
+              />
+              <span className="font-mono w-8">{resolvedParams[param.key]}</span>
+            </div>
+          ))}
+
+          {!imported && (
+            <>
+              <div className="flex items-center gap-1 border-l border-gray-300 pl-2">
+                <span className="text-gray-500">Noise:</span>
+                <input
+                  type="range"
+                  min="0"
+                  max="0.5"
+                  step="0.05"
+                  value={noiseLevel}
+                  onChange={(e) => setNoiseLevel(parseFloat(e.target.value))}
+                  className="w-20 h-1"
+                  title="Proportion of labels that get randomly flipped (for regression: of targets that get Gaussian noise)"
+                />
+                <span className="font-mono w-10">{(noiseLevel * 100).toFixed(0)}%</span>
+              </div>
+
+              <div className="flex items-center gap-1 border-l border-gray-300 pl-2">
+                <span className="text-gray-500">Samples:</span>
+                <select
+                  value={numSamples}
+                  onChange={(e) => setNumSamples(parseInt(e.target.value))}
+                  className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+                >
+                  <option value={50}>50</option>
+                  <option value={100}>100</option>
+                  <option value={200}>200</option>
+                  <option value={500}>500</option>
+                </select>
+              </div>
+            </>
+          )}
+
           <div className="flex items-center gap-1 border-l border-gray-300 pl-2">
-            <span className="text-gray-500">Samples:</span>
+            <span className="text-gray-500">Split:</span>
             <select
-              value={numSamples}
-              onChange={(e) => setNumSamples(parseInt(e.target.value))}
+              value={split.mode}
+              onChange={(e) => setSplit({ ...split, mode: e.target.value as SplitMode })}
               className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+              title="Hold out part of the training data for validation: a share of it, or one of k folds (changing it resets training)"
             >
-              <option value={50}>50</option>
-              <option value={100}>100</option>
-              <option value={200}>200</option>
-              <option value={500}>500</option>
+              {(Object.keys(SPLIT_MODE_LABELS) as SplitMode[]).map((mode) => (
+                <option key={mode} value={mode}>{SPLIT_MODE_LABELS[mode]}</option>
+              ))}
             </select>
+            {split.mode === 'holdout' && (
+              <select
+                value={split.validationFraction}
+                onChange={(e) => setSplit({ ...split, validationFraction: parseFloat(e.target.value) })}
+                className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+                title="Share of the samples held out for validation"
+              >
+                {VALIDATION_FRACTION_OPTIONS.map((f) => (
+                  <option key={f} value={f}>{f * 100}% val</option>
+                ))}
+              </select>
+            )}
+            {split.mode === 'kfold' && (
+              <>
+                <select
+                  value={split.folds}
+                  onChange={(e) => {
+                    const folds = parseInt(e.target.value);
+                    setSplit({ ...split, folds, fold: Math.min(split.fold, folds - 1) });
+                  }}
+                  className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+                  title="Number of folds"
+                >
+                  {FOLD_OPTIONS.map((k) => (
+                    <option key={k} value={k}>k={k}</option>
+                  ))}
+                </select>
+                <select
+                  value={split.fold}
+                  onChange={(e) => setSplit({ ...split, fold: parseInt(e.target.value) })}
+                  className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+                  title="Fold held out for validation (train once per fold to cross-validate)"
+                >
+                  {Array.from({ length: split.folds }, (_, i) => (
+                    <option key={i} value={i}>fold {i + 1}</option>
+                  ))}
+                </select>
+              </>
+            )}
+            <select
+              value={split.testSize}
+              onChange={(e) => setSplit({ ...split, testSize: parseInt(e.target.value) })}
+              className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+              title={imported
+                ? 'Rows held out as a test set (at most half of them)'
+                : 'Clean test points drawn from the true distribution (no label noise)'}
+            >
+              {TEST_SIZE_OPTIONS.map((n) => (
+                <option key={n} value={n}>{n === 0 ? 'no test' : `${n} test`}</option>
+              ))}
+            </select>
+            {split.mode !== 'none' && (
+              <select
+                value={patience}
+                onChange={(e) => setPatience(parseInt(e.target.value))}
+                className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+                title="Early stopping patience: steps without a new best validation loss before stopping (checkpoints are marked on the timeline)"
+              >
+                {PATIENCE_OPTIONS.map((p) => (
+                  <option key={p} value={p}>patience {p}</option>
+                ))}
+              </select>
+            )}
           </div>
 
           <div className="flex items-center gap-1 border-l border-gray-300 pl-2">
@@ -190,18 +479,128 @@ function App() {
             </select>
           </div>
 
-          <button
-            onClick={regenerateData}
-            className="px-2 py-1 bg-teal-500 text-white rounded hover:bg-teal-600"
-            title="Generate new random data with same settings"
-          >
-            🔄 New Data
-          </button>
+          {!imported && (
+            <button
+              onClick={regenerateData}
+              className="px-2 py-1 bg-teal-500 text-white rounded hover:bg-teal-600"
+              title="Generate new random data with same settings"
+            >
+              🔄 New Data
+            </button>
+          )}
 
           <span className="text-gray-400 ml-2">
             ({trainingData.filter(d => d.isNoisy).length} noisy samples)
           </span>
         </div>
+
+        {/* Regularization Controls */}
+        <div className="flex items-center gap-3 text-xs">
+          <span className="text-gray-500 font-medium">Regularization:</span>
+          {REGULARIZATION_OPTIONS.map((opt, idx) => (
+            <div
+              key={opt.key}
+              className={`flex items-center gap-1 ${idx > 0 ? 'border-l border-gray-300 pl-2' : ''}`}
+            >
+              <span className="text-gray-500">{opt.label}:</span>
+              <select
+                value={regularization[opt.key]}
+                onChange={(e) => setRegularization({ ...regularization, [opt.key]: parseFloat(e.target.value) })}
+                className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+                title={opt.title}
+              >
+                {opt.values.map((v) => (
+                  <option key={v} value={v}>
+                    {v === 0 ? 'Off' : v}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <div className="flex items-center gap-1 border-l border-gray-300 pl-2">
+            <span className="text-gray-500">Clip ∇:</span>
+            <select
+              value={clipping.mode}
+              onChange={(e) => setClipping({ ...clipping, mode: e.target.value as ClipMode })}
+              className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+              title="Gradient clipping before each update: rescale the whole gradient to a maximum L2 norm, or clamp each component"
+            >
+              {(Object.keys(CLIP_MODE_LABELS) as ClipMode[]).map((mode) => (
+                <option key={mode} value={mode}>{CLIP_MODE_LABELS[mode]}</option>
+              ))}
+            </select>
+            {clipping.mode !== 'none' && (
+              <select
+                value={clipping.threshold}
+                onChange={(e) => setClipping({ ...clipping, threshold: parseFloat(e.target.value) })}
+                className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+                title={clipping.mode === 'norm' ? 'Maximum global gradient norm' : 'Maximum |gradient| per component'}
+              >
+                {CLIP_THRESHOLD_OPTIONS.map((v) => (
+                  <option key={v} value={v}>{clipping.mode === 'norm' ? '‖∇‖' : '|g|'} ≤ {v}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        </div>
+
+        {/* Initialization Controls (changing them resets training) */}
+        <div className="flex items-center gap-3 text-xs">
+          <span className="text-gray-500 font-medium">Initialization:</span>
+          <div className="flex items-center gap-1">
+            <span className="text-gray-500">Weights:</span>
+            <select
+              value={initConfig.weights}
+              onChange={(e) => setInitConfig({ ...initConfig, weights: e.target.value as InitializerName })}
+              className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+              title={INITIALIZERS[initConfig.weights].formula}
+            >
+              {INITIALIZER_NAMES.map((name) => (
+                <option key={name} value={name}>{INITIALIZERS[name].label}</option>
+              ))}
+            </select>
+            {INITIALIZERS[initConfig.weights].usesScale && (
+              <select
+                value={initConfig.weightScale}
+                onChange={(e) => setInitConfig({ ...initConfig, weightScale: parseFloat(e.target.value) })}
+                className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+                title={initConfig.weights === 'constant' ? 'Value c of every weight' : 'Standard deviation σ'}
+              >
+                {INIT_SCALE_OPTIONS.map((v) => (
+                  <option key={v} value={v}>{initConfig.weights === 'constant' ? 'c' : 'σ'} = {v}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          <div className="flex items-center gap-1 border-l border-gray-300 pl-2">
+            <span className="text-gray-500">Biases:</span>
+            <select
+              value={initConfig.biases}
+              onChange={(e) => setInitConfig({ ...initConfig, biases: e.target.value as BiasInitName })}
+              className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+            >
+              {BIAS_INIT_NAMES.map((name) => (
+                <option key={name} value={name}>{BIAS_INIT_LABELS[name]}</option>
+              ))}
+            </select>
+            {initConfig.biases !== 'zeros' && (
+              <select
+                value={initConfig.biasScale}
+                onChange={(e) => setInitConfig({ ...initConfig, biasScale: parseFloat(e.target.value) })}
+                className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+              >
+                {INIT_SCALE_OPTIONS.map((v) => (
+                  <option key={v} value={v}>{initConfig.biases === 'constant' ? 'c' : 'σ'} = {v}</option>
+                ))}
+              </select>
+            )}
+          </div>
+        </div>
+
+        {/* Shown once an update produced NaN/Infinity */}
+        <DivergenceBanner steps={training.steps} onGoToStep={goToStep} />
+        {/* Shown when the worker fails a request */}
+        <WorkerErrorBanner message={training.error} onDismiss={dismissError} />
       </div>
 
       {/* Main Content */}
@@ -214,6 +613,7 @@ function App() {
               state={currentStep.state}
               currentInput={selectedData.input}
               currentTarget={selectedData.target}
+              data={trainingData}
               selectedEdge={selectedEdge}
               onEdgeSelect={(edge) => {
                 setSelectedEdge(edge);
@@ -235,7 +635,8 @@ function App() {
             <div className="flex-shrink-0">
               <PredictionsPanel
                 network={training.network}
-                xorData={cleanXorData}
+                evalData={evalData}
+                task={dataSpec.task}
                 selectedIdx={training.selectedInputIdx}
                 onSelect={setSelectedInput}
               />
@@ -252,6 +653,7 @@ function App() {
                   <ParameterGraphs
                     steps={training.steps}
                     currentStep={training.currentStep}
+                    earlyStop={earlyStop}
                     onStepClick={goToStep}
                     selectedEdge={selectedEdge}
                     selectedNode={selectedNode}
@@ -262,6 +664,18 @@ function App() {
                   />
                 )}
 
+                {rightPanelTab === 'landscape' && (
+                  <LossLandscapePanel
+                    steps={training.steps}
+                    currentStep={training.currentStep}
+                    isPlaying={training.isPlaying}
+                    onStepClick={goToStep}
+                    trainingData={trainingData}
+                    confidencePenalty={confidencePenalty}
+                    regularization={regularization}
+                  />
+                )}
+
                 {rightPanelTab === 'math' && (
                   <div className="p-3 overflow-auto h-full">
                     <ComputationPanel
@@ -269,18 +683,121 @@ function App() {
                       state={currentStep.state}
                       currentInput={selectedData.input}
                       currentTarget={selectedData.target}
+                      optimizerState={currentStep.optimizerState}
+                      optimizerName={optimizerName}
+                      optimizerHyperparams={optimizerHyperparams}
+                      learningRate={nextLearningRate}
+                      baseLearningRate={learningRate}
+                      schedule={schedule}
+                      regularization={regularization}
+                      confidencePenalty={confidencePenalty}
+                    />
+                  </div>
+                )}
+
+                {rightPanelTab === 'verify' && (
+                  <div className="p-3 overflow-auto h-full">
+                    <GradientCheckPanel
+                      network={training.network}
+                      currentInput={selectedData.input}
+                      currentTarget={selectedData.target}
+                      confidencePenalty={confidencePenalty}
+                      regularization={regularization}
+                      onEdgeSelect={(edge) => {
+                        setSelectedEdge(edge);
+                        setSelectedNode(null);
+                      }}
+                      onNodeSelect={(node) => {
+                        setSelectedNode(node);
+                        setSelectedEdge(null);
+                      }}
+                    />
+                  </div>
+                )}
+
+                {rightPanelTab === 'init' && (
+                  <div className="p-3 overflow-auto h-full">
+                    <InitComparison
+                      layerSizes={training.network.layerSizes}
+                      hiddenActivation={hiddenActivation}
+                      initConfig={initConfig}
+                      inputs={trainingInputs}
                     />
                   </div>
                 )}
 
                 {rightPanelTab === 'data' && (
                   <div className="p-3 overflow-auto h-full">
+                    <div className="flex items-center gap-2 mb-2 text-xs">
+                      <span className="text-gray-500">
+                        Dataset v{dataVersion} ({editCount === 0 ? 'unedited' : `${editCount} edit${editCount === 1 ? '' : 's'}`})
+                      </span>
+                      <button
+                        onClick={undoDataEdit}
+                        disabled={!canUndoDataEdit}
+                        className="px-2 py-0.5 border border-gray-300 rounded bg-white hover:bg-gray-50 disabled:opacity-50"
+                        title="Undo the last edit to the training points"
+                      >
+                        ↶ Undo
+                      </button>
+                      <button
+                        onClick={redoDataEdit}
+                        disabled={!canRedoDataEdit}
+                        className="px-2 py-0.5 border border-gray-300 rounded bg-white hover:bg-gray-50 disabled:opacity-50"
+                        title="Redo the edit that was undone"
+                      >
+                        ↷ Redo
+                      </button>
+                      <button
+                        onClick={revertDataEdits}
+                        disabled={editCount === 0}
+                        className="px-2 py-0.5 border border-gray-300 rounded bg-white hover:bg-gray-50 disabled:opacity-50"
+                        title="Go back to the unedited points (can be undone)"
+                      >
+                        Revert edits
+                      </button>
+                      {staleRanges.length > 0 && (
+                        <span className="text-amber-600">
+                          Steps trained on other versions are shaded on the timeline
+                        </span>
+                      )}
+                    </div>
                     <div className="flex gap-4">
-                      <DataVisualization data={trainingData} compact />
-                      <DataVisualization data={trainingData} />
+                      <DataVisualization
+                        data={trainingData}
+                        spec={dataSpec}
+                        evalData={evalData}
+                        validationData={validationData}
+                        onEdit={editData}
+                        network={training.network}
+                        compact
+                      />
+                      <DataVisualization data={trainingData} spec={dataSpec} evalData={evalData} />
+                    </div>
+                    <div className="mt-4 max-w-xl">
+                      <DataImporter
+                        inputSize={training.network.layerSizes[0]}
+                        importedDatasets={importedDatasets}
+                        activeId={imported?.id ?? null}
+                        onImport={addImportedDataset}
+                        onSelect={selectImported}
+                        onRemove={removeImportedDataset}
+                      />
                     </div>
                   </div>
                 )}
+
+                {rightPanelTab === 'sweep' && (
+                  <SweepPanel
+                    architecture={architecture}
+                    data={dataConfig}
+                    hyperparameters={hyperparameters}
+                    sweep={sweep}
+                    onStart={startSweep}
+                    onStop={stopSweep}
+                    onLoadRun={loadRun}
+                  />
+                )}
               </Tabs>
             </div>
           </div>
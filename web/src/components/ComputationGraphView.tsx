@@ -0,0 +1,162 @@
+import { useMemo, useState } from 'react';
+import type { Graph, Node, OpName } from '../network/autodiff';
+
+interface ComputationGraphViewProps {
+  graph: Graph;
+  root: Node;
+}
+
+const OP_COLORS: Record<OpName, { fill: string; stroke: string }> = {
+  input: { fill: '#dcfce7', stroke: '#16a34a' },
+  param: { fill: '#ede9fe', stroke: '#7c3aed' },
+  matmul: { fill: '#dbeafe', stroke: '#2563eb' },
+  addBias: { fill: '#dbeafe', stroke: '#2563eb' },
+  activation: { fill: '#fef3c7', stroke: '#d97706' },
+  mask: { fill: '#f3f4f6', stroke: '#6b7280' },
+  normalize: { fill: '#cffafe', stroke: '#0891b2' },
+  scaleShift: { fill: '#cffafe', stroke: '#0891b2' },
+  loss: { fill: '#fee2e2', stroke: '#dc2626' },
+};
+
+const BOX_WIDTH = 92;
+const BOX_HEIGHT = 46;
+const COLUMN_SPACING = 112;
+const ROW_SPACING = 58;
+
+function fmt(x: number): string {
+  return x === 0 ? '0' : Math.abs(x) < 1e-3 || Math.abs(x) >= 1e3 ? x.toExponential(1) : x.toFixed(3);
+}
+
+function summary(values: Float64Array, max: number): string {
+  const shown = Array.from(values.subarray(0, max), fmt).join(', ');
+  return values.length > max ? `${shown}, …` : shown;
+}
+
+/**
+ * Column of each node: operations sit one column right of their latest
+ * input; leaves (inputs, parameters) sit just left of their first consumer
+ */
+function layoutColumns(order: Node[]): Map<number, number> {
+  const column = new Map<number, number>();
+  for (const node of order) {
+    column.set(node.id, node.inputs.length === 0 ? 0 : Math.max(...node.inputs.map(i => column.get(i.id)! + 1)));
+  }
+  for (const node of order) {
+    for (const input of node.inputs) {
+      if (input.inputs.length === 0 && input.op !== 'input') {
+        column.set(input.id, Math.max(0, column.get(node.id)! - 1));
+      }
+    }
+  }
+  return column;
+}
+
+/**
+ * The recorded computation graph of one sample: each node's value and its
+ * upstream gradient ∂L/∂node. Click a node for all of its entries.
+ */
+export function ComputationGraphView({ graph, root }: ComputationGraphViewProps) {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { order, positions, width, height } = useMemo(() => {
+    const order = graph.topologicalOrder(root);
+    const column = layoutColumns(order);
+    const rowCount = new Map<number, number>();
+    const positions = new Map<number, { x: number; y: number }>();
+    for (const node of order) {
+      const c = column.get(node.id)!;
+      const r = rowCount.get(c) ?? 0;
+      rowCount.set(c, r + 1);
+      positions.set(node.id, { x: 8 + c * COLUMN_SPACING, y: 8 + r * ROW_SPACING });
+    }
+    const columns = Math.max(...column.values()) + 1;
+    const rows = Math.max(...rowCount.values());
+    return {
+      order,
+      positions,
+      width: 16 + (columns - 1) * COLUMN_SPACING + BOX_WIDTH,
+      height: 16 + (rows - 1) * ROW_SPACING + BOX_HEIGHT,
+    };
+  }, [graph, root]);
+
+  const selected = order.find(n => n.id === selectedId) ?? null;
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full bg-white rounded border border-red-100">
+        {order.flatMap(node =>
+          node.inputs.map(input => {
+            const from = positions.get(input.id)!;
+            const to = positions.get(node.id)!;
+            return (
+              <line
+                key={`${input.id}-${node.id}`}
+                x1={from.x + BOX_WIDTH}
+                y1={from.y + BOX_HEIGHT / 2}
+                x2={to.x}
+                y2={to.y + BOX_HEIGHT / 2}
+                stroke="#9ca3af"
+                strokeWidth={1}
+              />
+            );
+          })
+        )}
+        {order.map(node => {
+          const { x, y } = positions.get(node.id)!;
+          const colors = OP_COLORS[node.op];
+          return (
+            <g
+              key={node.id}
+              onClick={() => setSelectedId(node.id === selectedId ? null : node.id)}
+              className="cursor-pointer"
+            >
+              <title>{`${node.label} = ${node.description} (${node.rows}×${node.cols})`}</title>
+              <rect
+                x={x}
+                y={y}
+                width={BOX_WIDTH}
+                height={BOX_HEIGHT}
+                rx={5}
+                fill={colors.fill}
+                stroke={colors.stroke}
+                strokeWidth={node.id === selectedId ? 2.5 : 1}
+              />
+              <text x={x + 4} y={y + 12} fontSize={10} fontWeight="bold" fill="#111827">
+                {node.label}
+                <tspan fontWeight="normal" fill="#6b7280"> {node.op} {node.rows}×{node.cols}</tspan>
+              </text>
+              <text x={x + 4} y={y + 26} fontSize={9} fontFamily="monospace" fill="#1f2937">
+                v: {summary(node.value, 2)}
+              </text>
+              <text x={x + 4} y={y + 39} fontSize={9} fontFamily="monospace" fill="#b91c1c">
+                ∂: {summary(node.grad, 2)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      {selected ? (
+        <div className="bg-white p-2 rounded border border-red-100 font-mono text-[11px] space-y-1">
+          <p className="font-bold text-red-800">
+            {selected.label} = {selected.description}
+            <span className="font-normal text-gray-500"> ({selected.rows}×{selected.cols})</span>
+          </p>
+          <p>value = [{summary(selected.value, 16)}]</p>
+          {selected.localGrad && (
+            <p className="text-orange-700">local gradient ∂{selected.label}/∂{selected.inputs[0].label} = [{summary(selected.localGrad, 16)}]</p>
+          )}
+          <p className="text-red-700">upstream gradient ∂L/∂{selected.label} = [{summary(selected.grad, 16)}]</p>
+          {selected.inputs.length > 0 && (
+            <p className="text-gray-500">inputs: {selected.inputs.map(i => i.label).join(', ')}</p>
+          )}
+        </div>
+      ) : (
+        <p className="text-[10px] text-gray-500">
+          v = value, ∂ = upstream gradient ∂L/∂node. Backward visits the nodes right to left, each adding its
+          upstream gradient times its local gradient into its inputs. Click a node for details.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,54 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import type { Network, NetworkState } from '../network/Network';
-import { sigmoid } from '../network/functions';
+import { getActivation } from '../network/activations';
+import type { ActivationName } from '../network/activations';
+import { getLoss, applyLink } from '../network/losses';
+import { targetClass } from '../network/classification';
+import type { LossName } from '../network/losses';
+import { Optimizer, previewUpdate } from '../network/optimizers';
+import type { OptimizerName, OptimizerHyperparams, OptimizerState } from '../network/optimizers';
+import { regularizationPenalty, regularizationGradient } from '../network/regularization';
+import type { RegularizationConfig } from '../network/regularization';
+import { getSchedule } from '../network/schedules';
+import type { ScheduleConfig } from '../network/schedules';
+import { LAYER_TYPE_LABELS, layerBlocks } from '../network/layers';
+import type { LayerState } from '../network/layers';
+import { ComputationGraphView } from './ComputationGraphView';
+
+// Plug prediction p and target y into the loss formula
+function lossSubstitution(name: LossName, p: number, y: number): string | null {
+  const ps = p.toFixed(4);
+  switch (name) {
+    case 'bce':
+      return `L = -[${y}·ln(${ps}) + ${1 - y}·ln(${(1 - p).toFixed(4)})]`;
+    case 'mse':
+      return `L = (${ps} - ${y})²`;
+    case 'mae':
+    case 'huber':
+      return `|p - y| = |${ps} - ${y}| = ${Math.abs(p - y).toFixed(4)}`;
+    default:
+      return null;
+  }
+}
 
 interface ComputationPanelProps {
   network: Network;
   state: NetworkState;
   currentInput: number[];
   currentTarget: number[];
+  optimizerState: OptimizerState;
+  optimizerName: OptimizerName;
+  optimizerHyperparams: OptimizerHyperparams;
+  learningRate: number;      // effective rate of the next update
+  baseLearningRate: number;  // rate before the schedule is applied
+  schedule: ScheduleConfig;
+  regularization: RegularizationConfig;
+  confidencePenalty: number;
+}
+
+// Format a number compactly (scientific for very small magnitudes)
+function fmt(x: number): string {
+  return Math.abs(x) < 1e-3 && x !== 0 ? x.toExponential(2) : x.toFixed(4);
 }
 
 export function ComputationPanel({
@@ -14,6 +56,14 @@ export function ComputationPanel({
   state,
   currentInput,
   currentTarget,
+  optimizerState,
+  optimizerName,
+  optimizerHyperparams,
+  learningRate,
+  baseLearningRate,
+  schedule,
+  regularization,
+  confidencePenalty,
 }: ComputationPanelProps) {
   const [showGlossary, setShowGlossary] = useState(false);
   const [showForward, setShowForward] = useState(true);
@@ -22,25 +72,156 @@ export function ComputationPanel({
   const [showUpdate, setShowUpdate] = useState(true);
 
   // Use the state's stored values (these reflect the selected input)
-  const output = sigmoid(state.activations[state.activations.length - 1]) as number[];
+  const lossFn = getLoss(state.lossName);
+  const rawOutput = state.activations[state.activations.length - 1];
+  const output = applyLink(lossFn.link, rawOutput);
   const prediction = output[0];
   const target = currentTarget[0];
+  // Several output units: show vectors (and the softmax Jacobian) instead of scalars
+  const multiOutput = rawOutput.length > 1;
+  const targetLabel = targetClass(currentTarget);
+  const vec = (values: number[], digits = 3) => `[${values.map(v => v.toFixed(digits)).join(', ')}]`;
+  const linkSymbol = lossFn.link === 'sigmoid' ? 'σ' : lossFn.link === 'softmax' ? 'softmax' : '';
 
   // Compute loss
-  const eps = 1e-7;
-  const p = Math.max(eps, Math.min(1 - eps, prediction));
-  const loss = -(target * Math.log(p) + (1 - target) * Math.log(1 - p));
+  const loss = lossFn.value(rawOutput, currentTarget);
+
+  // Recorded graph of this sample's forward and backward pass
+  const graph = useMemo(
+    () => network.computationGraph(currentInput, currentTarget, confidencePenalty),
+    [network, currentInput, currentTarget, confidencePenalty]
+  );
 
   // For displaying gradients, use the stored gradients from state
   const weightGrads = state.weightGrads;
-  const biasGrads = state.biasGrads;
+
+  // Preview the next update of w[0][0] with the selected optimizer
+  // (normalizing through Optimizer discards state left over from a different optimizer)
+  const optimizer = new Optimizer(optimizerName, optimizerHyperparams, optimizerState);
+  const exampleWeight = state.weights[0]?.[0]?.[0] ?? 0;
+  const exampleGrad = weightGrads[0]?.[0]?.[0] ?? 0;
+  const update = previewUpdate(
+    optimizer.getState(),
+    optimizer.hyperparams,
+    learningRate,
+    exampleWeight,
+    exampleGrad,
+    network.weightIndex(0, 0, 0)
+  );
+
+  // Regularization term and its effect on the example weight
+  const hasPenalty = regularization.l1 > 0 || regularization.l2 > 0;
+  const penalty = regularizationPenalty(state.weights, regularization);
+  const decayedWeight = update.value * (1 - learningRate * regularization.weightDecay);
+
+  // One layer of the forward pass, shown according to its type
+  const renderLayer = (layer: LayerState, layerIdx: number, isOutputLayer: boolean) => {
+    const input = layer.cache.input ?? [];
+    const out = layer.cache.output ?? [];
+    const more = out.length > 2 && <p className="text-gray-400">... ({out.length - 2} more)</p>;
+
+    switch (layer.type) {
+      case 'dense': {
+        const w = state.weights[layerIdx - 1];
+        const b = state.biases[layerIdx - 1];
+        return (
+          <>
+            <p className="text-gray-500">z = W·a + b</p>
+            {out.slice(0, 2).map((zVal, j) => {
+              const terms = input.map((aVal, i) => `${aVal.toFixed(2)}×${w[i][j].toFixed(2)}`).join(' + ');
+              return (
+                <p key={j}>
+                  z[{j}] = ({terms}) + {b[j].toFixed(2)} = <span className="font-bold text-blue-700">{zVal.toFixed(3)}</span>
+                </p>
+              );
+            })}
+            {more}
+          </>
+        );
+      }
+      case 'layerNorm':
+      case 'batchNorm': {
+        const [gamma, beta] = layer.parameters;
+        const { mean = [], variance = [] } = layer.cache;
+        const epsilon = Number(layer.config.epsilon);
+        // LayerNorm has one mean/variance per sample, BatchNorm one per unit
+        const stat = (values: number[], j: number) => (values.length === 1 ? values[0] : values[j]) ?? 0;
+        return (
+          <>
+            <p className="text-gray-500 mt-1">
+              n = γ·(z - μ) / √(σ² + ε) + β,{' '}
+              {layer.type === 'layerNorm'
+                ? 'μ and σ² over this sample\'s units'
+                : 'μ and σ² per unit over the batch (running averages outside training)'}
+            </p>
+            {out.slice(0, 2).map((nVal, j) => (
+              <p key={j}>
+                n[{j}] = {state.params[gamma.offset + j].toFixed(2)}×({input[j].toFixed(3)} - {stat(mean, j).toFixed(3)})
+                {' / √'}{(stat(variance, j) + epsilon).toFixed(3)} + {state.params[beta.offset + j].toFixed(2)} ={' '}
+                <span className="font-bold text-cyan-700">{nVal.toFixed(3)}</span>
+              </p>
+            ))}
+            {more}
+          </>
+        );
+      }
+      case 'activation': {
+        const act = getActivation(layer.config.activation as ActivationName);
+        // Hidden activations see the normalized n when the network normalizes
+        const arg = state.normalization !== 'none' && !isOutputLayer ? 'n' : 'z';
+        const outputExpr = act.name === 'identity' ? `${linkSymbol}(z)` : `${linkSymbol}(${act.formula('z')})`;
+        if (isOutputLayer) {
+          return (
+            <>
+              <p className="text-gray-500 mt-1">a = {outputExpr}</p>
+              {multiOutput ? (
+                <p>
+                  {linkSymbol || act.label}({vec(input)}) = <span className="font-bold text-orange-700">{vec(output, 4)}</span>
+                </p>
+              ) : (
+                <p>
+                  {act.name === 'identity'
+                    ? `${linkSymbol}(${input[0].toFixed(3)})`
+                    : `${linkSymbol}(${act.formula(input[0].toFixed(3))})`} = <span className="font-bold text-orange-700">{output[0].toFixed(4)}</span>
+                </p>
+              )}
+            </>
+          );
+        }
+        return (
+          <>
+            <p className="text-gray-500 mt-1">a = {act.label}({arg})</p>
+            {out.slice(0, 2).map((aVal, j) => (
+              <p key={j}>
+                {act.formula(input[j].toFixed(3))} = <span className="font-bold text-green-700">{aVal.toFixed(3)}</span>
+              </p>
+            ))}
+          </>
+        );
+      }
+      case 'dropout':
+        // Only shown when units were dropped on the last forward pass
+        return layer.cache.mask ? (
+          <>
+            <p className="text-gray-500 mt-1">
+              a' = a ⊙ mask (0 = dropped, 1/(1-p) = kept): [{layer.cache.mask.map(m => m.toFixed(2)).join(', ')}]
+            </p>
+            {out.slice(0, 2).map((aVal, j) => (
+              <p key={j}>
+                {input[j].toFixed(3)} × {layer.cache.mask[j].toFixed(2)} = <span className="font-bold text-green-700">{aVal.toFixed(3)}</span>
+              </p>
+            ))}
+          </>
+        ) : null;
+    }
+  };
 
   return (
     <div className="text-sm">
       <div className="flex items-center justify-between mb-2">
         <h2 className="text-lg font-bold">Step-by-Step Math</h2>
         <div className="text-xs bg-blue-100 px-2 py-1 rounded">
-          Input: [{currentInput.join(', ')}] → Target: {target}
+          Input: [{currentInput.join(', ')}] → Target: {multiOutput ? `class ${targetLabel}` : target}
         </div>
       </div>
 
@@ -84,49 +265,24 @@ export function ComputationPanel({
 
           {showForward && (
             <div className="px-2 pb-2 space-y-2">
-              {network.layerSizes.map((_, layerIdx) => {
-                if (layerIdx === 0) return null;
-
-                const w = state.weights[layerIdx - 1];
-                const b = state.biases[layerIdx - 1];
-                const prevActivation = state.activations[layerIdx - 1];
-                const z = state.preActivations[layerIdx - 1];
-                const a = state.activations[layerIdx];
+              {layerBlocks(state.layers).map((block, b) => {
+                const layerIdx = b + 1;
                 const isOutputLayer = layerIdx === network.layerSizes.length - 1;
 
                 return (
                   <div key={layerIdx} className="bg-white p-2 rounded border border-blue-100 text-xs">
                     <p className="font-bold text-blue-900 mb-1">
                       Layer {layerIdx} {isOutputLayer ? '(Output)' : '(Hidden)'}
+                      <span className="font-normal text-gray-500"> {block.map(layer => LAYER_TYPE_LABELS[layer.type]).join(' → ')}</span>
                     </p>
 
-                    {/* Show one example computation, then summarize */}
+                    {/* Each layer's computation, one or two example units per layer */}
                     <div className="font-mono text-gray-700 space-y-1">
-                      <p className="text-gray-500">z = W·a + b</p>
-                      {z.slice(0, 2).map((zVal, j) => {
-                        const terms = prevActivation.map((aVal, i) =>
-                          `${aVal.toFixed(2)}×${w[i][j].toFixed(2)}`
-                        ).join(' + ');
-                        return (
-                          <p key={j}>
-                            z[{j}] = ({terms}) + {b[j].toFixed(2)} = <span className="font-bold text-blue-700">{zVal.toFixed(3)}</span>
-                          </p>
-                        );
-                      })}
-                      {z.length > 2 && <p className="text-gray-400">... ({z.length - 2} more)</p>}
-
-                      <p className="text-gray-500 mt-1">
-                        a = {isOutputLayer ? 'σ(z)' : 'ReLU(z)'}
-                      </p>
-                      {isOutputLayer ? (
-                        <p>σ({z[0].toFixed(3)}) = <span className="font-bold text-orange-700">{output[0].toFixed(4)}</span></p>
-                      ) : (
-                        a.slice(0, 2).map((aVal, j) => (
-                          <p key={j}>
-                            max(0, {z[j].toFixed(3)}) = <span className="font-bold text-green-700">{aVal.toFixed(3)}</span>
-                          </p>
-                        ))
-                      )}
+                      {block.map(layer => (
+                        <div key={layer.label} className="space-y-1">
+                          {renderLayer(layer, layerIdx, isOutputLayer)}
+                        </div>
+                      ))}
                     </div>
                   </div>
                 );
@@ -141,17 +297,36 @@ export function ComputationPanel({
             onClick={() => setShowLoss(!showLoss)}
             className="w-full px-2 py-1 text-left font-bold text-green-700 flex items-center justify-between"
           >
-            <span>📊 Loss (BCE)</span>
+            <span>📊 Loss ({lossFn.label})</span>
             <span className="text-green-400 text-xs">{showLoss ? '▼' : '▶'}</span>
           </button>
 
           {showLoss && (
             <div className="px-2 pb-2 text-xs">
               <div className="bg-white p-2 rounded border border-green-100 font-mono space-y-1">
-                <p className="text-gray-600">L = -[y·ln(p) + (1-y)·ln(1-p)]</p>
-                <p>y = {target}, p = {prediction.toFixed(4)}</p>
-                <p>L = -[{target}·ln({prediction.toFixed(4)}) + {1-target}·ln({(1-prediction).toFixed(4)})]</p>
+                <p className="text-gray-600">{lossFn.formula}</p>
+                {multiOutput ? (
+                  <>
+                    <p>y = {vec(currentTarget, 0)}, p = {vec(output, 4)}</p>
+                    {lossFn.name === 'softmaxCrossEntropy' && (
+                      <p>L = -ln(p_{targetLabel}) = -ln({output[targetLabel].toFixed(4)})</p>
+                    )}
+                  </>
+                ) : (
+                  <p>y = {target}, p = {prediction.toFixed(4)}</p>
+                )}
+                {!multiOutput && lossSubstitution(lossFn.name, prediction, target) && (
+                  <p>{lossSubstitution(lossFn.name, prediction, target)}</p>
+                )}
                 <p className="font-bold text-green-700">L = {loss.toFixed(4)}</p>
+                {hasPenalty && (
+                  <div className="mt-1 pt-1 border-t border-green-100 space-y-1">
+                    <p className="text-gray-600">R = λ₁·Σ|w| + (λ₂/2)·Σw², λ₁ = {regularization.l1}, λ₂ = {regularization.l2}</p>
+                    <p>R = <span className="font-bold text-green-700">{fmt(penalty)}</span></p>
+                    <p className="font-bold text-green-700">L + R = {(loss + penalty).toFixed(4)}</p>
+                    <p className="text-gray-500 text-[10px]">(R is added once per update, not per sample; biases are not penalized)</p>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -169,87 +344,76 @@ export function ComputationPanel({
 
           {showBackward && (
             <div className="px-2 pb-2 space-y-2 text-xs">
-              {/* Step 1: Output layer error */}
+              {/* Loss gradient: where backpropagation starts */}
               <div className="bg-white p-2 rounded border border-red-100">
-                <p className="font-bold text-red-800 mb-1">Step 1: Output Error (δ_output)</p>
-                <p className="text-gray-600 mb-1">For BCE + sigmoid, the gradient simplifies to:</p>
-                <div className="font-mono space-y-1 bg-red-50 p-1 rounded">
-                  <p>δ_out = ∂L/∂z_out = p - y</p>
-                  <p>δ_out = {prediction.toFixed(4)} - {target} = <span className="font-bold text-red-700">{(prediction - target).toFixed(4)}</span></p>
-                </div>
-                <p className="text-gray-500 mt-1 text-[10px]">
-                  (This comes from chain rule: ∂L/∂p × ∂p/∂z = [-y/p + (1-y)/(1-p)] × [σ(z)(1-σ(z))] = p - y)
+                <p className="font-bold text-red-800 mb-1">Loss Gradient</p>
+                <p className="text-gray-600 mb-1">
+                  Backpropagation starts from ∂L/∂L = 1. For {lossFn.label}{lossFn.link === 'sigmoid' ? ' + sigmoid' : ''}, the gradient with respect to the raw output is:
                 </p>
-              </div>
-
-              {/* Step 2: Output layer gradients */}
-              <div className="bg-white p-2 rounded border border-red-100">
-                <p className="font-bold text-red-800 mb-1">Step 2: Output Layer Weight Gradients</p>
-                <p className="text-gray-600 mb-1">Each weight gradient = input activation × δ</p>
-
-                <div className="font-mono space-y-1">
-                  <p className="text-gray-500">∂L/∂w[i][0] = a[i] × δ_out</p>
-                  {state.activations[state.activations.length - 2]?.slice(0, 3).map((aVal, i) => {
-                    const grad = weightGrads[weightGrads.length - 1]?.[i]?.[0] ?? 0;
-                    return (
-                      <p key={i}>
-                        ∂L/∂w[{i}][0] = {aVal.toFixed(3)} × {(prediction - target).toFixed(4)} = <span className="font-bold text-red-700">{grad.toFixed(4)}</span>
-                      </p>
-                    );
-                  })}
-                  {(state.activations[state.activations.length - 2]?.length ?? 0) > 3 && (
-                    <p className="text-gray-400">... (more weights)</p>
-                  )}
-                </div>
-
-                <p className="text-gray-600 mt-2 mb-1">Bias gradient = δ directly:</p>
-                <div className="font-mono">
-                  <p>∂L/∂b[0] = δ_out = <span className="font-bold text-red-700">{(biasGrads[biasGrads.length - 1]?.[0] ?? 0).toFixed(4)}</span></p>
+                <div className="font-mono bg-red-50 p-1 rounded">
+                  <p>{lossFn.gradientFormula}</p>
                 </div>
+                {lossFn.name === 'bce' && (
+                  <p className="text-gray-500 mt-1 text-[10px]">
+                    (This comes from chain rule: ∂L/∂p × ∂p/∂z = [-y/p + (1-y)/(1-p)] × [σ(z)(1-σ(z))] = p - y)
+                  </p>
+                )}
               </div>
 
-              {/* Step 3: Backpropagate to hidden layer */}
-              {weightGrads.length > 1 && (
+              {/* Softmax Jacobian: how each probability depends on each logit */}
+              {lossFn.link === 'softmax' && (
                 <div className="bg-white p-2 rounded border border-red-100">
-                  <p className="font-bold text-red-800 mb-1">Step 3: Backpropagate to Hidden Layer</p>
-                  <p className="text-gray-600 mb-1">Propagate error through weights, apply ReLU gradient:</p>
-
-                  <div className="font-mono space-y-1 bg-red-50 p-1 rounded mb-2">
-                    <p>δ_hidden[j] = (Σ w[j][k] × δ_next[k]) × ReLU'(z[j])</p>
-                    <p className="text-gray-500 text-[10px]">where ReLU'(z) = 1 if z &gt; 0, else 0</p>
-                  </div>
-
-                  <p className="text-gray-600 mb-1">For each hidden node:</p>
-                  <div className="font-mono space-y-1">
-                    {state.preActivations[0]?.slice(0, 3).map((zVal, j) => {
-                      const w_to_output = state.weights[1]?.[j]?.[0] ?? 0;
-                      const delta_out = prediction - target;
-                      const relu_grad = zVal > 0 ? 1 : 0;
-                      const delta_hidden = w_to_output * delta_out * relu_grad;
-                      return (
-                        <p key={j}>
-                          δ[{j}] = {w_to_output.toFixed(3)} × {delta_out.toFixed(4)} × {relu_grad} = <span className="font-bold text-red-700">{delta_hidden.toFixed(4)}</span>
-                        </p>
-                      );
-                    })}
-                  </div>
+                  <p className="font-bold text-red-800 mb-1">Softmax Jacobian</p>
+                  <p className="text-gray-600 mb-1">
+                    Each probability depends on every logit: ∂p_i/∂z_j = p_i(δ_ij - p_j). Chaining ∂L/∂p_i = -y_i/p_i
+                    through it collapses to p - y.
+                  </p>
+                  <table className="font-mono text-[10px] mb-1">
+                    <thead>
+                      <tr className="text-gray-500">
+                        <th className="pr-2 font-normal">∂p_i/∂z_j</th>
+                        {output.map((_, j) => <th key={j} className="px-1 font-normal">j={j}</th>)}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {output.map((pi, i) => (
+                        <tr key={i}>
+                          <td className="pr-2 text-gray-500">i={i}</td>
+                          {output.map((pj, j) => (
+                            <td key={j} className={`px-1 text-right ${i === j ? 'font-bold' : ''}`}>
+                              {(pi * ((i === j ? 1 : 0) - pj)).toFixed(3)}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="font-mono">
+                    δ_out = p - y = <span className="font-bold text-red-700">{vec(output.map((p, k) => p - currentTarget[k]), 4)}</span>
+                  </p>
                 </div>
               )}
 
-              {/* Step 4: Hidden layer weight gradients */}
-              {weightGrads.length > 1 && (
-                <div className="bg-white p-2 rounded border border-red-100">
-                  <p className="font-bold text-red-800 mb-1">Step 4: Hidden Layer Weight Gradients</p>
-                  <p className="text-gray-600 mb-1">Same formula: input × δ</p>
+              {/* Computation graph: every node's value and upstream gradient */}
+              <div className="bg-white p-2 rounded border border-red-100">
+                <p className="font-bold text-red-800 mb-1">Computation Graph</p>
+                <p className="text-gray-600 mb-1">
+                  Each node passes ∂L/∂node × its local gradient back to its inputs (chain rule). The W and b
+                  nodes' gradients are the weight and bias gradients used in the update.
+                </p>
+                <ComputationGraphView graph={graph.graph} root={graph.loss} />
+              </div>
 
+              {/* Regularization gradient */}
+              {hasPenalty && state.weights[0]?.[0] && (
+                <div className="bg-white p-2 rounded border border-red-100">
+                  <p className="font-bold text-red-800 mb-1">Regularization Gradient</p>
+                  <p className="text-gray-600 mb-1">Added to every weight gradient after averaging over the batch:</p>
                   <div className="font-mono space-y-1">
-                    <p className="text-gray-500">∂L/∂w[i][j] = a_input[i] × δ_hidden[j]</p>
-                    {/* Show a few example gradients */}
-                    {currentInput.slice(0, 2).map((inputVal, i) => (
-                      <p key={i}>
-                        ∂L/∂w[{i}][0] = {inputVal.toFixed(1)} × δ[0] = <span className="font-bold text-red-700">{(weightGrads[0]?.[i]?.[0] ?? 0).toFixed(4)}</span>
-                      </p>
-                    ))}
+                    <p>∂R/∂w = λ₁·sign(w) + λ₂·w</p>
+                    <p>
+                      ∂R/∂w[0][0] = {regularization.l1}·{Math.sign(exampleWeight)} + {regularization.l2}·{exampleWeight.toFixed(4)} = <span className="font-bold text-red-700">{fmt(regularizationGradient(exampleWeight, regularization))}</span>
+                    </p>
                   </div>
                 </div>
               )}
@@ -278,24 +442,56 @@ export function ComputationPanel({
             onClick={() => setShowUpdate(!showUpdate)}
             className="w-full px-2 py-1 text-left font-bold text-purple-700 flex items-center justify-between"
           >
-            <span>🔄 Weight Update (SGD)</span>
+            <span>🔄 Weight Update ({optimizer.spec.label})</span>
             <span className="text-purple-400 text-xs">{showUpdate ? '▼' : '▶'}</span>
           </button>
 
           {showUpdate && (
             <div className="px-2 pb-2 text-xs">
               <div className="bg-white p-2 rounded border border-purple-100 font-mono space-y-1">
-                <p className="text-gray-600">w_new = w_old - η × ∂L/∂w</p>
-                <p className="text-gray-600">b_new = b_old - η × ∂L/∂b</p>
-                <p className="text-gray-500 mt-1">where η = learning rate (typically 0.1 - 1.0)</p>
+                {optimizer.spec.formula.map((line, i) => (
+                  <p key={i} className="text-gray-600">{line}</p>
+                ))}
+                <p className="text-gray-500 mt-1">
+                  where g = ∂L/∂w, η = {fmt(learningRate)}
+                  {optimizer.spec.hyperparams.map(key => `, ${key} = ${optimizer.hyperparams[key]}`).join('')}
+                </p>
+                <p className="text-gray-500">(biases are updated with the same rule)</p>
+                {schedule.name !== 'constant' && (
+                  <p className="text-gray-600 mt-1">
+                    {getSchedule(schedule.name).label} schedule: {getSchedule(schedule.name).formula}, so
+                    η = {baseLearningRate} × {fmt(learningRate / baseLearningRate)} = <span className="font-bold text-purple-700">{fmt(learningRate)}</span>
+                  </p>
+                )}
 
                 <div className="mt-2 pt-2 border-t border-purple-100">
-                  <p className="text-purple-700 font-bold">Example (one weight):</p>
+                  <p className="text-purple-700 font-bold">Example (next update of w[0][0], t = {update.t}):</p>
                   {state.weights[0]?.[0] && (
                     <>
-                      <p>w[0][0]_old = {state.weights[0][0][0].toFixed(4)}</p>
-                      <p>∂L/∂w[0][0] = {(weightGrads[0]?.[0]?.[0] ?? 0).toFixed(4)}</p>
-                      <p>w[0][0]_new = {state.weights[0][0][0].toFixed(4)} - η × {(weightGrads[0]?.[0]?.[0] ?? 0).toFixed(4)}</p>
+                      <p>w[0][0]_old = {exampleWeight.toFixed(4)}</p>
+                      <p>g = ∂L/∂w[0][0] = {fmt(exampleGrad)}</p>
+                      {Object.keys(update.before).map(slot => (
+                        <p key={slot}>
+                          {slot}: {fmt(update.before[slot])} → <span className="font-bold text-purple-700">{fmt(update.after[slot])}</span>
+                        </p>
+                      ))}
+                      {Object.entries(update.trace).map(([label, value]) => (
+                        <p key={label}>{label} = {fmt(value)}</p>
+                      ))}
+                      <p>
+                        w[0][0]_new = <span className="font-bold text-purple-700">{update.value.toFixed(4)}</span>
+                        <span className="text-gray-500"> (Δ = {fmt(update.value - exampleWeight)})</span>
+                      </p>
+                      {regularization.weightDecay > 0 && (
+                        <p>
+                          decay: w ← w·(1 - η·wd) = {update.value.toFixed(4)}·{(1 - learningRate * regularization.weightDecay).toFixed(4)} = <span className="font-bold text-purple-700">{decayedWeight.toFixed(4)}</span>
+                        </p>
+                      )}
+                      {regularization.maxNorm > 0 && (
+                        <p className="text-gray-500">
+                          then max-norm: each unit's incoming weights are rescaled if ‖w‖ &gt; {regularization.maxNorm}
+                        </p>
+                      )}
                     </>
                   )}
                 </div>
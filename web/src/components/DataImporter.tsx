@@ -0,0 +1,275 @@
+import { useMemo, useRef, useState } from 'react';
+import { SCALING_LABELS, buildDataset, detectColumns, parseTable, suggestMapping } from '../data/importer';
+import type { ColumnInfo, ColumnMapping, ImportedDataset, ParsedTable, Scaling } from '../data/importer';
+import type { DatasetTask } from '../data/datasets';
+
+interface DataImporterProps {
+  inputSize: number;                       // the network's input count
+  importedDatasets: ImportedDataset[];
+  activeId: string | null;                 // imported dataset being trained on
+  onImport: (dataset: ImportedDataset) => void;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+type ColumnRole = 'feature' | 'label' | 'ignore';
+
+const ROLE_LABELS: Record<ColumnRole, string> = {
+  feature: 'Feature',
+  label: 'Label',
+  ignore: 'Ignore',
+};
+
+const MAX_SHOWN_ERRORS = 10;
+
+const EXAMPLE = `x1,x2,label
+0.1,0.2,a
+0.8,0.9,a
+0.2,0.9,b
+0.9,0.1,b`;
+
+interface Parsed {
+  table: ParsedTable;
+  columns: ColumnInfo[];
+}
+
+function roleOf(mapping: ColumnMapping, j: number): ColumnRole {
+  return j === mapping.label ? 'label' : mapping.features.includes(j) ? 'feature' : 'ignore';
+}
+
+/**
+ * Import a dataset from pasted or dropped CSV/JSON: map its columns, pick a
+ * scaling, check the rows, and add it next to the generated datasets.
+ */
+export function DataImporter({ inputSize, importedDatasets, activeId, onImport, onSelect, onRemove }: DataImporterProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState('');
+  const [parsed, setParsed] = useState<Parsed | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [name, setName] = useState('');
+  const [resizeInputs, setResizeInputs] = useState(true);
+  const [dragging, setDragging] = useState(false);
+
+  const loadText = (value: string, fileName?: string) => {
+    setText(value);
+    if (value.trim() === '') {
+      setParsed(null);
+      setParseError(null);
+      setMapping(null);
+      return;
+    }
+    try {
+      const table = parseTable(value);
+      const columns = detectColumns(table);
+      setParsed({ table, columns });
+      setMapping(suggestMapping(columns));
+      setParseError(null);
+      if (fileName) setName(fileName.replace(/\.[^.]+$/, ''));
+    } catch (e) {
+      setParsed(null);
+      setMapping(null);
+      setParseError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const loadFile = async (file: File) => loadText(await file.text(), file.name);
+
+  const datasetName = name.trim() || `Imported ${importedDatasets.length + 1}`;
+  const result = useMemo(
+    () => parsed && mapping ? buildDataset(parsed.table, mapping, datasetName, inputSize, resizeInputs) : null,
+    [parsed, mapping, datasetName, inputSize, resizeInputs]
+  );
+
+  const setRole = (j: number, role: ColumnRole) => {
+    if (!mapping) return;
+    const features = mapping.features.filter(f => f !== j);
+    if (role === 'feature') {
+      setMapping({ ...mapping, features: [...features, j].sort((a, b) => a - b), label: mapping.label === j ? -1 : mapping.label });
+    } else if (role === 'label') {
+      // The previous label column becomes ignored
+      setMapping({ ...mapping, features, label: j });
+    } else {
+      setMapping({ ...mapping, features, label: mapping.label === j ? -1 : mapping.label });
+    }
+  };
+
+  const rowErrors = result?.errors ?? [];
+
+  return (
+    <div className="text-xs space-y-2">
+      <div className="font-medium text-gray-700">Import a dataset (CSV or JSON)</div>
+      <textarea
+        value={text}
+        onChange={(e) => loadText(e.target.value)}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          const file = e.dataTransfer.files[0];
+          if (file) void loadFile(file);
+        }}
+        placeholder={`Paste rows or drop a .csv/.json file here, e.g.\n${EXAMPLE}`}
+        className={`w-full h-24 p-1 font-mono border rounded ${dragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300'}`}
+        spellCheck={false}
+      />
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="px-2 py-0.5 border border-gray-300 rounded bg-white hover:bg-gray-50"
+        >
+          📂 Choose file
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".csv,.tsv,.txt,.json,text/csv,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void loadFile(file);
+            e.target.value = '';
+          }}
+        />
+        {parsed && (
+          <span className="text-gray-500">
+            {parsed.table.rows.length} rows, {parsed.columns.length} columns{parsed.table.hasHeader ? ' (with header)' : ''}
+          </span>
+        )}
+      </div>
+      {parseError && <p className="text-red-600">{parseError}</p>}
+
+      {parsed && mapping && (
+        <>
+          <table className="w-full">
+            <thead>
+              <tr className="text-gray-500 border-b border-gray-200">
+                <th className="text-left font-medium px-1">Column</th>
+                <th className="text-left font-medium px-1">Values</th>
+                <th className="text-left font-medium px-1">Role</th>
+              </tr>
+            </thead>
+            <tbody>
+              {parsed.columns.map((column, j) => (
+                <tr key={j} className="border-b border-gray-100">
+                  <td className="px-1 font-mono">{column.name}</td>
+                  <td className="px-1 text-gray-500">
+                    {column.numeric ? (column.integer ? 'integers' : 'numbers') : 'text'}, {column.distinct} distinct
+                  </td>
+                  <td className="px-1">
+                    <select
+                      value={roleOf(mapping, j)}
+                      onChange={(e) => setRole(j, e.target.value as ColumnRole)}
+                      className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+                    >
+                      {(Object.keys(ROLE_LABELS) as ColumnRole[]).map((role) => (
+                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div className="flex items-center gap-2 flex-wrap">
+            <label className="flex items-center gap-1">
+              <span className="text-gray-500">Task:</span>
+              <select
+                value={mapping.task}
+                onChange={(e) => setMapping({ ...mapping, task: e.target.value as DatasetTask })}
+                className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+                title="Classification takes each distinct label as a class; regression fits the label's value (rescaled to [0, 1])"
+              >
+                <option value="classification">Classification</option>
+                <option value="regression">Regression</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              <span className="text-gray-500">Features:</span>
+              <select
+                value={mapping.scaling}
+                onChange={(e) => setMapping({ ...mapping, scaling: e.target.value as Scaling })}
+                className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+              >
+                {(Object.keys(SCALING_LABELS) as Scaling[]).map((s) => (
+                  <option key={s} value={s}>{SCALING_LABELS[s]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              <span className="text-gray-500">Name:</span>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={datasetName}
+                className="w-28 px-1 py-0.5 border border-gray-300 rounded"
+              />
+            </label>
+            <label
+              className="flex items-center gap-1"
+              title={`The network has ${inputSize} input${inputSize === 1 ? '' : 's'}; allow a different feature count by resizing its input layer`}
+            >
+              <input type="checkbox" checked={resizeInputs} onChange={(e) => setResizeInputs(e.target.checked)} />
+              <span className="text-gray-500">Resize input layer to fit</span>
+            </label>
+          </div>
+
+          {result?.dataset && (
+            <p className="text-gray-600">
+              {result.dataset.points.length} valid rows, {result.dataset.featureNames.length} features
+              {result.dataset.task === 'classification' && `, classes: ${result.dataset.classNames.join(', ')}`}
+              {result.dataset.featureNames.length !== inputSize && ` (input layer: ${inputSize} → ${result.dataset.featureNames.length})`}
+            </p>
+          )}
+          {rowErrors.length > 0 && (
+            <ul className="text-red-600 space-y-0.5">
+              {rowErrors.slice(0, MAX_SHOWN_ERRORS).map((error, i) => (
+                <li key={i}>{error.row > 0 ? `Row ${error.row}: ` : ''}{error.message}</li>
+              ))}
+              {rowErrors.length > MAX_SHOWN_ERRORS && <li>…and {rowErrors.length - MAX_SHOWN_ERRORS} more</li>}
+              {result?.dataset && <li className="text-gray-500">Rows with errors are left out.</li>}
+            </ul>
+          )}
+          <button
+            onClick={() => result?.dataset && onImport(result.dataset)}
+            disabled={!result?.dataset}
+            className="px-2 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:opacity-50"
+            title="Keep this dataset for the session and train on it (resets training)"
+          >
+            ➕ Add dataset and train on it
+          </button>
+        </>
+      )}
+
+      {importedDatasets.length > 0 && (
+        <div className="space-y-1">
+          <div className="font-medium text-gray-700">Imported datasets</div>
+          {importedDatasets.map((d) => (
+            <div
+              key={d.id}
+              className={`flex items-center gap-2 px-1 py-0.5 rounded ${d.id === activeId ? 'bg-blue-50' : ''}`}
+            >
+              <span className="font-medium">{d.name}</span>
+              <span className="text-gray-500">
+                {d.points.length} rows, {d.featureNames.length} features,{' '}
+                {d.task === 'classification' ? `${d.classNames.length} classes` : 'regression'}
+              </span>
+              {d.id === activeId ? (
+                <span className="text-blue-600 ml-auto">in use</span>
+              ) : (
+                <button onClick={() => onSelect(d.id)} className="ml-auto text-blue-600 hover:underline">use</button>
+              )}
+              <button onClick={() => onRemove(d.id)} className="text-red-600 hover:underline">remove</button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,29 +1,35 @@
+import { formatInput } from '../data/datasets';
+import type { DatasetTask, EvalPoint } from '../data/datasets';
 
 interface DataSelectorProps {
   selectedIdx: number;
-  data: Array<{ input: number[]; target: number[] }>;
+  data: EvalPoint[];
+  task: DatasetTask;
   onSelect: (idx: number) => void;
 }
 
-export function DataSelector({ selectedIdx, data, onSelect }: DataSelectorProps) {
+export function DataSelector({ selectedIdx, data, task, onSelect }: DataSelectorProps) {
   return (
     <div className="bg-white p-4 rounded-lg shadow-lg">
       <h3 className="text-sm font-bold mb-2">Training Examples</h3>
       <div className="flex flex-wrap gap-2">
-        {data.map((item, idx) => (
-          <button
-            key={idx}
-            onClick={() => onSelect(idx)}
-            className={`px-3 py-1 rounded text-xs font-mono transition-colors ${
-              selectedIdx === idx
-                ? 'bg-blue-500 text-white'
-                : 'bg-gray-100 hover:bg-gray-200'
-            }`}
-            title={`Input: [${item.input.join(', ')}] → Target: ${item.target[0]}`}
-          >
-            [{item.input.join(',')}] → {item.target[0]}
-          </button>
-        ))}
+        {data.map((item, idx) => {
+          const target = task === 'regression' ? item.target[0].toFixed(3) : String(item.label);
+          return (
+            <button
+              key={idx}
+              onClick={() => onSelect(idx)}
+              className={`px-3 py-1 rounded text-xs font-mono transition-colors ${
+                selectedIdx === idx
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-100 hover:bg-gray-200'
+              }`}
+              title={`Input: [${item.input.join(', ')}] → Target: ${target}`}
+            >
+              [{formatInput(item.input)}] → {target}
+            </button>
+          );
+        })}
       </div>
     </div>
   );
@@ -1,40 +1,199 @@
-import type { DataPoint } from '../hooks/useTraining';
+import { useId, useMemo, useRef, useState } from 'react';
+import type { PointerEvent } from 'react';
+import type { CleanPoint, DataPoint, EvalPoint } from '../data/datasets';
+import type { DataEdit } from '../data/edits';
+import type { Network } from '../network/Network';
+import { contourSegments, probabilityGrid } from '../network/boundary';
+import type { DataSpec } from '../training/session';
+import { classColor } from './classColors';
 
 interface DataVisualizationProps {
   data: DataPoint[];
+  spec: DataSpec;
+  evalData: EvalPoint[];   // canonical points, marked in the scatter plot
+  validationData?: DataPoint[];  // held-out points, drawn hollow in the scatter plot
   compact?: boolean;
+  onEdit?: (edit: DataEdit) => void;  // makes the scatter plot's training points editable
+  network?: Network;       // its predicted probabilities are shaded under the scatter plot
 }
 
-export function DataVisualization({ data, compact = false }: DataVisualizationProps) {
+// A point being dragged, at its plot position
+interface Drag {
+  index: number;
+  x: number;
+  y: number;
+  moved: boolean;
+}
+
+// Pointer travel (in plot pixels) that turns a click on a point into a drag
+const DRAG_THRESHOLD = 3;
+
+const REGRESSION_COLOR = '#2563eb';
+const BOUNDARY_COLOR = '#111827';
+// Opacity of a heatmap cell the network is certain about
+const MAX_SHADE = 0.45;
+const SUBSCRIPTS = '₀₁₂₃₄₅₆₇₈₉';
+
+// Range of the values along one plot axis, including [0, 1]
+function axisRange(values: number[]): [number, number] {
+  return [Math.min(0, ...values), Math.max(1, ...values)];
+}
+
+export function DataVisualization({
+  data, spec, evalData, validationData = [], compact = false, onEdit, network,
+}: DataVisualizationProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const clipId = useId();
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [newClass, setNewClass] = useState(0);
   const noisyCount = data.filter(d => d.isNoisy).length;
+  const regression = spec.task === 'regression';
+  // Points can only be placed by clicking when the plot shows all of their inputs
+  const editable = onEdit !== undefined && spec.inputSize <= 2;
+  // Class of added points (the selection may be left over from a dataset with more classes)
+  const addClass = Math.min(newClass, spec.numClasses - 1);
+  // Plot position of a point: its first two inputs, its input against its target for regression,
+  // or its input alone (centred vertically)
+  const coords = (input: number[], target: number[]) =>
+    regression ? [input[0], target[0]] : [input[0], input.length > 1 ? input[1] : 0.5];
+  const plotted = [...data, ...validationData, ...evalData].map(d => coords(d.input, d.target));
+  const [xMin, xMax] = axisRange(plotted.map(c => c[0]));
+  const [yMin, yMax] = axisRange(plotted.map(c => c[1]));
+
+  // The network's class probabilities over the plotted square, when the plot shows all of its inputs
+  // (and until a reset, the network may still be sized for another dataset)
+  const boundary = useMemo(() => {
+    if (!compact || !network || regression || spec.inputSize > 2 || network.layerSizes[0] !== spec.inputSize) return null;
+    const grid = probabilityGrid(network, [xMin, xMax], [yMin, yMax], spec.inputSize);
+    // Two classes share one boundary; otherwise each class's 0.5 contour is drawn
+    const classes = spec.numClasses === 2 ? [1] : Array.from({ length: spec.numClasses }, (_, k) => k);
+    const segments = classes.flatMap(k =>
+      contourSegments(grid.probabilities.map(p => p[k] ?? 0), grid.xs, grid.ys, 0.5));
+    return { grid, segments };
+  }, [compact, network, regression, spec.inputSize, spec.numClasses, xMin, xMax, yMin, yMax]);
 
   if (compact) {
     // Scatter plot view
-    const size = 150;
+    const size = editable ? 260 : 150;
     const padding = 10;
     const plotSize = size - 2 * padding;
+    const toX = (x: number) => padding + ((x - xMin) / (xMax - xMin)) * plotSize;
+    const toY = (y: number) => padding + (1 - (y - yMin) / (yMax - yMin)) * plotSize; // flip y
+
+    // Plot position under the pointer, kept inside the plotted range
+    const pointerPosition = (e: PointerEvent): [number, number] => {
+      const rect = svgRef.current!.getBoundingClientRect();
+      const sx = ((e.clientX - rect.left) / rect.width) * size;
+      const sy = ((e.clientY - rect.top) / rect.height) * size;
+      const clamp = (v: number) => Math.max(0, Math.min(1, v));
+      return [
+        xMin + clamp((sx - padding) / plotSize) * (xMax - xMin),
+        yMin + clamp(1 - (sy - padding) / plotSize) * (yMax - yMin),
+      ];
+    };
+    // At least one training point has to be left to train on
+    const canDelete = data.length > 1;
+    // The data point at a plot position (its label, or its target for regression)
+    const pointAt = ([x, y]: [number, number], label: number): CleanPoint =>
+      regression ? { input: [x], y } : { input: spec.inputSize > 1 ? [x, y] : [x], y: label };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!drag) return;
+      const [x, y] = pointerPosition(e);
+      const point = data[drag.index];
+      const [ox, oy] = coords(point.input, point.target);
+      const moved = drag.moved || Math.hypot(toX(x) - toX(ox), toY(y) - toY(oy)) > DRAG_THRESHOLD;
+      setDrag({ ...drag, x, y: spec.inputSize > 1 || regression ? y : drag.y, moved });
+    };
+
+    const handlePointerUp = () => {
+      if (!drag || !onEdit) return;
+      const point = data[drag.index];
+      if (drag.moved) {
+        onEdit({ kind: 'move', index: drag.index, point: pointAt([drag.x, drag.y], point.label) });
+      } else if (!regression) {
+        // A click flips the label to the next class
+        onEdit({ kind: 'relabel', index: drag.index, y: (point.label + 1) % spec.numClasses });
+      }
+      setDrag(null);
+    };
 
     return (
       <div className="bg-white rounded border border-gray-200 p-2">
         <div className="text-xs font-medium text-gray-600 mb-1">
-          Training Data ({data.length} pts, {noisyCount} noisy)
+          Training Data ({data.length} pts, {noisyCount} noisy{validationData.length > 0 && `, ${validationData.length} val`})
         </div>
-        <svg width={size} height={size} className="bg-gray-50 rounded">
+        <svg
+          ref={svgRef}
+          width={size}
+          height={size}
+          className={`bg-gray-50 rounded ${editable ? 'cursor-crosshair touch-none' : ''}`}
+          onPointerMove={editable ? handlePointerMove : undefined}
+          onPointerUp={editable ? handlePointerUp : undefined}
+          onPointerCancel={() => setDrag(null)}
+        >
+          {/* Predicted probabilities: each cell shaded toward its predicted class by the network's certainty */}
+          {boundary && (
+            <g pointerEvents="none">
+              <clipPath id={clipId}>
+                <rect x={padding} y={padding} width={plotSize} height={plotSize} />
+              </clipPath>
+              <g clipPath={`url(#${clipId})`}>
+                {boundary.grid.probabilities.map((probs, i) => {
+                  const { resolution, xs, ys } = boundary.grid;
+                  const cell = plotSize / (resolution - 1);
+                  const predicted = probs.indexOf(Math.max(...probs));
+                  const chance = 1 / probs.length;
+                  const certainty = (probs[predicted] - chance) / (1 - chance);
+                  if (!Number.isFinite(certainty)) return null;
+                  return (
+                    <rect
+                      key={i}
+                      x={toX(xs[i % resolution]) - cell / 2}
+                      y={toY(ys[Math.floor(i / resolution)]) - cell / 2}
+                      width={cell + 0.5}
+                      height={cell + 0.5}
+                      fill={classColor(predicted)}
+                      fillOpacity={MAX_SHADE * certainty}
+                    />
+                  );
+                })}
+                <path
+                  d={boundary.segments.map(([[x1, y1], [x2, y2]]) => `M${toX(x1)},${toY(y1)}L${toX(x2)},${toY(y2)}`).join('')}
+                  fill="none"
+                  stroke={BOUNDARY_COLOR}
+                  strokeWidth={1.5}
+                  strokeLinecap="round"
+                />
+              </g>
+            </g>
+          )}
+
           {/* Grid lines */}
           <line x1={padding + plotSize/2} y1={padding} x2={padding + plotSize/2} y2={padding + plotSize} stroke="#e5e7eb" strokeWidth="1" />
           <line x1={padding} y1={padding + plotSize/2} x2={padding + plotSize} y2={padding + plotSize/2} stroke="#e5e7eb" strokeWidth="1" />
 
-          {/* Quadrant labels */}
-          <text x={padding + plotSize*0.25} y={padding + plotSize*0.25} fontSize="8" fill="#9ca3af" textAnchor="middle">0</text>
-          <text x={padding + plotSize*0.75} y={padding + plotSize*0.25} fontSize="8" fill="#9ca3af" textAnchor="middle">1</text>
-          <text x={padding + plotSize*0.25} y={padding + plotSize*0.75} fontSize="8" fill="#9ca3af" textAnchor="middle">1</text>
-          <text x={padding + plotSize*0.75} y={padding + plotSize*0.75} fontSize="8" fill="#9ca3af" textAnchor="middle">0</text>
+          {/* Click to add a point (under the points, so clicks on them edit them) */}
+          {editable && (
+            <rect
+              x={0}
+              y={0}
+              width={size}
+              height={size}
+              fill="transparent"
+              onPointerDown={(e) => {
+                if (e.button !== 0) return;
+                onEdit({ kind: 'add', point: pointAt(pointerPosition(e), addClass) });
+              }}
+            />
+          )}
 
           {/* Data points */}
           {data.map((point, idx) => {
-            const x = padding + point.input[0] * plotSize;
-            const y = padding + (1 - point.input[1]) * plotSize; // flip y
-            const label = point.target[0];
+            const dragged = drag?.index === idx && drag.moved;
+            const [px, py] = dragged ? [drag.x, drag.y] : coords(point.input, point.target);
+            const x = toX(px);
+            const y = toY(py);
             const isNoisy = point.isNoisy;
 
             return (
@@ -42,18 +201,105 @@ export function DataVisualization({ data, compact = false }: DataVisualizationPr
                 key={idx}
                 cx={x}
                 cy={y}
-                r={isNoisy ? 4 : 3}
-                fill={label === 1 ? '#3b82f6' : '#ef4444'}
+                r={isNoisy || dragged ? 4 : 3}
+                fill={regression ? REGRESSION_COLOR : classColor(point.label)}
                 stroke={isNoisy ? '#fbbf24' : 'none'}
                 strokeWidth={isNoisy ? 2 : 0}
-                opacity={0.7}
+                opacity={dragged ? 1 : 0.7}
+                className={editable ? 'cursor-move' : undefined}
+                onPointerDown={editable ? (e) => {
+                  if (e.button !== 0) return;
+                  e.stopPropagation();
+                  if (e.shiftKey) {
+                    if (canDelete) onEdit({ kind: 'delete', index: idx });
+                    return;
+                  }
+                  svgRef.current?.setPointerCapture(e.pointerId);
+                  setDrag({ index: idx, x: px, y: py, moved: false });
+                } : undefined}
+                onContextMenu={editable ? (e) => {
+                  e.preventDefault();
+                  if (canDelete) onEdit({ kind: 'delete', index: idx });
+                } : undefined}
+              />
+            );
+          })}
+
+          {/* Validation points */}
+          {validationData.map((point, idx) => {
+            const [px, py] = coords(point.input, point.target);
+            return (
+              <circle
+                key={idx}
+                cx={toX(px)}
+                cy={toY(py)}
+                r={3}
+                pointerEvents="none"
+                fill="none"
+                stroke={regression ? REGRESSION_COLOR : classColor(point.label)}
+                strokeWidth={1}
+                opacity={0.8}
+              />
+            );
+          })}
+
+          {/* Canonical points (clean labels) */}
+          {evalData.map((point, idx) => {
+            const [px, py] = coords(point.input, point.target);
+            return (
+              <rect
+                key={idx}
+                x={toX(px) - 3}
+                y={toY(py) - 3}
+                width={6}
+                height={6}
+                fill="white"
+                pointerEvents="none"
+                stroke={regression ? '#111827' : classColor(point.label)}
+                strokeWidth={1.5}
               />
             );
           })}
         </svg>
-        <div className="flex gap-3 text-[10px] text-gray-500 mt-1 justify-center">
-          <span><span className="inline-block w-2 h-2 rounded-full bg-blue-500 mr-1"></span>Label=1</span>
-          <span><span className="inline-block w-2 h-2 rounded-full bg-red-500 mr-1"></span>Label=0</span>
+        {editable && (
+          <div className="text-[10px] text-gray-500 mt-1 space-y-0.5" style={{ maxWidth: size }}>
+            {!regression && (
+              <div className="flex items-center gap-1">
+                <span>New points:</span>
+                {Array.from({ length: spec.numClasses }, (_, k) => (
+                  <button
+                    key={k}
+                    onClick={() => setNewClass(k)}
+                    className={`w-3 h-3 rounded-full ${addClass === k ? 'ring-2 ring-offset-1 ring-gray-500' : ''}`}
+                    style={{ backgroundColor: classColor(k) }}
+                    title={`Add points with label ${k}`}
+                  />
+                ))}
+              </div>
+            )}
+            <div>
+              Click to add · drag to move{regression ? '' : ' · click a point to flip its label'} · right- or
+              shift-click to delete{canDelete ? '' : ' (not the last point)'}
+            </div>
+          </div>
+        )}
+        <div className="flex flex-wrap gap-3 text-[10px] text-gray-500 mt-1 justify-center">
+          {!regression && Array.from({ length: spec.numClasses }, (_, k) => (
+            <span key={k}>
+              <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: classColor(k) }}></span>Label={k}
+            </span>
+          ))}
+          {regression && <span>x → y</span>}
+          {spec.inputSize > 2 && <span>x₁, x₂ of {spec.inputSize} features</span>}
+          <span><span className="inline-block w-2 h-2 border border-gray-600 mr-1"></span>Canonical</span>
+          {boundary && (
+            <span title="Shading: predicted class, darker where the network is more certain">
+              <span className="inline-block w-3 h-0 border-t-2 mr-1 align-middle" style={{ borderColor: BOUNDARY_COLOR }}></span>p = 0.5
+            </span>
+          )}
+          {validationData.length > 0 && (
+            <span><span className="inline-block w-2 h-2 rounded-full border border-gray-600 mr-1"></span>Validation</span>
+          )}
           <span><span className="inline-block w-2 h-2 rounded-full bg-gray-400 ring-2 ring-yellow-400 mr-1"></span>Noisy</span>
         </div>
       </div>
@@ -71,9 +317,12 @@ export function DataVisualization({ data, compact = false }: DataVisualizationPr
           <thead className="bg-gray-50 sticky top-0">
             <tr>
               <th className="px-2 py-1 text-left text-gray-500">#</th>
-              <th className="px-2 py-1 text-left text-gray-500">x₁</th>
-              <th className="px-2 py-1 text-left text-gray-500">x₂</th>
-              <th className="px-2 py-1 text-left text-gray-500">Label</th>
+              {Array.from({ length: spec.inputSize }, (_, i) => (
+                <th key={i} className="px-2 py-1 text-left text-gray-500">
+                  x{String(i + 1).split('').map(d => SUBSCRIPTS[Number(d)]).join('')}
+                </th>
+              ))}
+              <th className="px-2 py-1 text-left text-gray-500">{regression ? 'y' : 'Label'}</th>
               <th className="px-2 py-1 text-left text-gray-500">True</th>
             </tr>
           </thead>
@@ -84,13 +333,19 @@ export function DataVisualization({ data, compact = false }: DataVisualizationPr
                 className={point.isNoisy ? 'bg-yellow-50' : ''}
               >
                 <td className="px-2 py-0.5 text-gray-400">{idx}</td>
-                <td className="px-2 py-0.5 font-mono">{point.input[0].toFixed(2)}</td>
-                <td className="px-2 py-0.5 font-mono">{point.input[1].toFixed(2)}</td>
-                <td className={`px-2 py-0.5 font-mono font-bold ${point.target[0] === 1 ? 'text-blue-600' : 'text-red-600'}`}>
-                  {point.target[0]}
+                {point.input.map((x, i) => (
+                  <td key={i} className="px-2 py-0.5 font-mono">{x.toFixed(2)}</td>
+                ))}
+                <td
+                  className="px-2 py-0.5 font-mono font-bold"
+                  style={{ color: regression ? REGRESSION_COLOR : classColor(point.label) }}
+                >
+                  {regression ? point.target[0].toFixed(3) : point.label}
                   {point.isNoisy && <span className="ml-1 text-yellow-600">⚠</span>}
                 </td>
-                <td className="px-2 py-0.5 font-mono text-gray-400">{point.trueTarget[0]}</td>
+                <td className="px-2 py-0.5 font-mono text-gray-400">
+                  {regression ? point.trueTarget[0].toFixed(3) : point.trueLabel}
+                </td>
               </tr>
             ))}
           </tbody>
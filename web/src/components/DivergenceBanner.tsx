@@ -0,0 +1,47 @@
+import type { TrainingStep } from '../hooks/useTraining';
+import { parameterLabel } from '../network/buffers';
+
+interface DivergenceBannerProps {
+  steps: TrainingStep[];
+  onGoToStep: (step: number) => void;
+}
+
+// How many gradient norms leading up to the blow-up to show
+const HISTORY_LENGTH = 8;
+
+function fmt(x: number): string {
+  return Number.isFinite(x) ? (x >= 1e3 || x < 1e-3 ? x.toExponential(2) : x.toFixed(3)) : String(x);
+}
+
+/**
+ * Reports the step where training produced NaN/Infinity: which parameter
+ * blew up first and how the gradient norm grew before it
+ */
+export function DivergenceBanner({ steps, onGoToStep }: DivergenceBannerProps) {
+  const index = steps.findIndex(s => s.divergence);
+  if (index < 0) return null;
+  const divergence = steps[index].divergence!;
+  const history = steps.slice(0, index + 1).flatMap(s => s.gradNorms).slice(-HISTORY_LENGTH);
+
+  return (
+    <div className="bg-red-50 border border-red-300 rounded px-3 py-1.5 text-xs text-red-800 flex items-center gap-3 flex-wrap">
+      <span className="font-bold">⚠ Training diverged at step {index}</span>
+      <span>
+        {divergence.buffer} of <span className="font-mono font-bold">{parameterLabel(divergence)}</span> (layer{' '}
+        {divergence.layer} → {divergence.layer + 1}) became <span className="font-mono">{String(divergence.value)}</span>
+      </span>
+      <span className="font-mono text-red-600" title="Global gradient norm of the last updates, before clipping">
+        ‖∇‖: {history.map(fmt).join(' → ')}
+      </span>
+      <span className="text-red-600">Try a lower learning rate or gradient clipping.</span>
+      {index > 0 && (
+        <button
+          onClick={() => onGoToStep(index - 1)}
+          className="px-2 py-0.5 bg-white border border-red-300 rounded hover:bg-red-100"
+        >
+          Go to step {index - 1}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useMemo, useState } from 'react';
+import type { Network } from '../network/Network';
+import { gradientCheck, DEFAULT_EPSILON, DEFAULT_TOLERANCE } from '../network/gradientCheck';
+import type { ParameterCheck } from '../network/gradientCheck';
+import { parameterLabel } from '../network/buffers';
+import type { RegularizationConfig } from '../network/regularization';
+import type { EdgeSelection, NodeSelection } from './NetworkVisualization';
+
+interface GradientCheckPanelProps {
+  network: Network;
+  currentInput: number[];
+  currentTarget: number[];
+  confidencePenalty: number;
+  regularization: RegularizationConfig;
+  onEdgeSelect?: (edge: EdgeSelection) => void;
+  onNodeSelect?: (node: NodeSelection) => void;
+}
+
+const EPSILON_OPTIONS = [1e-3, 1e-4, 1e-5, 1e-6, 1e-7];
+
+function fmt(x: number): string {
+  return x === 0 ? '0' : Math.abs(x) < 1e-3 || Math.abs(x) >= 1e3 ? x.toExponential(2) : x.toFixed(5);
+}
+
+export function GradientCheckPanel({
+  network,
+  currentInput,
+  currentTarget,
+  confidencePenalty,
+  regularization,
+  onEdgeSelect,
+  onNodeSelect,
+}: GradientCheckPanelProps) {
+  const [epsilon, setEpsilon] = useState(DEFAULT_EPSILON);
+  const [onlyMismatches, setOnlyMismatches] = useState(false);
+
+  // Re-check whenever the step, selected input or objective changes
+  const result = useMemo(
+    () => gradientCheck(network, currentInput, currentTarget, { epsilon, confidencePenalty, regularization }),
+    [network, currentInput, currentTarget, epsilon, confidencePenalty, regularization]
+  );
+
+  const rows = onlyMismatches ? result.parameters.filter(p => !p.ok) : result.parameters;
+  const failures = result.parameters.filter(p => !p.ok).length;
+
+  const selectParameter = (p: ParameterCheck) => {
+    if (p.kind === 'weight') {
+      onEdgeSelect?.({ layerIdx: p.layer, fromIdx: p.from, toIdx: p.to });
+    } else {
+      onNodeSelect?.({ layerIdx: p.layer + 1, nodeIdx: p.to });
+    }
+  };
+
+  return (
+    <div className="text-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold">Verify Gradients</h2>
+        <div className="text-xs bg-blue-100 px-2 py-1 rounded">
+          Input: [{currentInput.join(', ')}] → Target: {currentTarget.join(', ')}
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-600">
+        Each parameter θ is nudged by ±ε and the loss (including the confidence penalty and L1/L2 term)
+        is re-evaluated: <span className="font-mono">∂L/∂θ ≈ (L(θ+ε) - L(θ-ε)) / 2ε</span>. Backprop's
+        gradient should agree to a relative error of about {DEFAULT_TOLERANCE.toExponential(0)} or better.
+      </p>
+
+      <div className="flex items-center gap-3 text-xs">
+        <label className="flex items-center gap-1">
+          <span className="text-gray-500">ε:</span>
+          <select
+            value={epsilon}
+            onChange={(e) => setEpsilon(Number(e.target.value))}
+            className="px-1 py-0.5 border border-gray-300 rounded"
+          >
+            {EPSILON_OPTIONS.map(eps => (
+              <option key={eps} value={eps}>{eps.toExponential(0)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={onlyMismatches}
+            onChange={(e) => setOnlyMismatches(e.target.checked)}
+          />
+          <span className="text-gray-600">Only mismatches</span>
+        </label>
+        <span className={`ml-auto font-bold ${result.passed ? 'text-green-700' : 'text-red-700'}`}>
+          {result.passed ? '✓ All gradients agree' : `✗ ${failures} of ${result.parameters.length} disagree`}
+        </span>
+      </div>
+
+      {/* Per-layer summary */}
+      <table className="w-full text-xs font-mono">
+        <thead>
+          <tr className="text-gray-500 text-left">
+            <th className="font-normal">Layer</th>
+            <th className="font-normal">max rel. error</th>
+            <th className="font-normal">mean rel. error</th>
+            <th className="font-normal">mismatches</th>
+          </tr>
+        </thead>
+        <tbody>
+          {result.layers.map(l => (
+            <tr key={l.layer} className={l.failures > 0 ? 'text-red-700' : 'text-gray-800'}>
+              <td>{l.layer} → {l.layer + 1}</td>
+              <td>{fmt(l.maxRelativeError)}</td>
+              <td>{fmt(l.meanRelativeError)}</td>
+              <td>{l.failures}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Per-parameter comparison; click a row to select it in the network */}
+      <table className="w-full text-xs font-mono">
+        <thead>
+          <tr className="text-gray-500 text-left">
+            <th className="font-normal">Parameter</th>
+            <th className="font-normal">analytic</th>
+            <th className="font-normal">numeric</th>
+            <th className="font-normal">rel. error</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(p => (
+            <tr
+              key={p.index}
+              onClick={() => selectParameter(p)}
+              className={`cursor-pointer ${p.ok ? 'hover:bg-gray-50' : 'bg-red-50 text-red-700 hover:bg-red-100'}`}
+            >
+              <td>{parameterLabel(p)}</td>
+              <td>{fmt(p.analytic)}</td>
+              <td>{fmt(p.numeric)}</td>
+              <td className="font-bold">{fmt(p.relativeError)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {rows.length === 0 && <p className="text-xs text-gray-400">No mismatching parameters.</p>}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useMemo, useState } from 'react';
+import { Network } from '../network/Network';
+import { defaultActivations, getActivation } from '../network/activations';
+import type { ActivationName } from '../network/activations';
+import { INITIALIZERS, INITIALIZER_NAMES, activationStatistics } from '../network/initializers';
+import type { InitConfig, LayerStatistics } from '../network/initializers';
+
+interface InitComparisonProps {
+  layerSizes: number[];
+  hiddenActivation: ActivationName;
+  initConfig: InitConfig;
+  inputs: number[][];
+}
+
+// Probe architectures: the current network is shallow, so a deeper one
+// makes vanishing/exploding activations visible
+const PROBES = [
+  { id: 'current', label: 'Current network' },
+  { id: 'deep', label: 'Deep probe (6 × 32)' },
+  { id: 'deeper', label: 'Deep probe (12 × 32)' },
+] as const;
+
+type ProbeId = typeof PROBES[number]['id'];
+
+function probeLayerSizes(probe: ProbeId, layerSizes: number[]): number[] {
+  if (probe === 'current') return layerSizes;
+  const depth = probe === 'deep' ? 6 : 12;
+  return [layerSizes[0], ...new Array(depth).fill(32), layerSizes[layerSizes.length - 1]];
+}
+
+export function InitComparison({ layerSizes, hiddenActivation, initConfig, inputs }: InitComparisonProps) {
+  const [probe, setProbe] = useState<ProbeId>('current');
+
+  const sizes = probeLayerSizes(probe, layerSizes);
+  const stats = useMemo(() => {
+    const probeSizes = probeLayerSizes(probe, layerSizes);
+    const result = {} as Record<string, LayerStatistics[]>;
+    for (const name of INITIALIZER_NAMES) {
+      const net = new Network(probeSizes, 123, {
+        activations: defaultActivations(probeSizes, hiddenActivation),
+        init: { ...initConfig, weights: name },
+      });
+      result[name] = activationStatistics(net, inputs);
+    }
+    return result;
+  }, [probe, layerSizes, hiddenActivation, initConfig, inputs]);
+
+  // Bars are scaled to the largest activation std across schemes (capped at 10)
+  const maxStd = Math.max(
+    1e-6,
+    ...INITIALIZER_NAMES.flatMap(name => stats[name].map(s => Math.min(s.std, 10)))
+  );
+  const hiddenCount = sizes.length - 2;
+
+  return (
+    <div className="text-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-bold">Initialization</h2>
+        <select
+          value={probe}
+          onChange={(e) => setProbe(e.target.value as ProbeId)}
+          className="text-xs px-1 py-0.5 border border-gray-300 rounded bg-white"
+        >
+          {PROBES.map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <p className="text-xs text-gray-600">
+        Standard deviation of each layer's activations at initialization (before any training), over the
+        training inputs, with {getActivation(hiddenActivation).label} hidden layers. Good schemes keep σ
+        roughly constant with depth; too small shrinks the signal to nothing, too large blows it up.
+        Constant weights make every hidden unit identical. Red = fraction of units with zero gradient.
+      </p>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-500 text-left">
+            <th className="font-normal">Scheme</th>
+            {sizes.slice(1).map((_, l) => (
+              <th key={l} className="font-normal font-mono">
+                {l < hiddenCount ? `h${l + 1}` : 'out'}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {INITIALIZER_NAMES.map(name => (
+            <tr
+              key={name}
+              className={name === initConfig.weights ? 'bg-blue-50 font-bold' : ''}
+              title={INITIALIZERS[name].formula}
+            >
+              <td className="whitespace-nowrap pr-2">{INITIALIZERS[name].label}</td>
+              {stats[name].map(s => (
+                <td key={s.layer} className="pr-1 align-middle">
+                  <div className="font-mono text-[10px]">σ={s.std < 1e-3 ? s.std.toExponential(0) : s.std.toFixed(2)}</div>
+                  <div className="h-1.5 bg-gray-100 rounded relative overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500"
+                      style={{ width: `${(Math.min(s.std, 10) / maxStd) * 100}%` }}
+                    />
+                  </div>
+                  {s.inactive > 0 && (
+                    <div className="text-[10px] text-red-600">{(s.inactive * 100).toFixed(0)}% dead</div>
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -29,11 +29,15 @@ export function Legend() {
               </div>
               <div className="flex items-center gap-2">
                 <span className="w-3 h-3 rounded-full bg-[#d1d5db] border border-black"></span>
-                <span>Hidden (=0)</span>
+                <span>Hidden (inactive, f'=0)</span>
               </div>
               <div className="flex items-center gap-2">
                 <span className="w-3 h-3 rounded-full bg-[#fecaca] border border-black"></span>
-                <span>Output</span>
+                <span>Output (probabilities: tinted by class, thick = predicted)</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-full border border-dashed border-red-600"></span>
+                <span>Dropped (dropout, this step)</span>
               </div>
             </div>
           </div>
@@ -53,8 +57,19 @@ export function Legend() {
             </div>
           </div>
 
+          <div>
+            <div className="font-semibold text-gray-700 mb-1">Layers</div>
+            <div className="space-y-0.5">
+              <div className="flex items-center gap-2">
+                <span className="w-4 h-3 rounded bg-[#cffafe] border border-[#0891b2]"></span>
+                <span>LN / BN: normalized value per unit</span>
+              </div>
+              <div className="text-gray-500">Chips under each column list its layers</div>
+            </div>
+          </div>
+
           <div className="text-gray-500 pt-1 border-t border-gray-100">
-            Hover edges for weight & gradient
+            Hover edges for weight & gradient, normalization boxes for γ, β, μ, σ²
           </div>
         </div>
       )}
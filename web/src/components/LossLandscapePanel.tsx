@@ -0,0 +1,269 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { TrainingStep } from '../hooks/useTraining';
+import { Network } from '../network/Network';
+import { batchLoss } from '../network/batching';
+import type { Sample } from '../network/batching';
+import type { RegularizationConfig } from '../network/regularization';
+import { RNG } from '../network/random';
+import {
+  DIRECTION_METHOD_LABELS, createGrid, evaluateRow, landscapeRange, pcaDirections, projectPoint, randomDirections,
+  subsampleTrajectory,
+} from '../network/landscape';
+import type { DirectionMethod, LandscapeGrid } from '../network/landscape';
+
+interface LossLandscapePanelProps {
+  steps: TrainingStep[];
+  currentStep: number;
+  isPlaying: boolean;
+  onStepClick: (step: number) => void;
+  trainingData: Sample[];
+  confidencePenalty: number;
+  regularization: RegularizationConfig;
+}
+
+const PLOT_SIZE = 300;
+const PADDING = { top: 8, right: 8, bottom: 28, left: 36 };
+const RESOLUTION_OPTIONS = [11, 21, 31, 41];
+// Time per slice of grid work before yielding to the browser
+const FRAME_BUDGET_MS = 12;
+
+// Heatmap colour stops (low loss dark blue → high loss yellow)
+const STOPS = [
+  [30, 27, 75],
+  [37, 99, 235],
+  [20, 184, 166],
+  [250, 204, 21],
+];
+
+function heatColor(t: number): string {
+  const x = Math.max(0, Math.min(1, t)) * (STOPS.length - 1);
+  const i = Math.min(STOPS.length - 2, Math.floor(x));
+  const f = x - i;
+  const [r, g, b] = STOPS[i].map((c, k) => Math.round(c + (STOPS[i + 1][k] - c) * f));
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+export function LossLandscapePanel({
+  steps,
+  currentStep,
+  isPlaying,
+  onStepClick,
+  trainingData,
+  confidencePenalty,
+  regularization,
+}: LossLandscapePanelProps) {
+  const [method, setMethod] = useState<DirectionMethod>('pca');
+  const [resolution, setResolution] = useState(21);
+  const [seed, setSeed] = useState(1);
+
+  // The trajectory the landscape is computed for: held while training plays
+  // so the grid isn't restarted on every step
+  const [trajectorySteps, setTrajectorySteps] = useState(steps);
+  if (!isPlaying && trajectorySteps !== steps) setTrajectorySteps(steps);
+  const isStale = trajectorySteps !== steps;
+
+  // Directions, projected trajectory and an empty grid around the last step
+  const setup = useMemo(() => {
+    const trajectory = trajectorySteps.map(s => s.state.params);
+    const centerState = trajectorySteps[trajectorySteps.length - 1].state;
+    const center = centerState.params;
+    const net = Network.fromState(centerState);
+    // PCA needs a few distinct points to span a plane
+    const usePca = method === 'pca' && trajectory.length >= 3;
+    const dirs = usePca
+      ? pcaDirections(subsampleTrajectory(trajectory), center)
+      : randomDirections(center, net.layout, new RNG(seed));
+    const points = trajectory.map(p => projectPoint(p, center, dirs));
+    const range = landscapeRange(points, usePca ? 0.1 : 1);
+    return { net, center, dirs, points, range, usePca };
+  }, [trajectorySteps, method, seed]);
+
+  // Fill the grid a few rows per frame; restarted whenever the inputs change
+  const [progress, setProgress] = useState<{ setup: typeof setup; grid: LandscapeGrid; rowsDone: number } | null>(null);
+  useEffect(() => {
+    const { net, center, dirs, range } = setup;
+    const grid = createGrid(resolution, range.alpha, range.beta);
+    const lossAt = (params: Float64Array) => {
+      net.params.set(params);
+      return batchLoss(net, trainingData, confidencePenalty, regularization);
+    };
+    let timer: ReturnType<typeof setTimeout>;
+    const work = () => {
+      const start = performance.now();
+      while (grid.rowsDone < grid.resolution && performance.now() - start < FRAME_BUDGET_MS) {
+        evaluateRow(grid, center, dirs, lossAt);
+      }
+      setProgress({ setup, grid, rowsDone: grid.rowsDone });
+      if (grid.rowsDone < grid.resolution) timer = setTimeout(work, 0);
+    };
+    timer = setTimeout(work, 0);
+    return () => clearTimeout(timer);
+  }, [setup, resolution, trainingData, confidencePenalty, regularization]);
+
+  // Ignore a grid left over from previous directions until the new one starts
+  const grid = progress?.setup === setup ? progress.grid : undefined;
+  const { points, range, dirs, usePca } = setup;
+
+  // Log-scaled colour range over the computed cells
+  const { logMin, logMax, minLoss, maxLoss } = useMemo(() => {
+    const done = grid ? Array.from(grid.losses.subarray(0, (progress?.rowsDone ?? 0) * grid.resolution)).filter(Number.isFinite) : [];
+    const lo = done.length ? Math.min(...done) : 0;
+    const hi = done.length ? Math.max(...done) : 1;
+    return { logMin: Math.log(lo + 1e-8), logMax: Math.log(hi + 1e-8), minLoss: lo, maxLoss: hi };
+  }, [grid, progress?.rowsDone]);
+
+  const width = PLOT_SIZE + PADDING.left + PADDING.right;
+  const height = PLOT_SIZE + PADDING.top + PADDING.bottom;
+  const toX = (alpha: number) => PADDING.left + ((alpha - range.alpha[0]) / (range.alpha[1] - range.alpha[0])) * PLOT_SIZE;
+  const toY = (beta: number) => PADDING.top + (1 - (beta - range.beta[0]) / (range.beta[1] - range.beta[0])) * PLOT_SIZE;
+  const cell = grid ? PLOT_SIZE / (grid.resolution - 1) : 0;
+  const shownStep = Math.min(currentStep, points.length - 1);
+
+  return (
+    <div className="p-3 text-xs space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <label className="flex items-center gap-1">
+          <span className="text-gray-500">Directions:</span>
+          <select
+            value={method}
+            onChange={(e) => setMethod(e.target.value as DirectionMethod)}
+            className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+          >
+            {(Object.keys(DIRECTION_METHOD_LABELS) as DirectionMethod[]).map((m) => (
+              <option key={m} value={m}>{DIRECTION_METHOD_LABELS[m]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <span className="text-gray-500">Grid:</span>
+          <select
+            value={resolution}
+            onChange={(e) => setResolution(parseInt(e.target.value))}
+            className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+          >
+            {RESOLUTION_OPTIONS.map((r) => (
+              <option key={r} value={r}>{r}×{r}</option>
+            ))}
+          </select>
+        </label>
+        {!usePca && (
+          <button
+            onClick={() => setSeed(seed + 1)}
+            className="px-2 py-0.5 border border-gray-300 rounded bg-white hover:bg-gray-50"
+            title="Draw two new random directions"
+          >
+            New directions
+          </button>
+        )}
+        <span className="text-gray-500 ml-auto">
+          {grid && progress!.rowsDone < grid.resolution
+            ? `Computing… ${progress!.rowsDone}/${grid.resolution} rows`
+            : isStale
+              ? 'Paused on the trajectory so far (updates when training stops)'
+              : `Centered on step ${points.length - 1}`}
+        </span>
+      </div>
+
+      <p className="text-gray-600">
+        Training loss on the plane θ* + α·d₁ + β·d₂ through the last step θ*
+        {usePca && dirs.explained
+          ? `; d₁, d₂ explain ${(dirs.explained[0] * 100).toFixed(1)}% and ${(dirs.explained[1] * 100).toFixed(1)}% of the trajectory's variance.`
+          : '; random directions scaled to each unit\'s weight norm (biases held fixed).'}
+        {method === 'pca' && !usePca && ' (PCA needs at least 3 steps.)'}
+      </p>
+
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full max-w-md">
+        <defs>
+          <clipPath id="landscape-plot">
+            <rect x={PADDING.left} y={PADDING.top} width={PLOT_SIZE} height={PLOT_SIZE} />
+          </clipPath>
+        </defs>
+        <rect x={PADDING.left} y={PADDING.top} width={PLOT_SIZE} height={PLOT_SIZE} fill="#f3f4f6" />
+
+        {/* Heatmap: one cell centered on each grid point */}
+        <g clipPath="url(#landscape-plot)">
+          {grid && grid.betas.slice(0, progress!.rowsDone).map((beta, row) =>
+            grid.alphas.map((alpha, col) => {
+              const loss = grid.losses[row * grid.resolution + col];
+              const t = logMax > logMin ? (Math.log(loss + 1e-8) - logMin) / (logMax - logMin) : 0;
+              return (
+                <rect
+                  key={`${row}-${col}`}
+                  x={toX(alpha) - cell / 2}
+                  y={toY(beta) - cell / 2}
+                  width={cell + 0.5}
+                  height={cell + 0.5}
+                  fill={Number.isFinite(loss) ? heatColor(t) : '#9ca3af'}
+                >
+                  <title>α = {alpha.toFixed(3)}, β = {beta.toFixed(3)}: L = {loss.toFixed(4)}</title>
+                </rect>
+              );
+            })
+          )}
+
+          {/* Trajectory of the stored steps */}
+          <polyline
+            points={points.map(([a, b]) => `${toX(a)},${toY(b)}`).join(' ')}
+            fill="none"
+            stroke="white"
+            strokeWidth={1.5}
+            opacity={0.9}
+          />
+          {points.map(([a, b], step) => (
+            <circle
+              key={step}
+              cx={toX(a)}
+              cy={toY(b)}
+              r={step === shownStep ? 5 : 2.5}
+              fill={step === shownStep ? '#f97316' : step === 0 ? '#22c55e' : 'white'}
+              stroke="black"
+              strokeWidth={step === shownStep ? 1.5 : 0.5}
+              style={{ cursor: 'pointer' }}
+              onClick={() => onStepClick(step)}
+            >
+              <title>Step {step}: loss {trajectorySteps[step].loss.toFixed(4)}</title>
+            </circle>
+          ))}
+        </g>
+
+        {/* Axes */}
+        <rect x={PADDING.left} y={PADDING.top} width={PLOT_SIZE} height={PLOT_SIZE} fill="none" stroke="#9ca3af" />
+        {[range.alpha[0], 0, range.alpha[1]].map((alpha, i) => (
+          <text key={`a${i}`} x={toX(alpha)} y={PADDING.top + PLOT_SIZE + 12} fontSize="9" textAnchor="middle" fill="#6b7280">
+            {alpha.toFixed(2)}
+          </text>
+        ))}
+        {[range.beta[0], 0, range.beta[1]].map((beta, i) => (
+          <text key={`b${i}`} x={PADDING.left - 4} y={toY(beta) + 3} fontSize="9" textAnchor="end" fill="#6b7280">
+            {beta.toFixed(2)}
+          </text>
+        ))}
+        <text x={PADDING.left + PLOT_SIZE / 2} y={height - 4} fontSize="10" textAnchor="middle" fill="#374151">α (d₁)</text>
+        <text
+          x={10}
+          y={PADDING.top + PLOT_SIZE / 2}
+          fontSize="10"
+          textAnchor="middle"
+          fill="#374151"
+          transform={`rotate(-90 10 ${PADDING.top + PLOT_SIZE / 2})`}
+        >
+          β (d₂)
+        </text>
+      </svg>
+
+      {/* Colour scale */}
+      <div className="flex items-center gap-2 max-w-md">
+        <span className="font-mono">{minLoss.toFixed(3)}</span>
+        <div
+          className="flex-1 h-2 rounded"
+          style={{ background: `linear-gradient(to right, ${[0, 1 / 3, 2 / 3, 1].map(heatColor).join(', ')})` }}
+        />
+        <span className="font-mono">{maxLoss.toFixed(3)}</span>
+        <span className="text-gray-500">(log scale)</span>
+      </div>
+      <p className="text-gray-500">
+        Green: first step, orange: current step. Click a point to jump to that step.
+      </p>
+    </div>
+  );
+}
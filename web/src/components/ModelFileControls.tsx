@@ -0,0 +1,67 @@
+import { useRef, useState } from 'react';
+import type { ModelJSON } from '../network/serialization';
+
+interface ModelFileControlsProps {
+  onExport: () => ModelJSON;
+  onLoad: (json: unknown) => void;  // throws if the model is invalid
+}
+
+export function ModelFileControls({ onExport, onLoad }: ModelFileControlsProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const download = () => {
+    const model = onExport();
+    const blob = new Blob([JSON.stringify(model, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `model-step-${model.metadata.step ?? 0}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const upload = async (file: File) => {
+    try {
+      onLoad(JSON.parse(await file.text()));
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1 text-xs">
+      <button
+        onClick={download}
+        className="px-2 py-1 bg-gray-100 border border-gray-300 rounded hover:bg-gray-200"
+        title="Download the current step's model (architecture, parameters, seeds and training settings) as JSON"
+      >
+        💾 Save model
+      </button>
+      <button
+        onClick={() => fileInput.current?.click()}
+        className="px-2 py-1 bg-gray-100 border border-gray-300 rounded hover:bg-gray-200"
+        title="Load a saved model JSON, or a trajectory written by the training CLI to replay its steps (replaces the training history)"
+      >
+        📂 Load model
+      </button>
+      <input
+        ref={fileInput}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) upload(file);
+          e.target.value = '';
+        }}
+      />
+      {error && (
+        <span className="text-red-600 max-w-xs truncate" title={error}>
+          {error}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,17 @@
-import { useMemo, useState } from 'react';
+import { useId, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
 import type { Network, NetworkState } from '../network/Network';
-import { sigmoid } from '../network/functions';
+import { getLoss, applyLink } from '../network/losses';
+import { getActivation } from '../network/activations';
+import type { ActivationName } from '../network/activations';
+import { predictedClass } from '../network/classification';
+import { LAYER_TYPE_LABELS, layerBlocks } from '../network/layers';
+import type { LayerState, LayerType } from '../network/layers';
+import { contourSegments, unitMaps } from '../network/boundary';
+import type { UnitMap, UnitMaps } from '../network/boundary';
+import type { DataPoint } from '../data/datasets';
 import { Legend } from './Legend';
+import { classColor } from './classColors';
 
 export interface EdgeSelection {
   layerIdx: number;
@@ -23,6 +33,162 @@ interface NetworkVisualizationProps {
   onEdgeSelect?: (edge: EdgeSelection | null) => void;
   selectedNode?: NodeSelection | null;
   onNodeSelect?: (node: NodeSelection | null) => void;
+  data?: DataPoint[];  // training points: the input square of the activation maps, overlaid when enlarged
+}
+
+// Grid points per axis of the maps drawn in the nodes and of an enlarged map
+const NODE_MAP_RESOLUTION = 15;
+const DETAIL_MAP_RESOLUTION = 40;
+const DETAIL_MAP_SIZE = 220;
+const POSITIVE_COLOR = '#3b82f6';
+const NEGATIVE_COLOR = '#ef4444';
+const DEAD_COLOR = '#6b7280';
+
+// Blend white towards a #rrggbb colour by `amount` in [0, 1]
+function tint(hex: string, amount: number): string {
+  const t = Math.max(0, Math.min(1, amount));
+  const channel = (i: number) => Math.round(255 + (parseInt(hex.slice(i, i + 2), 16) - 255) * t);
+  return `rgb(${channel(1)}, ${channel(3)}, ${channel(5)})`;
+}
+
+// Range of the inputs along one axis of the maps, including [0, 1] (as in the scatter plot)
+function axisRange(values: number[]): [number, number] {
+  return [Math.min(0, ...values), Math.max(1, ...values)];
+}
+
+/**
+ * Colour of a unit's value: blue for positive and red for negative, scaled
+ * by the unit's largest magnitude; probability outputs are tinted by their
+ * class like the output nodes
+ */
+function mapColor(value: number, scale: number, probabilityClass: number | null): string {
+  if (!Number.isFinite(value)) return '#9ca3af';
+  if (probabilityClass !== null) return tint(classColor(probabilityClass), value);
+  return tint(value >= 0 ? POSITIVE_COLOR : NEGATIVE_COLOR, scale > 0 ? Math.abs(value) / scale : 0);
+}
+
+function largestMagnitude(values: Float64Array): number {
+  let max = 0;
+  for (const v of values) if (Number.isFinite(v)) max = Math.max(max, Math.abs(v));
+  return max;
+}
+
+// One square cell per grid point, filling size × size from (x0, y0) with the first row at the bottom
+function mapCells(values: ArrayLike<number>, resolution: number, x0: number, y0: number, size: number,
+  color: (value: number) => string): ReactNode[] {
+  const cell = size / resolution;
+  return Array.from({ length: values.length }, (_, i) => (
+    <rect
+      key={i}
+      x={x0 + (i % resolution) * cell}
+      y={y0 + (resolution - 1 - Math.floor(i / resolution)) * cell}
+      width={cell + 0.3}
+      height={cell + 0.3}
+      fill={color(values[i])}
+    />
+  ));
+}
+
+interface UnitMapDetailProps {
+  maps: UnitMaps;
+  map: UnitMap;
+  title: string;
+  probabilityClass: number | null;
+  data: DataPoint[];
+  onClose: () => void;
+}
+
+/**
+ * An enlarged activation map with the unit's z = 0 contour, the region
+ * where it passes no gradient, and the training points
+ */
+function UnitMapDetail({ maps, map, title, probabilityClass, data, onClose }: UnitMapDetailProps) {
+  const { resolution, xs, ys } = maps;
+  const cell = DETAIL_MAP_SIZE / resolution;
+  // Grid points sit at cell centres
+  const toX = (x: number) => cell / 2 + ((x - xs[0]) / (xs[resolution - 1] - xs[0])) * (DETAIL_MAP_SIZE - cell);
+  const toY = (y: number) => DETAIL_MAP_SIZE - cell / 2 - ((y - ys[0]) / (ys[resolution - 1] - ys[0])) * (DETAIL_MAP_SIZE - cell);
+  const scale = largestMagnitude(map.activation);
+  const contour = contourSegments(map.preActivation, xs, ys, 0);
+  const deadShare = map.dead.reduce((sum, d) => sum + d, 0) / map.dead.length;
+
+  return (
+    <div className="absolute top-2 right-2 bg-white rounded border border-gray-300 shadow p-2 text-xs">
+      <div className="flex items-center justify-between mb-1 gap-2">
+        <span className="font-medium text-gray-700">{title}</span>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-700" title="Close">✕</button>
+      </div>
+      <svg width={DETAIL_MAP_SIZE} height={DETAIL_MAP_SIZE} className="border border-gray-200">
+        {mapCells(map.activation, resolution, 0, 0, DETAIL_MAP_SIZE, v => mapColor(v, scale, probabilityClass))}
+        <g opacity={0.35}>
+          {mapCells(map.dead, resolution, 0, 0, DETAIL_MAP_SIZE, d => (d ? DEAD_COLOR : 'none'))}
+        </g>
+        <path
+          d={contour.map(([[x1, y1], [x2, y2]]) => `M${toX(x1)},${toY(y1)}L${toX(x2)},${toY(y2)}`).join('')}
+          fill="none"
+          stroke="black"
+          strokeWidth={1.5}
+          strokeDasharray="4 2"
+        />
+        {data.map((point, i) => (
+          <circle
+            key={i}
+            cx={toX(point.input[0])}
+            cy={toY(point.input.length > 1 ? point.input[1] : 0.5)}
+            r={2.5}
+            fill={probabilityClass !== null ? classColor(point.label) : 'white'}
+            stroke="black"
+            strokeWidth={0.5}
+          />
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-x-3 text-[10px] text-gray-500 mt-1" style={{ maxWidth: DETAIL_MAP_SIZE }}>
+        <span>
+          <span className="inline-block w-3 h-0 border-t border-dashed border-black mr-1 align-middle"></span>z = 0
+        </span>
+        {deadShare > 0 && (
+          <span>
+            <span className="inline-block w-2 h-2 mr-1 opacity-50" style={{ backgroundColor: DEAD_COLOR }}></span>
+            no gradient ({(deadShare * 100).toFixed(0)}% of the square)
+          </span>
+        )}
+        <span>{probabilityClass !== null ? 'probability' : `|a| ≤ ${scale.toFixed(2)}`}</span>
+      </div>
+    </div>
+  );
+}
+
+// Chip colours per layer type (matching the computation graph's op colours)
+const LAYER_COLORS: Record<LayerType, { fill: string; stroke: string }> = {
+  dense: { fill: '#dbeafe', stroke: '#2563eb' },
+  activation: { fill: '#fef3c7', stroke: '#d97706' },
+  dropout: { fill: '#f3f4f6', stroke: '#6b7280' },
+  layerNorm: { fill: '#cffafe', stroke: '#0891b2' },
+  batchNorm: { fill: '#cffafe', stroke: '#0891b2' },
+};
+
+function layerChipLabel(layer: LayerState): string {
+  if (layer.type === 'activation') return getActivation(layer.config.activation as ActivationName).label;
+  if (layer.type === 'dense') return `Dense ${layer.inSize}→${layer.outSize}`;
+  return LAYER_TYPE_LABELS[layer.type];
+}
+
+/**
+ * Tooltip of one unit of a normalization layer: its γ, β and the statistics
+ * it was standardized with
+ */
+function normTooltip(layer: LayerState, params: Float64Array, unit: number): string {
+  const [gamma, beta] = layer.parameters;
+  const { mean = [], variance = [] } = layer.cache;
+  // LayerNorm has one mean/variance per sample, BatchNorm one per unit
+  const stat = (values: number[]) => (values.length === 1 ? values[0] : values[unit]) ?? 0;
+  const statsLabel = layer.type === 'batchNorm' ? 'running μ, σ²' : 'μ, σ² over the layer';
+  return [
+    `${layer.label}, unit ${unit}`,
+    `γ = ${params[gamma.offset + unit].toFixed(3)}, β = ${params[beta.offset + unit].toFixed(3)}`,
+    `${statsLabel}: ${stat(mean).toFixed(3)}, ${stat(variance).toFixed(3)}`,
+    `x̂ = ${(layer.cache.normalized?.[unit] ?? 0).toFixed(3)} → ${(layer.cache.output?.[unit] ?? 0).toFixed(3)}`,
+  ].join('\n');
 }
 
 export function NetworkVisualization({
@@ -33,8 +199,28 @@ export function NetworkVisualization({
   onEdgeSelect,
   selectedNode,
   onNodeSelect,
+  data = [],
 }: NetworkVisualizationProps) {
   const [hoveredEdge, setHoveredEdge] = useState<string | null>(null);
+  const [showMaps, setShowMaps] = useState(false);
+  const [detailNode, setDetailNode] = useState<NodeSelection | null>(null);
+  const clipId = useId();
+
+  // Activation maps need every input on the plane, and data sized for this network
+  const inputSize = network.layerSizes[0];
+  const canMap = inputSize <= 2 && data.length > 0 && data[0].input.length === inputSize;
+  const mapRange = useMemo(() => ({
+    x: axisRange(data.map(d => d.input[0])),
+    y: inputSize > 1 ? axisRange(data.map(d => d.input[1])) : [0, 1] as [number, number],
+  }), [data, inputSize]);
+  const nodeMaps = useMemo(
+    () => (showMaps && canMap ? unitMaps(network, mapRange.x, mapRange.y, inputSize, NODE_MAP_RESOLUTION) : null),
+    [showMaps, canMap, network, mapRange, inputSize],
+  );
+  const detailMaps = useMemo(
+    () => (nodeMaps && detailNode ? unitMaps(network, mapRange.x, mapRange.y, inputSize, DETAIL_MAP_RESOLUTION) : null),
+    [nodeMaps, detailNode, network, mapRange, inputSize],
+  );
 
   const nodeRadius = 30;
 
@@ -62,9 +248,19 @@ export function NetworkVisualization({
   const svgWidth = 60 + (network.layerSizes.length - 1) * 220 + 100;
   const svgHeight = 600;
 
-  // Compute output with sigmoid
-  const forwardOutput = network.forward(currentInput);
-  const output = (sigmoid(forwardOutput as number[]) as number[]);
+  // Per-layer values for the selected input, and the output through the loss's link (e.g. sigmoid)
+  const trace = network.trace(currentInput);
+  const link = getLoss(network.lossName).link;
+  const output = applyLink(link, trace.output);
+  const linkSymbol = link === 'sigmoid' ? 'σ' : link === 'softmax' ? 'softmax' : 'ŷ';
+  // With several probability outputs, the argmax unit is the predicted class
+  const predicted = link !== 'identity' && output.length > 1 ? predictedClass(output) : -1;
+  // The layers behind each column of units (blocks[l - 1] feeds column l)
+  const blocks = layerBlocks(trace.layers);
+  // Class whose probability an output unit gives (null: not a probability)
+  const probabilityClass = (layerIdx: number, nodeIdx: number) =>
+    layerIdx === network.layerSizes.length - 1 && link !== 'identity' ? (output.length === 1 ? 1 : nodeIdx) : null;
+  const detailMap = detailNode && detailMaps?.layers[detailNode.layerIdx - 1]?.[detailNode.nodeIdx];
 
   return (
     <div className="bg-white rounded-lg border border-gray-200 h-full flex flex-col">
@@ -74,10 +270,15 @@ export function NetworkVisualization({
           className="w-full h-full border border-gray-300 rounded bg-gray-50"
           preserveAspectRatio="xMidYMid meet"
         >
+        <defs>
+          <clipPath id={clipId} clipPathUnits="objectBoundingBox">
+            <circle cx={0.5} cy={0.5} r={0.5} />
+          </clipPath>
+        </defs>
         {/* Draw edges (weights) */}
         {network.weights.map((layerWeights, layerIdx) => {
           return layerWeights.map((weights, fromIdx) =>
-            weights.map((weight, toIdx) => {
+            Array.from(weights, (weight, toIdx) => {
               const fromKey = `${layerIdx}-${fromIdx}`;
               const toKey = `${layerIdx + 1}-${toIdx}`;
               const fromPos = positions[fromKey];
@@ -164,6 +365,64 @@ export function NetworkVisualization({
           );
         })}
 
+        {/* Normalization layers: one box per unit, just before the unit */}
+        {blocks.map((block, b) =>
+          block
+            .filter(layer => layer.type === 'layerNorm' || layer.type === 'batchNorm')
+            .map(layer =>
+              Array.from({ length: layer.outSize }, (_, unit) => {
+                const pos = positions[`${b + 1}-${unit}`];
+                if (!pos) return null;
+                const colors = LAYER_COLORS[layer.type];
+                return (
+                  <g key={`${layer.label}-${unit}`}>
+                    <title>{normTooltip(layer, network.params, unit)}</title>
+                    <rect
+                      x={pos.x - 52}
+                      y={pos.y + nodeRadius - 9}
+                      width={46}
+                      height={18}
+                      rx={4}
+                      fill={colors.fill}
+                      stroke={colors.stroke}
+                    />
+                    <text
+                      x={pos.x - 29}
+                      y={pos.y + nodeRadius + 1}
+                      fontSize="8"
+                      textAnchor="middle"
+                      dominantBaseline="middle"
+                      className="pointer-events-none"
+                    >
+                      {layer.type === 'batchNorm' ? 'BN' : 'LN'} {(layer.cache.output?.[unit] ?? 0).toFixed(2)}
+                    </text>
+                  </g>
+                );
+              })
+            )
+        )}
+
+        {/* Layer types feeding each column */}
+        {blocks.map((block, b) => {
+          const x = 60 + (b + 1) * 220 + nodeRadius;
+          return (
+            <g key={`chips-${b}`} className="pointer-events-none">
+              {block.map((layer, i) => {
+                const colors = LAYER_COLORS[layer.type];
+                const y = svgHeight - 18 - (block.length - 1 - i) * 16;
+                return (
+                  <g key={layer.label}>
+                    <rect x={x - 40} y={y - 7} width={80} height={14} rx={7} fill={colors.fill} stroke={colors.stroke} />
+                    <text x={x} y={y + 1} fontSize="8" textAnchor="middle" dominantBaseline="middle">
+                      {layerChipLabel(layer)}
+                    </text>
+                  </g>
+                );
+              })}
+            </g>
+          );
+        })}
+
         {/* Draw nodes */}
         {network.layerSizes.map((size, layerIdx) => {
           return Array.from({ length: size }).map((_, nodeIdx) => {
@@ -176,6 +435,10 @@ export function NetworkVisualization({
             let color: string;
             const hasBias = layerIdx > 0; // Hidden and output nodes have biases
             const isNodeSelected = selectedNode?.layerIdx === layerIdx && selectedNode?.nodeIdx === nodeIdx;
+            // Dropped by dropout on the last training forward pass of this step
+            const isDropped = state.dropoutMasks[layerIdx - 1]?.[nodeIdx] === 0;
+            const nodeMap = nodeMaps?.layers[layerIdx - 1]?.[nodeIdx];
+            const mapScale = nodeMap ? largestMagnitude(nodeMap.activation) : 0;
 
             if (layerIdx === 0) {
               // Input layer
@@ -183,28 +446,38 @@ export function NetworkVisualization({
               label = `x${nodeIdx}\n${value.toFixed(2)}`;
               color = '#dcfce7';
             } else if (layerIdx === network.layerSizes.length - 1) {
-              // Output layer - show both raw and sigmoid
-              // Use network's current preActivations after forward pass
-              const rawOutput = network.preActivations[layerIdx - 1]?.[nodeIdx] ?? 0;
+              // Output layer - show both raw and the link's output (e.g. sigmoid)
+              const rawOutput = trace.preActivations[layerIdx - 1]?.[nodeIdx] ?? 0;
               value = output[nodeIdx];
-              label = `out\nraw: ${rawOutput.toFixed(2)}\nσ: ${value.toFixed(3)}`;
-              color = '#fecaca';
+              if (link === 'identity') {
+                label = `out\nraw: ${rawOutput.toFixed(2)}\n${linkSymbol}: ${value.toFixed(3)}`;
+                color = '#fecaca';
+              } else {
+                // Probability output: tinted by the probability of its class
+                // (a single sigmoid unit is P(class 1))
+                const cls = output.length === 1 ? 1 : nodeIdx;
+                label = `${output.length === 1 ? 'out' : `class ${nodeIdx}`}\nraw: ${rawOutput.toFixed(2)}\n${linkSymbol}: ${value.toFixed(3)}`;
+                color = tint(classColor(cls), 0.15 + 0.7 * value);
+              }
             } else {
               // Hidden layer - show weighted inputs from each source node and pre-activation
-              // Use network's current state after forward pass (not stored state)
-              const preAct = network.preActivations[layerIdx - 1]?.[nodeIdx] ?? 0;
-              value = network.activations[layerIdx]?.[nodeIdx] ?? 0;
+              // Use the trace for the selected input (not stored state)
+              const preAct = trace.preActivations[layerIdx - 1]?.[nodeIdx] ?? 0;
+              const act = getActivation(network.layerActivations[layerIdx - 1]);
+              value = trace.activations[layerIdx]?.[nodeIdx] ?? 0;
+              // With normalization the activation sees the normalized value, not z
+              const norm = blocks[layerIdx - 1]?.find(layer => layer.type === 'layerNorm' || layer.type === 'batchNorm');
+              const actInput = norm?.cache.output?.[nodeIdx] ?? preAct;
 
               // Calculate weighted inputs from each source node
-              // Use currentInput for layer 0, otherwise use network's activations
-              const prevActivations = layerIdx === 1 ? currentInput : network.activations[layerIdx - 1];
+              const prevActivations = trace.activations[layerIdx - 1];
               const weightsToThis = network.weights[layerIdx - 1];
               const weightedInputA = prevActivations[0] * (weightsToThis?.[0]?.[nodeIdx] ?? 0);
               const weightedInputB = prevActivations[1] * (weightsToThis?.[1]?.[nodeIdx] ?? 0);
 
-              label = `h${nodeIdx}\na: ${weightedInputA.toFixed(2)}\nb: ${weightedInputB.toFixed(2)}\npre: ${preAct.toFixed(2)}`;
-              // Color intensity based on activation - gray when dead (ReLU=0, i.e. pre < 0)
-              color = preAct > 0 ? '#fef3c7' : '#e5e7eb';
+              label = `h${nodeIdx}\na: ${weightedInputA.toFixed(2)}\nb: ${weightedInputB.toFixed(2)}\npre: ${preAct.toFixed(2)}\n${act.label}: ${value.toFixed(2)}`;
+              // Color intensity based on activation - gray when no gradient flows (e.g. dead ReLU, pre < 0)
+              color = act.derivative(actInput) !== 0 ? '#fef3c7' : '#e5e7eb';
             }
 
             return (
@@ -212,6 +485,7 @@ export function NetworkVisualization({
                 key={key}
                 onClick={(e) => {
                   e.stopPropagation();
+                  if (nodeMap) setDetailNode(isNodeSelected ? null : { layerIdx, nodeIdx });
                   if (hasBias && onNodeSelect) {
                     if (isNodeSelected) {
                       onNodeSelect(null);
@@ -222,6 +496,7 @@ export function NetworkVisualization({
                 }}
                 style={{ cursor: hasBias ? 'pointer' : 'default', pointerEvents: 'all' }}
               >
+                {nodeMap && <title>{label}</title>}
                 {/* Selection ring */}
                 {isNodeSelected && (
                   <circle
@@ -240,8 +515,43 @@ export function NetworkVisualization({
                   r={nodeRadius}
                   fill={isNodeSelected ? '#fed7aa' : color}
                   stroke={isNodeSelected ? '#f97316' : 'black'}
-                  strokeWidth={isNodeSelected ? 3 : 2}
+                  strokeWidth={isNodeSelected ? 3 : layerIdx === network.layerSizes.length - 1 && nodeIdx === predicted ? 4 : 2}
+                  strokeDasharray={isDropped ? '4 3' : undefined}
+                  opacity={isDropped ? 0.5 : 1}
                 />
+                {/* The unit over the input square, in place of its values (which move to the tooltip) */}
+                {nodeMap && (
+                  <>
+                    <g clipPath={`url(#${clipId})`} opacity={isDropped ? 0.5 : 1}>
+                      {mapCells(nodeMap.activation, NODE_MAP_RESOLUTION, pos.x, pos.y, 2 * nodeRadius, v =>
+                        mapColor(v, mapScale, probabilityClass(layerIdx, nodeIdx)))}
+                    </g>
+                    <circle
+                      cx={pos.x + nodeRadius}
+                      cy={pos.y + nodeRadius}
+                      r={nodeRadius}
+                      fill="none"
+                      stroke={isNodeSelected ? '#f97316' : 'black'}
+                      strokeWidth={isNodeSelected ? 3 : 2}
+                    />
+                  </>
+                )}
+                {isDropped && (
+                  <g stroke="#dc2626" strokeWidth="2" opacity="0.7" className="pointer-events-none">
+                    <line
+                      x1={pos.x + nodeRadius * 0.4}
+                      y1={pos.y + nodeRadius * 0.4}
+                      x2={pos.x + nodeRadius * 1.6}
+                      y2={pos.y + nodeRadius * 1.6}
+                    />
+                    <line
+                      x1={pos.x + nodeRadius * 1.6}
+                      y1={pos.y + nodeRadius * 0.4}
+                      x2={pos.x + nodeRadius * 0.4}
+                      y2={pos.y + nodeRadius * 1.6}
+                    />
+                  </g>
+                )}
                 <text
                   x={pos.x + nodeRadius}
                   y={pos.y + nodeRadius}
@@ -250,6 +560,7 @@ export function NetworkVisualization({
                   textAnchor="middle"
                   dominantBaseline="middle"
                   className="pointer-events-none"
+                  visibility={nodeMap ? 'hidden' : undefined}
                 >
                   {label.split('\n').map((line, i, arr) => (
                     <tspan
@@ -266,6 +577,25 @@ export function NetworkVisualization({
           });
         })}
         </svg>
+        {canMap && (
+          <label
+            className="absolute top-2 left-2 flex items-center gap-1 text-xs bg-white/80 rounded px-1.5 py-0.5 border border-gray-200"
+            title="Draw each unit's activation over the input square; click a unit to enlarge it"
+          >
+            <input type="checkbox" checked={showMaps} onChange={(e) => setShowMaps(e.target.checked)} />
+            Activation maps
+          </label>
+        )}
+        {detailNode && detailMaps && detailMap && (
+          <UnitMapDetail
+            maps={detailMaps}
+            map={detailMap}
+            title={`${detailNode.layerIdx === network.layerSizes.length - 1 ? 'Output' : 'Hidden'} unit ${detailNode.nodeIdx} (layer ${detailNode.layerIdx}): ${getActivation(network.layerActivations[detailNode.layerIdx - 1]).label}`}
+            probabilityClass={probabilityClass(detailNode.layerIdx, detailNode.nodeIdx)}
+            data={data}
+            onClose={() => setDetailNode(null)}
+          />
+        )}
         <Legend />
       </div>
     </div>
@@ -1,10 +1,13 @@
 import { useMemo, useState, useEffect } from 'react';
 import type { TrainingStep } from '../hooks/useTraining';
+import type { EvalMetrics, SplitMetrics } from '../training/session';
+import type { EarlyStopping } from '../training/earlyStopping';
 import type { EdgeSelection, NodeSelection } from './NetworkVisualization';
 
 interface ParameterGraphsProps {
   steps: TrainingStep[];
   currentStep: number;
+  earlyStop?: EarlyStopping;   // checkpoints marked on the split graphs
   onStepClick: (step: number) => void;
   selectedEdge?: EdgeSelection | null;
   selectedNode?: NodeSelection | null;
@@ -16,16 +19,34 @@ const GRAPH_WIDTH = 170;
 const GRAPH_HEIGHT = 120;
 const PADDING = { top: 12, right: 8, bottom: 20, left: 32 };
 
-type GraphType = 'loss' | 'weights' | 'biases' | 'weightGrads' | 'biasGrads';
+type GraphType =
+  | 'loss' | 'splitLoss' | 'splitAccuracy' | 'gap' | 'learningRate' | 'gradNorm' | 'weights' | 'biases'
+  | 'weightGrads' | 'biasGrads';
 
 const GRAPH_TYPES: { id: GraphType; label: string }[] = [
   { id: 'loss', label: 'Loss' },
+  { id: 'splitLoss', label: 'Splits' },
+  { id: 'splitAccuracy', label: 'Acc' },
+  { id: 'gap', label: 'Gap' },
+  { id: 'learningRate', label: 'LR' },
+  { id: 'gradNorm', label: '‖∇‖' },
   { id: 'weights', label: 'Weights' },
   { id: 'biases', label: 'Biases' },
   { id: 'weightGrads', label: '∇ Weights' },
   { id: 'biasGrads', label: '∇ Biases' },
 ];
 
+// Graphs that show the validation metrics early stopping watches
+const SPLIT_GRAPHS: GraphType[] = ['splitLoss', 'splitAccuracy', 'gap'];
+
+const SPLITS: { key: keyof SplitMetrics; label: string; color: string }[] = [
+  { key: 'train', label: 'Train', color: '#3b82f6' },
+  { key: 'validation', label: 'Validation', color: '#f59e0b' },
+  { key: 'test', label: 'Test', color: '#22c55e' },
+];
+
+const CHECKPOINT_COLOR = '#16a34a';
+
 const COLORS = [
   '#3b82f6', '#ef4444', '#22c55e', '#f59e0b', '#8b5cf6',
   '#ec4899', '#06b6d4', '#84cc16', '#f97316', '#6366f1',
@@ -193,7 +214,9 @@ function MiniGraph({
   );
 }
 
-export function ParameterGraphs({ steps, currentStep, onStepClick, selectedEdge, selectedNode, onClearSelection }: ParameterGraphsProps) {
+export function ParameterGraphs({
+  steps, currentStep, earlyStop, onStepClick, selectedEdge, selectedNode, onClearSelection,
+}: ParameterGraphsProps) {
   const [graphType, setGraphType] = useState<GraphType>('loss');
 
   useEffect(() => {
@@ -349,6 +372,46 @@ export function ParameterGraphs({ steps, currentStep, onStepClick, selectedEdge,
         points: steps.map((s, i) => ({ x: xScale(i), y: 0, value: s.loss })),
       }];
       yLabel = 'Loss';
+    } else if (graphType === 'splitLoss' || graphType === 'splitAccuracy') {
+      // One line per split the timeline has (empty splits are null)
+      const metric: keyof EvalMetrics = graphType === 'splitLoss' ? 'loss' : 'accuracy';
+      allSeries = SPLITS
+        .filter(split => steps.some(s => s.metrics[split.key]))
+        .map(split => ({
+          label: split.label,
+          color: split.color,
+          points: steps.map((s, i) => ({ x: xScale(i), y: 0, value: s.metrics[split.key]?.[metric] ?? NaN })),
+        }));
+      yLabel = graphType === 'splitLoss' ? 'Loss' : 'Accuracy';
+    } else if (graphType === 'gap') {
+      // Generalization gap: how much worse the held-out loss is than the training loss
+      allSeries = SPLITS
+        .filter(split => split.key !== 'train' && steps.some(s => s.metrics[split.key]))
+        .map(split => ({
+          label: `${split.label} − train`,
+          color: split.color,
+          points: steps.map((s, i) => ({
+            x: xScale(i),
+            y: 0,
+            value: (s.metrics[split.key]?.loss ?? NaN) - s.metrics.train.loss,
+          })),
+        }));
+      yLabel = 'Loss gap';
+    } else if (graphType === 'learningRate') {
+      allSeries = [{
+        label: 'Learning rate',
+        color: COLORS[4],
+        points: steps.map((s, i) => ({ x: xScale(i), y: 0, value: s.learningRate })),
+      }];
+      yLabel = 'η';
+    } else if (graphType === 'gradNorm') {
+      // Norm of each step's last update (before clipping)
+      allSeries = [{
+        label: 'Gradient norm',
+        color: COLORS[1],
+        points: steps.map((s, i) => ({ x: xScale(i), y: 0, value: s.gradNorms[s.gradNorms.length - 1] ?? 0 })),
+      }];
+      yLabel = '‖∇‖';
     } else if (graphType === 'weights' && !selectedEdge) {
       let colorIdx = 0;
       steps[0]?.state.weights.forEach((layer, layerIdx) => {
@@ -425,7 +488,8 @@ export function ParameterGraphs({ steps, currentStep, onStepClick, selectedEdge,
       yLabel = '∇ Bias';
     }
 
-    const allValues = allSeries.flatMap(s => s.points.map(p => p.value));
+    // Non-finite values (after a divergence) are left out of the scale and the lines
+    const allValues = allSeries.flatMap(s => s.points.map(p => p.value)).filter(Number.isFinite);
     const yMin = Math.min(...allValues, 0);
     const yMax = Math.max(...allValues, 0.1);
     const yRange = yMax - yMin || 1;
@@ -442,6 +506,15 @@ export function ParameterGraphs({ steps, currentStep, onStepClick, selectedEdge,
     return { series: allSeries, yMin, yMax, yLabel };
   }, [steps, graphType, selectedEdge]);
 
+  const divergedStep = steps.findIndex(s => s.divergence);
+  const current = steps[currentStep];
+
+  // x of a step in the main graph
+  const mainChartWidth = GRAPH_WIDTH * 2 + 8 - PADDING.left - PADDING.right;
+  const mainX = (step: number) =>
+    PADDING.left + (steps.length > 1 ? (step / (steps.length - 1)) * mainChartWidth : mainChartWidth / 2);
+  const showCheckpoints = earlyStop && SPLIT_GRAPHS.includes(graphType);
+
   const showEdgeGraphs = selectedEdge && (graphType === 'weights' || graphType === 'weightGrads');
   const showNodeGraphs = selectedNode && (graphType === 'biases' || graphType === 'biasGrads');
 
@@ -586,9 +659,10 @@ export function ParameterGraphs({ steps, currentStep, onStepClick, selectedEdge,
 
               {/* Data lines */}
               {mainGraphData.series.map((s, idx) => {
-                const pathD = s.points.length > 0
-                  ? s.points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ')
-                  : '';
+                const pathD = s.points
+                  .filter(p => Number.isFinite(p.y))
+                  .map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`)
+                  .join(' ');
                 return (
                   <path
                     key={idx}
@@ -601,6 +675,56 @@ export function ParameterGraphs({ steps, currentStep, onStepClick, selectedEdge,
                 );
               })}
 
+              {/* Divergence marker */}
+              {divergedStep >= 0 && (
+                <line
+                  x1={PADDING.left + (steps.length > 1 ? (divergedStep / (steps.length - 1)) * (GRAPH_WIDTH * 2 + 8 - PADDING.left - PADDING.right) : (GRAPH_WIDTH * 2 + 8 - PADDING.left - PADDING.right) / 2)}
+                  y1={PADDING.top}
+                  x2={PADDING.left + (steps.length > 1 ? (divergedStep / (steps.length - 1)) * (GRAPH_WIDTH * 2 + 8 - PADDING.left - PADDING.right) : (GRAPH_WIDTH * 2 + 8 - PADDING.left - PADDING.right) / 2)}
+                  y2={GRAPH_HEIGHT - PADDING.bottom}
+                  stroke="#dc2626"
+                  strokeWidth="2"
+                >
+                  <title>Diverged (NaN/Infinity) at step {divergedStep}</title>
+                </line>
+              )}
+
+              {/* Early stopping: checkpoints along the bottom, the best one as a line */}
+              {showCheckpoints && earlyStop.checkpoints.map(step => (
+                <path
+                  key={step}
+                  d={`M ${mainX(step)} ${GRAPH_HEIGHT - PADDING.bottom} l -2.5 4 h 5 z`}
+                  fill={CHECKPOINT_COLOR}
+                >
+                  <title>Checkpoint: new best validation loss at step {step}</title>
+                </path>
+              ))}
+              {showCheckpoints && earlyStop.best !== null && (
+                <line
+                  x1={mainX(earlyStop.best)}
+                  y1={PADDING.top}
+                  x2={mainX(earlyStop.best)}
+                  y2={GRAPH_HEIGHT - PADDING.bottom}
+                  stroke={CHECKPOINT_COLOR}
+                  strokeWidth="1.5"
+                >
+                  <title>Best checkpoint (step {earlyStop.best})</title>
+                </line>
+              )}
+              {showCheckpoints && earlyStop.stopStep !== null && (
+                <line
+                  x1={mainX(earlyStop.stopStep)}
+                  y1={PADDING.top}
+                  x2={mainX(earlyStop.stopStep)}
+                  y2={GRAPH_HEIGHT - PADDING.bottom}
+                  stroke="#6b7280"
+                  strokeWidth="1"
+                  strokeDasharray="2 2"
+                >
+                  <title>Early stopping would stop here (step {earlyStop.stopStep})</title>
+                </line>
+              )}
+
               {/* Current step indicator */}
               {steps.length > 0 && (
                 <line
@@ -693,6 +817,27 @@ export function ParameterGraphs({ steps, currentStep, onStepClick, selectedEdge,
         {graphType === 'loss' && (
           <span>Loss: {steps[currentStep]?.loss.toFixed(4)}</span>
         )}
+        {(graphType === 'splitLoss' || graphType === 'splitAccuracy') && current && (
+          <span>
+            {SPLITS.filter(split => current.metrics[split.key]).map(split => {
+              const m = current.metrics[split.key]!;
+              return `${split.label} ${graphType === 'splitLoss' ? m.loss.toFixed(4) : `${(m.accuracy * 100).toFixed(0)}%`}`;
+            }).join(' | ')}
+          </span>
+        )}
+        {graphType === 'gap' && current && (
+          <span>
+            {SPLITS.filter(split => split.key !== 'train' && current.metrics[split.key]).map(split =>
+              `${split.label} − train: ${(current.metrics[split.key]!.loss - current.metrics.train.loss).toFixed(4)}`
+            ).join(' | ') || 'No validation or test split'}
+          </span>
+        )}
+        {graphType === 'learningRate' && (
+          <span>η: {steps[currentStep]?.learningRate.toPrecision(3)}</span>
+        )}
+        {graphType === 'gradNorm' && (
+          <span>‖∇‖: {steps[currentStep]?.gradNorms.map(n => n.toPrecision(3)).slice(-1)[0] ?? '-'}</span>
+        )}
         {showEdgeGraphs && selectedEdgeData && (
           <span>
             w={selectedEdgeData.weightData.series[0].points[currentStep]?.value.toFixed(3)} |
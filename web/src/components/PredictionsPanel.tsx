@@ -1,35 +1,75 @@
 import type { Network } from '../network/Network';
-import { sigmoid } from '../network/functions';
-
-interface XORData {
-  input: number[];
-  target: number[];
-}
+import { REGRESSION_TOLERANCE, formatInput, isCorrect } from '../data/datasets';
+import type { DatasetTask, EvalPoint } from '../data/datasets';
+import { classProbabilities, predictedClass } from '../network/classification';
+import { classColor } from './classColors';
 
 interface PredictionsPanelProps {
   network: Network;
-  xorData: XORData[];
+  evalData: EvalPoint[];
+  task: DatasetTask;
   selectedIdx: number;
   onSelect: (idx: number) => void;
 }
 
+// Imported datasets evaluate on every row; only the first ones get a card
+const MAX_SHOWN_POINTS = 24;
+
 export function PredictionsPanel({
   network,
-  xorData,
+  evalData,
+  task,
   selectedIdx,
   onSelect,
 }: PredictionsPanelProps) {
+  const shown = evalData.slice(0, MAX_SHOWN_POINTS);
+  const outputs = network.predictBatch(shown.map(d => d.input));
+  // Keep the panel short for datasets with many canonical points
+  const columns = shown.length <= 4 ? 'grid-cols-2' : shown.length <= 9 ? 'grid-cols-3' : 'grid-cols-4';
+
   return (
     <div className="bg-white rounded-lg border border-gray-200 p-3">
-      <h3 className="text-sm font-bold text-gray-700 mb-2">Predictions</h3>
-      <div className="grid grid-cols-2 gap-2">
-        {xorData.map((data, idx) => {
-          const outputArray = network.forward(data.input);
-          const sigmoidOutput = sigmoid(outputArray as number[]);
-          const output = Array.isArray(sigmoidOutput) ? sigmoidOutput[0] : sigmoidOutput;
-          const correct = Math.abs(output - data.target[0]) < 0.5;
+      <h3 className="text-sm font-bold text-gray-700 mb-2">
+        Predictions
+        {evalData.length > shown.length && (
+          <span className="ml-2 font-normal text-xs text-gray-500">first {shown.length} of {evalData.length} points</span>
+        )}
+      </h3>
+      <div className={`grid ${columns} gap-2 max-h-64 overflow-y-auto`}>
+        {shown.map((data, idx) => {
+          const correct = isCorrect(task, outputs[idx], data);
           const isSelected = idx === selectedIdx;
 
+          if (task === 'regression') {
+            return (
+              <button
+                key={idx}
+                onClick={() => onSelect(idx)}
+                className={`p-2 rounded border text-left transition-all ${
+                  isSelected ? 'ring-2 ring-blue-500 border-blue-300' : ''
+                } ${
+                  correct
+                    ? 'border-green-400 bg-green-50 hover:bg-green-100'
+                    : 'border-red-400 bg-red-50 hover:bg-red-100'
+                }`}
+                title={`Correct when within ${REGRESSION_TOLERANCE} of the target`}
+              >
+                <div className="font-mono text-xs font-bold text-gray-900">
+                  [{formatInput(data.input)}] → {data.target[0].toFixed(3)}
+                </div>
+                <div className="text-xs text-gray-700">
+                  predicted <span className="font-mono font-bold text-blue-700">{outputs[idx][0].toFixed(3)}</span>
+                  <span className={`ml-1 font-bold ${correct ? 'text-green-700' : 'text-red-700'}`}>
+                    {correct ? '✓' : '✗'}
+                  </span>
+                </div>
+              </button>
+            );
+          }
+
+          const probs = classProbabilities(outputs[idx]);
+          const predicted = predictedClass(outputs[idx]);
+
           return (
             <button
               key={idx}
@@ -45,14 +85,29 @@ export function PredictionsPanel({
               }`}
             >
               <div className="font-mono text-xs font-bold text-gray-900">
-                [{data.input.join(',')}] → {data.target[0]}
+                [{formatInput(data.input)}] → {data.label}
               </div>
               <div className="text-xs text-gray-700">
-                <span className="font-bold text-blue-700">{output.toFixed(3)}</span>
+                predicted <span className="font-bold text-blue-700">{predicted}</span>
+                {outputs[idx].length === 1 && (
+                  <span className="font-mono text-gray-500"> (p = {outputs[idx][0].toFixed(3)})</span>
+                )}
                 <span className={`ml-1 font-bold ${correct ? 'text-green-700' : 'text-red-700'}`}>
                   {correct ? '✓' : '✗'}
                 </span>
               </div>
+              {/* Probability of each class */}
+              <div className="mt-1 space-y-0.5">
+                {probs.map((p, k) => (
+                  <div key={k} className="flex items-center gap-1 text-[10px] font-mono text-gray-600">
+                    <span className={`w-3 ${k === data.label ? 'font-bold text-gray-900' : ''}`}>{k}</span>
+                    <div className="flex-1 h-1.5 bg-gray-200 rounded">
+                      <div className="h-1.5 rounded" style={{ width: `${Math.max(0, Math.min(1, p)) * 100}%`, backgroundColor: classColor(k) }} />
+                    </div>
+                    <span className="w-9 text-right">{p.toFixed(3)}</span>
+                  </div>
+                ))}
+              </div>
             </button>
           );
         })}
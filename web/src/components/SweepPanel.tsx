@@ -0,0 +1,383 @@
+import { useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+import type { TrainingHyperparameters } from '../hooks/useTraining';
+import type { SweepState } from '../hooks/useSweep';
+import type { RunConfig } from '../training/run';
+import type { ArchitectureConfig, DataConfig } from '../training/session';
+import { SEARCH_MODE_LABELS, groupResults, sweepRunConfig } from '../training/sweep';
+import type { SearchMode, SweepGroup, SweepResult, SweepSpace, SweepSpec } from '../training/sweep';
+
+interface SweepPanelProps {
+  // Current settings: everything the sweep doesn't vary
+  architecture: ArchitectureConfig;
+  data: DataConfig;
+  hyperparameters: TrainingHyperparameters;
+  sweep: SweepState;
+  onStart: (spec: SweepSpec) => void;
+  onStop: () => void;
+  onLoadRun: (config: RunConfig) => void;
+}
+
+const EPOCH_OPTIONS = [25, 50, 100, 200, 500];
+const SEED_COUNT_OPTIONS = [1, 3, 5, 10];
+const CONVERGENCE_OPTIONS = [0.9, 0.95, 1];
+
+// Sweep axes as typed by the user
+interface SpaceText {
+  learningRates: string;
+  noiseLevels: string;
+  hiddenSizes: string;
+  confidencePenalties: string;
+}
+
+const DEFAULT_SPACE_TEXT: SpaceText = {
+  learningRates: '0.1, 0.5, 1',
+  noiseLevels: '0, 0.2',
+  hiddenSizes: '2; 4; 8',
+  confidencePenalties: '0',
+};
+
+function parseNumbers(text: string, label: string, integer: boolean = false): number[] {
+  return text.split(',').map(part => {
+    const x = Number(part);
+    if (part.trim() === '' || !Number.isFinite(x) || (integer && (!Number.isInteger(x) || x < 1))) {
+      throw new Error(`${label}: "${part.trim()}" is not ${integer ? 'a positive integer' : 'a number'}`);
+    }
+    return x;
+  });
+}
+
+// "4; 8; 4,4" → [[4], [8], [4, 4]]
+function parseSpace(text: SpaceText, seedCount: number): SweepSpace {
+  return {
+    seeds: Array.from({ length: seedCount }, (_, i) => i + 1),
+    learningRates: parseNumbers(text.learningRates, 'Learning rates'),
+    noiseLevels: parseNumbers(text.noiseLevels, 'Noise levels'),
+    hiddenSizes: text.hiddenSizes.split(';').map(option => parseNumbers(option, 'Hidden sizes', true)),
+    confidencePenalties: parseNumbers(text.confidencePenalties, 'Penalties'),
+  };
+}
+
+const percent = (x: number) => `${(x * 100).toFixed(0)}%`;
+
+interface Column<T> {
+  label: string;
+  title?: string;
+  value: (row: T) => number | string | null;  // sort key (null sorts last)
+  render?: (row: T) => ReactNode;
+}
+
+const SETTING_COLUMNS: Column<SweepGroup | SweepResult>[] = [
+  { label: 'LR', value: r => r.setting.learningRate },
+  { label: 'Noise', value: r => r.setting.noiseLevel },
+  { label: 'Hidden', value: r => r.setting.hiddenSizes.join(','), render: r => r.setting.hiddenSizes.join(', ') },
+  { label: 'Penalty', value: r => r.setting.confidencePenalty },
+];
+
+const GROUP_COLUMNS: Column<SweepGroup>[] = [
+  ...SETTING_COLUMNS,
+  { label: 'Runs', value: g => g.runs.length },
+  { label: 'Final acc', title: 'Mean final accuracy on the canonical points', value: g => g.meanFinalAccuracy, render: g => percent(g.meanFinalAccuracy) },
+  { label: 'Best acc', title: 'Mean best accuracy during training', value: g => g.meanBestAccuracy, render: g => percent(g.meanBestAccuracy) },
+  {
+    label: 'Epochs',
+    title: 'Mean epochs to convergence, over the runs that converged',
+    value: g => g.meanEpochsToConverge,
+    render: g => g.meanEpochsToConverge === null ? '-' : g.meanEpochsToConverge.toFixed(1),
+  },
+  { label: 'Stuck', title: 'Fraction of runs that never converged', value: g => g.stuckFraction, render: g => percent(g.stuckFraction) },
+];
+
+const RUN_COLUMNS: Column<SweepResult>[] = [
+  ...SETTING_COLUMNS,
+  { label: 'Seed', value: r => r.seed },
+  { label: 'Final acc', value: r => r.summary.finalAccuracy, render: r => percent(r.summary.finalAccuracy) },
+  { label: 'Final loss', value: r => r.summary.finalLoss, render: r => r.summary.finalLoss.toFixed(4) },
+  {
+    label: 'Best acc',
+    value: r => r.summary.bestAccuracy,
+    render: r => <>{percent(r.summary.bestAccuracy)} <span className="text-gray-400">@{r.summary.bestStep}</span></>,
+  },
+  { label: 'Epochs', title: 'Epochs to convergence', value: r => r.summary.epochsToConverge, render: r => r.summary.epochsToConverge ?? '-' },
+  {
+    label: 'Status',
+    value: r => r.summary.diverged ? 'diverged' : r.summary.stuck ? 'stuck' : 'converged',
+    render: r => r.summary.diverged
+      ? <span className="text-red-600">diverged</span>
+      : r.summary.stuck
+        ? <span className="text-orange-600">stuck</span>
+        : <span className="text-green-600">converged</span>,
+  },
+];
+
+function SortableTable<T>({
+  columns,
+  rows,
+  rowKey,
+  selectedKey,
+  onRowClick,
+}: {
+  columns: Column<T>[];
+  rows: T[];
+  rowKey: (row: T) => string;
+  selectedKey: string | null;
+  onRowClick: (row: T) => void;
+}) {
+  const [sort, setSort] = useState<{ column: number; descending: boolean } | null>(null);
+
+  const sorted = useMemo(() => {
+    if (sort === null) return rows;
+    const { value } = columns[sort.column];
+    const sign = sort.descending ? -1 : 1;
+    return [...rows].sort((a, b) => {
+      const x = value(a);
+      const y = value(b);
+      if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+      return sign * (x < y ? -1 : x > y ? 1 : 0);
+    });
+  }, [rows, columns, sort]);
+
+  return (
+    <table className="w-full font-mono">
+      <thead>
+        <tr className="text-gray-500 border-b border-gray-200">
+          {columns.map((column, i) => (
+            <th
+              key={column.label}
+              className="text-left font-medium px-1 py-0.5 cursor-pointer select-none hover:text-gray-800"
+              title={column.title}
+              onClick={() => setSort(prev => ({ column: i, descending: prev?.column === i ? !prev.descending : false }))}
+            >
+              {column.label}
+              {sort?.column === i && (sort.descending ? ' ▼' : ' ▲')}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {sorted.map(row => (
+          <tr
+            key={rowKey(row)}
+            onClick={() => onRowClick(row)}
+            className={`cursor-pointer border-b border-gray-100 ${
+              rowKey(row) === selectedKey ? 'bg-blue-50' : 'hover:bg-gray-50'
+            }`}
+          >
+            {columns.map(column => (
+              <td key={column.label} className="px-1 py-0.5">{column.render ? column.render(row) : column.value(row)}</td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * Hyperparameter sweep dashboard: set up a grid or random search around the
+ * current settings, then compare settings (aggregated over seeds) and
+ * individual runs. Clicking a run trains it in the visualizer.
+ */
+export function SweepPanel({
+  architecture,
+  data,
+  hyperparameters,
+  sweep,
+  onStart,
+  onStop,
+  onLoadRun,
+}: SweepPanelProps) {
+  const [spaceText, setSpaceText] = useState<SpaceText>(DEFAULT_SPACE_TEXT);
+  const [seedCount, setSeedCount] = useState(3);
+  const [mode, setMode] = useState<SearchMode>('grid');
+  const [samples, setSamples] = useState(10);
+  const [searchSeed, setSearchSeed] = useState(1);
+  const [epochs, setEpochs] = useState(100);
+  const [convergenceAccuracy, setConvergenceAccuracy] = useState(1);
+  const [inputError, setInputError] = useState<string | null>(null);
+  const [selectedGroup, setSelectedGroup] = useState<string | null>(null);
+  const [loadedRun, setLoadedRun] = useState<number | null>(null);
+
+  const groups = useMemo(() => groupResults(sweep.results), [sweep.results]);
+  const shownRuns = useMemo(
+    () => selectedGroup === null ? sweep.results : groups.find(g => g.key === selectedGroup)?.runs ?? [],
+    [sweep.results, groups, selectedGroup]
+  );
+
+  const start = () => {
+    try {
+      const space = parseSpace(spaceText, seedCount);
+      setInputError(null);
+      setSelectedGroup(null);
+      setLoadedRun(null);
+      onStart({
+        base: { architecture, seed: 1, data, hyperparameters, epochs },
+        space,
+        mode,
+        samples,
+        searchSeed,
+        convergenceAccuracy,
+      });
+    } catch (error) {
+      setInputError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const loadRun = (run: SweepResult) => {
+    if (!sweep.spec) return;
+    setLoadedRun(run.index);
+    onLoadRun(sweepRunConfig(sweep.spec.base, run));
+  };
+
+  const axisInput = (key: keyof SpaceText, label: string, title: string) => (
+    <label className="flex items-center gap-1">
+      <span className="text-gray-500">{label}:</span>
+      <input
+        type="text"
+        value={spaceText[key]}
+        onChange={(e) => setSpaceText({ ...spaceText, [key]: e.target.value })}
+        className="w-24 px-1 py-0.5 border border-gray-300 rounded font-mono"
+        title={title}
+        disabled={sweep.running}
+      />
+    </label>
+  );
+
+  return (
+    <div className="p-3 text-xs space-y-2 overflow-auto h-full">
+      <div className="flex items-center gap-2 flex-wrap">
+        {axisInput('learningRates', 'LR', 'Learning rates, comma-separated (random search: log-uniform between the smallest and largest)')}
+        {axisInput('noiseLevels', 'Noise', 'Noise levels, comma-separated (random search: uniform between the smallest and largest)')}
+        {axisInput('hiddenSizes', 'Hidden', 'Hidden layer options separated by ";", each a comma-separated list of layer sizes, e.g. "4; 8; 4,4"')}
+        {axisInput('confidencePenalties', 'Penalty', 'Confidence penalties, comma-separated (random search: uniform between the smallest and largest)')}
+      </div>
+      <div className="flex items-center gap-2 flex-wrap">
+        <label className="flex items-center gap-1">
+          <span className="text-gray-500">Search:</span>
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as SearchMode)}
+            className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+            disabled={sweep.running}
+          >
+            {(Object.keys(SEARCH_MODE_LABELS) as SearchMode[]).map((m) => (
+              <option key={m} value={m}>{SEARCH_MODE_LABELS[m]}</option>
+            ))}
+          </select>
+        </label>
+        {mode === 'random' && (
+          <>
+            <label className="flex items-center gap-1">
+              <span className="text-gray-500">Samples:</span>
+              <input
+                type="number"
+                min={1}
+                value={samples}
+                onChange={(e) => setSamples(Math.max(1, parseInt(e.target.value) || 1))}
+                className="w-14 px-1 py-0.5 border border-gray-300 rounded"
+                title="Settings to draw (each runs with every seed)"
+                disabled={sweep.running}
+              />
+            </label>
+            <label className="flex items-center gap-1">
+              <span className="text-gray-500">Search seed:</span>
+              <input
+                type="number"
+                value={searchSeed}
+                onChange={(e) => setSearchSeed(parseInt(e.target.value) || 0)}
+                className="w-14 px-1 py-0.5 border border-gray-300 rounded"
+                disabled={sweep.running}
+              />
+            </label>
+          </>
+        )}
+        <label className="flex items-center gap-1">
+          <span className="text-gray-500">Seeds:</span>
+          <select
+            value={seedCount}
+            onChange={(e) => setSeedCount(parseInt(e.target.value))}
+            className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+            title="Weight init seeds per setting (1 to N)"
+            disabled={sweep.running}
+          >
+            {SEED_COUNT_OPTIONS.map((n) => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <span className="text-gray-500">Epochs:</span>
+          <select
+            value={epochs}
+            onChange={(e) => setEpochs(parseInt(e.target.value))}
+            className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+            disabled={sweep.running}
+          >
+            {EPOCH_OPTIONS.map((n) => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <span className="text-gray-500">Converged at:</span>
+          <select
+            value={convergenceAccuracy}
+            onChange={(e) => setConvergenceAccuracy(parseFloat(e.target.value))}
+            className="px-1 py-0.5 border border-gray-300 rounded bg-white"
+            title="Accuracy on the canonical points that counts as converged (runs that never reach it are stuck)"
+            disabled={sweep.running}
+          >
+            {CONVERGENCE_OPTIONS.map((x) => <option key={x} value={x}>{percent(x)}</option>)}
+          </select>
+        </label>
+        {sweep.running ? (
+          <button onClick={onStop} className="px-2 py-0.5 bg-red-500 text-white rounded hover:bg-red-600">
+            ■ Stop
+          </button>
+        ) : (
+          <button onClick={start} className="px-2 py-0.5 bg-blue-500 text-white rounded hover:bg-blue-600">
+            ▶ Run sweep
+          </button>
+        )}
+        {sweep.total > 0 && (
+          <span className="text-gray-500 ml-auto">
+            {sweep.results.length}/{sweep.total} runs{sweep.running ? '…' : ''}
+          </span>
+        )}
+      </div>
+
+      <p className="text-gray-600">
+        Every other setting (dataset, optimizer, batching, regularization, …) is taken from the current controls.
+        Runs are deterministic, so clicking a run retrains exactly that run in the visualizer.
+      </p>
+      {inputError && <p className="text-red-600">{inputError}</p>}
+      {sweep.error && <p className="text-red-600">Sweep failed: {sweep.error}</p>}
+
+      {groups.length > 0 && (
+        <>
+          <div className="font-medium text-gray-700">
+            Settings (mean over seeds)
+            {selectedGroup !== null && (
+              <button onClick={() => setSelectedGroup(null)} className="ml-2 text-blue-600 hover:underline font-normal">
+                show all runs
+              </button>
+            )}
+          </div>
+          <SortableTable
+            columns={GROUP_COLUMNS}
+            rows={groups}
+            rowKey={g => g.key}
+            selectedKey={selectedGroup}
+            onRowClick={g => setSelectedGroup(g.key === selectedGroup ? null : g.key)}
+          />
+          <div className="font-medium text-gray-700">
+            Runs{selectedGroup !== null ? ` (${selectedGroup})` : ''}: click one to load it
+          </div>
+          <SortableTable
+            columns={RUN_COLUMNS}
+            rows={shownRuns}
+            rowKey={r => String(r.index)}
+            selectedKey={loadedRun === null ? null : String(loadedRun)}
+            onRowClick={loadRun}
+          />
+        </>
+      )}
+    </div>
+  );
+}
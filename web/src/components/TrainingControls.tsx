@@ -1,4 +1,25 @@
 import { useEffect, useState } from 'react';
+import { ACTIVATIONS, ACTIVATION_NAMES } from '../network/activations';
+import type { ActivationName } from '../network/activations';
+import { NORMALIZATIONS, NORMALIZATION_LABELS } from '../network/layers';
+import type { Normalization } from '../network/layers';
+import { LOSSES, LOSS_NAMES } from '../network/losses';
+import type { LossName } from '../network/losses';
+import { OPTIMIZERS, OPTIMIZER_NAMES } from '../network/optimizers';
+import type { OptimizerName, OptimizerHyperparams } from '../network/optimizers';
+import { SCHEDULES, SCHEDULE_NAMES } from '../network/schedules';
+import type { ScheduleConfig, ScheduleName, ScheduleParam } from '../network/schedules';
+import { BATCH_MODE_LABELS } from '../network/batching';
+import type { BatchMode } from '../network/batching';
+import type { StepUnit } from '../hooks/useTraining';
+import type { EarlyStopping } from '../training/earlyStopping';
+
+// Steps trained on another version of the (edited) data than the current one
+export interface StaleRange {
+  start: number;
+  end: number;
+  version: number;
+}
 
 interface TrainingControlsProps {
   step: number;
@@ -9,12 +30,36 @@ interface TrainingControlsProps {
   currentTarget: number[];
   learningRate: number;
   onLearningRateChange: (lr: number) => void;
+  schedule: ScheduleConfig;
+  onScheduleChange: (schedule: ScheduleConfig) => void;
+  nextLearningRate: number;
+  hiddenActivation: ActivationName;
+  onHiddenActivationChange: (name: ActivationName) => void;
+  normalization: Normalization;
+  onNormalizationChange: (normalization: Normalization) => void;
+  lossName: LossName;
+  onLossChange: (name: LossName) => void;
+  outputSize: number;
+  optimizerName: OptimizerName;
+  onOptimizerChange: (name: OptimizerName) => void;
+  optimizerHyperparams: OptimizerHyperparams;
+  onOptimizerHyperparamsChange: (hp: OptimizerHyperparams) => void;
+  batchMode: BatchMode;
+  onBatchModeChange: (mode: BatchMode) => void;
+  miniBatchSize: number;
+  onMiniBatchSizeChange: (size: number) => void;
+  shuffle: boolean;
+  onShuffleChange: (shuffle: boolean) => void;
+  stepUnit: StepUnit;
+  onStepUnitChange: (unit: StepUnit) => void;
   onPrev: () => void;
   onNext: () => void;
   onReset: () => void;
   onRandomize: () => void;
   onTogglePlay: () => void;
   onGoToStep: (step: number) => void;
+  earlyStop?: EarlyStopping;   // checkpoints marked under the step slider
+  staleRanges?: StaleRange[];  // shaded over the step slider
 }
 
 // Speed values in ms (lower = faster)
@@ -29,18 +74,63 @@ const SPEED_OPTIONS = [
 
 const LEARNING_RATE_OPTIONS = [0.01, 0.05, 0.1, 0.25, 0.5, 1.0, 2.0, 5.0];
 
+const SCHEDULE_PARAM_OPTIONS: Record<ScheduleParam, { symbol: string; title: string; values: number[] }> = {
+  stepSize: { symbol: 's', title: 'Epochs between decays', values: [10, 25, 50, 100] },
+  gamma: { symbol: 'γ', title: 'Factor applied at each decay', values: [0.1, 0.5, 0.8] },
+  decay: { symbol: 'd', title: 'Decay factor per epoch', values: [0.9, 0.95, 0.98, 0.99, 0.995] },
+  period: { symbol: 'T₀', title: 'Epochs in the first cycle', values: [10, 25, 50, 100] },
+  periodMult: { symbol: '×T', title: 'Each restart cycle is this many times longer', values: [1, 2, 3] },
+  minFactor: { symbol: 'min', title: 'Lowest rate as a fraction of the base rate', values: [0, 0.01, 0.1] },
+  warmupEpochs: { symbol: 'T_warm', title: 'Epochs of linear ramp-up', values: [5, 10, 25, 50] },
+  totalEpochs: { symbol: 'T', title: 'Length of the whole cycle in epochs', values: [50, 100, 200, 500] },
+};
+
+const MINI_BATCH_SIZE_OPTIONS = [4, 8, 16, 32, 64];
+
+const HYPERPARAM_OPTIONS: Record<keyof OptimizerHyperparams, { symbol: string; values: number[] }> = {
+  momentum: { symbol: 'μ', values: [0.5, 0.9, 0.95, 0.99] },
+  rho: { symbol: 'ρ', values: [0.8, 0.9, 0.95, 0.99] },
+  beta1: { symbol: 'β₁', values: [0.8, 0.9, 0.95] },
+  beta2: { symbol: 'β₂', values: [0.99, 0.999, 0.9999] },
+  epsilon: { symbol: 'ε', values: [1e-8, 1e-6, 1e-4] },
+};
+
 export function TrainingControls({
   step,
   maxSteps,
   isPlaying,
   learningRate,
   onLearningRateChange,
+  schedule,
+  onScheduleChange,
+  nextLearningRate,
+  hiddenActivation,
+  onHiddenActivationChange,
+  normalization,
+  onNormalizationChange,
+  lossName,
+  onLossChange,
+  outputSize,
+  optimizerName,
+  onOptimizerChange,
+  optimizerHyperparams,
+  onOptimizerHyperparamsChange,
+  batchMode,
+  onBatchModeChange,
+  miniBatchSize,
+  onMiniBatchSizeChange,
+  shuffle,
+  onShuffleChange,
+  stepUnit,
+  onStepUnitChange,
   onPrev,
   onNext,
   onReset,
   onRandomize,
   onTogglePlay,
   onGoToStep,
+  earlyStop,
+  staleRanges = [],
 }: TrainingControlsProps) {
   const [speedIdx, setSpeedIdx] = useState(2); // Default to 1x (100ms)
   const currentSpeed = SPEED_OPTIONS[speedIdx];
@@ -130,17 +220,221 @@ export function TrainingControls({
             </option>
           ))}
         </select>
+        <select
+          value={schedule.name}
+          onChange={(e) => onScheduleChange({ ...schedule, name: e.target.value as ScheduleName })}
+          className="text-xs px-1 py-0.5 border border-gray-300 rounded bg-white"
+          title={`Learning-rate schedule: ${SCHEDULES[schedule.name].formula} (t in epochs)`}
+        >
+          {SCHEDULE_NAMES.map((name) => (
+            <option key={name} value={name}>
+              {SCHEDULES[name].label}
+            </option>
+          ))}
+        </select>
+        {SCHEDULES[schedule.name].params.map((key) => (
+          <label key={key} className="flex items-center gap-0.5 text-xs text-gray-500" title={SCHEDULE_PARAM_OPTIONS[key].title}>
+            {SCHEDULE_PARAM_OPTIONS[key].symbol}:
+            <select
+              value={schedule[key]}
+              onChange={(e) => onScheduleChange({ ...schedule, [key]: parseFloat(e.target.value) })}
+              className="text-xs px-1 py-0.5 border border-gray-300 rounded bg-white text-gray-900"
+            >
+              {SCHEDULE_PARAM_OPTIONS[key].values.map((v) => (
+                <option key={v} value={v}>
+                  {v}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+        {schedule.name !== 'constant' && (
+          <span className="text-xs text-gray-500 font-mono" title="Rate of the next update">
+            η={nextLearningRate.toPrecision(3)}
+          </span>
+        )}
       </div>
 
-      {/* Step slider */}
-      <input
-        type="range"
-        min="0"
-        max={maxSteps - 1}
-        value={step}
-        onChange={(e) => onGoToStep(parseInt(e.target.value))}
-        className="flex-1 h-1 min-w-[100px]"
-      />
+      {/* Batching controls */}
+      <div className="flex items-center gap-1 border-l border-gray-300 pl-2">
+        <span className="text-xs text-gray-500">Batch:</span>
+        <select
+          value={batchMode}
+          onChange={(e) => onBatchModeChange(e.target.value as BatchMode)}
+          className="text-xs px-1 py-0.5 border border-gray-300 rounded bg-white"
+          title="How many samples' gradients are averaged before each update"
+        >
+          {(Object.keys(BATCH_MODE_LABELS) as BatchMode[]).map((mode) => (
+            <option key={mode} value={mode}>
+              {BATCH_MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+        {batchMode === 'minibatch' && (
+          <select
+            value={miniBatchSize}
+            onChange={(e) => onMiniBatchSizeChange(parseInt(e.target.value))}
+            className="text-xs px-1 py-0.5 border border-gray-300 rounded bg-white"
+            title="Mini-batch size"
+          >
+            {MINI_BATCH_SIZE_OPTIONS.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        )}
+        <label className="flex items-center gap-0.5 text-xs text-gray-500" title="Reshuffle sample order every epoch (seeded, so replays are identical)">
+          <input
+            type="checkbox"
+            checked={shuffle}
+            onChange={(e) => onShuffleChange(e.target.checked)}
+          />
+          Shuffle
+        </label>
+        <span className="text-xs text-gray-500 ml-1">Step =</span>
+        <select
+          value={stepUnit}
+          onChange={(e) => onStepUnitChange(e.target.value as StepUnit)}
+          className="text-xs px-1 py-0.5 border border-gray-300 rounded bg-white"
+          title="What one step on the timeline means"
+        >
+          <option value="epoch">Epoch</option>
+          <option value="update">Update</option>
+        </select>
+      </div>
+
+      {/* Optimizer control */}
+      <div className="flex items-center gap-1 border-l border-gray-300 pl-2">
+        <span className="text-xs text-gray-500">Optimizer:</span>
+        <select
+          value={optimizerName}
+          onChange={(e) => onOptimizerChange(e.target.value as OptimizerName)}
+          className="text-xs px-1 py-0.5 border border-gray-300 rounded bg-white"
+          title="Update rule applied after each gradient (switching starts with fresh optimizer state)"
+        >
+          {OPTIMIZER_NAMES.map((name) => (
+            <option key={name} value={name}>
+              {OPTIMIZERS[name].label}
+            </option>
+          ))}
+        </select>
+        {OPTIMIZERS[optimizerName].hyperparams.map((key) => (
+          <label key={key} className="flex items-center gap-0.5 text-xs text-gray-500">
+            {HYPERPARAM_OPTIONS[key].symbol}:
+            <select
+              value={optimizerHyperparams[key]}
+              onChange={(e) => onOptimizerHyperparamsChange({
+                ...optimizerHyperparams,
+                [key]: parseFloat(e.target.value),
+              })}
+              className="text-xs px-1 py-0.5 border border-gray-300 rounded bg-white text-gray-900"
+            >
+              {HYPERPARAM_OPTIONS[key].values.map((v) => (
+                <option key={v} value={v}>
+                  {v}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {/* Hidden activation control */}
+      <div className="flex items-center gap-1 border-l border-gray-300 pl-2">
+        <span className="text-xs text-gray-500">Activation:</span>
+        <select
+          value={hiddenActivation}
+          onChange={(e) => onHiddenActivationChange(e.target.value as ActivationName)}
+          className="text-xs px-1 py-0.5 border border-gray-300 rounded bg-white"
+          title="Activation function for hidden layers (changing it resets training)"
+        >
+          {ACTIVATION_NAMES.map((name) => (
+            <option key={name} value={name}>
+              {ACTIVATIONS[name].label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Normalization control */}
+      <div className="flex items-center gap-1 border-l border-gray-300 pl-2">
+        <span className="text-xs text-gray-500">Norm:</span>
+        <select
+          value={normalization}
+          onChange={(e) => onNormalizationChange(e.target.value as Normalization)}
+          className="text-xs px-1 py-0.5 border border-gray-300 rounded bg-white"
+          title={
+            'Normalization after each hidden layer\'s weights, before its activation (changing it resets training). ' +
+            'BatchNorm needs batches of 2+ samples; single-sample updates use its running statistics.'
+          }
+        >
+          {NORMALIZATIONS.map((name) => (
+            <option key={name} value={name}>
+              {NORMALIZATION_LABELS[name]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Loss control */}
+      <div className="flex items-center gap-1 border-l border-gray-300 pl-2">
+        <span className="text-xs text-gray-500">Loss:</span>
+        <select
+          value={lossName}
+          onChange={(e) => onLossChange(e.target.value as LossName)}
+          className="text-xs px-1 py-0.5 border border-gray-300 rounded bg-white"
+          title="Loss function - determines the output gradient that drives backprop (changing it resets training)"
+        >
+          {LOSS_NAMES.filter((name) => LOSSES[name].minOutputs <= outputSize).map((name) => (
+            <option key={name} value={name}>
+              {LOSSES[name].label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Step slider, with early-stopping checkpoints underneath */}
+      <div className="relative flex-1 min-w-[100px] flex items-center">
+        {maxSteps > 1 && staleRanges.map(({ start, end, version }) => (
+          <div
+            key={start}
+            className="absolute bottom-full mb-0.5 h-1 bg-amber-300 rounded-sm"
+            style={{
+              left: `${(start / (maxSteps - 1)) * 100}%`,
+              width: `max(2px, ${((end - start) / (maxSteps - 1)) * 100}%)`,
+            }}
+            title={`Steps ${start}–${end} were trained on dataset v${version}, another version of the edited data`}
+          />
+        ))}
+        <input
+          type="range"
+          min="0"
+          max={maxSteps - 1}
+          value={step}
+          onChange={(e) => onGoToStep(parseInt(e.target.value))}
+          className="w-full h-1"
+        />
+        {earlyStop && maxSteps > 1 && earlyStop.checkpoints.map((checkpoint) => (
+          <button
+            key={checkpoint}
+            onClick={() => onGoToStep(checkpoint)}
+            className={`absolute top-full mt-0.5 -translate-x-1/2 w-1 h-1.5 rounded-sm ${
+              checkpoint === earlyStop.best ? 'bg-green-600 h-2' : 'bg-green-300'
+            }`}
+            style={{ left: `${(checkpoint / (maxSteps - 1)) * 100}%` }}
+            title={`${checkpoint === earlyStop.best ? 'Best checkpoint' : 'Checkpoint'}: validation loss improved at step ${checkpoint}`}
+          />
+        ))}
+        {earlyStop && maxSteps > 1 && earlyStop.stopStep !== null && (
+          <button
+            onClick={() => onGoToStep(earlyStop.stopStep!)}
+            className="absolute top-full mt-0.5 -translate-x-1/2 w-0.5 h-2 bg-gray-500"
+            style={{ left: `${(earlyStop.stopStep / (maxSteps - 1)) * 100}%` }}
+            title={`Early stopping: no improvement for its patience, stopped at step ${earlyStop.stopStep}`}
+          />
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,25 @@
+interface WorkerErrorBannerProps {
+  message: string | null;
+  onDismiss: () => void;
+}
+
+/**
+ * Reports a request the training worker could not carry out (a step that
+ * threw, an init that failed), which otherwise just stops training
+ */
+export function WorkerErrorBanner({ message, onDismiss }: WorkerErrorBannerProps) {
+  if (message === null) return null;
+
+  return (
+    <div className="bg-red-50 border border-red-300 rounded px-3 py-1.5 text-xs text-red-800 flex items-center gap-3 flex-wrap">
+      <span className="font-bold">⚠ Training stopped</span>
+      <span className="font-mono">{message}</span>
+      <button
+        onClick={onDismiss}
+        className="ml-auto px-2 py-0.5 bg-white border border-red-300 rounded hover:bg-red-100"
+      >
+        Dismiss
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,6 @@
+// Colour of each class in plots and panels (class 0 red and class 1 blue, as for binary labels)
+export const CLASS_COLORS = ['#ef4444', '#3b82f6', '#22c55e', '#f59e0b', '#8b5cf6', '#ec4899', '#06b6d4', '#84cc16'];
+
+export function classColor(label: number): string {
+  return CLASS_COLORS[label % CLASS_COLORS.length];
+}
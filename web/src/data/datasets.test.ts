@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DATASET_NAMES, datasetLoss, datasetOutputSize, datasetParams, evaluationData, generateDataset, getDataset, isCorrect,
+} from './datasets';
+import { RNG } from '../network/random';
+
+describe('Datasets', () => {
+  it('canonical XOR points should keep their usual labels', () => {
+    expect(evaluationData(getDataset('xor'), 1).map(d => d.target)).toEqual([[0], [1], [1], [0]]);
+  });
+
+  it('should label every point with a valid class and encode it for the output size', () => {
+    for (const name of DATASET_NAMES.filter(n => getDataset(n).task === 'classification')) {
+      const dataset = getDataset(name);
+      const numClasses = dataset.numClasses(datasetParams(dataset));
+      const outputSize = datasetOutputSize(dataset);
+      const data = generateDataset(dataset, 200, 0.3, new RNG(5), outputSize);
+      for (const point of data) {
+        expect(point.input).toHaveLength(dataset.inputSize);
+        expect(point.label).toBeGreaterThanOrEqual(0);
+        expect(point.label).toBeLessThan(numClasses);
+        expect(point.target).toHaveLength(outputSize);
+        expect(point.isNoisy).toBe(point.label !== point.trueLabel);
+      }
+      // Canonical points cover every class
+      const evalLabels = new Set(evaluationData(dataset, outputSize).map(d => d.label));
+      expect(evalLabels.size, name).toBe(numClasses);
+    }
+  });
+
+  it('should be reproducible from the seed', () => {
+    for (const name of DATASET_NAMES) {
+      const dataset = getDataset(name);
+      const outputSize = datasetOutputSize(dataset);
+      expect(generateDataset(dataset, 20, 0.2, new RNG(9), outputSize))
+        .toEqual(generateDataset(dataset, 20, 0.2, new RNG(9), outputSize));
+    }
+  });
+
+  it('generator parameters should shape the data, with defaults for missing ones', () => {
+    const blobs = getDataset('blobs');
+    expect(datasetParams(blobs, { classes: 5, unknown: 1 })).toEqual({ classes: 5, spread: 0.08 });
+    expect(datasetOutputSize(blobs, { classes: 5 })).toBe(5);
+    expect(datasetOutputSize(getDataset('spirals'), { arms: 2 })).toBe(1);
+    const labels = generateDataset(blobs, 300, 0, new RNG(1), 5, { classes: 5 }).map(d => d.label);
+    expect(new Set(labels).size).toBe(5);
+
+    // Points of a linearly separable dataset stay out of the margin
+    const linear = getDataset('linear');
+    const data = generateDataset(linear, 200, 0, new RNG(2), 1, { angle: 0, margin: 0.1 });
+    expect(data.every(d => Math.abs(d.input[1] - 0.5) >= 0.1 && d.label === (d.input[1] > 0.5 ? 1 : 0))).toBe(true);
+  });
+
+  it('regression should sample the curve, adding noise to a fraction of targets', () => {
+    const curve = getDataset('curve');
+    expect(datasetOutputSize(curve)).toBe(1);
+    expect(datasetLoss('regression', 1, 'bce')).toBe('mse');
+    expect(datasetLoss('classification', 1, 'mse')).toBe('mse');
+    expect(datasetLoss('classification', 3, 'bce')).toBe('softmaxCrossEntropy');
+
+    const data = generateDataset(curve, 200, 0.25, new RNG(3), 1);
+    for (const point of data) {
+      expect(point.input).toHaveLength(1);
+      expect(point.target[0] !== point.trueTarget[0]).toBe(point.isNoisy);
+    }
+    const noisy = data.filter(d => d.isNoisy).length;
+    expect(noisy).toBeGreaterThan(20);
+    expect(noisy).toBeLessThan(80);
+
+    const [point] = evaluationData(curve, 1);
+    expect(isCorrect('regression', [point.target[0] + 0.05], point)).toBe(true);
+    expect(isCorrect('regression', [point.target[0] + 0.2], point)).toBe(false);
+  });
+});
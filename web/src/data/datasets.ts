@@ -0,0 +1,415 @@
+/**
+ * Dataset generators
+ *
+ * Each dataset samples clean points from a generator with a few parameters
+ * (see `params`; missing values take their defaults), drawing everything
+ * from the RNG it is given so the same seed gives the same points.
+ *
+ * Classification datasets put points in [0, 1]² and label them with one of K
+ * classes; a fraction `noiseLevel` of labels is flipped to another class. The
+ * regression dataset samples a 1D curve on [0, 1]; a fraction `noiseLevel`
+ * of its targets gets Gaussian noise instead.
+ *
+ * Every dataset also has a handful of canonical points (noise-free, spread
+ * over its classes or its curve) used for the "clean" loss and accuracy.
+ */
+
+import type { RNG } from '../network/random';
+import { encodeTarget, outputSizeFor, predictedClass } from '../network/classification';
+import { getLoss } from '../network/losses';
+import type { LossName } from '../network/losses';
+
+export type DatasetName =
+  | 'xor' | 'quadrants' | 'stripes' | 'circles' | 'moons' | 'spirals' | 'blobs' | 'checkerboard' | 'linear'
+  | 'curve';
+
+export type DatasetTask = 'classification' | 'regression';
+
+export interface DatasetParam {
+  key: string;
+  label: string;
+  title: string;
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+// Generator parameters by key (see Dataset.params)
+export type DatasetParams = Record<string, number>;
+
+// A noise-free point: `y` is the class index, or the target value for regression
+export interface CleanPoint {
+  input: number[];
+  y: number;
+}
+
+export interface Dataset {
+  name: DatasetName;
+  label: string;
+  task: DatasetTask;
+  inputSize: number;
+  params: DatasetParam[];
+  numClasses: (params: DatasetParams) => number;   // 1 for regression
+  sample: (rng: RNG, params: DatasetParams) => CleanPoint;
+  evalPoints: (params: DatasetParams) => CleanPoint[];  // canonical evaluation points
+}
+
+export interface DataPoint {
+  input: number[];
+  target: number[];      // encoded (possibly noisy) label, or the (possibly noisy) value
+  trueTarget: number[];  // encoded label before noise, or the value on the curve
+  label: number;         // class index of target (0 for regression)
+  trueLabel: number;
+  isNoisy: boolean;
+}
+
+export interface EvalPoint {
+  input: number[];
+  target: number[];
+  label: number;         // class index (0 for regression)
+}
+
+// Regression predictions within this distance of the target count as correct
+export const REGRESSION_TOLERANCE = 0.1;
+
+// Spread of the noise added to noisy regression targets
+const REGRESSION_NOISE = 0.15;
+
+// Points sampled uniformly from the unit square and labelled by a rule
+function uniformSampler(labelAt: (x1: number, x2: number, params: DatasetParams) => number) {
+  return (rng: RNG, params: DatasetParams): CleanPoint => {
+    const x1 = rng.uniform();
+    const x2 = rng.uniform();
+    return { input: [x1, x2], y: labelAt(x1, x2, params) };
+  };
+}
+
+function labelled(inputs: number[][], labelAt: (x1: number, x2: number) => number): CleanPoint[] {
+  return inputs.map(input => ({ input, y: labelAt(input[0], input[1]) }));
+}
+
+const jitterParam = (defaultValue: number): DatasetParam => ({
+  key: 'jitter',
+  label: 'Jitter',
+  title: 'Standard deviation of the Gaussian noise added to each coordinate',
+  min: 0,
+  max: 0.2,
+  step: 0.01,
+  default: defaultValue,
+});
+
+const jitter = (rng: RNG, [x1, x2]: number[], sd: number) => [x1 + rng.normal(0, sd), x2 + rng.normal(0, sd)];
+
+// Point at `radius` and `angle` around the centre of the unit square
+const polar = (radius: number, angle: number) => [0.5 + radius * Math.cos(angle), 0.5 + radius * Math.sin(angle)];
+
+// Two interleaving half circles, scaled into the unit square
+function moonPoint(moon: number, t: number): number[] {
+  const [x, y] = moon === 0 ? [Math.cos(t), Math.sin(t)] : [1 - Math.cos(t), 0.5 - Math.sin(t)];
+  return [0.05 + (x + 1) * 0.3, 0.5 + (y - 0.25) * 0.3];
+}
+
+function spiralPoint(arm: number, s: number, { arms, turns }: DatasetParams): number[] {
+  return polar(0.05 + 0.4 * s, 2 * Math.PI * (turns * s + arm / arms));
+}
+
+function blobCenter(k: number, classes: number): number[] {
+  return polar(0.3, Math.PI / 2 + (2 * Math.PI * k) / classes);
+}
+
+// Signed distance from the line through the centre at `angle` degrees (to its normal)
+function linearSide(x1: number, x2: number, angle: number): number {
+  const a = (angle * Math.PI) / 180;
+  return (x1 - 0.5) * -Math.sin(a) + (x2 - 0.5) * Math.cos(a);
+}
+
+function curveAt(x: number, frequency: number): number {
+  return 0.5 + 0.35 * Math.sin(2 * Math.PI * frequency * x);
+}
+
+const xorLabel = (x1: number, x2: number) => (x1 >= 0.5 ? 1 : 0) ^ (x2 >= 0.5 ? 1 : 0);
+const quadrantLabel = (x1: number, x2: number) => (x1 >= 0.5 ? 1 : 0) + (x2 >= 0.5 ? 2 : 0);
+const stripeLabel = (x1: number) => Math.min(2, Math.floor(x1 * 3));
+const checkerLabel = (x1: number, x2: number, cells: number) =>
+  (Math.min(cells - 1, Math.floor(x1 * cells)) + Math.min(cells - 1, Math.floor(x2 * cells))) % 2;
+
+export const DATASETS: Record<DatasetName, Dataset> = {
+  xor: {
+    name: 'xor',
+    label: 'XOR',
+    task: 'classification',
+    inputSize: 2,
+    params: [],
+    numClasses: () => 2,
+    sample: uniformSampler(xorLabel),
+    evalPoints: () => labelled([[0, 0], [0, 1], [1, 0], [1, 1]], xorLabel),
+  },
+  quadrants: {
+    name: 'quadrants',
+    label: 'Quadrants (4 classes)',
+    task: 'classification',
+    inputSize: 2,
+    params: [],
+    numClasses: () => 4,
+    sample: uniformSampler(quadrantLabel),
+    evalPoints: () => labelled([[0, 0], [1, 0], [0, 1], [1, 1]], quadrantLabel),
+  },
+  stripes: {
+    name: 'stripes',
+    label: 'Stripes (3 classes)',
+    task: 'classification',
+    inputSize: 2,
+    params: [],
+    numClasses: () => 3,
+    sample: uniformSampler(stripeLabel),
+    evalPoints: () => labelled([[0.1, 0.5], [0.5, 0.5], [0.9, 0.5]], stripeLabel),
+  },
+  circles: {
+    name: 'circles',
+    label: 'Circles',
+    task: 'classification',
+    inputSize: 2,
+    params: [
+      { key: 'factor', label: 'Inner radius', title: 'Radius of the inner circle relative to the outer one', min: 0.1, max: 0.9, step: 0.1, default: 0.5 },
+      jitterParam(0.03),
+    ],
+    numClasses: () => 2,
+    sample: (rng, { factor, jitter: sd }) => {
+      const y = rng.bernoulli(0.5) ? 1 : 0;
+      const input = polar(y === 1 ? 0.4 * factor : 0.4, rng.uniform(0, 2 * Math.PI));
+      return { input: jitter(rng, input, sd), y };
+    },
+    evalPoints: ({ factor }) => [0, 1].flatMap(y =>
+      [0.25, 0.75, 1.25, 1.75].map(turn => ({ input: polar(y === 1 ? 0.4 * factor : 0.4, turn * Math.PI), y }))
+    ),
+  },
+  moons: {
+    name: 'moons',
+    label: 'Two Moons',
+    task: 'classification',
+    inputSize: 2,
+    params: [jitterParam(0.03)],
+    numClasses: () => 2,
+    sample: (rng, { jitter: sd }) => {
+      const y = rng.bernoulli(0.5) ? 1 : 0;
+      return { input: jitter(rng, moonPoint(y, rng.uniform(0, Math.PI)), sd), y };
+    },
+    evalPoints: () => [0, 1].flatMap(y =>
+      [1 / 6, 1 / 2, 5 / 6].map(t => ({ input: moonPoint(y, t * Math.PI), y }))
+    ),
+  },
+  spirals: {
+    name: 'spirals',
+    label: 'Spirals',
+    task: 'classification',
+    inputSize: 2,
+    params: [
+      { key: 'arms', label: 'Arms', title: 'Number of spiral arms (one class each)', min: 2, max: 5, step: 1, default: 2 },
+      { key: 'turns', label: 'Turns', title: 'How far each arm winds around the centre', min: 0.25, max: 2, step: 0.25, default: 1 },
+      jitterParam(0.02),
+    ],
+    numClasses: ({ arms }) => arms,
+    sample: (rng, params) => {
+      const y = Math.floor(rng.uniform(0, params.arms));
+      return { input: jitter(rng, spiralPoint(y, rng.uniform(), params), params.jitter), y };
+    },
+    evalPoints: (params) => Array.from({ length: params.arms }, (_, y) =>
+      [0.5, 0.9].map(s => ({ input: spiralPoint(y, s, params), y }))
+    ).flat(),
+  },
+  blobs: {
+    name: 'blobs',
+    label: 'Gaussian Blobs',
+    task: 'classification',
+    inputSize: 2,
+    params: [
+      { key: 'classes', label: 'Classes', title: 'Number of blobs (one class each)', min: 2, max: 6, step: 1, default: 3 },
+      { key: 'spread', label: 'Spread', title: 'Standard deviation of each blob', min: 0.02, max: 0.3, step: 0.02, default: 0.08 },
+    ],
+    numClasses: ({ classes }) => classes,
+    sample: (rng, { classes, spread }) => {
+      const y = Math.floor(rng.uniform(0, classes));
+      return { input: jitter(rng, blobCenter(y, classes), spread), y };
+    },
+    evalPoints: ({ classes }) => Array.from({ length: classes }, (_, y) => ({ input: blobCenter(y, classes), y })),
+  },
+  checkerboard: {
+    name: 'checkerboard',
+    label: 'Checkerboard',
+    task: 'classification',
+    inputSize: 2,
+    params: [
+      { key: 'cells', label: 'Cells', title: 'Cells along each side of the board', min: 2, max: 8, step: 1, default: 4 },
+    ],
+    numClasses: () => 2,
+    sample: uniformSampler((x1, x2, { cells }) => checkerLabel(x1, x2, cells)),
+    // Centres of the cells on the diagonal and just below it (alternating classes)
+    evalPoints: ({ cells }) => {
+      const centre = (i: number) => (i + 0.5) / cells;
+      const inputs = Array.from({ length: cells }, (_, i) => [centre(i), centre(i)]).concat(
+        Array.from({ length: cells - 1 }, (_, i) => [centre(i + 1), centre(i)])
+      );
+      return labelled(inputs, (x1, x2) => checkerLabel(x1, x2, cells));
+    },
+  },
+  linear: {
+    name: 'linear',
+    label: 'Linearly Separable',
+    task: 'classification',
+    inputSize: 2,
+    params: [
+      { key: 'angle', label: 'Angle', title: 'Angle of the separating line in degrees', min: 0, max: 180, step: 15, default: 30 },
+      { key: 'margin', label: 'Margin', title: 'Empty band on each side of the line', min: 0, max: 0.2, step: 0.01, default: 0.05 },
+    ],
+    numClasses: () => 2,
+    sample: (rng, { angle, margin }) => {
+      // Resample points inside the margin (the band is at most 40% of the square)
+      for (;;) {
+        const x1 = rng.uniform();
+        const x2 = rng.uniform();
+        const side = linearSide(x1, x2, angle);
+        if (Math.abs(side) >= margin) return { input: [x1, x2], y: side > 0 ? 1 : 0 };
+      }
+    },
+    evalPoints: ({ angle, margin }) => {
+      const a = (angle * Math.PI) / 180;
+      const along = [Math.cos(a), Math.sin(a)];
+      const normal = [-Math.sin(a), Math.cos(a)];
+      const offset = margin + 0.15;
+      return [-1, 1].flatMap(side => [-0.2, 0.2].map(t => ({
+        input: [0.5 + t * along[0] + side * offset * normal[0], 0.5 + t * along[1] + side * offset * normal[1]],
+        y: side > 0 ? 1 : 0,
+      })));
+    },
+  },
+  curve: {
+    name: 'curve',
+    label: 'Curve (1D regression)',
+    task: 'regression',
+    inputSize: 1,
+    params: [
+      { key: 'frequency', label: 'Frequency', title: 'Periods of the sine curve over [0, 1]', min: 0.5, max: 3, step: 0.5, default: 1 },
+    ],
+    numClasses: () => 1,
+    sample: (rng, { frequency }) => {
+      const x = rng.uniform();
+      return { input: [x], y: curveAt(x, frequency) };
+    },
+    evalPoints: ({ frequency }) => Array.from({ length: 9 }, (_, i) => ({ input: [i / 8], y: curveAt(i / 8, frequency) })),
+  },
+};
+
+export const DATASET_NAMES = Object.keys(DATASETS) as DatasetName[];
+
+export function getDataset(name: DatasetName): Dataset {
+  return DATASETS[name];
+}
+
+/**
+ * A dataset's parameters: `params` where given, defaults elsewhere (unknown
+ * keys are dropped)
+ */
+export function datasetParams(dataset: Dataset, params: DatasetParams = {}): DatasetParams {
+  return Object.fromEntries(dataset.params.map(p => [p.key, typeof params[p.key] === 'number' ? params[p.key] : p.default]));
+}
+
+/**
+ * Output units a network needs for the dataset
+ */
+export function datasetOutputSize(dataset: Dataset, params: DatasetParams = {}): number {
+  return dataset.task === 'regression' ? 1 : outputSizeFor(dataset.numClasses(datasetParams(dataset, params)));
+}
+
+/**
+ * A loss for training on data for `task`: `current` if it suits, otherwise
+ * a regression loss, a softmax loss for several outputs or BCE
+ */
+export function datasetLoss(task: DatasetTask, outputSize: number, current: LossName): LossName {
+  const loss = getLoss(current);
+  if (task === 'regression') return loss.link === 'identity' ? current : 'mse';
+  if (outputSize > 1) return 'softmaxCrossEntropy';
+  return loss.minOutputs > 1 ? 'bce' : current;
+}
+
+/**
+ * Sample `numSamples` points. For classification each label is replaced by a
+ * different class with probability `noiseLevel`; for regression each target
+ * gets Gaussian noise with that probability. Targets are encoded for a
+ * network with `outputSize` outputs.
+ */
+export function generateDataset(
+  dataset: Dataset,
+  numSamples: number,
+  noiseLevel: number,
+  rng: RNG,
+  outputSize: number,
+  params: DatasetParams = {}
+): DataPoint[] {
+  const resolved = datasetParams(dataset, params);
+  const numClasses = dataset.numClasses(resolved);
+  const data: DataPoint[] = [];
+
+  for (let i = 0; i < numSamples; i++) {
+    const { input, y } = dataset.sample(rng, resolved);
+    const isNoisy = rng.bernoulli(noiseLevel);
+
+    if (dataset.task === 'regression') {
+      data.push({
+        input,
+        target: [isNoisy ? y + rng.normal(0, REGRESSION_NOISE) : y],
+        trueTarget: [y],
+        label: 0,
+        trueLabel: 0,
+        isNoisy,
+      });
+      continue;
+    }
+
+    // Flip to another class with probability noiseLevel
+    const label = !isNoisy
+      ? y
+      : numClasses === 2
+        ? 1 - y
+        : (y + 1 + Math.floor(rng.uniform(0, numClasses - 1))) % numClasses;
+
+    data.push({
+      input,
+      target: encodeTarget(label, outputSize),
+      trueTarget: encodeTarget(y, outputSize),
+      label,
+      trueLabel: y,
+      isNoisy,
+    });
+  }
+
+  return data;
+}
+
+/**
+ * The dataset's canonical points with their (noise-free) targets
+ */
+export function evaluationData(dataset: Dataset, outputSize: number, params: DatasetParams = {}): EvalPoint[] {
+  return dataset.evalPoints(datasetParams(dataset, params)).map(({ input, y }) =>
+    dataset.task === 'regression'
+      ? { input, target: [y], label: 0 }
+      : { input, target: encodeTarget(y, outputSize), label: y }
+  );
+}
+
+/**
+ * Whether a prediction (the output after the loss's link) gets a canonical
+ * point right: the right class, or within REGRESSION_TOLERANCE of the value
+ */
+export function isCorrect(task: DatasetTask, prediction: number[], point: EvalPoint): boolean {
+  return task === 'regression'
+    ? Math.abs(prediction[0] - point.target[0]) <= REGRESSION_TOLERANCE
+    : predictedClass(prediction) === point.label;
+}
+
+/**
+ * Short label for an input (generated points aren't round numbers)
+ */
+export function formatInput(input: number[]): string {
+  return input.map(x => Number.isInteger(x) ? String(x) : x.toFixed(2)).join(',');
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { applyEdits } from './edits';
+import type { DataEdit } from './edits';
+import type { DataPoint } from './datasets';
+
+const point = (x: number, label: number): DataPoint => ({
+  input: [x, 0],
+  target: [label === 0 ? 1 : 0, label === 1 ? 1 : 0],
+  trueTarget: [label === 0 ? 1 : 0, label === 1 ? 1 : 0],
+  label,
+  trueLabel: label,
+  isNoisy: false,
+});
+
+describe('Data edits', () => {
+  const points = [point(0, 0), point(1, 1), point(2, 0)];
+
+  it('should add, move, relabel and delete points, each index referring to the points left by earlier edits', () => {
+    const edited = applyEdits(points, [
+      { kind: 'delete', index: 0 },
+      { kind: 'relabel', index: 0, y: 0 },
+      { kind: 'move', index: 1, point: { input: [5, 5], y: 0 } },
+      { kind: 'add', point: { input: [-1, -1], y: 1 } },
+    ], 'classification', 2);
+    expect(edited.map(p => p.input)).toEqual([[1, 0], [5, 5], [-1, -1]]);
+    expect(edited.map(p => p.label)).toEqual([0, 0, 1]);
+    expect(edited[0].target).toEqual([1, 0]);
+    expect(edited[2].target).toEqual([0, 1]);
+    expect(points).toHaveLength(3);
+  });
+
+  it('should mark relabelled points noisy only while their label differs from the original', () => {
+    const flipped = applyEdits(points, [{ kind: 'relabel', index: 1, y: 0 }], 'classification', 2);
+    expect(flipped[1].isNoisy).toBe(true);
+    const restored = applyEdits(points, [{ kind: 'relabel', index: 1, y: 0 }, { kind: 'relabel', index: 1, y: 1 }], 'classification', 2);
+    expect(restored[1].isNoisy).toBe(false);
+  });
+
+  it('should skip edits whose index is out of range', () => {
+    expect(applyEdits(points, [{ kind: 'delete', index: 3 }, { kind: 'relabel', index: -1, y: 1 }], 'classification', 2)).toEqual(points);
+  });
+
+  it('should never delete the last point', () => {
+    const deletes: DataEdit[] = Array.from({ length: 5 }, () => ({ kind: 'delete', index: 0 }));
+    expect(applyEdits(points, deletes, 'classification', 2)).toEqual([points[2]]);
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Hand edits to the training points
+ *
+ * Edits are recorded as a list and applied in order on top of the training
+ * split, so the same data config plus the same edits always gives the same
+ * points. Each edit's index refers to the points as left by the edits before
+ * it. Validation and test points are never edited.
+ *
+ * A point is given as a clean point: its input and its class (or, for
+ * regression, its target).
+ */
+
+import { encodeTarget } from '../network/classification';
+import type { CleanPoint, DataPoint, DatasetTask } from './datasets';
+
+export type DataEdit =
+  | { kind: 'add'; point: CleanPoint }
+  | { kind: 'move'; index: number; point: CleanPoint }
+  | { kind: 'relabel'; index: number; y: number }
+  | { kind: 'delete'; index: number };
+
+// A state of the edited dataset; undoing an edit returns to the earlier version
+export interface DataVersion {
+  version: number;       // 0: no edits
+  edits: DataEdit[];
+}
+
+export const UNEDITED: DataVersion = { version: 0, edits: [] };
+
+function encode(point: CleanPoint, task: DatasetTask, outputSize: number): number[] {
+  return task === 'regression' ? [point.y] : encodeTarget(point.y, outputSize);
+}
+
+/**
+ * Apply edits to training points. An added point counts as clean; a
+ * relabelled point is noisy while its label differs from its original one.
+ * Edits whose index is out of range are skipped, as is a delete of the last
+ * point (there is nothing to train on without one).
+ */
+export function applyEdits(points: DataPoint[], edits: DataEdit[], task: DatasetTask, outputSize: number): DataPoint[] {
+  const result = [...points];
+  for (const edit of edits) {
+    if (edit.kind === 'add') {
+      const target = encode(edit.point, task, outputSize);
+      const label = task === 'regression' ? 0 : edit.point.y;
+      result.push({ input: edit.point.input, target, trueTarget: target, label, trueLabel: label, isNoisy: false });
+      continue;
+    }
+    const old = result[edit.index];
+    if (!old) continue;
+    if (edit.kind === 'delete') {
+      if (result.length > 1) result.splice(edit.index, 1);
+    } else if (edit.kind === 'move') {
+      // Regression points move along the target too (it is the plot's y axis)
+      result[edit.index] = task === 'regression'
+        ? { ...old, input: edit.point.input, target: [edit.point.y], trueTarget: [edit.point.y], isNoisy: false }
+        : { ...old, input: edit.point.input };
+    } else if (task === 'classification') {
+      result[edit.index] = {
+        ...old,
+        label: edit.y,
+        target: encodeTarget(edit.y, outputSize),
+        isNoisy: edit.y !== old.trueLabel,
+      };
+    }
+  }
+  return result;
+}
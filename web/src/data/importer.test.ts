@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { buildDataset, detectColumns, importedTrainingData, parseTable, suggestMapping } from './importer';
+
+describe('Dataset import', () => {
+  it('should parse CSV with a header, detecting the delimiter and quotes', () => {
+    const table = parseTable('# exported\nwidth;height;"kind"\n1.5;2;"cat"\n3;4;dog\n');
+    expect(table.hasHeader).toBe(true);
+    expect(table.columns).toEqual(['width', 'height', 'kind']);
+    expect(table.rows).toEqual([['1.5', '2', 'cat'], ['3', '4', 'dog']]);
+
+    const headless = parseTable('0,0,0\n1,1,1');
+    expect(headless.hasHeader).toBe(false);
+    expect(headless.columns).toEqual(['column 1', 'column 2', 'column 3']);
+  });
+
+  it('should parse JSON objects and suggest a mapping from the columns', () => {
+    const table = parseTable(JSON.stringify([
+      { a: 0, b: 1, y: 'yes' },
+      { a: 1, b: 0, y: 'no' },
+      { a: 1, b: 1, y: 'no' },
+    ]));
+    expect(table.columns).toEqual(['a', 'b', 'y']);
+    const mapping = suggestMapping(detectColumns(table));
+    expect(mapping).toMatchObject({ features: [0, 1], label: 2, task: 'classification' });
+
+    const regression = parseTable('x,y\n0,0.25\n1,3.5\n2,7.75');
+    expect(suggestMapping(detectColumns(regression)).task).toBe('regression');
+  });
+
+  it('should report row errors and leave those rows out', () => {
+    const table = parseTable('x1,x2,label\n0,0,a\n1,oops,b\n1,1\n0,1,\n1,0,b');
+    const mapping = { features: [0, 1], label: 2, task: 'classification' as const, scaling: 'none' as const };
+    const { dataset, errors } = buildDataset(table, mapping, 'test', 2, false);
+    expect(errors.map(e => e.row)).toEqual([2, 3, 4]);
+    expect(errors[0].message).toContain('x2');
+    expect(dataset?.points).toHaveLength(2);
+    expect(dataset?.classNames).toEqual(['a', 'b']);
+    expect(importedTrainingData(dataset!, 1).map(p => p.target)).toEqual([[0], [1]]);
+  });
+
+  it('should scale features and rescale regression targets to [0, 1]', () => {
+    const table = parseTable('x,y\n2,10\n4,20\n6,30');
+    const mapping = { features: [0], label: 1, task: 'regression' as const, scaling: 'normalize' as const };
+    const normalized = buildDataset(table, mapping, 'test', 1, false).dataset!;
+    expect(normalized.points.map(p => p.input[0])).toEqual([0, 0.5, 1]);
+    expect(normalized.points.map(p => p.y)).toEqual([0, 0.5, 1]);
+    expect(normalized.targetRange).toEqual([10, 30]);
+
+    const standardized = buildDataset(table, { ...mapping, scaling: 'standardize' }, 'test', 1, false).dataset!;
+    const xs = standardized.points.map(p => p.input[0]);
+    expect(xs.reduce((a, b) => a + b, 0)).toBeCloseTo(0);
+    expect(xs.reduce((a, b) => a + b * b, 0) / xs.length).toBeCloseTo(1);
+  });
+
+  it('should check the feature count against the input layer unless resizing is allowed', () => {
+    const table = parseTable('a,b,c,label\n0,0,0,0\n1,1,1,1');
+    const mapping = suggestMapping(detectColumns(table));
+    const strict = buildDataset(table, mapping, 'test', 2, false);
+    expect(strict.dataset).toBeNull();
+    expect(strict.errors[0]).toMatchObject({ row: 0 });
+    expect(strict.errors[0].message).toContain('2 inputs');
+    expect(buildDataset(table, mapping, 'test', 2, true).dataset?.featureNames).toEqual(['a', 'b', 'c']);
+  });
+});
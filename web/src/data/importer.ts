@@ -0,0 +1,362 @@
+/**
+ * Importing user datasets
+ *
+ * Text (CSV/TSV or JSON) is parsed into a table of string cells, its columns
+ * are detected (header, numeric or not), and a mapping picks the feature
+ * columns and the label column. Building the dataset checks every row,
+ * collecting row-level errors instead of stopping at the first one; rows
+ * with errors are left out.
+ *
+ * Features can be rescaled to [0, 1] (normalize) or to zero mean and unit
+ * variance (standardize). Regression targets are always rescaled to [0, 1]
+ * so the regression tolerance means the same for every dataset. The scaling
+ * is stored with the dataset.
+ */
+
+import { encodeTarget } from '../network/classification';
+import type { CleanPoint, DataPoint, DatasetTask, EvalPoint } from './datasets';
+
+export type Scaling = 'none' | 'normalize' | 'standardize';
+
+export const SCALING_LABELS: Record<Scaling, string> = {
+  none: 'None',
+  normalize: 'Normalize (min-max to [0, 1])',
+  standardize: 'Standardize (z-score)',
+};
+
+export interface ParsedTable {
+  columns: string[];
+  rows: string[][];
+  hasHeader: boolean;
+}
+
+export interface ColumnInfo {
+  name: string;
+  numeric: boolean;        // (nearly) every non-empty cell is a number
+  distinct: number;        // distinct non-empty values
+  integer: boolean;        // numeric with only whole numbers
+}
+
+export interface ColumnMapping {
+  features: number[];      // column indices, in input order
+  label: number;           // column index (-1: none picked)
+  task: DatasetTask;
+  scaling: Scaling;
+}
+
+export interface RowError {
+  row: number;             // 1-based line of the row in the data (after the header)
+  message: string;
+}
+
+// Affine transform applied to each feature: (x - offset) / scale
+export interface FeatureScaling {
+  mode: Scaling;
+  offset: number[];
+  scale: number[];
+}
+
+export interface ImportedDataset {
+  id: string;
+  name: string;
+  task: DatasetTask;
+  featureNames: string[];
+  classNames: string[];    // label of each class index (empty for regression)
+  points: CleanPoint[];    // scaled features; class index, or scaled target for regression
+  scaling: FeatureScaling;
+  targetRange: [number, number] | null;  // regression: original range of the target
+}
+
+let importCount = 0;
+
+// Labels with at most this many distinct integer values are taken as classes
+const MAX_DETECTED_CLASSES = 10;
+
+// Share of number cells that makes a column numeric (the others are reported as row errors)
+const NUMERIC_SHARE = 0.9;
+
+const isNumeric = (cell: string) => cell.trim() !== '' && Number.isFinite(Number(cell));
+
+// CSV line split on `delimiter`, honouring double quotes ("" is an escaped quote)
+function splitLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function detectDelimiter(line: string): string {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, d) => (line.split(d).length > line.split(best).length ? d : best), ',');
+}
+
+// The first row is a header if it has a non-numeric cell where the rows below are numeric
+function looksLikeHeader(first: string[], rest: string[][]): boolean {
+  if (rest.length === 0) return first.some(cell => !isNumeric(cell));
+  return first.some((cell, j) => !isNumeric(cell) && rest.every(row => row[j] === undefined || isNumeric(row[j])))
+    || first.every(cell => !isNumeric(cell));
+}
+
+function defaultColumns(count: number): string[] {
+  return Array.from({ length: count }, (_, j) => `column ${j + 1}`);
+}
+
+function parseCsv(text: string): ParsedTable {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '' && !line.trimStart().startsWith('#'));
+  if (lines.length === 0) throw new Error('No data found');
+  const delimiter = detectDelimiter(lines[0]);
+  const table = lines.map(line => splitLine(line, delimiter));
+  const hasHeader = looksLikeHeader(table[0], table.slice(1, 20));
+  const rows = hasHeader ? table.slice(1) : table;
+  const width = Math.max(...table.map(row => row.length));
+  return { columns: hasHeader ? table[0] : defaultColumns(width), rows, hasHeader };
+}
+
+// An array of objects (keys are columns) or of arrays (optionally led by a header row)
+function parseJsonTable(doc: unknown): ParsedTable {
+  const records = Array.isArray(doc)
+    ? doc
+    : typeof doc === 'object' && doc !== null && Array.isArray((doc as { data?: unknown }).data)
+      ? (doc as { data: unknown[] }).data
+      : null;
+  if (records === null || records.length === 0) throw new Error('JSON data must be a non-empty array of rows');
+  const cell = (value: unknown) => (value === null || value === undefined ? '' : String(value));
+
+  if (records.every(r => Array.isArray(r))) {
+    const table = (records as unknown[][]).map(r => r.map(cell));
+    const hasHeader = (records[0] as unknown[]).every(v => typeof v === 'string')
+      && looksLikeHeader(table[0], table.slice(1, 20));
+    const width = Math.max(...table.map(row => row.length));
+    return { columns: hasHeader ? table[0] : defaultColumns(width), rows: hasHeader ? table.slice(1) : table, hasHeader };
+  }
+  if (records.every(r => typeof r === 'object' && r !== null && !Array.isArray(r))) {
+    const columns = [...new Set(records.flatMap(r => Object.keys(r as object)))];
+    const rows = records.map(r => columns.map(c => cell((r as Record<string, unknown>)[c])));
+    return { columns, rows, hasHeader: true };
+  }
+  throw new Error('JSON rows must all be arrays or all be objects');
+}
+
+/**
+ * Parse pasted or dropped text: JSON if it looks like JSON, CSV otherwise
+ * (comma, semicolon or tab separated; lines starting with # are skipped)
+ */
+export function parseTable(text: string): ParsedTable {
+  const trimmed = text.trim();
+  if (trimmed === '') throw new Error('No data found');
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let doc: unknown;
+    try {
+      doc = JSON.parse(trimmed);
+    } catch (e) {
+      throw new Error(`Invalid JSON: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    return parseJsonTable(doc);
+  }
+  return parseCsv(trimmed);
+}
+
+export function detectColumns(table: ParsedTable): ColumnInfo[] {
+  return table.columns.map((name, j) => {
+    const cells = table.rows.map(row => row[j] ?? '').filter(cell => cell.trim() !== '');
+    const numbers = cells.filter(isNumeric);
+    const numeric = cells.length > 0 && numbers.length >= NUMERIC_SHARE * cells.length;
+    return {
+      name,
+      numeric,
+      distinct: new Set(cells).size,
+      integer: numeric && numbers.every(cell => Number.isInteger(Number(cell))),
+    };
+  });
+}
+
+/**
+ * A starting mapping: the last column is the label, numeric columns before
+ * it are features. Non-numeric labels, or integer labels with few values,
+ * make a classification task; other numeric labels a regression task.
+ */
+export function suggestMapping(columns: ColumnInfo[]): ColumnMapping {
+  const label = columns.length - 1;
+  const labelInfo = columns[label];
+  const classification = !labelInfo.numeric || (labelInfo.integer && labelInfo.distinct <= MAX_DETECTED_CLASSES);
+  return {
+    features: columns.map((c, j) => (j !== label && c.numeric ? j : -1)).filter(j => j >= 0),
+    label,
+    task: classification ? 'classification' : 'regression',
+    scaling: 'normalize',
+  };
+}
+
+// Class names in a stable order: numerically if every name is a number
+function sortClassNames(names: string[]): string[] {
+  return names.every(isNumeric)
+    ? [...names].sort((a, b) => Number(a) - Number(b))
+    : [...names].sort();
+}
+
+function featureScaling(rows: number[][], mode: Scaling, width: number): FeatureScaling {
+  const offset = new Array<number>(width).fill(0);
+  const scale = new Array<number>(width).fill(1);
+  if (mode === 'none' || rows.length === 0) return { mode, offset, scale };
+  for (let j = 0; j < width; j++) {
+    const values = rows.map(r => r[j]);
+    if (mode === 'normalize') {
+      const min = Math.min(...values);
+      const max = Math.max(...values);
+      offset[j] = min;
+      scale[j] = max > min ? max - min : 1;
+    } else {
+      const mean = values.reduce((a, b) => a + b, 0) / values.length;
+      const sd = Math.sqrt(values.reduce((a, b) => a + (b - mean) ** 2, 0) / values.length);
+      offset[j] = mean;
+      scale[j] = sd > 0 ? sd : 1;
+    }
+  }
+  return { mode, offset, scale };
+}
+
+/**
+ * Build a dataset from a table and a mapping. Errors that concern the whole
+ * mapping come first (row 0); rows with errors are left out of the dataset,
+ * which is null if nothing usable is left. `inputSize` is the network's input
+ * count: a different feature count is an error unless `resizeInputs` is set.
+ */
+export function buildDataset(
+  table: ParsedTable,
+  mapping: ColumnMapping,
+  name: string,
+  inputSize: number,
+  resizeInputs: boolean
+): { dataset: ImportedDataset | null; errors: RowError[] } {
+  const errors: RowError[] = [];
+  const { features, label, task, scaling } = mapping;
+  if (features.length === 0) errors.push({ row: 0, message: 'Pick at least one feature column' });
+  if (label < 0 || label >= table.columns.length) errors.push({ row: 0, message: 'Pick a label column' });
+  if (features.includes(label)) errors.push({ row: 0, message: 'The label column cannot also be a feature' });
+  if (features.length > 0 && features.length !== inputSize && !resizeInputs) {
+    errors.push({
+      row: 0,
+      message: `${features.length} feature column${features.length === 1 ? '' : 's'} mapped but the network has ${inputSize} input${inputSize === 1 ? '' : 's'}`,
+    });
+  }
+  if (errors.length > 0) return { dataset: null, errors };
+
+  const inputs: number[][] = [];
+  const labels: string[] = [];
+  table.rows.forEach((row, i) => {
+    const line = i + 1;
+    if (row.length < table.columns.length) {
+      errors.push({ row: line, message: `expected ${table.columns.length} values, got ${row.length}` });
+      return;
+    }
+    const bad = features.find(j => !isNumeric(row[j]));
+    if (bad !== undefined) {
+      errors.push({ row: line, message: `${table.columns[bad]} is "${row[bad]}", not a number` });
+      return;
+    }
+    const y = row[label].trim();
+    if (y === '') {
+      errors.push({ row: line, message: `${table.columns[label]} is empty` });
+      return;
+    }
+    if (task === 'regression' && !isNumeric(y)) {
+      errors.push({ row: line, message: `${table.columns[label]} is "${y}", not a number` });
+      return;
+    }
+    inputs.push(features.map(j => Number(row[j])));
+    labels.push(y);
+  });
+
+  if (inputs.length === 0) {
+    errors.unshift({ row: 0, message: 'No valid rows' });
+    return { dataset: null, errors };
+  }
+  const classNames = task === 'classification' ? sortClassNames([...new Set(labels)]) : [];
+  if (task === 'classification' && classNames.length < 2) {
+    errors.unshift({ row: 0, message: `${table.columns[label]} has a single class; classification needs at least two` });
+    return { dataset: null, errors };
+  }
+
+  const featureScale = featureScaling(inputs, scaling, features.length);
+  const scaled = inputs.map(x => x.map((v, j) => (v - featureScale.offset[j]) / featureScale.scale[j]));
+  let targetRange: [number, number] | null = null;
+  let ys: number[];
+  if (task === 'classification') {
+    ys = labels.map(y => classNames.indexOf(y));
+  } else {
+    const values = labels.map(Number);
+    targetRange = [Math.min(...values), Math.max(...values)];
+    const span = targetRange[1] > targetRange[0] ? targetRange[1] - targetRange[0] : 1;
+    ys = values.map(v => (v - targetRange![0]) / span);
+  }
+
+  return {
+    dataset: {
+      id: `imported-${Date.now().toString(36)}-${++importCount}`,
+      name,
+      task,
+      featureNames: features.map(j => table.columns[j]),
+      classNames,
+      points: scaled.map((input, i) => ({ input, y: ys[i] })),
+      scaling: featureScale,
+      targetRange,
+    },
+    errors,
+  };
+}
+
+/**
+ * Training points of an imported dataset, encoded for `outputSize` outputs
+ * (used as imported: no sampling and no label noise)
+ */
+export function importedTrainingData(dataset: ImportedDataset, outputSize: number): DataPoint[] {
+  return dataset.points.map(({ input, y }) => {
+    const target = dataset.task === 'regression' ? [y] : encodeTarget(y, outputSize);
+    const label = dataset.task === 'regression' ? 0 : y;
+    return { input, target, trueTarget: target, label, trueLabel: label, isNoisy: false };
+  });
+}
+
+/**
+ * Evaluation points of an imported dataset: every row
+ */
+export function importedEvalData(dataset: ImportedDataset, outputSize: number): EvalPoint[] {
+  return importedTrainingData(dataset, outputSize).map(({ input, target, label }) => ({ input, target, label }));
+}
+
+/**
+ * Whether a parsed document (e.g. a trajectory's data) is an imported dataset
+ */
+export function isImportedDataset(value: unknown): value is ImportedDataset {
+  if (typeof value !== 'object' || value === null) return false;
+  const d = value as Partial<ImportedDataset>;
+  const width = Array.isArray(d.featureNames) ? d.featureNames.length : -1;
+  return typeof d.id === 'string'
+    && typeof d.name === 'string'
+    && (d.task === 'classification' || d.task === 'regression')
+    && width > 0
+    && Array.isArray(d.classNames)
+    && Array.isArray(d.points) && d.points.length > 0
+    && d.points.every(p => Array.isArray(p.input) && p.input.length === width && p.input.every(Number.isFinite) && Number.isFinite(p.y));
+}
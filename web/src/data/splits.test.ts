@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SPLIT, holdOutTest, splitIndices } from './splits';
+import { DEFAULT_DATA_CONFIG, dataSplitsFor, trainingDataFor } from '../training/session';
+import { RNG } from '../network/random';
+
+describe('Data splits', () => {
+  it('holdout should keep the requested share for validation, disjoint from training', () => {
+    const { train, validation } = splitIndices(50, { ...DEFAULT_SPLIT, mode: 'holdout', validationFraction: 0.2 }, new RNG(1));
+    expect(validation).toHaveLength(10);
+    expect(train).toHaveLength(40);
+    expect([...train, ...validation].sort((a, b) => a - b)).toEqual(Array.from({ length: 50 }, (_, i) => i));
+    expect(splitIndices(50, DEFAULT_SPLIT, new RNG(1)).validation).toEqual([]);
+  });
+
+  it('k-fold validation parts should cover every point exactly once', () => {
+    const split = { ...DEFAULT_SPLIT, mode: 'kfold' as const, folds: 4 };
+    const folds = [0, 1, 2, 3].map(fold => splitIndices(22, { ...split, fold }, new RNG(3)).validation);
+    expect(folds.map(f => f.length)).toEqual([6, 6, 5, 5]);
+    expect(folds.flat().sort((a, b) => a - b)).toEqual(Array.from({ length: 22 }, (_, i) => i));
+  });
+
+  it('held-out test rows should leave most of the points for training', () => {
+    const points = Array.from({ length: 10 }, (_, i) => i);
+    expect(holdOutTest(points, 3, new RNG(2)).test).toHaveLength(3);
+    const capped = holdOutTest(points, 50, new RNG(2));
+    expect(capped.test).toHaveLength(5);
+    expect(capped.kept).toHaveLength(5);
+  });
+
+  it('a generator test set should be clean, and the labelled points should not depend on the split', () => {
+    const config = { ...DEFAULT_DATA_CONFIG, noiseLevel: 0.3, split: { ...DEFAULT_SPLIT, mode: 'holdout' as const, testSize: 40 } };
+    const { train, validation, test } = dataSplitsFor(config, 1);
+    expect(test).toHaveLength(40);
+    expect(test.every(p => !p.isNoisy)).toBe(true);
+    expect(train.length + validation.length).toBe(config.numSamples);
+    expect(trainingDataFor(config, 1)).toEqual(trainingDataFor({ ...config, split: DEFAULT_SPLIT }, 1));
+    expect(dataSplitsFor(config, 1)).toEqual({ train, validation, test });
+  });
+});
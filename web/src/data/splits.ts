@@ -0,0 +1,88 @@
+/**
+ * Train/validation/test splits
+ *
+ * The labelled points (generated with label noise, or imported) are split
+ * into a training part and a validation part: a holdout share, or one fold
+ * of k. The partition is drawn from its own seeded stream, so the same data
+ * config always splits the same way.
+ *
+ * The test set is separate: for a generator it is fresh noise-free points
+ * from the true distribution; imported data has no generator, so its test
+ * points are rows held out before the validation split.
+ */
+
+import type { RNG } from '../network/random';
+
+export type SplitMode = 'none' | 'holdout' | 'kfold';
+
+export const SPLIT_MODE_LABELS: Record<SplitMode, string> = {
+  none: 'None',
+  holdout: 'Holdout',
+  kfold: 'K-fold',
+};
+
+export interface SplitConfig {
+  mode: SplitMode;
+  validationFraction: number;  // holdout: share of the points held out for validation
+  folds: number;               // k-fold: number of folds
+  fold: number;                // k-fold: the fold used for validation (0-based)
+  testSize: number;            // test points (0: no test set)
+}
+
+export const DEFAULT_SPLIT: SplitConfig = {
+  mode: 'none',
+  validationFraction: 0.2,
+  folds: 5,
+  fold: 0,
+  testSize: 0,
+};
+
+// Imported data keeps at least this share of its rows out of the test set
+const MIN_TRAINING_SHARE = 0.5;
+
+function permutation(n: number, rng: RNG): number[] {
+  return rng.shuffle(Array.from({ length: n }, (_, i) => i));
+}
+
+/**
+ * Indices of the training and validation points among `n` points. Both keep
+ * the points' original order; at least one point is left for training.
+ */
+export function splitIndices(n: number, split: SplitConfig, rng: RNG): { train: number[]; validation: number[] } {
+  const all = Array.from({ length: n }, (_, i) => i);
+  if (split.mode === 'none' || n < 2) return { train: all, validation: [] };
+  const order = permutation(n, rng);
+  let held: number[];
+  if (split.mode === 'holdout') {
+    const count = Math.min(n - 1, Math.round(split.validationFraction * n));
+    held = order.slice(0, count);
+  } else {
+    const folds = Math.max(2, Math.min(n, Math.round(split.folds)));
+    const fold = Math.max(0, Math.min(folds - 1, split.fold));
+    held = order.filter((_, k) => k % folds === fold);
+  }
+  const isHeld = new Set(held);
+  return { train: all.filter(i => !isHeld.has(i)), validation: all.filter(i => isHeld.has(i)) };
+}
+
+/**
+ * Split points into training and validation parts (see splitIndices)
+ */
+export function splitPoints<T>(points: T[], split: SplitConfig, rng: RNG): { train: T[]; validation: T[] } {
+  const { train, validation } = splitIndices(points.length, split, rng);
+  return { train: train.map(i => points[i]), validation: validation.map(i => points[i]) };
+}
+
+/**
+ * Hold `count` points out of `points` as a test set (capped so that most of
+ * the points are kept)
+ */
+export function holdOutTest<T>(points: T[], count: number, rng: RNG): { kept: T[]; test: T[] } {
+  const held = Math.max(0, Math.min(Math.round(count), Math.floor(points.length * (1 - MIN_TRAINING_SHARE))));
+  if (held === 0) return { kept: points, test: [] };
+  const isHeld = new Set(permutation(points.length, rng).slice(0, held));
+  return {
+    kept: points.filter((_, i) => !isHeld.has(i)),
+    test: points.filter((_, i) => isHeld.has(i)),
+  };
+}
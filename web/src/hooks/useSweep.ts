@@ -0,0 +1,61 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { PROTOCOL_VERSION } from '../training/protocol';
+import type { SweepEvent, SweepRequest } from '../training/protocol';
+import type { SweepResult, SweepSpec } from '../training/sweep';
+
+export interface SweepState {
+  spec: SweepSpec | null;     // the sweep the results belong to
+  results: SweepResult[];
+  total: number;              // runs planned (0 until the worker has expanded the sweep)
+  running: boolean;
+  error: string | null;
+}
+
+const IDLE: SweepState = { spec: null, results: [], total: 0, running: false, error: null };
+
+/**
+ * Runs sweeps in a worker (one per sweep, terminated to stop it) and
+ * collects their results. Kept outside the dashboard so results survive
+ * switching tabs.
+ */
+export function useSweep() {
+  const [sweep, setSweep] = useState<SweepState>(IDLE);
+  const workerRef = useRef<Worker | null>(null);
+
+  const stop = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setSweep(prev => ({ ...prev, running: false }));
+  }, []);
+
+  const start = useCallback((spec: SweepSpec) => {
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL('../training/sweepWorker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    setSweep({ ...IDLE, spec, running: true });
+
+    worker.onmessage = ({ data: event }: MessageEvent<SweepEvent>) => {
+      if (workerRef.current !== worker) return;
+      switch (event.type) {
+        case 'planned':
+          setSweep(prev => ({ ...prev, total: event.total }));
+          break;
+        case 'result':
+          setSweep(prev => ({ ...prev, results: [...prev.results, event.result] }));
+          break;
+        case 'done':
+        case 'error':
+          worker.terminate();
+          workerRef.current = null;
+          setSweep(prev => ({ ...prev, running: false, error: event.type === 'error' ? event.message : null }));
+          break;
+      }
+    };
+    const request: SweepRequest = { type: 'sweep', spec, protocol: PROTOCOL_VERSION };
+    worker.postMessage(request);
+  }, []);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  return { sweep, start, stop };
+}
@@ -1,82 +1,42 @@
 import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { Network } from '../network/Network';
-import type { NetworkState } from '../network/Network';
-import { sigmoid, binaryCrossEntropy, confidencePenalty as calcConfidencePenalty } from '../network/functions';
-
-// The 4 canonical XOR points (for evaluation)
-const CLEAN_XOR = [
-  { input: [0, 0], target: [0] },
-  { input: [0, 1], target: [1] },
-  { input: [1, 0], target: [1] },
-  { input: [1, 1], target: [0] },
-];
-
-// Seeded random for reproducibility
-function seededRandom(seed: number) {
-  // Seed both m_w and m_z from the input seed for proper randomization
-  let m_w = (seed * 1103515245 + 12345) >>> 0;
-  let m_z = (seed * 134775813 + 1) >>> 0;
-  // Ensure they're non-zero
-  if (m_w === 0) m_w = 1;
-  if (m_z === 0) m_z = 1;
-  const mask = 0xffffffff;
-  const random = function () {
-    m_z = (36969 * (m_z & 65535) + (m_z >> 16)) & mask;
-    m_w = (18000 * (m_w & 65535) + (m_w >> 16)) & mask;
-    const result = ((m_z << 16) + (m_w & 65535)) >>> 0;
-    return result / 4294967296;
-  };
-  // Warm up the PRNG
-  for (let i = 0; i < 10; i++) random();
-  return random;
-}
-
-// Generate noisy XOR dataset
-function generateNoisyData(
-  numSamples: number,
-  noiseLevel: number,
-  seed: number
-): { input: number[]; target: number[]; trueTarget: number[]; isNoisy: boolean }[] {
-  const rand = seededRandom(seed);
-  const data: { input: number[]; target: number[]; trueTarget: number[]; isNoisy: boolean }[] = [];
-
-  for (let i = 0; i < numSamples; i++) {
-    const x1 = rand();
-    const x2 = rand();
-
-    // True XOR label based on which quadrant
-    const trueLabel = (x1 >= 0.5 ? 1 : 0) ^ (x2 >= 0.5 ? 1 : 0);
-
-    // Flip label with probability noiseLevel
-    const isNoisy = rand() < noiseLevel;
-    const label = isNoisy ? 1 - trueLabel : trueLabel;
-
-    data.push({
-      input: [x1, x2],
-      target: [label],
-      trueTarget: [trueLabel],
-      isNoisy,
-    });
-  }
-
-  return data;
-}
-
-export interface DataPoint {
-  input: number[];
-  target: number[];
-  trueTarget: number[];
-  isNoisy: boolean;
-}
-
-export interface TrainingStep {
-  step: number;
-  state: NetworkState;
-  loss: number;          // Training loss (on noisy data)
-  cleanLoss: number;     // Loss on clean XOR points
-  accuracy: number;      // Accuracy on clean XOR
-  currentInputIdx: number;
-}
+import type { ActivationName } from '../network/activations';
+import type { LossName } from '../network/losses';
+import { DEFAULT_HYPERPARAMS, OPTIMIZER_NAMES } from '../network/optimizers';
+import type { OptimizerName, OptimizerHyperparams } from '../network/optimizers';
+import { batchSizeFor } from '../network/batching';
+import type { BatchMode } from '../network/batching';
+import { NO_REGULARIZATION } from '../network/regularization';
+import type { RegularizationConfig } from '../network/regularization';
+import type { InitConfig } from '../network/initializers';
+import type { Normalization } from '../network/layers';
+import { validateModel } from '../network/serialization';
+import type { ModelJSON } from '../network/serialization';
+import { DEFAULT_SCHEDULE, scheduleError, scheduledLearningRate } from '../network/schedules';
+import type { ScheduleConfig } from '../network/schedules';
+import { NO_CLIPPING } from '../network/stability';
+import type { ClipConfig } from '../network/stability';
+import { RNG } from '../network/random';
+import { DATASET_NAMES, datasetLoss, datasetParams as resolveDatasetParams, getDataset } from '../data/datasets';
+import type { DatasetName, DatasetParams } from '../data/datasets';
+import type { ImportedDataset } from '../data/importer';
+import type { SplitConfig } from '../data/splits';
+import { UNEDITED } from '../data/edits';
+import type { DataEdit, DataVersion } from '../data/edits';
+import {
+  DEFAULT_ARCHITECTURE, DEFAULT_DATA_CONFIG, DEFAULT_HYPERPARAMETERS, TrainingSession, createNetwork, dataSpec,
+  dataSplitsFor, evalDataFor,
+} from '../training/session';
+import { isTrajectory, parseTrajectory, stepModel } from '../training/trajectory';
+import { runStepCount } from '../training/run';
+import type { RunConfig } from '../training/run';
+import type {
+  ArchitectureConfig, DataConfig, StepUnit, TrainingHyperparameters, TrainingStep,
+} from '../training/session';
+import { PROTOCOL_VERSION } from '../training/protocol';
+import type { NetworkSource, TrainingEvent, TrainingRequest, TrainingRequestBody } from '../training/protocol';
+
+export type { StepUnit, TrainingHyperparameters, TrainingStep };
 
 export interface TrainingState {
   network: Network;
@@ -84,156 +44,517 @@ export interface TrainingState {
   currentStep: number;
   isPlaying: boolean;
   selectedInputIdx: number;
+  error: string | null;  // last request the worker failed (e.g. a step that threw), until the next timeline
 }
 
-// Default layer sizes - defined outside to avoid recreating on every render
-const DEFAULT_LAYER_SIZES = [2, 4, 1];
-
-export function useTraining(initialLayerSizes: number[] = DEFAULT_LAYER_SIZES) {
-  const [learningRate, setLearningRate] = useState(0.5);
-  const [noiseLevel, setNoiseLevel] = useState(0); // 0 to 1
-  const [numSamples, setNumSamples] = useState(100);
-  const [dataSeed, setDataSeed] = useState(42);
-  const [confidencePenalty, setConfidencePenalty] = useState(0); // 0 = off, positive = strength
-
-  // Generate training data based on noise level
-  const trainingData = useMemo(() => {
-    return generateNoisyData(numSamples, noiseLevel, dataSeed);
-  }, [numSamples, noiseLevel, dataSeed]);
-
-  // Compute loss on training data (with optional confidence penalty)
-  const computeTrainLoss = useCallback((net: Network, data: DataPoint[], confPenalty: number = 0): number => {
-    let totalLoss = 0;
-    for (const { input, target } of data) {
-      const output = net.forward(input);
-      const sigmoidOutput = sigmoid(output as number[]) as number[];
-      let loss = binaryCrossEntropy(sigmoidOutput, target);
-      if (confPenalty > 0) {
-        loss += confPenalty * calcConfidencePenalty(sigmoidOutput);
-      }
-      totalLoss += loss;
-    }
-    return totalLoss / data.length;
-  }, []);
+// Hyperparameters saved with a model, falling back to `current` for missing or unknown values
+function savedHyperparameters(current: TrainingHyperparameters, saved: Partial<TrainingHyperparameters>): TrainingHyperparameters {
+  return {
+    learningRate: typeof saved.learningRate === 'number' ? saved.learningRate : current.learningRate,
+    schedule: saved.schedule && scheduleError({ ...DEFAULT_SCHEDULE, ...saved.schedule }) === null
+      ? { ...DEFAULT_SCHEDULE, ...saved.schedule }
+      : current.schedule,
+    optimizerName: saved.optimizerName && OPTIMIZER_NAMES.includes(saved.optimizerName)
+      ? saved.optimizerName
+      : current.optimizerName,
+    optimizerHyperparams: saved.optimizerHyperparams
+      ? { ...DEFAULT_HYPERPARAMS, ...saved.optimizerHyperparams }
+      : current.optimizerHyperparams,
+    batchMode: saved.batchMode ?? current.batchMode,
+    miniBatchSize: typeof saved.miniBatchSize === 'number' ? saved.miniBatchSize : current.miniBatchSize,
+    shuffle: typeof saved.shuffle === 'boolean' ? saved.shuffle : current.shuffle,
+    stepUnit: saved.stepUnit ?? current.stepUnit,
+    regularization: saved.regularization ? { ...NO_REGULARIZATION, ...saved.regularization } : current.regularization,
+    clipping: saved.clipping ? { ...NO_CLIPPING, ...saved.clipping } : current.clipping,
+    confidencePenalty: typeof saved.confidencePenalty === 'number' ? saved.confidencePenalty : current.confidencePenalty,
+  };
+}
 
-  // Compute loss and accuracy on clean XOR
-  const computeCleanMetrics = useCallback((net: Network): { loss: number; accuracy: number } => {
-    let totalLoss = 0;
-    let correct = 0;
-    for (const { input, target } of CLEAN_XOR) {
-      const output = net.forward(input);
-      const sigmoidOutput = sigmoid(output as number[]) as number[];
-      totalLoss += binaryCrossEntropy(sigmoidOutput, target);
-      const predicted = sigmoidOutput[0] >= 0.5 ? 1 : 0;
-      if (predicted === target[0]) correct++;
-    }
-    return {
-      loss: totalLoss / CLEAN_XOR.length,
-      accuracy: correct / CLEAN_XOR.length,
-    };
-  }, []);
+// Hand edits to the training points, with undo and redo, for the data they were made on
+interface EditHistory {
+  base: string;          // editBase() of that data
+  past: DataVersion[];
+  current: DataVersion;
+  future: DataVersion[];
+}
+
+// The data config apart from its edits: edits only apply to the points they were made on
+function editBase(config: Omit<DataConfig, 'edits' | 'version'>): string {
+  const { datasetName, numSamples, noiseLevel, dataSeed, datasetParams, imported, split } = config;
+  return JSON.stringify([datasetName, numSamples, noiseLevel, dataSeed, datasetParams, imported?.id ?? null, split]);
+}
 
-  const createInitialState = useCallback((seed?: number): TrainingState => {
-    const net = new Network(initialLayerSizes, seed);
-    const loss = computeTrainLoss(net, trainingData, confidencePenalty);
-    const { loss: cleanLoss, accuracy } = computeCleanMetrics(net);
-    const initialState = net.getState();
+/**
+ * Training state for the UI. The timeline lives in a training worker (see
+ * training/worker.ts); this hook owns the settings, sends them to the worker
+ * and mirrors the steps it reports.
+ */
+export function useTraining(initialLayerSizes: number[] = DEFAULT_ARCHITECTURE.layerSizes) {
+  const [learningRate, setLearningRate] = useState(DEFAULT_HYPERPARAMETERS.learningRate);
+  const [schedule, setSchedule] = useState<ScheduleConfig>(DEFAULT_HYPERPARAMETERS.schedule);
+  const [noiseLevel, setNoiseLevel] = useState(DEFAULT_DATA_CONFIG.noiseLevel); // 0 to 1
+  const [numSamples, setNumSamples] = useState(DEFAULT_DATA_CONFIG.numSamples);
+  const [dataSeed, setDataSeed] = useState(DEFAULT_DATA_CONFIG.dataSeed);
+  const [datasetName, setDatasetName] = useState<DatasetName>(DEFAULT_DATA_CONFIG.datasetName);
+  const [datasetParams, setDatasetParams] = useState<DatasetParams>(DEFAULT_DATA_CONFIG.datasetParams);
+  // Datasets imported this session, and the one being trained on (null: the generator)
+  const [importedDatasets, setImportedDatasets] = useState<ImportedDataset[]>([]);
+  const [imported, setImported] = useState<ImportedDataset | null>(null);
+  const [split, setSplit] = useState<SplitConfig>(DEFAULT_DATA_CONFIG.split);
+  const [editHistory, setEditHistory] = useState<EditHistory>({ base: '', past: [], current: UNEDITED, future: [] });
+  // Versions are numbered in the order they were made (undo returns to an earlier number)
+  const nextVersion = useRef(1);
+  const [confidencePenalty, setConfidencePenalty] = useState(DEFAULT_HYPERPARAMETERS.confidencePenalty); // 0 = off, positive = strength
+  const [hiddenActivation, setHiddenActivation] = useState<ActivationName>(DEFAULT_ARCHITECTURE.hiddenActivation);
+  const [lossName, setLossName] = useState<LossName>(DEFAULT_ARCHITECTURE.lossName);
+  const [optimizerName, setOptimizerName] = useState<OptimizerName>(DEFAULT_HYPERPARAMETERS.optimizerName);
+  const [optimizerHyperparams, setOptimizerHyperparams] = useState<OptimizerHyperparams>(DEFAULT_HYPERPARAMETERS.optimizerHyperparams);
+  const [batchMode, setBatchMode] = useState<BatchMode>(DEFAULT_HYPERPARAMETERS.batchMode);
+  const [miniBatchSize, setMiniBatchSize] = useState(DEFAULT_HYPERPARAMETERS.miniBatchSize);
+  const [shuffle, setShuffle] = useState(DEFAULT_HYPERPARAMETERS.shuffle);
+  const [stepUnit, setStepUnit] = useState<StepUnit>(DEFAULT_HYPERPARAMETERS.stepUnit);
+  const [regularization, setRegularization] = useState<RegularizationConfig>(DEFAULT_HYPERPARAMETERS.regularization);
+  const [clipping, setClipping] = useState<ClipConfig>(DEFAULT_HYPERPARAMETERS.clipping);
+  const [initConfig, setInitConfig] = useState<InitConfig>(DEFAULT_ARCHITECTURE.initConfig);
+  const [normalization, setNormalization] = useState<Normalization>(DEFAULT_ARCHITECTURE.normalization);
+  // Only changed by loading a model with a different architecture
+  const [layerSizes, setLayerSizes] = useState(initialLayerSizes);
+  // Source of new seeds for "randomize" and "new data"
+  const sessionRng = useRef(new RNG());
+
+  const outputSize = layerSizes[layerSizes.length - 1];
+
+  const hyperparameters = useMemo((): TrainingHyperparameters => ({
+    learningRate, schedule, optimizerName, optimizerHyperparams, batchMode, miniBatchSize, shuffle, stepUnit,
+    regularization, clipping, confidencePenalty,
+  }), [
+    learningRate, schedule, optimizerName, optimizerHyperparams, batchMode, miniBatchSize, shuffle, stepUnit,
+    regularization, clipping, confidencePenalty,
+  ]);
+
+  const base = useMemo(
+    () => editBase({ datasetName, numSamples, noiseLevel, dataSeed, datasetParams, ...(imported ? { imported } : {}), split }),
+    [datasetName, numSamples, noiseLevel, dataSeed, datasetParams, imported, split]
+  );
+  // Edits made on other data (e.g. before switching datasets) don't apply
+  const history = editHistory.base === base ? editHistory : null;
+  const dataVersion = history ? history.current : UNEDITED;
+
+  const dataConfig = useMemo((): DataConfig => ({
+    datasetName, numSamples, noiseLevel, dataSeed, datasetParams, ...(imported ? { imported } : {}), split,
+    edits: dataVersion.edits, version: dataVersion.version,
+  }), [datasetName, numSamples, noiseLevel, dataSeed, datasetParams, imported, split, dataVersion]);
+
+  const spec = useMemo(() => dataSpec(dataConfig), [dataConfig]);
+
+  const architecture = useMemo((): ArchitectureConfig => ({
+    layerSizes, hiddenActivation, lossName, initConfig, normalization,
+  }), [layerSizes, hiddenActivation, lossName, initConfig, normalization]);
+
+  // The worker generates the same points from the same config
+  const splits = useMemo(() => dataSplitsFor(dataConfig, outputSize), [dataConfig, outputSize]);
+  const trainingData = splits.train;
+
+  // The dataset's canonical points (clean labels) for evaluation
+  const evalData = useMemo(() => evalDataFor(dataConfig, outputSize), [dataConfig, outputSize]);
+
+  // Shown until the worker reports its first timeline (which starts from the same network)
+  const [training, setTraining] = useState<TrainingState>(() => {
+    const session = new TrainingSession(createNetwork(architecture, 123), hyperparameters, dataConfig);
     return {
-      network: net,
-      steps: [{
-        step: 0,
-        state: initialState,
-        loss,
-        cleanLoss,
-        accuracy,
-        currentInputIdx: 0,
-      }],
+      network: Network.fromState(session.steps[0].state),
+      steps: session.steps,
       currentStep: 0,
       isPlaying: false,
       selectedInputIdx: 0,
+      error: null,
+    };
+  });
+
+  const workerRef = useRef<Worker | null>(null);
+  const nextRequestId = useRef(1);
+  // Id of the init request whose timeline is shown; events from older timelines are dropped
+  const timelineRef = useRef(0);
+  // Train request in flight, and whether another step was asked for meanwhile
+  const trainRequestRef = useRef<number | null>(null);
+  const stepQueuedRef = useRef(false);
+  // Settings for the worker's first timeline
+  const settingsRef = useRef({ architecture, dataConfig, hyperparameters });
+  useEffect(() => {
+    settingsRef.current = { architecture, dataConfig, hyperparameters };
+  }, [architecture, dataConfig, hyperparameters]);
+
+  const post = useCallback((body: TrainingRequestBody): number => {
+    const id = nextRequestId.current++;
+    const request = { ...body, protocol: PROTOCOL_VERSION, id } as TrainingRequest;
+    workerRef.current?.postMessage(request);
+    return id;
+  }, []);
+
+  const requestTrain = useCallback(() => {
+    stepQueuedRef.current = false;
+    trainRequestRef.current = post({ type: 'train', steps: 1 });
+  }, [post]);
+
+  // Start a new timeline in the worker (its ready event replaces the shown one)
+  const startTimeline = useCallback((
+    network: NetworkSource,
+    data: DataConfig,
+    hp: TrainingHyperparameters
+  ) => {
+    stepQueuedRef.current = false;
+    trainRequestRef.current = null;
+    timelineRef.current = post({ type: 'init', network, data, hyperparameters: hp });
+  }, [post]);
+
+  // Mirror the worker's timeline
+  const handleEvent = useCallback((event: TrainingEvent) => {
+    // Release the worker's credit even for events that are dropped below
+    if (event.type === 'progress') post({ type: 'ack' });
+    if (event.type === 'done' && event.requestId === trainRequestRef.current) {
+      trainRequestRef.current = null;
+      if (event.reason === 'completed' && stepQueuedRef.current && event.timeline === timelineRef.current) {
+        requestTrain();
+      }
+    }
+    // Errors are shown whichever timeline they come from (a failed init reports on the old one)
+    if (event.type === 'error') {
+      setTraining(prev => ({ ...prev, isPlaying: false, error: event.message }));
+      return;
+    }
+    if (event.timeline !== timelineRef.current) return;
+
+    switch (event.type) {
+      case 'ready':
+        setTraining({
+          network: Network.fromState(event.steps[event.currentStep].state),
+          steps: event.steps,
+          currentStep: event.currentStep,
+          isPlaying: false,
+          selectedInputIdx: 0,
+          error: null,
+        });
+        break;
+      case 'progress': {
+        const { step } = event;
+        setTraining(prev => ({
+          ...prev,
+          network: Network.fromState(step.state),
+          steps: [...prev.steps.slice(0, step.step), step],
+          currentStep: step.step,
+          isPlaying: prev.isPlaying && !step.divergence,
+        }));
+        break;
+      }
+      case 'done':
+        // Nothing sensible can be trained from non-finite parameters (or from a step that failed)
+        if (event.reason === 'diverged' || event.reason === 'failed') setTraining(prev => ({ ...prev, isPlaying: false }));
+        break;
+      case 'seeked': {
+        const { currentStep } = event;
+        setTraining(prev => ({
+          ...prev,
+          network: Network.fromState(prev.steps[currentStep].state),
+          currentStep,
+        }));
+        break;
+      }
+      case 'snapshot':
+        setTraining(prev => ({
+          ...prev,
+          network: Network.fromState(event.steps[event.currentStep].state),
+          steps: event.steps,
+          currentStep: event.currentStep,
+        }));
+        break;
+    }
+  }, [post, requestTrain]);
+
+  // One worker per mounted hook
+  useEffect(() => {
+    const worker = new Worker(new URL('../training/worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<TrainingEvent>) => handleEvent(event.data);
+    workerRef.current = worker;
+    const { architecture: arch, dataConfig: data, hyperparameters: hp } = settingsRef.current;
+    startTimeline({ kind: 'fresh', architecture: arch, seed: 123 }, data, hp);
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
     };
-  }, [initialLayerSizes, trainingData, confidencePenalty, computeTrainLoss, computeCleanMetrics]);
+  }, [handleEvent, startTimeline]);
+
+  // Hyperparameters apply from the worker's next step
+  useEffect(() => {
+    post({ type: 'configure', hyperparameters });
+  }, [post, hyperparameters]);
 
-  const [training, setTraining] = useState<TrainingState>(() => createInitialState(123));
+  const startFresh = useCallback((seed: number) => {
+    startTimeline({ kind: 'fresh', architecture, seed }, dataConfig, hyperparameters);
+  }, [startTimeline, architecture, dataConfig, hyperparameters]);
 
-  // Auto-reset when training data parameters change
+  // Auto-reset when training data parameters or the architecture change
   // We track dataSeed separately since it's the primary trigger for data changes
-  const prevDataParams = useRef({ numSamples, noiseLevel, dataSeed });
+  const prevDataParams = useRef({
+    datasetName, numSamples, noiseLevel, dataSeed, datasetParams, imported, split, hiddenActivation, lossName,
+    initConfig, normalization,
+  });
   useEffect(() => {
     const prev = prevDataParams.current;
-    if (prev.numSamples === numSamples && prev.noiseLevel === noiseLevel && prev.dataSeed === dataSeed) {
+    if (
+      prev.datasetName === datasetName &&
+      prev.numSamples === numSamples &&
+      prev.noiseLevel === noiseLevel &&
+      prev.dataSeed === dataSeed &&
+      prev.datasetParams === datasetParams &&
+      prev.imported === imported &&
+      prev.split === split &&
+      prev.hiddenActivation === hiddenActivation &&
+      prev.lossName === lossName &&
+      prev.initConfig === initConfig &&
+      prev.normalization === normalization
+    ) {
       return; // No change in data parameters
     }
-    prevDataParams.current = { numSamples, noiseLevel, dataSeed };
+    prevDataParams.current = {
+      datasetName, numSamples, noiseLevel, dataSeed, datasetParams, imported, split, hiddenActivation, lossName,
+      initConfig, normalization,
+    };
     // Reset with fixed seed when data changes
-    setTraining(createInitialState(123));
-  }, [numSamples, noiseLevel, dataSeed, createInitialState]);
-
+    startFresh(123);
+  }, [
+    datasetName, numSamples, noiseLevel, dataSeed, datasetParams, imported, split, hiddenActivation, lossName,
+    initConfig, normalization,
+    startFresh,
+  ]);
+
+  // Train one step from the current one. While a step is in flight, further
+  // calls are coalesced into a single follow-up step.
   const trainStep = useCallback(() => {
-    setTraining(prev => {
-      const net = new Network(prev.network.layerSizes);
-      net.setState(prev.steps[prev.currentStep].state);
-
-      // Train one epoch on all training examples
-      for (const { input, target } of trainingData) {
-        net.forward(input);
-        net.backward(input, target, confidencePenalty);
-        net.step(learningRate);
-      }
-
-      const newState = net.getState();
-      const loss = computeTrainLoss(net, trainingData, confidencePenalty);
-      const { loss: cleanLoss, accuracy } = computeCleanMetrics(net);
-
-      return {
-        ...prev,
-        network: net,
-        steps: [
-          ...prev.steps,
-          {
-            step: prev.currentStep + 1,
-            state: newState,
-            loss,
-            cleanLoss,
-            accuracy,
-            currentInputIdx: 0,
-          },
-        ],
-        currentStep: prev.currentStep + 1,
-      };
-    });
-  }, [learningRate, confidencePenalty, trainingData, computeTrainLoss, computeCleanMetrics]);
+    if (trainRequestRef.current !== null) {
+      stepQueuedRef.current = true;
+      return;
+    }
+    requestTrain();
+  }, [requestTrain]);
 
   const goToStep = useCallback((step: number) => {
-    setTraining(prev => {
-      if (step < 0 || step >= prev.steps.length) return prev;
-
-      const net = new Network(prev.network.layerSizes);
-      net.setState(prev.steps[step].state);
+    stepQueuedRef.current = false;
+    post({ type: 'seek', step });
+  }, [post]);
 
-      return {
-        ...prev,
-        network: net,
-        currentStep: step,
-      };
-    });
+  const reset = useCallback(() => {
+    startFresh(123);
+  }, [startFresh]);
+
+  // Current step's network plus everything needed to continue training it
+  const exportModel = useCallback((): ModelJSON => {
+    return stepModel(training.steps[training.currentStep], hyperparameters, dataConfig);
+  }, [training, hyperparameters, dataConfig]);
+
+  // Take on another run's settings without triggering the auto-reset (the
+  // caller starts the new timeline)
+  const adoptSettings = useCallback((arch: ArchitectureConfig, data: DataConfig, hp: TrainingHyperparameters) => {
+    setLearningRate(hp.learningRate);
+    setSchedule(hp.schedule);
+    setOptimizerName(hp.optimizerName);
+    setOptimizerHyperparams(hp.optimizerHyperparams);
+    setBatchMode(hp.batchMode);
+    setMiniBatchSize(hp.miniBatchSize);
+    setShuffle(hp.shuffle);
+    setStepUnit(hp.stepUnit);
+    setRegularization(hp.regularization);
+    setClipping(hp.clipping);
+    setConfidencePenalty(hp.confidencePenalty);
+
+    prevDataParams.current = {
+      ...data,
+      imported: data.imported ?? null,
+      hiddenActivation: arch.hiddenActivation,
+      lossName: arch.lossName,
+      initConfig: arch.initConfig,
+      normalization: arch.normalization,
+    };
+    setDatasetName(data.datasetName);
+    setNumSamples(data.numSamples);
+    setNoiseLevel(data.noiseLevel);
+    setDataSeed(data.dataSeed);
+    setDatasetParams(data.datasetParams);
+    setImported(data.imported ?? null);
+    setSplit(data.split);
+    setEditHistory({ base: editBase(data), past: [], current: { version: data.version, edits: data.edits }, future: [] });
+    nextVersion.current = Math.max(nextVersion.current, data.version + 1);
+    if (data.imported) {
+      const { id } = data.imported;
+      setImportedDatasets(prev => prev.some(d => d.id === id) ? prev : [...prev, data.imported!]);
+    }
+    setHiddenActivation(arch.hiddenActivation);
+    setLossName(arch.lossName);
+    setInitConfig(arch.initConfig);
+    setNormalization(arch.normalization);
+    setLayerSizes(arch.layerSizes);
   }, []);
 
-  const reset = useCallback(() => {
-    setTraining(createInitialState(123));
-  }, [createInitialState]);
+  // Replace the timeline with a saved model, or with every step of a saved
+  // trajectory (throws if the document is invalid)
+  const loadModel = useCallback((json: unknown) => {
+    const trajectory = isTrajectory(json) ? parseTrajectory(json) : null;
+    const model = trajectory ? trajectory.model : validateModel(json);
+    const net = Network.fromJSON(model);
+    // Train on the data a trajectory was trained on, or the dataset the model was saved with (if it is
+    // known; models trained on imported data keep the current data)
+    const savedDataset = model.metadata.dataset as DatasetName | undefined;
+    const savedParams = model.metadata.datasetParams;
+    const nextData: DataConfig = trajectory
+      ? trajectory.data
+      : savedDataset && DATASET_NAMES.includes(savedDataset)
+        ? {
+          datasetName: savedDataset,
+          numSamples,
+          noiseLevel,
+          dataSeed,
+          datasetParams: resolveDatasetParams(
+            getDataset(savedDataset),
+            typeof savedParams === 'object' && savedParams !== null ? savedParams as DatasetParams : {}
+          ),
+          split,
+          edits: [],
+          version: 0,
+        }
+        : dataConfig;
+    const nextSpec = dataSpec(nextData);
+    if (net.layerSizes[0] !== nextSpec.inputSize) {
+      throw new Error(`Model expects ${net.layerSizes[0]} inputs but the ${nextSpec.label} dataset has ${nextSpec.inputSize}`);
+    }
+    if (net.layerSizes[net.layerSizes.length - 1] !== nextSpec.outputSize) {
+      throw new Error(
+        `Model has ${net.layerSizes[net.layerSizes.length - 1]} outputs but the ${nextSpec.label} dataset needs ${nextSpec.outputSize}`
+      );
+    }
+
+    const hp = savedHyperparameters(hyperparameters, model.hyperparameters as Partial<TrainingHyperparameters>);
+    adoptSettings({
+      layerSizes: net.layerSizes,
+      hiddenActivation: net.layerSizes.length > 2 ? net.layerActivations[0] : hiddenActivation,
+      lossName: net.lossName,
+      initConfig: net.init,
+      normalization: net.normalization,
+    }, nextData, hp);
+    startTimeline(
+      trajectory
+        ? { kind: 'steps', steps: trajectory.steps, currentStep: trajectory.currentStep }
+        : { kind: 'state', state: net.getState() },
+      nextData,
+      hp
+    );
+  }, [
+    numSamples, noiseLevel, dataSeed, split, hiddenActivation, hyperparameters, dataConfig, adoptSettings, startTimeline,
+  ]);
+
+  // Replace the timeline with a headless run (e.g. from a sweep), training
+  // it here step by step to the same result
+  const loadRun = useCallback((config: RunConfig) => {
+    adoptSettings(config.architecture, config.data, config.hyperparameters);
+    startTimeline({ kind: 'fresh', architecture: config.architecture, seed: config.seed }, config.data, config.hyperparameters);
+    trainRequestRef.current = post({ type: 'train', steps: runStepCount(config) });
+  }, [adoptSettings, startTimeline, post]);
+
+  // Switch datasets, generator parameters or to imported data, resizing the
+  // input and output layers (and picking a matching loss) for the data
+  const fitData = useCallback((name: DatasetName, params: DatasetParams, data: ImportedDataset | null) => {
+    const next = dataSpec({ ...dataConfig, datasetName: name, datasetParams: params, ...(data ? { imported: data } : {}) });
+    setDatasetName(name);
+    setDatasetParams(params);
+    setImported(data);
+    setLayerSizes(prev => [next.inputSize, ...prev.slice(1, -1), next.outputSize]);
+    setLossName(datasetLoss(next.task, next.outputSize, lossName));
+  }, [dataConfig, lossName]);
+
+  const selectDataset = useCallback((name: DatasetName) => {
+    fitData(name, resolveDatasetParams(getDataset(name)), null);
+  }, [fitData]);
+
+  const setDatasetParam = useCallback((key: string, value: number) => {
+    fitData(datasetName, { ...datasetParams, [key]: value }, null);
+  }, [fitData, datasetName, datasetParams]);
+
+  const selectImported = useCallback((id: string) => {
+    const data = importedDatasets.find(d => d.id === id);
+    if (data) fitData(datasetName, datasetParams, data);
+  }, [fitData, importedDatasets, datasetName, datasetParams]);
+
+  // Keep an imported dataset for the session and train on it
+  const addImportedDataset = useCallback((data: ImportedDataset) => {
+    setImportedDatasets(prev => [...prev, data]);
+    fitData(datasetName, datasetParams, data);
+  }, [fitData, datasetName, datasetParams]);
+
+  // Forget an imported dataset (going back to the generator if it was in use)
+  const removeImportedDataset = useCallback((id: string) => {
+    setImportedDatasets(prev => prev.filter(d => d.id !== id));
+    if (imported?.id === id) fitData(datasetName, datasetParams, null);
+  }, [fitData, imported, datasetName, datasetParams]);
+
+  // Move to another version of the edited data; the worker trains the
+  // following steps on it, keeping the timeline
+  const showVersion = useCallback((next: EditHistory) => {
+    setEditHistory(next);
+    post({ type: 'setData', data: { ...dataConfig, edits: next.current.edits, version: next.current.version } });
+  }, [post, dataConfig]);
+
+  const editData = useCallback((edit: DataEdit) => {
+    showVersion({
+      base,
+      past: [...(history?.past ?? []), dataVersion],
+      current: { version: nextVersion.current++, edits: [...dataVersion.edits, edit] },
+      future: [],
+    });
+  }, [showVersion, base, history, dataVersion]);
+
+  // Back to the unedited points (undoable)
+  const revertDataEdits = useCallback(() => {
+    if (dataVersion.version === UNEDITED.version) return;
+    showVersion({ base, past: [...(history?.past ?? []), dataVersion], current: UNEDITED, future: [] });
+  }, [showVersion, base, history, dataVersion]);
+
+  const undoDataEdit = useCallback(() => {
+    if (!history || history.past.length === 0) return;
+    showVersion({
+      base,
+      past: history.past.slice(0, -1),
+      current: history.past[history.past.length - 1],
+      future: [history.current, ...history.future],
+    });
+  }, [showVersion, base, history]);
+
+  const redoDataEdit = useCallback(() => {
+    if (!history || history.future.length === 0) return;
+    showVersion({
+      base,
+      past: [...history.past, history.current],
+      current: history.future[0],
+      future: history.future.slice(1),
+    });
+  }, [showVersion, base, history]);
 
   const randomize = useCallback(() => {
-    // Use timestamp to get a different seed each time
-    const randomSeed = (Date.now() % 99999) + 1;
-    setTraining(createInitialState(randomSeed));
-  }, [createInitialState]);
+    // Draw a fresh seed from the (unseeded) session stream each time
+    const randomSeed = Math.floor(sessionRng.current.uniform(1, 100000));
+    startFresh(randomSeed);
+  }, [startFresh]);
 
   const regenerateData = useCallback(() => {
-    const newSeed = Date.now() % 100000;
+    const newSeed = Math.floor(sessionRng.current.uniform(0, 100000));
     setDataSeed(newSeed);
   }, []);
 
+  // Rate the next update from the current step will use
+  const nextLearningRate = useMemo(() => {
+    const { epoch, batchInEpoch } = training.steps[training.currentStep];
+    const batchesPerEpoch = Math.ceil(trainingData.length / batchSizeFor(batchMode, miniBatchSize, trainingData.length));
+    const t = batchInEpoch >= batchesPerEpoch ? epoch + 1 : epoch + batchInEpoch / batchesPerEpoch;
+    return scheduledLearningRate(learningRate, schedule, t);
+  }, [training, trainingData, batchMode, miniBatchSize, learningRate, schedule]);
+
   const setSelectedInput = useCallback((idx: number) => {
     setTraining(prev => ({
       ...prev,
@@ -241,12 +562,21 @@ export function useTraining(initialLayerSizes: number[] = DEFAULT_LAYER_SIZES) {
     }));
   }, []);
 
+  const dismissError = useCallback(() => {
+    setTraining(prev => ({ ...prev, error: null }));
+  }, []);
+
   const setIsPlaying = useCallback((playing: boolean) => {
+    if (!playing && trainRequestRef.current !== null) {
+      // Pausing drops any queued step and cancels the train request
+      stepQueuedRef.current = false;
+      post({ type: 'cancel' });
+    }
     setTraining(prev => ({
       ...prev,
       isPlaying: playing,
     }));
-  }, []);
+  }, [post]);
 
   return {
     training,
@@ -257,15 +587,71 @@ export function useTraining(initialLayerSizes: number[] = DEFAULT_LAYER_SIZES) {
     regenerateData,
     setSelectedInput,
     setIsPlaying,
+    dismissError,
     learningRate,
     setLearningRate,
+    schedule,
+    setSchedule,
+    nextLearningRate,
     noiseLevel,
     setNoiseLevel,
     numSamples,
     setNumSamples,
     confidencePenalty,
     setConfidencePenalty,
+    hiddenActivation,
+    setHiddenActivation,
+    lossName,
+    setLossName,
+    optimizerName,
+    setOptimizerName,
+    optimizerHyperparams,
+    setOptimizerHyperparams,
+    batchMode,
+    setBatchMode,
+    miniBatchSize,
+    setMiniBatchSize,
+    shuffle,
+    setShuffle,
+    stepUnit,
+    setStepUnit,
+    regularization,
+    setRegularization,
+    clipping,
+    setClipping,
+    initConfig,
+    setInitConfig,
+    normalization,
+    setNormalization,
+    exportModel,
+    loadModel,
+    loadRun,
+    architecture,
+    dataConfig,
+    hyperparameters,
+    datasetName,
+    selectDataset,
+    datasetParams,
+    setDatasetParam,
+    dataSpec: spec,
+    importedDatasets,
+    imported,
+    selectImported,
+    addImportedDataset,
+    removeImportedDataset,
+    split,
+    setSplit,
+    dataVersion: dataVersion.version,
+    editCount: dataVersion.edits.length,
+    editData,
+    undoDataEdit,
+    redoDataEdit,
+    revertDataEdits,
+    canUndoDataEdit: (history?.past.length ?? 0) > 0,
+    canRedoDataEdit: (history?.future.length ?? 0) > 0,
     trainingData,
-    cleanXorData: CLEAN_XOR,
+    validationData: splits.validation,
+    testData: splits.test,
+    evalData,
   };
 }
@@ -77,3 +77,19 @@ describe('Clean XOR accuracy', () => {
     expect(acc).toBeGreaterThanOrEqual(0);
   });
 });
+
+describe('Network inference', () => {
+  it('outputBatch and predictBatch should match a forward pass without replacing the cached one', () => {
+    const net = new Network([2, 3, 1], 4);
+    const inputs = [[0, 1], [1, 0.5], [0.3, 0.3]];
+    const expected = net.forwardBatch(inputs);
+    net.forward([1, 1]);
+    const { activations, preActivations, dropoutMasks } = net;
+
+    expect(net.outputBatch(inputs)).toEqual(expected);
+    expect(net.predictBatch(inputs)).toEqual(expected.map(o => sigmoid(o) as number[]));
+    expect(net.dropoutMasks).toBe(dropoutMasks);
+    expect(net.activations).toBe(activations);
+    expect(net.preActivations).toBe(preActivations);
+  });
+});
@@ -1,210 +1,515 @@
-import { sigmoid } from './functions';
+import { defaultActivations } from './activations';
+import type { ActivationName } from './activations';
+import { getLoss, applyLink } from './losses';
+import type { LossName } from './losses';
+import type { Optimizer } from './optimizers';
+import { computeLayout, weightViews, biasViews } from './buffers';
+import type { LayerLayout } from './buffers';
+import { RNG } from './random';
+import type { Graph, Node } from './autodiff';
+import { Sequential, Dense, Activation, Dropout, LayerNorm, BatchNorm } from './layers';
+import type { Layer, LayerState, ForwardContext, Normalization, SequentialPass } from './layers';
+import { getInitializer, initBiases, DEFAULT_INIT } from './initializers';
+import type { InitConfig } from './initializers';
+import { validateModel, MODEL_FORMAT, MODEL_FORMAT_VERSION } from './serialization';
+import type { ModelJSON, ModelExtras } from './serialization';
 
 export interface NetworkState {
-  weights: number[][][];      // weights[layer][from][to]
-  biases: number[][];         // biases[layer][node]
+  layerSizes: number[];
+  seed: number | null;         // weight init seed (null if unseeded)
+  init: InitConfig;            // scheme the weights were initialized with
+  params: Float64Array;        // flat parameter buffer (layout in buffers.ts)
+  grads: Float64Array;         // flat gradient buffer, same layout
+  weights: Float64Array[][];   // views into params: weights[layer][from][to]
+  biases: Float64Array[];      // views into params: biases[layer][node]
+  weightGrads: Float64Array[][];
+  biasGrads: Float64Array[];
   preActivations: number[][];  // z values before activation
   activations: number[][];     // values after activation
-  weightGrads: number[][][];
-  biasGrads: number[][];
+  layerActivations: ActivationName[];  // activation applied after each layer
+  lossName: LossName;
+  dropoutMasks: number[][];    // per hidden layer: 0 = dropped, 1/(1-p) = kept; empty when not training
+  normalization: Normalization;
+  layers: LayerState[];        // every layer of the model: parameters (into params), buffers, cached values
+}
+
+export interface NetworkOptions {
+  activations?: ActivationName[];  // one per layer (layerSizes.length - 1)
+  loss?: LossName;                 // defaults to BCE through a sigmoid
+  initialize?: boolean;            // false skips random init (e.g. when restoring a state)
+  rng?: RNG;                       // stream for weight init; overrides `seed`
+  init?: InitConfig;               // weight/bias schemes, He normal weights and zero biases by default
+  normalization?: Normalization;   // after each hidden Dense layer, none by default
+}
+
+/**
+ * Per-sample values of one forward pass
+ */
+export interface ForwardTrace {
+  preActivations: number[][];
+  activations: number[][];
+  output: number[];
+  layers: LayerState[];
+}
+
+/**
+ * Per-layer values of a batch, indexed [layer][sample][unit]
+ */
+export interface BatchTrace {
+  preActivations: number[][][];    // z per Dense layer
+  activationInputs: number[][][];  // what each activation is applied to (z, or z normalized)
+  activations: number[][][];       // activations[0] is the input batch
+}
+
+/**
+ * Computation graph of one forward pass plus the nodes the network reads back
+ */
+export interface ForwardGraph extends SequentialPass {
+  preActivations: Node[];        // z per Dense layer (n × layerSizes[l + 1])
+  activations: Node[];           // activations[0] is the input batch; after dropout where applied
+  masks: (Float64Array | null)[];  // dropout scales per layer, null where not applied
+}
+
+/**
+ * The layers behind an MLP: per layer Dense, then for hidden layers the
+ * optional normalization, the activation and Dropout; the output layer gets
+ * Dense and its activation only
+ */
+function buildLayers(layerSizes: number[], activations: ActivationName[], normalization: Normalization): Layer[] {
+  const layers: Layer[] = [];
+  const numLayers = layerSizes.length - 1;
+  for (let i = 0; i < numLayers; i++) {
+    const size = layerSizes[i + 1];
+    const index = i + 1;
+    const hidden = i < numLayers - 1;
+    layers.push(new Dense(layerSizes[i], size, index));
+    if (hidden && normalization === 'layerNorm') layers.push(new LayerNorm(size, index));
+    if (hidden && normalization === 'batchNorm') layers.push(new BatchNorm(size, index));
+    layers.push(new Activation(size, activations[i], index));
+    if (hidden) layers.push(new Dropout(size, index));
+  }
+  return layers;
 }
 
 export class Network {
   layerSizes: number[];
-  weights: number[][][];
-  biases: number[][];
+  layout: LayerLayout[];
+  params: Float64Array;
+  grads: Float64Array;
+  layerActivations: ActivationName[];
+  lossName: LossName;
+  seed: number | null;
+  init: InitConfig;
+  normalization: Normalization;
+  model: Sequential;
+
+  // Nested views into params/grads (writes go through to the buffers)
+  weights: Float64Array[][];
+  biases: Float64Array[];
+  weightGrads: Float64Array[][];
+  biasGrads: Float64Array[];
 
-  // Intermediate values for backprop
+  // Intermediate values for backprop (last sample of the last forward pass)
   preActivations: number[][] = [];
   activations: number[][] = [];
-  weightGrads: number[][][] = [];
-  biasGrads: number[][] = [];
+  dropoutMasks: number[][] = [];
+  layerCaches: Record<string, number[]>[] = [];  // Layer.inspect() of the last sample, per layer
+  private cache: ForwardGraph | null = null;
 
-  constructor(layerSizes: number[], seed?: number) {
+  constructor(layerSizes: number[], seed?: number, options: NetworkOptions = {}) {
     this.layerSizes = layerSizes;
-    this.weights = [];
-    this.biases = [];
-
-    // Create a local seeded random function (don't pollute global Math.random)
-    let random: () => number;
-    if (seed !== undefined) {
-      // Seed both m_w and m_z from the input seed for proper randomization
-      // Use different transformations to ensure different values
-      let m_w = (seed * 1103515245 + 12345) >>> 0;
-      let m_z = (seed * 134775813 + 1) >>> 0;
-      // Ensure they're non-zero
-      if (m_w === 0) m_w = 1;
-      if (m_z === 0) m_z = 1;
-      const mask = 0xffffffff;
-      random = () => {
-        m_z = (36969 * (m_z & 65535) + (m_z >> 16)) & mask;
-        m_w = (18000 * (m_w & 65535) + (m_w >> 16)) & mask;
-        const result = ((m_z << 16) + (m_w & 65535)) >>> 0;
-        return result / 4294967296;
-      };
-      // Warm up the PRNG a few cycles
-      for (let i = 0; i < 10; i++) random();
-    } else {
-      random = Math.random;
-    }
 
-    // Initialize weights and biases
-    for (let i = 0; i < layerSizes.length - 1; i++) {
-      const inputSize = layerSizes[i];
-      const outputSize = layerSizes[i + 1];
-
-      // Xavier-like initialization
-      const fanIn = inputSize;
-      const scale = Math.sqrt(2.0 / fanIn);
-
-      const w: number[][] = [];
-      for (let j = 0; j < inputSize; j++) {
-        const row: number[] = [];
-        for (let k = 0; k < outputSize; k++) {
-          // Box-Muller transform for normal distribution
-          const u1 = random();
-          const u2 = random();
-          const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
-          row.push(z * scale);
-        }
-        w.push(row);
-      }
-      this.weights.push(w);
+    const activations = options.activations ?? defaultActivations(layerSizes);
+    if (activations.length !== layerSizes.length - 1) {
+      throw new Error(
+        `Expected ${layerSizes.length - 1} activations (one per layer), got ${activations.length}`
+      );
+    }
+    this.layerActivations = [...activations];
+    this.lossName = options.loss ?? 'bce';
+    this.seed = options.rng ? null : seed ?? null;
+    this.init = options.init ?? DEFAULT_INIT;
+    this.normalization = options.normalization ?? 'none';
 
-      // Biases initialized to zero
-      const b: number[] = new Array(outputSize).fill(0);
-      this.biases.push(b);
+    // The model binds its layers in order, which matches the flat layout
+    const { layout, size } = computeLayout(layerSizes, this.normalization !== 'none');
+    this.layout = layout;
+    this.model = new Sequential(buildLayers(layerSizes, activations, this.normalization));
+    if (this.model.params.length !== size) {
+      throw new Error(`Model has ${this.model.params.length} parameters but the layout expects ${size}`);
     }
-  }
+    this.params = this.model.params;
+    this.grads = this.model.grads;
+    this.weights = weightViews(this.params, layout);
+    this.biases = biasViews(this.params, layout);
+    this.weightGrads = weightViews(this.grads, layout);
+    this.biasGrads = biasViews(this.grads, layout);
 
-  forward(x: number[]): number[] {
-    this.activations = [x];
-    this.preActivations = [];
+    if (options.initialize === false) return;
 
-    let activation = [...x];
+    // Local seeded stream (don't pollute global Math.random)
+    const rng = options.rng ?? new RNG(seed);
 
-    // Forward through each layer
-    for (let layerIdx = 0; layerIdx < this.weights.length; layerIdx++) {
-      const w = this.weights[layerIdx];
-      const b = this.biases[layerIdx];
-      const isOutputLayer = layerIdx === this.weights.length - 1;
+    // Initialize weights layer by layer, then biases
+    const init = this.init;
+    const initializer = getInitializer(init.weights);
+    for (const { inSize, outSize, weightOffset } of layout) {
+      this.params.set(initializer.fill(inSize, outSize, rng, init.weightScale), weightOffset);
+    }
+    for (const { outSize, biasOffset } of layout) {
+      this.params.set(initBiases(outSize, init.biases, init.biasScale, rng), biasOffset);
+    }
+  }
 
-      // Linear transformation: z = activation @ w + b
-      const z: number[] = new Array(w[0].length).fill(0);
-      for (let i = 0; i < activation.length; i++) {
-        for (let j = 0; j < w[i].length; j++) {
-          z[j] += activation[i] * w[i][j];
-        }
-      }
-      for (let j = 0; j < b.length; j++) {
-        z[j] += b[j];
-      }
+  /**
+   * Rebuild a network from a snapshot without random initialization
+   */
+  static fromState(state: NetworkState): Network {
+    const net = new Network(state.layerSizes, undefined, {
+      activations: state.layerActivations,
+      loss: state.lossName,
+      init: state.init,
+      normalization: state.normalization,
+      initialize: false,
+    });
+    net.setState(state);
+    return net;
+  }
 
-      this.preActivations.push(z);
+  /**
+   * Serialize to the versioned model format (see serialization.ts).
+   * JSON.stringify(network) also works and records no extras.
+   */
+  toJSON(extras: ModelExtras = {}): ModelJSON {
+    return {
+      format: MODEL_FORMAT,
+      version: MODEL_FORMAT_VERSION,
+      architecture: {
+        layerSizes: [...this.layerSizes],
+        activations: [...this.layerActivations],
+        loss: this.lossName,
+        normalization: this.normalization,
+      },
+      init: { ...this.init },
+      seeds: { init: this.seed, ...extras.seeds },
+      hyperparameters: { ...extras.hyperparameters },
+      parameters: {
+        weights: this.weights.map(w => w.map(row => Array.from(row))),
+        biases: this.biases.map(b => Array.from(b)),
+        normalization: this.normalizationParameters(),
+      },
+      metadata: { ...extras.metadata },
+    };
+  }
 
-      // Apply activation function
-      if (isOutputLayer) {
-        // Output layer is linear (sigmoid applied later)
-        activation = z;
-      } else {
-        // Hidden layers use ReLU
-        activation = z.map(val => Math.max(0, val));
+  /**
+   * Load a model document (parsed JSON, any supported version). Throws a
+   * descriptive error if it is malformed or its shapes don't match.
+   */
+  static fromJSON(json: unknown): Network {
+    const model = validateModel(json);
+    const net = new Network(model.architecture.layerSizes, undefined, {
+      activations: model.architecture.activations,
+      loss: model.architecture.loss,
+      init: model.init,
+      normalization: model.architecture.normalization,
+      initialize: false,
+    });
+    net.seed = model.seeds.init;
+    model.parameters.weights.forEach((w, l) => w.forEach((row, j) => net.weights[l][j].set(row)));
+    model.parameters.biases.forEach((b, l) => net.biases[l].set(b));
+    net.normalizationLayers().forEach((layer, l) => {
+      const saved = model.parameters.normalization[l];
+      const offset = net.layout[l].normOffset!;
+      net.params.set(saved.gamma, offset);
+      net.params.set(saved.beta, offset + saved.gamma.length);
+      if (layer instanceof BatchNorm) {
+        layer.runningMean.set(saved.runningMean ?? []);
+        layer.runningVariance.set(saved.runningVariance ?? []);
       }
+    });
+    return net;
+  }
 
-      this.activations.push(activation);
-    }
+  /**
+   * The LayerNorm/BatchNorm layers, one per hidden layer (none without normalization)
+   */
+  normalizationLayers(): (LayerNorm | BatchNorm)[] {
+    return this.model.layers.filter((layer): layer is LayerNorm | BatchNorm =>
+      layer instanceof LayerNorm || layer instanceof BatchNorm
+    );
+  }
+
+  /**
+   * γ, β (and BatchNorm's running statistics) per normalized layer, as saved in model files
+   */
+  private normalizationParameters() {
+    return this.normalizationLayers().map((layer, l) => {
+      const offset = this.layout[l].normOffset!;
+      const size = layer.outSize;
+      return {
+        gamma: Array.from(this.params.subarray(offset, offset + size)),
+        beta: Array.from(this.params.subarray(offset + size, offset + 2 * size)),
+        ...(layer instanceof BatchNorm && {
+          runningMean: Array.from(layer.runningMean),
+          runningVariance: Array.from(layer.runningVariance),
+        }),
+      };
+    });
+  }
 
-    return activation;
+  /**
+   * Position of weights[layer][from][to] in params/grads
+   */
+  weightIndex(layer: number, from: number, to: number): number {
+    const { outSize, weightOffset } = this.layout[layer];
+    return weightOffset + from * outSize + to;
   }
 
-  backward(_x: number[], target: number[], confidencePenalty: number = 0): void {
-    // Apply sigmoid to output for loss computation
-    const outputPreSigmoid = this.activations[this.activations.length - 1];
-    const outputArray = Array.isArray(outputPreSigmoid) ? outputPreSigmoid : [outputPreSigmoid];
-    const output = sigmoid(outputArray) as number[];
+  /**
+   * Position of biases[layer][node] in params/grads
+   */
+  biasIndex(layer: number, node: number): number {
+    return this.layout[layer].biasOffset + node;
+  }
 
-    // Initialize gradients
-    this.weightGrads = this.weights.map(w => w.map(row => new Array(row.length).fill(0)));
-    this.biasGrads = this.biases.map(b => new Array(b.length).fill(0));
+  /**
+   * Record the forward pass as a computation graph. Parameter nodes are views
+   * into `params`/`grads`, so backward() accumulates into `grads` directly.
+   */
+  private buildGraph(inputs: number[][], context: ForwardContext): ForwardGraph {
+    const pass = this.model.forward(inputs, context);
+    const result: ForwardGraph = { ...pass, preActivations: [], activations: [pass.input], masks: [] };
 
-    // Gradient of BCE loss w.r.t. sigmoid output
-    const eps = 1e-7;
-    const p = output.map(val => Math.max(eps, Math.min(1 - eps, val)));
-    let delta = target.map((y, i) => {
-      // BCE gradient: -y/p + (1-y)/(1-p)
-      let grad = (-y / p[i]) + ((1 - y) / (1 - p[i]));
-      // Add confidence penalty gradient: d/dp[4p(1-p)] = 4(1-2p)
-      if (confidencePenalty > 0) {
-        grad += confidencePenalty * 4 * (1 - 2 * p[i]);
+    // Read the per-layer values back from the layers' passes
+    pass.passes.forEach((layerPass, i) => {
+      const last = result.activations.length - 1;
+      switch (this.model.layers[i].type) {
+        case 'dense':
+          result.preActivations.push(layerPass.output);
+          break;
+        case 'activation':
+          result.activations.push(layerPass.output);
+          result.masks.push(null);
+          break;
+        case 'dropout':
+          if (layerPass.nodes.length > 0) {
+            result.activations[last] = layerPass.output;
+            result.masks[last - 1] = layerPass.nodes[0].localGrad!;
+          }
+          break;
       }
-      return grad;
     });
+    return result;
+  }
 
-    // Gradient of sigmoid
-    const dpDz = output.map(val => val * (1 - val));
-    delta = delta.map((d, i) => d * dpDz[i]);
+  /**
+   * Forward pass over a batch of inputs. Pass `{ training: true }` only while
+   * training: BatchNorm then normalizes with (and updates) batch statistics
+   * and, given `dropout`, hidden units are dropped with inverted dropout
+   * (independently for each sample). The pass is kept for backwardBatch().
+   */
+  forwardBatch(inputs: number[][], context: ForwardContext = { training: false }): number[][] {
+    const fwd = this.buildGraph(inputs, context);
+    this.cache = fwd;
+    const n = fwd.n;
 
-    // Backpropagate through layers (from output to input)
-    for (let i = this.weights.length - 1; i >= 0; i--) {
-      const activationIn = this.activations[i];
+    // The nested per-sample fields describe the last sample of the batch
+    const lastRow = (node: Node) => Array.from(node.value.subarray((n - 1) * node.cols, n * node.cols));
+    this.activations = fwd.activations.map(lastRow);
+    this.preActivations = fwd.preActivations.map(lastRow);
+    this.dropoutMasks = [];
+    fwd.masks.forEach((m, l) => {
+      const size = this.layerSizes[l + 1];
+      if (m) this.dropoutMasks[l] = Array.from(m.subarray((n - 1) * size, n * size));
+    });
+    this.layerCaches = this.model.layers.map((layer, i) => layer.inspect(fwd.passes[i], n - 1));
 
-      // Weight gradient: outer product of activation and delta
-      for (let j = 0; j < activationIn.length; j++) {
-        for (let k = 0; k < delta.length; k++) {
-          this.weightGrads[i][j][k] = activationIn[j] * delta[k];
-        }
-      }
+    const out = fwd.output;
+    return Array.from({ length: n }, (_, s) => Array.from(out.value.subarray(s * out.cols, (s + 1) * out.cols)));
+  }
 
-      // Bias gradient
-      this.biasGrads[i] = [...delta];
+  /**
+   * Forward pass for a single input (see forwardBatch)
+   */
+  forward(x: number[], context?: ForwardContext): number[] {
+    return this.forwardBatch([x], context)[0];
+  }
 
-      // Propagate delta to previous layer
-      if (i > 0) {
-        const newDelta = new Array(activationIn.length).fill(0);
-        for (let j = 0; j < activationIn.length; j++) {
-          for (let k = 0; k < delta.length; k++) {
-            newDelta[j] += delta[k] * this.weights[i][j][k];
-          }
-        }
+  /**
+   * Outputs for a batch of inputs in inference mode, leaving the cached
+   * forward pass untouched like trace(). Safe to call while rendering.
+   */
+  outputBatch(inputs: number[][]): number[][] {
+    const { output, n } = this.buildGraph(inputs, { training: false });
+    return Array.from({ length: n }, (_, s) => Array.from(output.value.subarray(s * output.cols, (s + 1) * output.cols)));
+  }
 
-        // Apply ReLU gradient
-        const reluGrad = this.preActivations[i - 1].map(z => z > 0 ? 1 : 0);
-        delta = newDelta.map((d, j) => d * reluGrad[j]);
-      }
+  /**
+   * Inference-mode outputs through the loss's output link (e.g. sigmoid
+   * probabilities). Like outputBatch(), safe to call while rendering.
+   */
+  predict(x: number[]): number[] {
+    return this.predictBatch([x])[0];
+  }
+
+  /**
+   * Batched predict()
+   */
+  predictBatch(inputs: number[][]): number[][] {
+    const link = getLoss(this.lossName).link;
+    return this.outputBatch(inputs).map(output => applyLink(link, output));
+  }
+
+  /**
+   * Per-layer values for one input, leaving the cached forward pass (and so
+   * any pending backward) untouched. Safe to call while rendering.
+   */
+  trace(x: number[]): ForwardTrace {
+    const { cache, activations, preActivations, dropoutMasks, layerCaches } = this;
+    const output = this.forward(x);
+    const result = {
+      preActivations: this.preActivations,
+      activations: this.activations,
+      output,
+      layers: this.model.getState(this.layerCaches),
+    };
+    this.cache = cache;
+    this.activations = activations;
+    this.preActivations = preActivations;
+    this.dropoutMasks = dropoutMasks;
+    this.layerCaches = layerCaches;
+    return result;
+  }
+
+  /**
+   * Batched trace() in inference mode, for evaluating every unit over many
+   * inputs at once. The cached forward pass is left untouched.
+   */
+  traceBatch(inputs: number[][]): BatchTrace {
+    const fwd = this.buildGraph(inputs, { training: false });
+    const rows = (node: Node) =>
+      Array.from({ length: fwd.n }, (_, s) => Array.from(node.value.subarray(s * node.cols, (s + 1) * node.cols)));
+    return {
+      preActivations: fwd.preActivations.map(rows),
+      activationInputs: fwd.passes.filter((_, i) => this.model.layers[i].type === 'activation').map(pass => rows(pass.input)),
+      activations: fwd.activations.map(rows),
+    };
+  }
+
+  /**
+   * Backpropagate the loss averaged over the batch of the last forwardBatch().
+   * By default the gradients are overwritten; with `accumulate` the batch
+   * mean is added to the existing gradients.
+   */
+  backwardBatch(targets: number[][], confidencePenalty: number = 0, accumulate: boolean = false): void {
+    const cache = this.cache;
+    if (!cache || cache.n !== targets.length) {
+      throw new Error(
+        `backwardBatch() expects ${cache?.n ?? 0} targets (one per sample of the last forward pass), got ${targets.length}`
+      );
     }
+    if (!accumulate) this.zeroGrads();
+
+    const { graph, output } = cache;
+    const loss = graph.loss(output, targets, getLoss(this.lossName), confidencePenalty, 'L');
+    this.model.backward(cache, loss);
   }
 
-  step(learningRate: number): void {
-    for (let i = 0; i < this.weights.length; i++) {
-      for (let j = 0; j < this.weights[i].length; j++) {
-        for (let k = 0; k < this.weights[i][j].length; k++) {
-          this.weights[i][j][k] -= learningRate * this.weightGrads[i][j][k];
-        }
-      }
+  /**
+   * Full computation graph for one sample, forward and backward, built on a
+   * copy of the network so this one is left untouched
+   */
+  computationGraph(x: number[], target: number[], confidencePenalty: number = 0): { graph: Graph; loss: Node } {
+    const copy = Network.fromState(this.getState());
+    copy.forward(x);
+    copy.backward(x, target, confidencePenalty);
+    const { graph } = copy.cache!;
+    return { graph, loss: graph.nodes[graph.nodes.length - 1] };
+  }
 
-      for (let j = 0; j < this.biases[i].length; j++) {
-        this.biases[i][j] -= learningRate * this.biasGrads[i][j];
-      }
+  /**
+   * Backpropagate the loss for the single sample of the last forward(). By
+   * default the gradients are overwritten; with `accumulate` they are added
+   * to the existing gradients (call zeroGrads() first and scaleGrads(1/n)
+   * after a batch of n samples).
+   */
+  backward(_x: number[], target: number[], confidencePenalty: number = 0, accumulate: boolean = false): void {
+    this.backwardBatch([target], confidencePenalty, accumulate);
+  }
+
+  zeroGrads(): void {
+    this.grads.fill(0);
+  }
+
+  scaleGrads(factor: number): void {
+    for (let idx = 0; idx < this.grads.length; idx++) {
+      this.grads[idx] *= factor;
+    }
+  }
+
+  /**
+   * Apply the current gradients. Without an optimizer this is plain SGD.
+   */
+  step(learningRate: number, optimizer?: Optimizer): void {
+    if (optimizer) {
+      optimizer.step(this, learningRate);
+      return;
+    }
+
+    for (let idx = 0; idx < this.params.length; idx++) {
+      this.params[idx] -= learningRate * this.grads[idx];
     }
   }
 
   getState(): NetworkState {
+    const params = this.params.slice();
+    const grads = this.grads.slice();
     return {
-      weights: this.weights.map(w => w.map(row => [...row])),
-      biases: this.biases.map(b => [...b]),
+      layerSizes: [...this.layerSizes],
+      seed: this.seed,
+      init: { ...this.init },
+      params,
+      grads,
+      weights: weightViews(params, this.layout),
+      biases: biasViews(params, this.layout),
+      weightGrads: weightViews(grads, this.layout),
+      biasGrads: biasViews(grads, this.layout),
       preActivations: this.preActivations.map(p => [...p]),
       activations: this.activations.map(a => [...a]),
-      weightGrads: this.weightGrads.map(w => w.map(row => [...row])),
-      biasGrads: this.biasGrads.map(b => [...b]),
+      dropoutMasks: this.dropoutMasks.map(m => [...m]),
+      layerActivations: [...this.layerActivations],
+      lossName: this.lossName,
+      normalization: this.normalization,
+      layers: this.model.getState(this.layerCaches),
     };
   }
 
   setState(state: NetworkState): void {
-    this.weights = state.weights.map(w => w.map(row => [...row]));
-    this.biases = state.biases.map(b => [...b]);
+    if (state.layerSizes.join() !== this.layerSizes.join()) {
+      throw new Error(
+        `State is for layers [${state.layerSizes.join(', ')}] but the network has [${this.layerSizes.join(', ')}]`
+      );
+    }
+    if (state.normalization !== this.normalization) {
+      throw new Error(`State uses ${state.normalization} normalization but the network uses ${this.normalization}`);
+    }
+    if (state.params.length !== this.params.length) {
+      throw new Error(
+        `State has ${state.params.length} parameters but the network has ${this.params.length}`
+      );
+    }
+    this.params.set(state.params);
+    this.grads.set(state.grads);
     this.preActivations = state.preActivations.map(p => [...p]);
     this.activations = state.activations.map(a => [...a]);
-    this.weightGrads = state.weightGrads.map(w => w.map(row => [...row]));
-    this.biasGrads = state.biasGrads.map(b => [...b]);
+    this.dropoutMasks = state.dropoutMasks.map(m => [...m]);
+    this.model.setState(state.layers);
+    this.layerCaches = state.layers.map(layer => ({ ...layer.cache }));
+    this.layerActivations = [...state.layerActivations];
+    this.lossName = state.lossName;
+    this.seed = state.seed;
+    this.init = { ...state.init };
+    this.cache = null;
   }
 }
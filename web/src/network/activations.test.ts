@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { ACTIVATIONS, ACTIVATION_NAMES, defaultActivations } from './activations';
+import { Network } from './Network';
+
+describe('Activation registry', () => {
+  it('derivatives should match central differences', () => {
+    const h = 1e-5;
+    for (const name of ACTIVATION_NAMES) {
+      const act = ACTIVATIONS[name];
+      // Avoid z = 0 where piecewise activations are not differentiable
+      for (const z of [-2.3, -0.7, 0.4, 1.9]) {
+        const numeric = (act.forward(z + h) - act.forward(z - h)) / (2 * h);
+        expect(act.derivative(z), `${name} at z=${z}`).toBeCloseTo(numeric, 5);
+      }
+    }
+  });
+
+  it('defaults to ReLU hidden layers and a linear output', () => {
+    expect(defaultActivations([2, 4, 3, 1])).toEqual(['relu', 'relu', 'identity']);
+    expect(defaultActivations([2, 4, 1], 'tanh')).toEqual(['tanh', 'identity']);
+  });
+});
+
+describe('Network activations', () => {
+  it('should apply the configured activation per layer', () => {
+    const net = new Network([2, 4, 1], 123, { activations: ['tanh', 'identity'] });
+    net.forward([0.3, -0.8]);
+    net.preActivations[0].forEach((z, j) => {
+      expect(net.activations[1][j]).toBeCloseTo(Math.tanh(z), 12);
+    });
+  });
+
+  it('should round-trip activations through getState/setState', () => {
+    const net = new Network([2, 4, 1], 123, { activations: ['elu', 'identity'] });
+    const copy = new Network([2, 4, 1]);
+    copy.setState(net.getState());
+    expect(copy.layerActivations).toEqual(['elu', 'identity']);
+  });
+
+  it('should reject an activation list of the wrong length', () => {
+    expect(() => new Network([2, 4, 1], 123, { activations: ['relu'] })).toThrow();
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Activation function registry
+ *
+ * Each activation pairs a forward function with its derivative (both taken
+ * with respect to the pre-activation z), plus labels for the UI.
+ */
+
+export type ActivationName = 'relu' | 'leakyRelu' | 'elu' | 'gelu' | 'tanh' | 'sigmoid' | 'identity';
+
+export interface Activation {
+  name: ActivationName;
+  label: string;                      // Short name, e.g. "ReLU"
+  formula: (z: string) => string;     // Human-readable expression for a given z
+  derivativeFormula: string;          // Human-readable derivative f'(z)
+  forward: (z: number) => number;
+  derivative: (z: number) => number;  // f'(z), evaluated at the pre-activation
+}
+
+const LEAKY_SLOPE = 0.01;
+const ELU_ALPHA = 1.0;
+const GELU_K = Math.sqrt(2 / Math.PI);
+
+function sigmoidScalar(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+export const ACTIVATIONS: Record<ActivationName, Activation> = {
+  relu: {
+    name: 'relu',
+    label: 'ReLU',
+    formula: z => `max(0, ${z})`,
+    derivativeFormula: "ReLU'(z) = 1 if z > 0, else 0",
+    forward: z => Math.max(0, z),
+    derivative: z => (z > 0 ? 1 : 0),
+  },
+  leakyRelu: {
+    name: 'leakyRelu',
+    label: 'LeakyReLU',
+    formula: z => `max(${LEAKY_SLOPE}·${z}, ${z})`,
+    derivativeFormula: `LeakyReLU'(z) = 1 if z > 0, else ${LEAKY_SLOPE}`,
+    forward: z => (z > 0 ? z : LEAKY_SLOPE * z),
+    derivative: z => (z > 0 ? 1 : LEAKY_SLOPE),
+  },
+  elu: {
+    name: 'elu',
+    label: 'ELU',
+    formula: z => `${z} > 0 ? ${z} : e^${z} - 1`,
+    derivativeFormula: "ELU'(z) = 1 if z > 0, else e^z",
+    forward: z => (z > 0 ? z : ELU_ALPHA * (Math.exp(z) - 1)),
+    derivative: z => (z > 0 ? 1 : ELU_ALPHA * Math.exp(z)),
+  },
+  gelu: {
+    // Tanh approximation from Hendrycks & Gimpel (2016)
+    name: 'gelu',
+    label: 'GELU',
+    formula: z => `GELU(${z})`,
+    derivativeFormula: "GELU'(z) ≈ Φ(z) + z·φ(z) (tanh approximation)",
+    forward: z => 0.5 * z * (1 + Math.tanh(GELU_K * (z + 0.044715 * z * z * z))),
+    derivative: z => {
+      const inner = GELU_K * (z + 0.044715 * z * z * z);
+      const t = Math.tanh(inner);
+      const dInner = GELU_K * (1 + 3 * 0.044715 * z * z);
+      return 0.5 * (1 + t) + 0.5 * z * (1 - t * t) * dInner;
+    },
+  },
+  tanh: {
+    name: 'tanh',
+    label: 'tanh',
+    formula: z => `tanh(${z})`,
+    derivativeFormula: "tanh'(z) = 1 - tanh²(z)",
+    forward: z => Math.tanh(z),
+    derivative: z => {
+      const t = Math.tanh(z);
+      return 1 - t * t;
+    },
+  },
+  sigmoid: {
+    name: 'sigmoid',
+    label: 'σ',
+    formula: z => `σ(${z})`,
+    derivativeFormula: "σ'(z) = σ(z)(1 - σ(z))",
+    forward: sigmoidScalar,
+    derivative: z => {
+      const s = sigmoidScalar(z);
+      return s * (1 - s);
+    },
+  },
+  identity: {
+    name: 'identity',
+    label: 'identity',
+    formula: z => z,
+    derivativeFormula: "identity'(z) = 1",
+    forward: z => z,
+    derivative: () => 1,
+  },
+};
+
+export const ACTIVATION_NAMES = Object.keys(ACTIVATIONS) as ActivationName[];
+
+export function getActivation(name: ActivationName): Activation {
+  return ACTIVATIONS[name];
+}
+
+/**
+ * Default per-layer activations: ReLU for hidden layers, identity for the
+ * output layer (sigmoid is applied by the loss).
+ */
+export function defaultActivations(layerSizes: number[], hidden: ActivationName = 'relu'): ActivationName[] {
+  const numLayers = layerSizes.length - 1;
+  return Array.from({ length: numLayers }, (_, i) => (i === numLayers - 1 ? 'identity' : hidden));
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { Graph } from './autodiff';
+import { getActivation } from './activations';
+import { getLoss } from './losses';
+import { Network } from './Network';
+
+describe('Autodiff', () => {
+  it('should match central differences on a small graph', () => {
+    const w = new Float64Array([0.5, -1.2, 0.3, 0.8, -0.4, 1.1]);
+    const build = (weights: Float64Array) => {
+      const g = new Graph();
+      const x = g.input('x', 2, 2, new Float64Array([1, 2, -0.5, 0.7]));
+      const W = g.param('W', 2, 3, weights);
+      const b = g.param('b', 1, 3, new Float64Array([0.1, 0, -0.2]));
+      const a = g.activation(g.addBias(g.matmul(x, W, 'xW'), b, 'z'), getActivation('tanh'), 'a');
+      const loss = g.loss(a, [[1, 0, 0], [0, 1, 0]], getLoss('mse'), 0, 'L');
+      return { g, W, loss };
+    };
+
+    const { g, W, loss } = build(w);
+    g.backward(loss);
+
+    const h = 1e-6;
+    w.forEach((_, i) => {
+      const plus = w.slice();
+      plus[i] += h;
+      const minus = w.slice();
+      minus[i] -= h;
+      const numeric = (build(plus).loss.value[0] - build(minus).loss.value[0]) / (2 * h);
+      expect(W.grad[i]).toBeCloseTo(numeric, 8);
+    });
+  });
+
+  it('should visit inputs before the nodes that use them', () => {
+    const g = new Graph();
+    const x = g.input('x', 1, 1, new Float64Array([2]));
+    const a = g.activation(x, getActivation('relu'), 'a');
+    const b = g.activation(a, getActivation('tanh'), 'b');
+    expect(g.topologicalOrder(b).map(n => n.label)).toEqual(['x', 'a', 'b']);
+  });
+
+  it('computationGraph should match backward() without touching the network', () => {
+    const net = new Network([2, 4, 1], 123);
+    const before = net.getState();
+    const { graph, loss } = net.computationGraph([1, 0], [1], 0.5);
+    expect(net.getState()).toEqual(before);
+
+    net.forward([1, 0]);
+    net.backward([1, 0], [1], 0.5);
+    const W1 = graph.nodes.find(n => n.label === 'W1')!;
+    expect(Array.from(W1.grad)).toEqual(Array.from(net.grads.subarray(0, 8)));
+    expect(loss.grad[0]).toBe(1);
+  });
+});
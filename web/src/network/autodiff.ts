@@ -0,0 +1,317 @@
+/**
+ * Reverse-mode automatic differentiation
+ *
+ * A Graph records every operation of a forward pass as a Node holding a
+ * row-major matrix value (one row per sample; scalars are 1×1). Each node
+ * knows how to push its upstream gradient to its inputs, so backward() only
+ * has to visit the nodes in reverse topological order. Nodes keep their
+ * values, gradients and (for elementwise ops) local derivatives, so the whole
+ * computation can be inspected afterwards.
+ *
+ * Gradients accumulate (+=). Parameter nodes may be given views into an
+ * external gradient buffer, in which case backward() adds straight into it.
+ */
+
+import type { Activation } from './activations';
+import type { Loss } from './losses';
+import { computeLoss, computeLossGradient } from './losses';
+
+export type OpName =
+  | 'input' | 'param' | 'matmul' | 'addBias' | 'activation' | 'mask' | 'normalize' | 'scaleShift' | 'loss';
+
+/**
+ * Which entries a normalize node standardizes together: each row (layer
+ * norm, one group per sample) or each column (batch norm, one group per unit)
+ */
+export type NormalizeAxis = 'row' | 'column';
+
+export interface NormalizeStats {
+  mean: Float64Array;      // one entry per group
+  variance: Float64Array;  // biased (population) variance per group
+}
+
+export interface Node {
+  id: number;
+  op: OpName;
+  label: string;
+  description: string;          // formula of this node in terms of its inputs
+  inputs: Node[];
+  rows: number;
+  cols: number;
+  value: Float64Array;
+  grad: Float64Array;           // ∂L/∂value once backward() has run
+  localGrad?: Float64Array;     // elementwise ∂value/∂input for unary elementwise ops
+  stats?: NormalizeStats;       // statistics a normalize node standardized with
+  backward: () => void;         // adds this node's contribution to its inputs' grads
+}
+
+export class Graph {
+  nodes: Node[] = [];
+
+  private add(
+    op: OpName,
+    label: string,
+    description: string,
+    inputs: Node[],
+    rows: number,
+    cols: number,
+    value: Float64Array,
+    grad: Float64Array = new Float64Array(rows * cols)
+  ): Node {
+    const node: Node = {
+      id: this.nodes.length, op, label, description, inputs, rows, cols, value, grad,
+      backward: () => {},
+    };
+    this.nodes.push(node);
+    return node;
+  }
+
+  /**
+   * Constant input (no gradient flows out of it)
+   */
+  input(label: string, rows: number, cols: number, value: Float64Array): Node {
+    return this.add('input', label, 'input', [], rows, cols, value);
+  }
+
+  /**
+   * Trainable parameter. Pass `grad` to accumulate into an existing buffer.
+   */
+  param(label: string, rows: number, cols: number, value: Float64Array, grad?: Float64Array): Node {
+    return this.add('param', label, 'parameter', [], rows, cols, value, grad);
+  }
+
+  /**
+   * Matrix product a (n×k) · b (k×m)
+   */
+  matmul(a: Node, b: Node, label: string): Node {
+    if (a.cols !== b.rows) {
+      throw new Error(`matmul: ${a.label} is ${a.rows}×${a.cols} but ${b.label} is ${b.rows}×${b.cols}`);
+    }
+    const n = a.rows;
+    const k = a.cols;
+    const m = b.cols;
+    const value = new Float64Array(n * m);
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < m; j++) {
+        let sum = 0;
+        for (let t = 0; t < k; t++) sum += a.value[i * k + t] * b.value[t * m + j];
+        value[i * m + j] = sum;
+      }
+    }
+    const node = this.add('matmul', label, `${a.label} · ${b.label}`, [a, b], n, m, value);
+    node.backward = () => {
+      // ∂L/∂a = g · bᵀ,  ∂L/∂b = aᵀ · g
+      for (let i = 0; i < n; i++) {
+        for (let t = 0; t < k; t++) {
+          let sum = 0;
+          for (let j = 0; j < m; j++) sum += node.grad[i * m + j] * b.value[t * m + j];
+          a.grad[i * k + t] += sum;
+        }
+      }
+      for (let t = 0; t < k; t++) {
+        for (let j = 0; j < m; j++) {
+          let sum = 0;
+          for (let i = 0; i < n; i++) sum += a.value[i * k + t] * node.grad[i * m + j];
+          b.grad[t * m + j] += sum;
+        }
+      }
+    };
+    return node;
+  }
+
+  /**
+   * a (n×m) plus a bias row b (1×m) broadcast over the rows
+   */
+  addBias(a: Node, b: Node, label: string): Node {
+    const n = a.rows;
+    const m = a.cols;
+    const value = new Float64Array(n * m);
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < m; j++) value[i * m + j] = a.value[i * m + j] + b.value[j];
+    }
+    const node = this.add('addBias', label, `${a.label} + ${b.label}`, [a, b], n, m, value);
+    node.backward = () => {
+      for (let i = 0; i < n; i++) {
+        for (let j = 0; j < m; j++) {
+          a.grad[i * m + j] += node.grad[i * m + j];
+          b.grad[j] += node.grad[i * m + j];
+        }
+      }
+    };
+    return node;
+  }
+
+  /**
+   * Elementwise activation; records f'(x) as the local gradient
+   */
+  activation(a: Node, act: Activation, label: string): Node {
+    const value = a.value.map(act.forward);
+    const node = this.add('activation', label, act.formula(a.label), [a], a.rows, a.cols, value);
+    const local = a.value.map(act.derivative);
+    node.localGrad = local;
+    node.backward = () => {
+      for (let idx = 0; idx < value.length; idx++) a.grad[idx] += node.grad[idx] * local[idx];
+    };
+    return node;
+  }
+
+  /**
+   * Elementwise product with a constant mask (e.g. dropout)
+   */
+  mask(a: Node, mask: Float64Array, label: string): Node {
+    const value = a.value.map((v, idx) => v * mask[idx]);
+    const node = this.add('mask', label, `${a.label} ⊙ mask`, [a], a.rows, a.cols, value);
+    node.localGrad = mask;
+    node.backward = () => {
+      for (let idx = 0; idx < value.length; idx++) a.grad[idx] += node.grad[idx] * mask[idx];
+    };
+    return node;
+  }
+
+  /**
+   * Standardize groups of entries to zero mean and unit variance:
+   * (a - μ) / √(σ² + ε). The statistics are computed from `a` (and
+   * differentiated through) unless `fixed` per-column statistics are given,
+   * in which case they are constants (batch norm at inference).
+   */
+  normalize(a: Node, axis: NormalizeAxis, epsilon: number, label: string, fixed?: NormalizeStats): Node {
+    const n = a.rows;
+    const m = a.cols;
+    const groups = axis === 'row' ? n : m;
+    const size = axis === 'row' ? m : n;
+    // Flat index of the k-th entry of group g
+    const at = axis === 'row' ? (g: number, k: number) => g * m + k : (g: number, k: number) => k * m + g;
+
+    let stats = fixed;
+    if (!stats) {
+      stats = { mean: new Float64Array(groups), variance: new Float64Array(groups) };
+      for (let g = 0; g < groups; g++) {
+        let sum = 0;
+        for (let k = 0; k < size; k++) sum += a.value[at(g, k)];
+        const mean = sum / size;
+        let sq = 0;
+        for (let k = 0; k < size; k++) sq += (a.value[at(g, k)] - mean) ** 2;
+        stats.mean[g] = mean;
+        stats.variance[g] = sq / size;
+      }
+    }
+    const inv = stats.variance.map(v => 1 / Math.sqrt(v + epsilon));
+
+    const value = new Float64Array(n * m);
+    for (let g = 0; g < groups; g++) {
+      for (let k = 0; k < size; k++) value[at(g, k)] = (a.value[at(g, k)] - stats.mean[g]) * inv[g];
+    }
+    const node = this.add('normalize', label, `(${a.label} - μ) / √(σ² + ε)`, [a], n, m, value);
+    node.stats = stats;
+
+    if (fixed) {
+      const local = new Float64Array(n * m);
+      for (let g = 0; g < groups; g++) {
+        for (let k = 0; k < size; k++) local[at(g, k)] = inv[g];
+      }
+      node.localGrad = local;
+      node.backward = () => {
+        for (let idx = 0; idx < value.length; idx++) a.grad[idx] += node.grad[idx] * local[idx];
+      };
+      return node;
+    }
+
+    node.backward = () => {
+      // ∂L/∂a = (g - mean(g) - â · mean(g ⊙ â)) / √(σ² + ε), per group
+      for (let g = 0; g < groups; g++) {
+        let meanGrad = 0;
+        let meanGradX = 0;
+        for (let k = 0; k < size; k++) {
+          const idx = at(g, k);
+          meanGrad += node.grad[idx];
+          meanGradX += node.grad[idx] * value[idx];
+        }
+        meanGrad /= size;
+        meanGradX /= size;
+        for (let k = 0; k < size; k++) {
+          const idx = at(g, k);
+          a.grad[idx] += inv[g] * (node.grad[idx] - meanGrad - value[idx] * meanGradX);
+        }
+      }
+    };
+    return node;
+  }
+
+  /**
+   * Per-column affine map a ⊙ γ + β with γ, β rows (1×m) broadcast over the rows
+   */
+  scaleShift(a: Node, gamma: Node, beta: Node, label: string): Node {
+    const n = a.rows;
+    const m = a.cols;
+    const value = new Float64Array(n * m);
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < m; j++) value[i * m + j] = a.value[i * m + j] * gamma.value[j] + beta.value[j];
+    }
+    const node = this.add(
+      'scaleShift', label, `${a.label} ⊙ ${gamma.label} + ${beta.label}`, [a, gamma, beta], n, m, value
+    );
+    node.backward = () => {
+      for (let i = 0; i < n; i++) {
+        for (let j = 0; j < m; j++) {
+          const g = node.grad[i * m + j];
+          a.grad[i * m + j] += g * gamma.value[j];
+          gamma.grad[j] += g * a.value[i * m + j];
+          beta.grad[j] += g;
+        }
+      }
+    };
+    return node;
+  }
+
+  /**
+   * Scalar loss averaged over the rows of `output` (one row per sample),
+   * including the optional confidence penalty
+   */
+  loss(output: Node, targets: number[][], loss: Loss, confidencePenalty: number, label: string): Node {
+    const n = output.rows;
+    const m = output.cols;
+    const row = (i: number) => Array.from(output.value.subarray(i * m, (i + 1) * m));
+    let total = 0;
+    for (let i = 0; i < n; i++) total += computeLoss(loss, row(i), targets[i], confidencePenalty);
+    const node = this.add(
+      'loss', label, `mean ${loss.label}(${output.label}, y)`, [output], 1, 1, new Float64Array([total / n])
+    );
+    node.backward = () => {
+      for (let i = 0; i < n; i++) {
+        const g = computeLossGradient(loss, row(i), targets[i], confidencePenalty);
+        for (let j = 0; j < m; j++) output.grad[i * m + j] += (node.grad[0] * g[j]) / n;
+      }
+    };
+    return node;
+  }
+
+  /**
+   * Nodes that `root` depends on, inputs before the nodes that use them
+   */
+  topologicalOrder(root: Node): Node[] {
+    const order: Node[] = [];
+    const visited = new Set<number>();
+    const visit = (node: Node) => {
+      if (visited.has(node.id)) return;
+      visited.add(node.id);
+      node.inputs.forEach(visit);
+      order.push(node);
+    };
+    visit(root);
+    return order;
+  }
+
+  /**
+   * Backpropagate from a scalar root: clear intermediate gradients (parameter
+   * gradients keep accumulating), seed ∂root/∂root = 1 and visit the nodes
+   * in reverse topological order
+   */
+  backward(root: Node): void {
+    const order = this.topologicalOrder(root);
+    for (const node of order) {
+      if (node.op !== 'param') node.grad.fill(0);
+    }
+    root.grad[0] = 1;
+    for (let i = order.length - 1; i >= 0; i--) order[i].backward();
+  }
+}
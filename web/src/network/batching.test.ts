@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { batchSizeFor, epochOrder, makeBatches } from './batching';
+import { Network } from './Network';
+import { RNG } from './random';
+
+const SAMPLES = [
+  { input: [0, 0], target: [0] },
+  { input: [0, 1], target: [1] },
+  { input: [1, 0], target: [1] },
+];
+
+describe('Gradient accumulation', () => {
+  it('accumulated gradients scaled by 1/n should equal the mean per-sample gradient', () => {
+    const net = new Network([2, 4, 1], 123);
+    const perSample = SAMPLES.map(({ input, target }) => {
+      net.forward(input);
+      net.backward(input, target);
+      return net.getState().weightGrads;
+    });
+
+    net.zeroGrads();
+    for (const { input, target } of SAMPLES) {
+      net.forward(input);
+      net.backward(input, target, 0, true);
+    }
+    net.scaleGrads(1 / SAMPLES.length);
+
+    net.weightGrads.forEach((layer, i) => layer.forEach((row, j) => row.forEach((g, k) => {
+      const mean = perSample.reduce((sum, grads) => sum + grads[i][j][k], 0) / SAMPLES.length;
+      expect(g).toBeCloseTo(mean, 12);
+    })));
+  });
+
+  it('backwardBatch should equal accumulating single-sample backward passes', () => {
+    const a = new Network([2, 4, 1], 123);
+    const b = new Network([2, 4, 1], 123);
+
+    a.zeroGrads();
+    for (const { input, target } of SAMPLES) {
+      a.forward(input);
+      a.backward(input, target, 0, true);
+    }
+    a.scaleGrads(1 / SAMPLES.length);
+
+    const outputs = b.forwardBatch(SAMPLES.map(s => s.input));
+    b.backwardBatch(SAMPLES.map(s => s.target));
+
+    expect(outputs).toEqual(SAMPLES.map(s => a.forward(s.input)));
+    a.grads.forEach((g, i) => expect(b.grads[i]).toBeCloseTo(g, 12));
+  });
+});
+
+describe('Batching helpers', () => {
+  it('should size batches by mode', () => {
+    expect(batchSizeFor('sample', 16, 100)).toBe(1);
+    expect(batchSizeFor('minibatch', 16, 100)).toBe(16);
+    expect(batchSizeFor('batch', 16, 100)).toBe(100);
+  });
+
+  it('should split an order into batches with a smaller remainder', () => {
+    expect(makeBatches([0, 1, 2, 3, 4], 2)).toEqual([[0, 1], [2, 3], [4]]);
+  });
+
+  it('should shuffle into a permutation, or keep order when not shuffling', () => {
+    const rng = new RNG(3);
+    const shuffled = epochOrder(20, true, rng);
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(epochOrder(20, false, rng));
+    expect(shuffled).not.toEqual(epochOrder(20, false, rng));
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Batching helpers: per-sample, mini-batch and full-batch gradient descent
+ */
+
+import type { Network } from './Network';
+import type { Optimizer } from './optimizers';
+import {
+  addRegularizationGrads, applyWeightDecay, applyMaxNorm, regularizationPenalty, NO_REGULARIZATION,
+} from './regularization';
+import { getLoss, computeLoss } from './losses';
+import type { RegularizationConfig } from './regularization';
+import type { RNG } from './random';
+import { clipGradients, findNonFinite, NO_CLIPPING } from './stability';
+import type { ClipConfig, NonFiniteValue } from './stability';
+
+export type BatchMode = 'sample' | 'minibatch' | 'batch';
+
+export const BATCH_MODE_LABELS: Record<BatchMode, string> = {
+  sample: 'Per-sample',
+  minibatch: 'Mini-batch',
+  batch: 'Full batch',
+};
+
+export interface Sample {
+  input: number[];
+  target: number[];
+}
+
+/**
+ * Number of samples per update for a given mode
+ */
+export function batchSizeFor(mode: BatchMode, miniBatchSize: number, numSamples: number): number {
+  if (mode === 'sample') return 1;
+  if (mode === 'batch') return Math.max(1, numSamples);
+  return Math.max(1, Math.min(miniBatchSize, numSamples));
+}
+
+/**
+ * Sample order for one epoch: 0..n-1, Fisher-Yates shuffled if requested
+ */
+export function epochOrder(numSamples: number, shuffle: boolean, rng: RNG): number[] {
+  const order = Array.from({ length: numSamples }, (_, i) => i);
+  return shuffle ? rng.shuffle(order) : order;
+}
+
+/**
+ * Split an epoch's order into consecutive batches (the last may be smaller)
+ */
+export function makeBatches(order: number[], batchSize: number): number[][] {
+  const batches: number[][] = [];
+  for (let i = 0; i < order.length; i += batchSize) {
+    batches.push(order.slice(i, i + batchSize));
+  }
+  return batches;
+}
+
+/**
+ * Mean loss over the samples (with the optional confidence penalty) plus the
+ * regularization penalty on the weights: the objective the updates descend
+ */
+export function batchLoss(
+  net: Network,
+  batch: Sample[],
+  confidencePenalty: number = 0,
+  regularization: RegularizationConfig = NO_REGULARIZATION
+): number {
+  const loss = getLoss(net.lossName);
+  const outputs = net.forwardBatch(batch.map(s => s.input));
+  let total = 0;
+  batch.forEach(({ target }, i) => {
+    total += computeLoss(loss, outputs[i], target, confidencePenalty);
+  });
+  return total / batch.length + regularizationPenalty(net.weights, regularization);
+}
+
+export interface UpdateOptions {
+  learningRate: number;
+  confidencePenalty?: number;
+  optimizer?: Optimizer;
+  regularization?: RegularizationConfig;
+  rng?: RNG;  // seeded stream for dropout masks
+  clipping?: ClipConfig;
+}
+
+export interface UpdateReport {
+  gradNorm: number;                  // global gradient norm before clipping
+  clipped: boolean;
+  nonFinite: NonFiniteValue | null;  // first NaN/Infinity after the update, if any
+}
+
+/**
+ * One update: a batched forward/backward pass for the mean gradient, add the
+ * regularization gradient, clip, step, then apply weight decay and max-norm
+ * and check the result for non-finite values
+ */
+export function trainOnBatch(net: Network, batch: Sample[], options: UpdateOptions): UpdateReport {
+  const { learningRate, confidencePenalty = 0, optimizer, rng } = options;
+  const reg = options.regularization ?? NO_REGULARIZATION;
+  const dropout = reg.dropout > 0 && rng ? { rate: reg.dropout, random: rng.next } : undefined;
+
+  net.forwardBatch(batch.map(s => s.input), { training: true, dropout });
+  net.backwardBatch(batch.map(s => s.target), confidencePenalty);
+  addRegularizationGrads(net, reg);
+  const { norm, clipped } = clipGradients(net.grads, options.clipping ?? NO_CLIPPING);
+  net.step(learningRate, optimizer);
+  applyWeightDecay(net, learningRate, reg.weightDecay);
+  applyMaxNorm(net.weights, reg.maxNorm);
+  return { gradNorm: norm, clipped, nonFinite: findNonFinite(net) };
+}
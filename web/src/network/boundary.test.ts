@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { contourSegments, probabilityGrid, unitMaps } from './boundary';
+import { Network } from './Network';
+
+describe('Decision boundaries', () => {
+  it('the probability grid should match single predictions at its corners', () => {
+    const net = new Network([2, 3, 1], 5);
+    const grid = probabilityGrid(net, [0, 1], [-1, 2], 2, 5);
+    expect(grid.probabilities).toHaveLength(25);
+    expect(grid.xs).toEqual([0, 0.25, 0.5, 0.75, 1]);
+    expect(grid.probabilities[0][1]).toBeCloseTo(net.predict([0, -1])[0], 12);
+    expect(grid.probabilities[24][1]).toBeCloseTo(net.predict([1, 2])[0], 12);
+    expect(grid.probabilities[3][0] + grid.probabilities[3][1]).toBeCloseTo(1, 12);
+
+    // Drawing the grid leaves the network's last forward pass as it was
+    net.forward([0.5, 0.5]);
+    const { activations } = net;
+    probabilityGrid(net, [0, 1], [0, 1], 2, 3);
+    expect(net.activations).toBe(activations);
+  });
+
+  it('unit maps should match a trace of each grid point, with dead ReLU regions marked', () => {
+    const net = new Network([2, 4, 3, 1], 9, { activations: ['relu', 'tanh', 'identity'] });
+    const maps = unitMaps(net, [-1, 1], [-1, 1], 2, 4);
+    expect(maps.layers.map(units => units.length)).toEqual([4, 3, 1]);
+    const i = 2 * 4 + 3;
+    const trace = net.trace([maps.xs[3], maps.ys[2]]);
+    maps.layers.forEach((units, l) => units.forEach((unit, k) => {
+      expect(unit.preActivation[i]).toBeCloseTo(trace.preActivations[l][k], 12);
+    }));
+    maps.layers[0].forEach((unit, k) => {
+      expect(unit.activation[i]).toBeCloseTo(trace.activations[1][k], 12);
+      expect(unit.dead[i]).toBe(trace.preActivations[0][k] > 0 ? 0 : 1);
+    });
+    expect(maps.layers[2][0].activation[i]).toBeCloseTo(net.predict([maps.xs[3], maps.ys[2]])[0], 12);
+    expect(maps.layers[1].every(unit => unit.dead.every(d => d === 0))).toBe(true);
+  });
+
+  it('contours should follow the level set through each cell', () => {
+    const xs = [0, 1, 2, 3];
+    const ys = [0, 1, 2];
+    const linear = ys.flatMap(() => xs.map(x => x / 3));
+    const segments = contourSegments(linear, xs, ys, 0.5);
+    expect(segments).toHaveLength(2);
+    for (const [a, b] of segments) {
+      expect(a[0]).toBeCloseTo(1.5, 12);
+      expect(b[0]).toBeCloseTo(1.5, 12);
+    }
+
+    // A saddle whose mean is on the high side keeps the high corners joined
+    expect(contourSegments([1, 0, 0, 1], [0, 1], [0, 1], 0.5)).toEqual([[[0.5, 0], [1, 0.5]], [[0.5, 1], [0, 0.5]]]);
+    expect(contourSegments([1, 1, 1, 1], [0, 1], [0, 1], 0.5)).toEqual([]);
+    expect(contourSegments([0, 1, NaN, 1], [0, 1], [0, 1], 0.5)).toEqual([]);
+  });
+});
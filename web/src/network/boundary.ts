@@ -0,0 +1,142 @@
+/**
+ * Decision boundaries
+ *
+ * The network's class probabilities are evaluated on a grid over the plotted
+ * input square in one batched forward pass, so the whole function it has
+ * learned can be drawn under the data. A class's boundary is the 0.5
+ * contour of its probability, traced through the grid by marching squares.
+ *
+ * The same grid, traced through every layer, gives each hidden and output
+ * unit's own map: its pre-activation, its activation, and where its
+ * activation passes no gradient (e.g. a ReLU's dead half-plane).
+ */
+
+import type { Network } from './Network';
+import { getActivation } from './activations';
+import { classProbabilities } from './classification';
+import { applyLink, getLoss } from './losses';
+
+export const DEFAULT_GRID_RESOLUTION = 40;
+
+// Grid values of one unit: values[row * resolution + col] at (xs[col], ys[row])
+export interface UnitMap {
+  preActivation: Float64Array;
+  activation: Float64Array;    // output units: through the loss's link (e.g. probabilities)
+  dead: Uint8Array;            // 1 where the activation's derivative is 0
+}
+
+export interface UnitMaps {
+  resolution: number;
+  xs: number[];
+  ys: number[];
+  layers: UnitMap[][];         // layers[l - 1][unit] for the units of layer l ≥ 1
+}
+
+export interface ProbabilityGrid {
+  resolution: number;          // points per axis
+  xs: number[];
+  ys: number[];
+  probabilities: number[][];   // probabilities[row * resolution + col]: class probabilities at (xs[col], ys[row])
+}
+
+// A contour piece from one point to another, in plot coordinates
+export type Segment = [[number, number], [number, number]];
+
+function linspace([min, max]: [number, number], n: number): number[] {
+  return Array.from({ length: n }, (_, i) => min + ((max - min) * i) / (n - 1));
+}
+
+// Grid coordinates and the network input at each grid point, row by row
+function gridInputs(xRange: [number, number], yRange: [number, number], inputSize: number, resolution: number) {
+  const xs = linspace(xRange, resolution);
+  const ys = linspace(yRange, resolution);
+  const inputs = ys.flatMap(y => xs.map(x => (inputSize > 1 ? [x, y] : [x])));
+  return { xs, ys, inputs };
+}
+
+/**
+ * Class probabilities on a resolution × resolution grid over the given
+ * ranges, from one batched trace (so the network's cached forward pass is
+ * left alone). With one input feature only x is fed to the network, so every
+ * row is the same.
+ */
+export function probabilityGrid(
+  net: Network,
+  xRange: [number, number],
+  yRange: [number, number],
+  inputSize: number,
+  resolution: number = DEFAULT_GRID_RESOLUTION,
+): ProbabilityGrid {
+  const { xs, ys, inputs } = gridInputs(xRange, yRange, inputSize, resolution);
+  const { activations } = net.traceBatch(inputs);
+  const link = getLoss(net.lossName).link;
+  const probabilities = activations[activations.length - 1].map(row => classProbabilities(applyLink(link, row)));
+  return { resolution, xs, ys, probabilities };
+}
+
+/**
+ * Every hidden and output unit's values on the grid (see probabilityGrid),
+ * from one batched trace
+ */
+export function unitMaps(
+  net: Network,
+  xRange: [number, number],
+  yRange: [number, number],
+  inputSize: number,
+  resolution: number = DEFAULT_GRID_RESOLUTION,
+): UnitMaps {
+  const { xs, ys, inputs } = gridInputs(xRange, yRange, inputSize, resolution);
+  const trace = net.traceBatch(inputs);
+  const last = net.layerSizes.length - 1;
+  const link = getLoss(net.lossName).link;
+  const outputs = trace.activations[last].map(row => applyLink(link, row));
+  const layers = net.layerSizes.slice(1).map((size, l) => {
+    const activation = getActivation(net.layerActivations[l]);
+    return Array.from({ length: size }, (_, unit): UnitMap => ({
+      preActivation: Float64Array.from(trace.preActivations[l], row => row[unit]),
+      activation: Float64Array.from(l + 1 === last ? outputs : trace.activations[l + 1], row => row[unit]),
+      dead: Uint8Array.from(trace.activationInputs[l], row => (activation.derivative(row[unit]) === 0 ? 1 : 0)),
+    }));
+  });
+  return { resolution, xs, ys, layers };
+}
+
+/**
+ * Segments of the `level` contour of grid values (values[row * xs.length + col]
+ * at (xs[col], ys[row])). Cells with a non-finite corner are skipped; a
+ * saddle cell is resolved by the mean of its corners.
+ */
+export function contourSegments(values: ArrayLike<number>, xs: number[], ys: number[], level: number): Segment[] {
+  const segments: Segment[] = [];
+  const at = (col: number, row: number) => values[row * xs.length + col];
+  for (let row = 0; row + 1 < ys.length; row++) {
+    for (let col = 0; col + 1 < xs.length; col++) {
+      // Corners counter-clockwise from (col, row)
+      const corners: [number, number, number][] = [
+        [xs[col], ys[row], at(col, row)],
+        [xs[col + 1], ys[row], at(col + 1, row)],
+        [xs[col + 1], ys[row + 1], at(col + 1, row + 1)],
+        [xs[col], ys[row + 1], at(col, row + 1)],
+      ];
+      if (corners.some(([, , v]) => !Number.isFinite(v))) continue;
+      // Crossing on each edge (corner k to corner k + 1), or null
+      const crossings = corners.map(([x1, y1, v1], k): [number, number] | null => {
+        const [x2, y2, v2] = corners[(k + 1) % 4];
+        if ((v1 >= level) === (v2 >= level)) return null;
+        const t = (level - v1) / (v2 - v1);
+        return [x1 + t * (x2 - x1), y1 + t * (y2 - y1)];
+      });
+      const crossed = crossings.filter(c => c !== null);
+      if (crossed.length === 2) {
+        segments.push([crossed[0], crossed[1]]);
+      } else if (crossed.length === 4) {
+        const [e0, e1, e2, e3] = crossed;
+        const mean = corners.reduce((sum, [, , v]) => sum + v, 0) / 4;
+        // The centre joins corners 0 and 2 (cut off 1 and 3) or corners 1 and 3 (cut off 0 and 2)
+        if ((mean >= level) === (corners[0][2] >= level)) segments.push([e0, e1], [e2, e3]);
+        else segments.push([e3, e0], [e1, e2]);
+      }
+    }
+  }
+  return segments;
+}
@@ -0,0 +1,106 @@
+/**
+ * Flat parameter storage
+ *
+ * All parameters live in one contiguous Float64Array. Each layer occupies a
+ * block: its weights in row-major [from][to] order, followed by its biases
+ * and, for normalized hidden layers, the normalization's scale γ and shift β.
+ * Gradients (and optimizer slots) use the same layout, so elementwise
+ * operations are simple loops over the whole buffer and snapshots are a
+ * single slice().
+ */
+
+export interface LayerLayout {
+  inSize: number;
+  outSize: number;
+  weightOffset: number;  // start of weights[layer][0][0]
+  biasOffset: number;    // start of biases[layer][0]
+  normOffset: number | null;  // start of γ (β follows), null if the layer isn't normalized
+}
+
+/**
+ * Layout for the given layer sizes. With `normalizeHidden` every hidden
+ * layer also gets γ and β (one per unit); the output layer never does.
+ */
+export function computeLayout(layerSizes: number[], normalizeHidden: boolean = false): { layout: LayerLayout[]; size: number } {
+  const layout: LayerLayout[] = [];
+  let offset = 0;
+  const numLayers = layerSizes.length - 1;
+  for (let i = 0; i < numLayers; i++) {
+    const inSize = layerSizes[i];
+    const outSize = layerSizes[i + 1];
+    const normalized = normalizeHidden && i < numLayers - 1;
+    const biasOffset = offset + inSize * outSize;
+    layout.push({ inSize, outSize, weightOffset: offset, biasOffset, normOffset: normalized ? biasOffset + outSize : null });
+    offset = biasOffset + outSize + (normalized ? 2 * outSize : 0);
+  }
+  return { layout, size: offset };
+}
+
+/**
+ * Nested weights[layer][from][to] view. Rows are subarrays, so writes go
+ * straight through to the buffer.
+ */
+export function weightViews(buffer: Float64Array, layout: LayerLayout[]): Float64Array[][] {
+  return layout.map(({ inSize, outSize, weightOffset }) =>
+    Array.from({ length: inSize }, (_, j) =>
+      buffer.subarray(weightOffset + j * outSize, weightOffset + (j + 1) * outSize)
+    )
+  );
+}
+
+/**
+ * Nested biases[layer][node] view into the buffer
+ */
+export function biasViews(buffer: Float64Array, layout: LayerLayout[]): Float64Array[] {
+  return layout.map(({ outSize, biasOffset }) => buffer.subarray(biasOffset, biasOffset + outSize));
+}
+
+/**
+ * Call fn(start, end) for each layer's weight range (biases excluded)
+ */
+export function forEachWeightRange(layout: LayerLayout[], fn: (start: number, end: number) => void): void {
+  for (const { inSize, outSize, weightOffset } of layout) {
+    fn(weightOffset, weightOffset + inSize * outSize);
+  }
+}
+
+export interface ParameterLocation {
+  layer: number;
+  kind: 'weight' | 'bias' | 'gamma' | 'beta';
+  from: number;  // source node (weights only, -1 otherwise)
+  to: number;    // target node
+}
+
+/**
+ * Which weight, bias or normalization parameter a flat buffer index refers to
+ */
+export function locateParameter(layout: LayerLayout[], index: number): ParameterLocation {
+  for (let layer = 0; layer < layout.length; layer++) {
+    const { outSize, weightOffset, biasOffset, normOffset } = layout[layer];
+    if (index < biasOffset) {
+      const offset = index - weightOffset;
+      return { layer, kind: 'weight', from: Math.floor(offset / outSize), to: offset % outSize };
+    }
+    if (index < biasOffset + outSize) {
+      return { layer, kind: 'bias', from: -1, to: index - biasOffset };
+    }
+    if (normOffset !== null && index < normOffset + 2 * outSize) {
+      const offset = index - normOffset;
+      return { layer, kind: offset < outSize ? 'gamma' : 'beta', from: -1, to: offset % outSize };
+    }
+  }
+  throw new Error(`Parameter index ${index} is out of range`);
+}
+
+const KIND_SYMBOLS: Record<Exclude<ParameterLocation['kind'], 'weight'>, string> = {
+  bias: 'b',
+  gamma: 'γ',
+  beta: 'β',
+};
+
+/**
+ * Short name of a parameter, e.g. "w[0][1][2]", "b[1][0]" or "γ[0][3]"
+ */
+export function parameterLabel({ layer, kind, from, to }: ParameterLocation): string {
+  return kind === 'weight' ? `w[${layer}][${from}][${to}]` : `${KIND_SYMBOLS[kind]}[${layer}][${to}]`;
+}
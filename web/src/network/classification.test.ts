@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { classProbabilities, encodeTarget, predictedClass, targetClass } from './classification';
+
+describe('Classification helpers', () => {
+  it('should encode two classes as a single 0/1 target and more as one-hot', () => {
+    expect(encodeTarget(1, 1)).toEqual([1]);
+    expect(encodeTarget(2, 4)).toEqual([0, 0, 1, 0]);
+    expect(targetClass([0])).toBe(0);
+    expect(targetClass([0, 0, 1, 0])).toBe(2);
+  });
+
+  it('should threshold a single output and take the argmax of several', () => {
+    expect(predictedClass([0.7])).toBe(1);
+    expect(predictedClass([0.2])).toBe(0);
+    expect(predictedClass([0.1, 0.6, 0.3])).toBe(1);
+    expect(classProbabilities([0.25])).toEqual([0.75, 0.25]);
+  });
+});
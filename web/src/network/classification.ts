@@ -0,0 +1,61 @@
+/**
+ * Class labels and network outputs
+ *
+ * Two classes use a single output unit (target [0] or [1], prediction is
+ * P(class 1)). K > 2 classes use K output units with one-hot targets and a
+ * probability per class (softmax).
+ */
+
+/**
+ * Output units needed for K classes
+ */
+export function outputSizeFor(numClasses: number): number {
+  return numClasses === 2 ? 1 : numClasses;
+}
+
+/**
+ * Number of classes a network with this many output units distinguishes
+ */
+export function numClassesFor(outputSize: number): number {
+  return outputSize === 1 ? 2 : outputSize;
+}
+
+export function oneHot(label: number, numClasses: number): number[] {
+  return Array.from({ length: numClasses }, (_, k) => (k === label ? 1 : 0));
+}
+
+/**
+ * Target vector for a class label, for a network with `outputSize` outputs
+ */
+export function encodeTarget(label: number, outputSize: number): number[] {
+  return outputSize === 1 ? [label] : oneHot(label, outputSize);
+}
+
+function argmax(values: number[]): number {
+  let best = 0;
+  for (let k = 1; k < values.length; k++) {
+    if (values[k] > values[best]) best = k;
+  }
+  return best;
+}
+
+/**
+ * Class label of a target vector (a 0/1 scalar or one-hot)
+ */
+export function targetClass(target: number[]): number {
+  return target.length === 1 ? Math.round(target[0]) : argmax(target);
+}
+
+/**
+ * Per-class probabilities from a prediction (the output after the loss's link)
+ */
+export function classProbabilities(prediction: number[]): number[] {
+  return prediction.length === 1 ? [1 - prediction[0], prediction[0]] : [...prediction];
+}
+
+/**
+ * Predicted class: threshold at 0.5 for a single output, argmax otherwise
+ */
+export function predictedClass(prediction: number[]): number {
+  return prediction.length === 1 ? (prediction[0] >= 0.5 ? 1 : 0) : argmax(prediction);
+}
@@ -20,6 +20,16 @@ export function relu(x: number | number[]): number | number[] {
   return x.map(val => Math.max(0, val));
 }
 
+/**
+ * Softmax with max-subtraction for numerical stability
+ */
+export function softmax(x: number[]): number[] {
+  const max = Math.max(...x);
+  const exps = x.map(val => Math.exp(val - max));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  return exps.map(e => e / sum);
+}
+
 export function binaryCrossEntropy(predicted: number[], target: number[]): number {
   const eps = 1e-7;
   let sum = 0;
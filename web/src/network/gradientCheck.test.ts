@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { gradientCheck, relativeError } from './gradientCheck';
+import { Network } from './Network';
+import { ACTIVATION_NAMES, defaultActivations } from './activations';
+import { LOSS_NAMES, getLoss } from './losses';
+
+describe('Gradient check', () => {
+  it('backward should match central differences for every activation and loss', () => {
+    for (const activation of ACTIVATION_NAMES) {
+      for (const lossName of LOSS_NAMES) {
+        const outputs = getLoss(lossName).minOutputs;
+        const layerSizes = [2, 4, outputs];
+        const net = new Network(layerSizes, 11, {
+          activations: defaultActivations(layerSizes, activation),
+          loss: lossName,
+        });
+        const target = outputs === 1 ? [1] : [0, 1];
+        const result = gradientCheck(net, [0.3, -0.7], target);
+        expect(result.maxRelativeError, `${activation} / ${lossName}`).toBeLessThan(1e-4);
+      }
+    }
+  });
+
+  it('should cover the confidence penalty and L1/L2 regularization', () => {
+    const net = new Network([2, 4, 1], 123);
+    const result = gradientCheck(net, [1, 0], [1], {
+      confidencePenalty: 0.5,
+      regularization: { l1: 0.01, l2: 0.1, weightDecay: 0, dropout: 0, maxNorm: 0 },
+    });
+    expect(result.passed).toBe(true);
+    expect(result.parameters).toHaveLength(net.params.length);
+    expect(result.layers.map(l => l.failures)).toEqual([0, 0]);
+  });
+
+  it('should leave the network untouched', () => {
+    const net = new Network([2, 4, 1], 123);
+    net.forward([0, 1]);
+    const before = net.getState();
+    gradientCheck(net, [1, 0], [1]);
+    expect(net.getState()).toEqual(before);
+  });
+
+  it('relative error should treat two near-zero gradients as equal', () => {
+    expect(relativeError(0, 1e-12)).toBeLessThan(1e-4);
+    expect(relativeError(1, 1.1)).toBeCloseTo(0.1 / 1.1, 12);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Finite-difference gradient checking
+ *
+ * Compares the analytic gradients from backward() (plus the regularization
+ * gradient) with central differences of the same objective:
+ *
+ *   ∂L/∂θ ≈ (L(θ + ε) - L(θ - ε)) / 2ε
+ *
+ * The objective is whatever the network is configured with: its activations,
+ * its loss, the optional confidence penalty and the L1/L2 penalty. Dropout is
+ * not applied since it would make the objective random.
+ */
+
+import { Network } from './Network';
+import { getLoss, computeLoss } from './losses';
+import { regularizationPenalty, addRegularizationGrads, NO_REGULARIZATION } from './regularization';
+import type { RegularizationConfig } from './regularization';
+import { locateParameter } from './buffers';
+import type { ParameterLocation } from './buffers';
+
+export interface GradientCheckOptions {
+  epsilon?: number;            // perturbation size
+  tolerance?: number;          // relative error above which a parameter is flagged
+  confidencePenalty?: number;
+  regularization?: RegularizationConfig;
+}
+
+export interface ParameterCheck extends ParameterLocation {
+  index: number;               // position in the flat parameter buffer
+  analytic: number;
+  numeric: number;
+  relativeError: number;
+  ok: boolean;
+}
+
+export interface LayerCheck {
+  layer: number;
+  maxRelativeError: number;
+  meanRelativeError: number;
+  failures: number;
+}
+
+export interface GradientCheckResult {
+  parameters: ParameterCheck[];
+  layers: LayerCheck[];
+  maxRelativeError: number;
+  passed: boolean;
+}
+
+export const DEFAULT_EPSILON = 1e-5;
+export const DEFAULT_TOLERANCE = 1e-4;
+
+// Below this magnitude both gradients are treated as zero, so round-off in
+// the difference quotient does not show up as a large relative error
+const ZERO_FLOOR = 1e-7;
+
+/**
+ * |a - n| / max(|a|, |n|), or 0 when both are effectively zero
+ */
+export function relativeError(analytic: number, numeric: number): number {
+  const scale = Math.max(Math.abs(analytic), Math.abs(numeric), ZERO_FLOOR);
+  return Math.abs(analytic - numeric) / scale;
+}
+
+/**
+ * Check every parameter of `network` on one sample. The network
+ * itself is left untouched; the check runs on a copy.
+ */
+export function gradientCheck(
+  network: Network,
+  input: number[],
+  target: number[],
+  options: GradientCheckOptions = {}
+): GradientCheckResult {
+  const {
+    epsilon = DEFAULT_EPSILON,
+    tolerance = DEFAULT_TOLERANCE,
+    confidencePenalty = 0,
+    regularization = NO_REGULARIZATION,
+  } = options;
+
+  const net = Network.fromState(network.getState());
+  const loss = getLoss(net.lossName);
+  const objective = () =>
+    computeLoss(loss, net.forward(input), target, confidencePenalty) +
+    regularizationPenalty(net.weights, regularization);
+
+  // Analytic gradients
+  net.forward(input);
+  net.backward(input, target, confidencePenalty);
+  addRegularizationGrads(net, regularization);
+  const analytic = net.grads.slice();
+
+  const parameters: ParameterCheck[] = [];
+  for (let index = 0; index < net.params.length; index++) {
+    const original = net.params[index];
+    net.params[index] = original + epsilon;
+    const plus = objective();
+    net.params[index] = original - epsilon;
+    const minus = objective();
+    net.params[index] = original;
+
+    const numeric = (plus - minus) / (2 * epsilon);
+    const error = relativeError(analytic[index], numeric);
+    parameters.push({
+      ...locateParameter(net.layout, index),
+      index,
+      analytic: analytic[index],
+      numeric,
+      relativeError: error,
+      ok: error <= tolerance,
+    });
+  }
+
+  const layers: LayerCheck[] = net.layout.map((_, layer) => {
+    const errors = parameters.filter(p => p.layer === layer).map(p => p.relativeError);
+    return {
+      layer,
+      maxRelativeError: Math.max(...errors),
+      meanRelativeError: errors.reduce((sum, e) => sum + e, 0) / errors.length,
+      failures: parameters.filter(p => p.layer === layer && !p.ok).length,
+    };
+  });
+
+  const maxRelativeError = Math.max(...layers.map(l => l.maxRelativeError));
+  return {
+    parameters,
+    layers,
+    maxRelativeError,
+    passed: parameters.every(p => p.ok),
+  };
+}
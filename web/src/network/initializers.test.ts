@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { INITIALIZERS, DEFAULT_INIT, activationStatistics } from './initializers';
+import { Network } from './Network';
+import { RNG } from './random';
+
+function variance(values: Float64Array): number {
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  return values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length;
+}
+
+describe('Initializers', () => {
+  it('variance-scaling schemes should match their target variance', () => {
+    const fanIn = 200;
+    const fanOut = 100;
+    const expected: Record<string, number> = {
+      heNormal: 2 / fanIn,
+      heUniform: 2 / fanIn,
+      glorotNormal: 2 / (fanIn + fanOut),
+      glorotUniform: 2 / (fanIn + fanOut),
+      lecunNormal: 1 / fanIn,
+    };
+    for (const [name, target] of Object.entries(expected)) {
+      const w = INITIALIZERS[name as keyof typeof INITIALIZERS].fill(fanIn, fanOut, new RNG(1), 0);
+      expect(variance(w) / target, name).toBeCloseTo(1, 1);
+    }
+  });
+
+  it('orthogonal should give orthonormal columns', () => {
+    const fanIn = 6;
+    const fanOut = 4;
+    const w = INITIALIZERS.orthogonal.fill(fanIn, fanOut, new RNG(2), 0);
+    for (let a = 0; a < fanOut; a++) {
+      for (let b = 0; b < fanOut; b++) {
+        let dot = 0;
+        for (let i = 0; i < fanIn; i++) dot += w[i * fanOut + a] * w[i * fanOut + b];
+        expect(dot).toBeCloseTo(a === b ? 1 : 0, 10);
+      }
+    }
+  });
+
+  it('default init should be He normal with zero biases', () => {
+    const net = new Network([2, 4, 1], 123);
+    const rng = new RNG(123);
+    expect(net.weights[0][0][0]).toBe(rng.normal(0, Math.sqrt(2 / 2)));
+    expect(Array.from(net.biases[0])).toEqual([0, 0, 0, 0]);
+    expect(DEFAULT_INIT.weights).toBe('heNormal');
+  });
+
+  it('constant weights should make every hidden unit identical', () => {
+    const net = new Network([2, 4, 1], 1, { init: { ...DEFAULT_INIT, weights: 'constant', weightScale: 0.5 } });
+    const stats = activationStatistics(net, [[0.2, 0.9]]);
+    expect(stats[0].std).toBe(0);
+    expect(new Set(net.trace([0.3, 0.1]).activations[1]).size).toBe(1);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Weight and bias initialization schemes
+ *
+ * Each weight initializer fills one layer's weight matrix (fanIn × fanOut,
+ * row-major [from][to] like the parameter buffer) from a seeded RNG. The
+ * variance-scaling schemes keep activation variance roughly constant through
+ * the layers; the constant scheme shows the symmetry problem (every hidden
+ * unit computes, and keeps learning, the same function).
+ */
+
+import type { RNG } from './random';
+import type { Network } from './Network';
+import { getActivation } from './activations';
+
+export type InitializerName =
+  | 'heNormal'
+  | 'heUniform'
+  | 'glorotNormal'
+  | 'glorotUniform'
+  | 'lecunNormal'
+  | 'orthogonal'
+  | 'normal'
+  | 'constant'
+  | 'zeros';
+
+export type BiasInitName = 'zeros' | 'constant' | 'normal';
+
+export interface InitConfig {
+  weights: InitializerName;
+  weightScale: number;  // std for 'normal', value for 'constant'
+  biases: BiasInitName;
+  biasScale: number;    // value for 'constant', std for 'normal'
+}
+
+export const DEFAULT_INIT: InitConfig = {
+  weights: 'heNormal',
+  weightScale: 0.1,
+  biases: 'zeros',
+  biasScale: 0.1,
+};
+
+export interface Initializer {
+  name: InitializerName;
+  label: string;
+  formula: string;
+  usesScale: boolean;  // whether InitConfig.weightScale applies
+  fill: (fanIn: number, fanOut: number, rng: RNG, scale: number) => Float64Array;
+}
+
+function normalMatrix(fanIn: number, fanOut: number, rng: RNG, std: number): Float64Array {
+  const w = new Float64Array(fanIn * fanOut);
+  for (let idx = 0; idx < w.length; idx++) w[idx] = rng.normal(0, std);
+  return w;
+}
+
+function uniformMatrix(fanIn: number, fanOut: number, rng: RNG, limit: number): Float64Array {
+  const w = new Float64Array(fanIn * fanOut);
+  for (let idx = 0; idx < w.length; idx++) w[idx] = rng.uniform(-limit, limit);
+  return w;
+}
+
+/**
+ * Random matrix with orthonormal rows or columns (whichever is fewer),
+ * by Gram-Schmidt on a Gaussian matrix
+ */
+function orthogonalMatrix(fanIn: number, fanOut: number, rng: RNG): Float64Array {
+  const w = normalMatrix(fanIn, fanOut, rng, 1);
+  // Orthonormalize the shorter side: columns when fanIn >= fanOut, else rows
+  const byColumn = fanIn >= fanOut;
+  const count = byColumn ? fanOut : fanIn;
+  const length = byColumn ? fanIn : fanOut;
+  const at = (v: number, i: number) => (byColumn ? i * fanOut + v : v * fanOut + i);
+
+  for (let v = 0; v < count; v++) {
+    for (let u = 0; u < v; u++) {
+      let dot = 0;
+      for (let i = 0; i < length; i++) dot += w[at(v, i)] * w[at(u, i)];
+      for (let i = 0; i < length; i++) w[at(v, i)] -= dot * w[at(u, i)];
+    }
+    let norm = 0;
+    for (let i = 0; i < length; i++) norm += w[at(v, i)] ** 2;
+    norm = Math.sqrt(norm) || 1;
+    for (let i = 0; i < length; i++) w[at(v, i)] /= norm;
+  }
+  return w;
+}
+
+export const INITIALIZERS: Record<InitializerName, Initializer> = {
+  heNormal: {
+    name: 'heNormal',
+    label: 'He normal',
+    formula: 'w ~ N(0, 2/fan_in)',
+    usesScale: false,
+    fill: (fanIn, fanOut, rng) => normalMatrix(fanIn, fanOut, rng, Math.sqrt(2 / fanIn)),
+  },
+  heUniform: {
+    name: 'heUniform',
+    label: 'He uniform',
+    formula: 'w ~ U(±√(6/fan_in))',
+    usesScale: false,
+    fill: (fanIn, fanOut, rng) => uniformMatrix(fanIn, fanOut, rng, Math.sqrt(6 / fanIn)),
+  },
+  glorotNormal: {
+    name: 'glorotNormal',
+    label: 'Glorot normal',
+    formula: 'w ~ N(0, 2/(fan_in + fan_out))',
+    usesScale: false,
+    fill: (fanIn, fanOut, rng) => normalMatrix(fanIn, fanOut, rng, Math.sqrt(2 / (fanIn + fanOut))),
+  },
+  glorotUniform: {
+    name: 'glorotUniform',
+    label: 'Glorot uniform',
+    formula: 'w ~ U(±√(6/(fan_in + fan_out)))',
+    usesScale: false,
+    fill: (fanIn, fanOut, rng) => uniformMatrix(fanIn, fanOut, rng, Math.sqrt(6 / (fanIn + fanOut))),
+  },
+  lecunNormal: {
+    name: 'lecunNormal',
+    label: 'LeCun normal',
+    formula: 'w ~ N(0, 1/fan_in)',
+    usesScale: false,
+    fill: (fanIn, fanOut, rng) => normalMatrix(fanIn, fanOut, rng, Math.sqrt(1 / fanIn)),
+  },
+  orthogonal: {
+    name: 'orthogonal',
+    label: 'Orthogonal',
+    formula: 'W = orthonormalize(N(0, 1))',
+    usesScale: false,
+    fill: (fanIn, fanOut, rng) => orthogonalMatrix(fanIn, fanOut, rng),
+  },
+  normal: {
+    name: 'normal',
+    label: 'Normal (custom σ)',
+    formula: 'w ~ N(0, σ²)',
+    usesScale: true,
+    fill: (fanIn, fanOut, rng, scale) => normalMatrix(fanIn, fanOut, rng, scale),
+  },
+  constant: {
+    name: 'constant',
+    label: 'Constant',
+    formula: 'w = c',
+    usesScale: true,
+    fill: (fanIn, fanOut, _rng, scale) => new Float64Array(fanIn * fanOut).fill(scale),
+  },
+  zeros: {
+    name: 'zeros',
+    label: 'Zeros',
+    formula: 'w = 0',
+    usesScale: false,
+    fill: (fanIn, fanOut) => new Float64Array(fanIn * fanOut),
+  },
+};
+
+export const INITIALIZER_NAMES = Object.keys(INITIALIZERS) as InitializerName[];
+
+export function getInitializer(name: InitializerName): Initializer {
+  return INITIALIZERS[name];
+}
+
+export const BIAS_INIT_LABELS: Record<BiasInitName, string> = {
+  zeros: 'Zeros',
+  constant: 'Constant',
+  normal: 'Normal (custom σ)',
+};
+
+export const BIAS_INIT_NAMES = Object.keys(BIAS_INIT_LABELS) as BiasInitName[];
+
+export function initBiases(size: number, name: BiasInitName, scale: number, rng: RNG): Float64Array {
+  const b = new Float64Array(size);
+  if (name === 'constant') b.fill(scale);
+  if (name === 'normal') {
+    for (let idx = 0; idx < size; idx++) b[idx] = rng.normal(0, scale);
+  }
+  return b;
+}
+
+export interface LayerStatistics {
+  layer: number;          // 1-based layer index (input is layer 0)
+  preMean: number;
+  preStd: number;
+  mean: number;           // activation mean
+  std: number;            // activation standard deviation
+  inactive: number;       // fraction of (sample, unit) pairs with zero activation gradient
+}
+
+/**
+ * Statistics of pre-activations and activations in each layer over a set of inputs
+ */
+export function activationStatistics(network: Network, inputs: number[][]): LayerStatistics[] {
+  const traces = inputs.map(x => network.trace(x));
+  const meanStd = (values: number[]) => {
+    const mean = values.reduce((s, v) => s + v, 0) / values.length;
+    const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length;
+    return { mean, std: Math.sqrt(variance) };
+  };
+
+  return network.layerActivations.map((name, l) => {
+    const act = getActivation(name);
+    const z = traces.flatMap(t => t.preActivations[l]);
+    const a = traces.flatMap(t => t.activations[l + 1]);
+    const pre = meanStd(z);
+    const post = meanStd(a);
+    return {
+      layer: l + 1,
+      preMean: pre.mean,
+      preStd: pre.std,
+      mean: post.mean,
+      std: post.std,
+      inactive: z.filter(v => act.derivative(v) === 0).length / z.length,
+    };
+  });
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createGrid, evaluateRow, filterNormalize, pcaDirections, projectPoint, randomDirections, subsampleTrajectory,
+} from './landscape';
+import { Network } from './Network';
+import { RNG } from './random';
+
+describe('Loss landscape', () => {
+  it('filter normalization should match each unit\'s weight norm and zero the biases', () => {
+    const net = new Network([2, 3, 1], 8);
+    const direction = Float64Array.from(net.params, (_, i) => i + 1);
+    filterNormalize(direction, net.params, net.layout);
+
+    const column = (buffer: Float64Array, to: number) =>
+      Math.hypot(...Array.from({ length: 2 }, (_, from) => buffer[net.weightIndex(0, from, to)]));
+    for (let to = 0; to < 3; to++) expect(column(direction, to)).toBeCloseTo(column(net.params, to), 12);
+    expect(Array.from(direction.subarray(net.biasIndex(0, 0), net.biasIndex(0, 0) + 3))).toEqual([0, 0, 0]);
+  });
+
+  it('PCA directions should span a planar trajectory and recover its coordinates', () => {
+    const center = new Float64Array([1, 2, 3, 4]);
+    const u = new Float64Array([1, 0, 1, 0]).map(x => x / Math.SQRT2);
+    const v = new Float64Array([0, 1, 0, -1]).map(x => x / Math.SQRT2);
+    const coords: [number, number][] = [[3, 0.5], [2, -0.4], [1, 0.2], [0, 0]];
+    const trajectory = coords.map(([a, b]) => center.map((c, i) => c + a * u[i] + b * v[i]));
+
+    const dirs = pcaDirections(trajectory, center);
+    expect(dirs.explained![0] + dirs.explained![1]).toBeCloseTo(1, 8);
+    trajectory.forEach((point, k) => {
+      const [alpha, beta] = projectPoint(point, center, dirs);
+      const rebuilt = center.map((c, i) => c + alpha * dirs.d1[i] + beta * dirs.d2[i]);
+      rebuilt.forEach((x, i) => expect(x).toBeCloseTo(point[i], 8));
+      expect(Math.hypot(alpha, beta)).toBeCloseTo(Math.hypot(...coords[k]), 8);
+    });
+  });
+
+  it('PCA of a subsampled trajectory should still project every point onto its plane', () => {
+    const center = new Float64Array([0, 1, -1, 2, 0.5]);
+    const u = new Float64Array([1, 0, 0, 1, 0]).map(x => x / Math.SQRT2);
+    const v = new Float64Array([0, 1, 1, 0, 0]).map(x => x / Math.SQRT2);
+    const trajectory = Array.from({ length: 500 }, (_, k) => {
+      const t = 1 - k / 499;
+      return center.map((c, i) => c + 3 * t * u[i] + Math.sin(6 * t) * t * v[i]);
+    });
+
+    const sampled = subsampleTrajectory(trajectory, 20);
+    expect(sampled).toHaveLength(20);
+    expect(sampled[0]).toBe(trajectory[0]);
+    expect(sampled[19]).toBe(trajectory[499]);
+    expect(subsampleTrajectory(trajectory.slice(0, 10), 20)).toHaveLength(10);
+
+    const dirs = pcaDirections(sampled, center);
+    trajectory.forEach(point => {
+      const [alpha, beta] = projectPoint(point, center, dirs);
+      const rebuilt = center.map((c, i) => c + alpha * dirs.d1[i] + beta * dirs.d2[i]);
+      rebuilt.forEach((x, i) => expect(x).toBeCloseTo(point[i], 8));
+    });
+  });
+
+  it('the grid center should hold the loss at the center', () => {
+    const net = new Network([2, 3, 1], 2);
+    const center = net.params.slice();
+    const lossAt = (params: Float64Array) => params.reduce((sum, p) => sum + p * p, 0);
+    const grid = createGrid(5, [-1, 1], [-1, 1]);
+    const dirs = randomDirections(center, net.layout, new RNG(4));
+    while (grid.rowsDone < grid.resolution) evaluateRow(grid, center, dirs, lossAt);
+    expect(grid.losses[2 * 5 + 2]).toBeCloseTo(lossAt(center), 12);
+    expect(grid.losses.every(Number.isFinite)).toBe(true);
+  });
+});
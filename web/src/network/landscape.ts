@@ -0,0 +1,228 @@
+/**
+ * Loss landscape slices
+ *
+ * The loss is evaluated on a 2D plane through parameter space:
+ *
+ *   L(α, β) = L(θ* + α·d₁ + β·d₂)
+ *
+ * around a center θ* (the last step of the trajectory). The directions are
+ * either random Gaussian directions, filter-normalized so each unit's
+ * incoming weights are perturbed on the scale of their own norm (Li et al.,
+ * "Visualizing the Loss Landscape of Neural Nets"), or the top two principal
+ * components of the trajectory, which span the plane the optimizer actually
+ * moved in. Long trajectories are subsampled before the PCA, which costs
+ * O(points × parameters) per power iteration; every point is still projected
+ * onto the plane by least squares.
+ *
+ * The grid is filled one row at a time (evaluateRow) so callers can spread
+ * the work over several frames.
+ */
+
+import type { LayerLayout } from './buffers';
+import type { RNG } from './random';
+
+export type DirectionMethod = 'random' | 'pca';
+
+export const DIRECTION_METHOD_LABELS: Record<DirectionMethod, string> = {
+  random: 'Random (filter-normalized)',
+  pca: 'PCA of trajectory',
+};
+
+// Most trajectory points the PCA directions are computed from
+export const MAX_PCA_POINTS = 64;
+
+export interface LandscapeDirections {
+  method: DirectionMethod;
+  d1: Float64Array;
+  d2: Float64Array;
+  explained: [number, number] | null;  // PCA: fraction of the trajectory's variance along each direction
+}
+
+export interface LandscapeGrid {
+  resolution: number;          // points per axis
+  alphas: number[];            // coordinates along d₁
+  betas: number[];             // coordinates along d₂
+  losses: Float64Array;        // losses[row * resolution + col] at (alphas[col], betas[row])
+  rowsDone: number;
+}
+
+function dot(a: Float64Array, b: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function norm(a: Float64Array): number {
+  return Math.sqrt(dot(a, a));
+}
+
+/**
+ * Rescale `direction` in place so each unit's incoming weights have the same
+ * norm as that unit's weights in `params`. Biases and normalization
+ * parameters are zeroed, as in Li et al.
+ */
+export function filterNormalize(direction: Float64Array, params: Float64Array, layout: LayerLayout[]): void {
+  for (const { inSize, outSize, weightOffset, biasOffset, normOffset } of layout) {
+    for (let to = 0; to < outSize; to++) {
+      let dirSq = 0;
+      let paramSq = 0;
+      for (let from = 0; from < inSize; from++) {
+        const idx = weightOffset + from * outSize + to;
+        dirSq += direction[idx] ** 2;
+        paramSq += params[idx] ** 2;
+      }
+      const scale = dirSq > 0 ? Math.sqrt(paramSq / dirSq) : 0;
+      for (let from = 0; from < inSize; from++) direction[weightOffset + from * outSize + to] *= scale;
+    }
+    direction.fill(0, biasOffset, biasOffset + outSize);
+    if (normOffset !== null) direction.fill(0, normOffset, normOffset + 2 * outSize);
+  }
+}
+
+/**
+ * Two filter-normalized Gaussian directions around `center`
+ */
+export function randomDirections(center: Float64Array, layout: LayerLayout[], rng: RNG): LandscapeDirections {
+  const draw = () => {
+    const d = Float64Array.from(center, () => rng.normal());
+    filterNormalize(d, center, layout);
+    return d;
+  };
+  return { method: 'random', d1: draw(), d2: draw(), explained: null };
+}
+
+/**
+ * Leading eigenvector of XᵀX for the rows X = trajectory - center by power
+ * iteration, kept orthogonal to `exclude`
+ */
+function principalComponent(
+  rows: Float64Array[],
+  start: Float64Array,
+  exclude: Float64Array | null,
+  iterations: number
+): { vector: Float64Array; eigenvalue: number } {
+  let v = start.slice();
+  let eigenvalue = 0;
+  for (let it = 0; it < iterations; it++) {
+    if (exclude) {
+      const overlap = dot(v, exclude);
+      for (let i = 0; i < v.length; i++) v[i] -= overlap * exclude[i];
+    }
+    const length = norm(v);
+    if (length === 0) break;
+    for (let i = 0; i < v.length; i++) v[i] /= length;
+
+    // v ← Xᵀ(X·v)
+    const next = new Float64Array(v.length);
+    for (const row of rows) {
+      const weight = dot(row, v);
+      for (let i = 0; i < v.length; i++) next[i] += weight * row[i];
+    }
+    eigenvalue = dot(next, v);
+    v = next;
+  }
+  if (exclude) {
+    const overlap = dot(v, exclude);
+    for (let i = 0; i < v.length; i++) v[i] -= overlap * exclude[i];
+  }
+  const length = norm(v);
+  return { vector: length > 0 ? v.map(x => x / length) : v, eigenvalue };
+}
+
+/**
+ * At most `maxPoints` evenly spaced points of the trajectory, always keeping
+ * its first and last
+ */
+export function subsampleTrajectory(trajectory: Float64Array[], maxPoints: number = MAX_PCA_POINTS): Float64Array[] {
+  if (trajectory.length <= maxPoints) return trajectory;
+  const last = trajectory.length - 1;
+  return Array.from({ length: maxPoints }, (_, k) => trajectory[Math.round((k * last) / (maxPoints - 1))]);
+}
+
+/**
+ * Top two principal directions of the trajectory's displacement from
+ * `center` (unit vectors). Needs at least three distinct points to span a
+ * plane; otherwise the missing directions are zero.
+ */
+export function pcaDirections(trajectory: Float64Array[], center: Float64Array, iterations: number = 100): LandscapeDirections {
+  const rows = trajectory.map(point => point.map((x, i) => x - center[i]));
+  const total = rows.reduce((sum, row) => sum + dot(row, row), 0);
+
+  // Deterministic starts: the farthest point, then a fixed generic vector
+  const farthest = rows.reduce((best, row) => (dot(row, row) > dot(best, best) ? row : best), new Float64Array(center.length));
+  const first = principalComponent(rows, farthest, null, iterations);
+  const generic = Float64Array.from(center, (_, i) => Math.sin(i + 1));
+  const second = principalComponent(rows, generic, first.vector, iterations);
+
+  return {
+    method: 'pca',
+    d1: first.vector,
+    d2: second.vector,
+    explained: total > 0 ? [first.eigenvalue / total, second.eigenvalue / total] : [0, 0],
+  };
+}
+
+/**
+ * Coordinates (α, β) of the point of the plane closest to `point`
+ */
+export function projectPoint(point: Float64Array, center: Float64Array, { d1, d2 }: LandscapeDirections): [number, number] {
+  const delta = point.map((x, i) => x - center[i]);
+  const a11 = dot(d1, d1);
+  const a12 = dot(d1, d2);
+  const a22 = dot(d2, d2);
+  const b1 = dot(d1, delta);
+  const b2 = dot(d2, delta);
+  const det = a11 * a22 - a12 * a12;
+  if (det > 1e-12 * Math.max(1, a11 * a22)) {
+    return [(b1 * a22 - b2 * a12) / det, (a11 * b2 - a12 * b1) / det];
+  }
+  // Degenerate plane: project onto whichever direction is non-zero
+  return [a11 > 0 ? b1 / a11 : 0, a11 > 0 || a22 === 0 ? 0 : b2 / a22];
+}
+
+/**
+ * Square-ish window covering the points (with a margin) and at least
+ * ±minHalfWidth around the center
+ */
+export function landscapeRange(points: [number, number][], minHalfWidth: number): { alpha: [number, number]; beta: [number, number] } {
+  const span = (values: number[]): [number, number] => {
+    const lo = Math.min(0, ...values);
+    const hi = Math.max(0, ...values);
+    const margin = 0.25 * (hi - lo);
+    return [Math.min(lo - margin, -minHalfWidth), Math.max(hi + margin, minHalfWidth)];
+  };
+  return { alpha: span(points.map(p => p[0])), beta: span(points.map(p => p[1])) };
+}
+
+export function createGrid(resolution: number, alpha: [number, number], beta: [number, number]): LandscapeGrid {
+  const axis = ([lo, hi]: [number, number]) =>
+    Array.from({ length: resolution }, (_, i) => lo + ((hi - lo) * i) / (resolution - 1));
+  return {
+    resolution,
+    alphas: axis(alpha),
+    betas: axis(beta),
+    losses: new Float64Array(resolution * resolution).fill(NaN),
+    rowsDone: 0,
+  };
+}
+
+/**
+ * Fill the next row of the grid. `lossAt` evaluates the loss at a full
+ * parameter vector (the buffer is reused between calls).
+ */
+export function evaluateRow(
+  grid: LandscapeGrid,
+  center: Float64Array,
+  { d1, d2 }: LandscapeDirections,
+  lossAt: (params: Float64Array) => number
+): void {
+  const row = grid.rowsDone;
+  if (row >= grid.resolution) return;
+  const beta = grid.betas[row];
+  const params = new Float64Array(center.length);
+  grid.alphas.forEach((alpha, col) => {
+    for (let i = 0; i < params.length; i++) params[i] = center[i] + alpha * d1[i] + beta * d2[i];
+    grid.losses[row * grid.resolution + col] = lossAt(params);
+  });
+  grid.rowsDone = row + 1;
+}
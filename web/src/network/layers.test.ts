@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { Sequential, Dense, Activation, LayerNorm, BatchNorm } from './layers';
+import { getLoss } from './losses';
+import { Network } from './Network';
+import { gradientCheck } from './gradientCheck';
+
+const INPUTS = [[0.2, -1], [1.5, 0.3], [-0.7, 0.9], [0.4, 0.1]];
+const TARGETS = [[1], [0], [1], [0]];
+
+describe('Layers', () => {
+  it('BatchNorm and LayerNorm gradients should match central differences on a training batch', () => {
+    for (const Norm of [BatchNorm, LayerNorm]) {
+      const model = new Sequential([new Dense(2, 3, 1), new Norm(3, 1), new Activation(3, 'tanh', 1), new Dense(3, 1, 2)]);
+      model.params.forEach((_, i) => { model.params[i] += Math.sin(i + 1); });
+      const lossOf = () => {
+        const pass = model.forward(INPUTS, { training: true });
+        return { pass, loss: pass.graph.loss(pass.output, TARGETS, getLoss('bce'), 0, 'L') };
+      };
+
+      const { pass, loss } = lossOf();
+      model.backward(pass, loss);
+      const analytic = model.grads.slice();
+
+      const h = 1e-6;
+      model.params.forEach((original, i) => {
+        model.params[i] = original + h;
+        const plus = lossOf().loss.value[0];
+        model.params[i] = original - h;
+        const minus = lossOf().loss.value[0];
+        model.params[i] = original;
+        expect(analytic[i]).toBeCloseTo((plus - minus) / (2 * h), 6);
+      });
+    }
+  });
+
+  it('BatchNorm should update running statistics only while training and restore them from a state', () => {
+    const net = new Network([2, 3, 1], 4, { normalization: 'batchNorm' });
+    const [bn] = net.normalizationLayers() as BatchNorm[];
+    net.forwardBatch(INPUTS);
+    expect(Array.from(bn.runningMean)).toEqual([0, 0, 0]);
+
+    net.forwardBatch(INPUTS, { training: true });
+    expect(Array.from(bn.runningMean)).not.toEqual([0, 0, 0]);
+    const state = net.getState();
+    expect(state.layers.map(l => l.type)).toEqual(['dense', 'batchNorm', 'activation', 'dropout', 'dense', 'activation']);
+
+    const restored = Network.fromState(state);
+    expect(restored.forwardBatch(INPUTS)).toEqual(net.forwardBatch(INPUTS));
+    const loaded = Network.fromJSON(JSON.parse(JSON.stringify(net)));
+    expect(loaded.forwardBatch(INPUTS)).toEqual(net.forwardBatch(INPUTS));
+  });
+
+  it('normalized networks should pass the gradient check, including γ and β', () => {
+    const net = new Network([2, 4, 3, 1], 7, { normalization: 'layerNorm' });
+    const result = gradientCheck(net, [0.3, -0.6], [1]);
+    expect(result.passed).toBe(true);
+    expect(result.parameters.filter(p => p.kind === 'gamma' || p.kind === 'beta')).toHaveLength(14);
+  });
+});
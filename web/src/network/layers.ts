@@ -0,0 +1,524 @@
+/**
+ * Composable layers
+ *
+ * A Layer maps an n×inSize batch to an n×outSize batch by recording nodes on
+ * an autodiff Graph. forward() returns a LayerPass with the nodes it added;
+ * backward() visits them in reverse, pushing the gradient of the pass's
+ * output back to its input and to the layer's parameters. Parameters are
+ * views into flat buffers owned by the model (see Sequential), so optimizers
+ * and snapshots keep working on a single Float64Array.
+ *
+ * Besides its parameters a layer may hold non-trainable buffers (BatchNorm's
+ * running statistics). getState() describes a layer generically (parameters,
+ * buffers and the values of the last forward pass) so components can render
+ * each layer type without knowing its internals.
+ */
+
+import { Graph } from './autodiff';
+import type { Node } from './autodiff';
+import { getActivation } from './activations';
+import type { ActivationName } from './activations';
+import { dropoutMask } from './regularization';
+
+export type LayerType = 'dense' | 'activation' | 'dropout' | 'layerNorm' | 'batchNorm';
+
+export const LAYER_TYPE_LABELS: Record<LayerType, string> = {
+  dense: 'Dense',
+  activation: 'Activation',
+  dropout: 'Dropout',
+  layerNorm: 'LayerNorm',
+  batchNorm: 'BatchNorm',
+};
+
+/**
+ * Normalization inserted after each hidden Dense layer (before its activation)
+ */
+export type Normalization = 'none' | 'layerNorm' | 'batchNorm';
+
+export const NORMALIZATION_LABELS: Record<Normalization, string> = {
+  none: 'None',
+  layerNorm: 'LayerNorm',
+  batchNorm: 'BatchNorm',
+};
+
+export const NORMALIZATIONS = Object.keys(NORMALIZATION_LABELS) as Normalization[];
+
+export interface DropoutOptions {
+  rate: number;           // probability of dropping each hidden unit
+  random: () => number;   // seeded source so dropout can be replayed
+}
+
+export interface ForwardContext {
+  training: boolean;        // BatchNorm uses batch statistics and updates its running averages
+  dropout?: DropoutOptions; // only applied while training
+}
+
+/**
+ * A parameter tensor and where it lives in the model's flat buffers
+ */
+export interface LayerParameter {
+  name: string;    // e.g. "W1", "γ2"
+  rows: number;
+  cols: number;
+  offset: number;
+}
+
+export interface LayerPass {
+  input: Node;
+  output: Node;
+  nodes: Node[];  // nodes this layer added, in creation order (empty if it passed the input through)
+}
+
+/**
+ * Generic description of a layer for snapshots and rendering
+ */
+export interface LayerState {
+  type: LayerType;
+  label: string;
+  inSize: number;
+  outSize: number;
+  config: Record<string, string | number>;
+  parameters: LayerParameter[];
+  buffers: Record<string, number[]>;  // non-trainable state
+  cache: Record<string, number[]>;    // values of the last forward pass (see Layer.inspect)
+}
+
+export interface Layer {
+  readonly type: LayerType;
+  readonly label: string;
+  readonly inSize: number;
+  readonly outSize: number;
+  readonly paramSize: number;  // entries this layer takes in the flat buffers
+
+  /**
+   * Point the layer's parameters at `paramSize` entries of the model's
+   * buffers starting at `offset`
+   */
+  bind(params: Float64Array, grads: Float64Array, offset: number): void;
+  parameters(): LayerParameter[];
+  forward(graph: Graph, input: Node, context: ForwardContext): LayerPass;
+  backward(pass: LayerPass): void;
+
+  /**
+   * Values of one sample of a pass worth showing (input, output and
+   * layer-specific ones such as the dropout mask or batch statistics)
+   */
+  inspect(pass: LayerPass, row: number): Record<string, number[]>;
+  getState(cache?: Record<string, number[]>): LayerState;
+
+  /**
+   * Restore non-trainable buffers (parameters are restored through the flat buffers)
+   */
+  setState(state: LayerState): void;
+}
+
+function rowOf(node: Node, row: number): number[] {
+  return Array.from(node.value.subarray(row * node.cols, (row + 1) * node.cols));
+}
+
+/**
+ * Shared plumbing: parameter binding, reverse traversal and the generic state
+ */
+abstract class BaseLayer implements Layer {
+  abstract readonly type: LayerType;
+  readonly label: string;
+  readonly inSize: number;
+  readonly outSize: number;
+  protected params: Float64Array = new Float64Array(0);
+  protected grads: Float64Array = new Float64Array(0);
+  protected offset = 0;
+
+  constructor(label: string, inSize: number, outSize: number) {
+    this.label = label;
+    this.inSize = inSize;
+    this.outSize = outSize;
+  }
+
+  get paramSize(): number {
+    return this.parameters().reduce((sum, p) => sum + p.rows * p.cols, 0);
+  }
+
+  bind(params: Float64Array, grads: Float64Array, offset: number): void {
+    this.params = params;
+    this.grads = grads;
+    this.offset = offset;
+  }
+
+  parameters(): LayerParameter[] {
+    return [];
+  }
+
+  /**
+   * Graph node for one of this layer's parameters
+   */
+  protected param(graph: Graph, p: LayerParameter): Node {
+    const end = p.offset + p.rows * p.cols;
+    return graph.param(p.name, p.rows, p.cols, this.params.subarray(p.offset, end), this.grads.subarray(p.offset, end));
+  }
+
+  abstract forward(graph: Graph, input: Node, context: ForwardContext): LayerPass;
+
+  backward(pass: LayerPass): void {
+    for (let i = pass.nodes.length - 1; i >= 0; i--) pass.nodes[i].backward();
+  }
+
+  inspect(pass: LayerPass, row: number): Record<string, number[]> {
+    return { input: rowOf(pass.input, row), output: rowOf(pass.output, row) };
+  }
+
+  protected config(): Record<string, string | number> {
+    return {};
+  }
+
+  protected buffers(): Record<string, number[]> {
+    return {};
+  }
+
+  getState(cache: Record<string, number[]> = {}): LayerState {
+    return {
+      type: this.type,
+      label: this.label,
+      inSize: this.inSize,
+      outSize: this.outSize,
+      config: this.config(),
+      parameters: this.parameters(),
+      buffers: this.buffers(),
+      cache: Object.fromEntries(Object.entries(cache).map(([key, values]) => [key, [...values]])),
+    };
+  }
+
+  setState(state: LayerState): void {
+    if (state.type !== this.type || state.inSize !== this.inSize || state.outSize !== this.outSize) {
+      throw new Error(
+        `State is for ${state.type} ${state.inSize}→${state.outSize} but the layer is ${this.type} ${this.inSize}→${this.outSize}`
+      );
+    }
+  }
+}
+
+/**
+ * Fully connected layer z = a · W + b. `index` numbers the layer in labels
+ * (W1, b1, z1, ...).
+ */
+export class Dense extends BaseLayer {
+  readonly type = 'dense';
+  readonly index: number;
+
+  constructor(inSize: number, outSize: number, index: number) {
+    super(`Dense ${index}`, inSize, outSize);
+    this.index = index;
+  }
+
+  parameters(): LayerParameter[] {
+    const { inSize, outSize, offset, index } = this;
+    return [
+      { name: `W${index}`, rows: inSize, cols: outSize, offset },
+      { name: `b${index}`, rows: 1, cols: outSize, offset: offset + inSize * outSize },
+    ];
+  }
+
+  forward(graph: Graph, input: Node): LayerPass {
+    const [wParam, bParam] = this.parameters();
+    const w = this.param(graph, wParam);
+    const b = this.param(graph, bParam);
+    const product = graph.matmul(input, w, `${input.label}·${wParam.name}`);
+    const output = graph.addBias(product, b, `z${this.index}`);
+    return { input, output, nodes: [product, output] };
+  }
+}
+
+/**
+ * Elementwise activation function
+ */
+export class Activation extends BaseLayer {
+  readonly type = 'activation';
+  readonly activation: ActivationName;
+  readonly index: number;
+
+  constructor(size: number, activation: ActivationName, index: number) {
+    super(`${getActivation(activation).label} ${index}`, size, size);
+    this.activation = activation;
+    this.index = index;
+  }
+
+  protected config(): Record<string, string | number> {
+    return { activation: this.activation };
+  }
+
+  forward(graph: Graph, input: Node): LayerPass {
+    const output = graph.activation(input, getActivation(this.activation), `a${this.index}`);
+    return { input, output, nodes: [output] };
+  }
+}
+
+/**
+ * Inverted dropout. The rate comes from the forward context so it can change
+ * between updates without rebuilding the model; outside training (or at
+ * rate 0) the input passes through unchanged.
+ */
+export class Dropout extends BaseLayer {
+  readonly type = 'dropout';
+  readonly index: number;
+
+  constructor(size: number, index: number) {
+    super(`Dropout ${index}`, size, size);
+    this.index = index;
+  }
+
+  forward(graph: Graph, input: Node, context: ForwardContext): LayerPass {
+    const { dropout } = context;
+    if (!context.training || !dropout || dropout.rate <= 0) return { input, output: input, nodes: [] };
+
+    // Independent mask for each sample
+    const n = input.rows;
+    const mask = new Float64Array(n * this.outSize);
+    for (let s = 0; s < n; s++) {
+      mask.set(dropoutMask(this.outSize, dropout.rate, dropout.random), s * this.outSize);
+    }
+    const output = graph.mask(input, mask, `a${this.index}'`);
+    return { input, output, nodes: [output] };
+  }
+
+  inspect(pass: LayerPass, row: number): Record<string, number[]> {
+    const values = super.inspect(pass, row);
+    const [maskNode] = pass.nodes;
+    if (!maskNode) return values;
+    const size = this.outSize;
+    return { ...values, mask: Array.from(maskNode.localGrad!.subarray(row * size, (row + 1) * size)) };
+  }
+}
+
+export const NORM_EPSILON = 1e-5;
+
+/**
+ * Shared by LayerNorm and BatchNorm: standardize, then scale by γ and shift by β
+ */
+abstract class NormLayer extends BaseLayer {
+  readonly index: number;
+  readonly epsilon: number;
+
+  constructor(label: string, size: number, index: number, epsilon: number) {
+    super(label, size, size);
+    this.index = index;
+    this.epsilon = epsilon;
+  }
+
+  parameters(): LayerParameter[] {
+    const { outSize, offset, index } = this;
+    return [
+      { name: `γ${index}`, rows: 1, cols: outSize, offset },
+      { name: `β${index}`, rows: 1, cols: outSize, offset: offset + outSize },
+    ];
+  }
+
+  /**
+   * Binding starts the layer at γ = 1, β = 0 (the identity after standardizing)
+   */
+  bind(params: Float64Array, grads: Float64Array, offset: number): void {
+    super.bind(params, grads, offset);
+    params.fill(1, offset, offset + this.outSize);
+    params.fill(0, offset + this.outSize, offset + 2 * this.outSize);
+  }
+
+  protected config(): Record<string, string | number> {
+    return { epsilon: this.epsilon };
+  }
+
+  /**
+   * Record normalize + scaleShift given how to standardize the input
+   */
+  protected affine(graph: Graph, input: Node, normalized: Node): LayerPass {
+    const [gammaParam, betaParam] = this.parameters();
+    const output = graph.scaleShift(normalized, this.param(graph, gammaParam), this.param(graph, betaParam), `n${this.index}`);
+    return { input, output, nodes: [normalized, output] };
+  }
+}
+
+/**
+ * Normalizes each sample over its units, the same way in training and inference
+ */
+export class LayerNorm extends NormLayer {
+  readonly type = 'layerNorm';
+
+  constructor(size: number, index: number, epsilon: number = NORM_EPSILON) {
+    super(`LayerNorm ${index}`, size, index, epsilon);
+  }
+
+  forward(graph: Graph, input: Node): LayerPass {
+    return this.affine(graph, input, graph.normalize(input, 'row', this.epsilon, `ẑ${this.index}`));
+  }
+
+  inspect(pass: LayerPass, row: number): Record<string, number[]> {
+    const { mean, variance } = pass.nodes[0].stats!;
+    return {
+      ...super.inspect(pass, row),
+      normalized: rowOf(pass.nodes[0], row),
+      mean: [mean[row]],
+      variance: [variance[row]],
+    };
+  }
+}
+
+/**
+ * Normalizes each unit over the batch while training and keeps exponential
+ * running averages of the batch statistics for inference. A single-sample
+ * batch has no spread, so it is normalized with the running statistics
+ * (which it then leaves untouched).
+ */
+export class BatchNorm extends NormLayer {
+  readonly type = 'batchNorm';
+  readonly momentum: number;
+  runningMean: Float64Array;
+  runningVariance: Float64Array;
+
+  constructor(size: number, index: number, epsilon: number = NORM_EPSILON, momentum: number = 0.1) {
+    super(`BatchNorm ${index}`, size, index, epsilon);
+    this.momentum = momentum;
+    this.runningMean = new Float64Array(size);
+    this.runningVariance = new Float64Array(size).fill(1);
+  }
+
+  protected config(): Record<string, string | number> {
+    return { ...super.config(), momentum: this.momentum };
+  }
+
+  protected buffers(): Record<string, number[]> {
+    return { runningMean: Array.from(this.runningMean), runningVariance: Array.from(this.runningVariance) };
+  }
+
+  forward(graph: Graph, input: Node, context: ForwardContext): LayerPass {
+    const useBatch = context.training && input.rows > 1;
+    const running = { mean: this.runningMean.slice(), variance: this.runningVariance.slice() };
+    const normalized = graph.normalize(
+      input, 'column', this.epsilon, `ẑ${this.index}`, useBatch ? undefined : running
+    );
+
+    if (useBatch) {
+      // Running variance tracks the unbiased batch variance
+      const { mean, variance } = normalized.stats!;
+      const n = input.rows;
+      const m = this.momentum;
+      for (let j = 0; j < this.outSize; j++) {
+        this.runningMean[j] = (1 - m) * this.runningMean[j] + m * mean[j];
+        this.runningVariance[j] = (1 - m) * this.runningVariance[j] + m * variance[j] * n / (n - 1);
+      }
+    }
+    return this.affine(graph, input, normalized);
+  }
+
+  inspect(pass: LayerPass, row: number): Record<string, number[]> {
+    const { mean, variance } = pass.nodes[0].stats!;
+    return {
+      ...super.inspect(pass, row),
+      normalized: rowOf(pass.nodes[0], row),
+      mean: Array.from(mean),
+      variance: Array.from(variance),
+    };
+  }
+
+  setState(state: LayerState): void {
+    super.setState(state);
+    this.runningMean.set(state.buffers.runningMean);
+    this.runningVariance.set(state.buffers.runningVariance);
+  }
+}
+
+/**
+ * Split a layer list into blocks that each start at a Dense layer (a Dense
+ * layer plus the normalization, activation and dropout that follow it)
+ */
+export function layerBlocks<T extends { type: LayerType }>(layers: T[]): T[][] {
+  const blocks: T[][] = [];
+  for (const layer of layers) {
+    if (layer.type === 'dense' || blocks.length === 0) blocks.push([]);
+    blocks[blocks.length - 1].push(layer);
+  }
+  return blocks;
+}
+
+export interface SequentialPass {
+  graph: Graph;
+  n: number;
+  input: Node;
+  passes: LayerPass[];  // one per layer
+  output: Node;
+}
+
+/**
+ * Layers applied one after another, with all parameters in one pair of flat
+ * buffers (each layer's block follows the previous one's)
+ */
+export class Sequential {
+  layers: Layer[];
+  params: Float64Array;
+  grads: Float64Array;
+
+  constructor(layers: Layer[]) {
+    layers.forEach((layer, i) => {
+      if (i > 0 && layers[i - 1].outSize !== layer.inSize) {
+        throw new Error(
+          `${layer.label} expects ${layer.inSize} inputs but ${layers[i - 1].label} has ${layers[i - 1].outSize} outputs`
+        );
+      }
+    });
+    this.layers = layers;
+    const size = layers.reduce((sum, layer) => sum + layer.paramSize, 0);
+    this.params = new Float64Array(size);
+    this.grads = new Float64Array(size);
+
+    let offset = 0;
+    for (const layer of layers) {
+      layer.bind(this.params, this.grads, offset);
+      offset += layer.paramSize;
+    }
+  }
+
+  get inSize(): number {
+    return this.layers[0].inSize;
+  }
+
+  /**
+   * Record a forward pass over a batch (one row per sample) on a new graph
+   */
+  forward(inputs: number[][], context: ForwardContext): SequentialPass {
+    const n = inputs.length;
+    const graph = new Graph();
+    const x = new Float64Array(n * this.inSize);
+    inputs.forEach((row, s) => x.set(row, s * this.inSize));
+    const input = graph.input('a0', n, this.inSize, x);
+
+    const passes: LayerPass[] = [];
+    let current = input;
+    for (const layer of this.layers) {
+      const pass = layer.forward(graph, current, context);
+      passes.push(pass);
+      current = pass.output;
+    }
+    return { graph, n, input, passes, output: current };
+  }
+
+  /**
+   * Backpropagate from a scalar `root` computed from the pass's output:
+   * clear intermediate gradients (parameter gradients accumulate), seed
+   * ∂root/∂root = 1 and run each layer's backward in reverse order
+   */
+  backward(pass: SequentialPass, root: Node): void {
+    for (const node of pass.graph.nodes) {
+      if (node.op !== 'param') node.grad.fill(0);
+    }
+    root.grad[0] = 1;
+    root.backward();
+    for (let i = this.layers.length - 1; i >= 0; i--) this.layers[i].backward(pass.passes[i]);
+  }
+
+  getState(caches: Record<string, number[]>[] = []): LayerState[] {
+    return this.layers.map((layer, i) => layer.getState(caches[i]));
+  }
+
+  setState(states: LayerState[]): void {
+    if (states.length !== this.layers.length) {
+      throw new Error(`State has ${states.length} layers but the model has ${this.layers.length}`);
+    }
+    this.layers.forEach((layer, i) => layer.setState(states[i]));
+  }
+}
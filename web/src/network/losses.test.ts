@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { LOSSES, LOSS_NAMES, computeLoss, computeLossGradient } from './losses';
+import { sigmoid } from './functions';
+import { Network } from './Network';
+
+function numericGradient(f: (x: number[]) => number, x: number[], h = 1e-6): number[] {
+  return x.map((_, i) => {
+    const plus = [...x];
+    const minus = [...x];
+    plus[i] += h;
+    minus[i] -= h;
+    return (f(plus) - f(minus)) / (2 * h);
+  });
+}
+
+describe('Loss registry', () => {
+  it('gradients should match central differences', () => {
+    for (const name of LOSS_NAMES) {
+      const loss = LOSSES[name];
+      const output = loss.minOutputs > 1 ? [0.3, -1.2, 0.8] : [0.37];
+      const target = loss.minOutputs > 1 ? [0, 0, 1] : [1];
+      const numeric = numericGradient(o => loss.value(o, target), output);
+      loss.gradient(output, target).forEach((g, i) => {
+        expect(g, `${name}[${i}]`).toBeCloseTo(numeric[i], 5);
+      });
+    }
+  });
+
+  it('confidence penalty gradient should match central differences', () => {
+    for (const name of LOSS_NAMES) {
+      const loss = LOSSES[name];
+      const output = loss.minOutputs > 1 ? [0.3, -1.2, 0.8] : [0.37];
+      const target = loss.minOutputs > 1 ? [0, 1, 0] : [0];
+      const numeric = numericGradient(o => computeLoss(loss, o, target, 0.5), output);
+      computeLossGradient(loss, output, target, 0.5).forEach((g, i) => {
+        expect(g, `${name}[${i}]`).toBeCloseTo(numeric[i], 5);
+      });
+    }
+  });
+
+  it('BCE output error should simplify to p - y', () => {
+    const net = new Network([2, 4, 1], 123);
+    const output = net.forward([1, 0]);
+    net.backward([1, 0], [1]);
+    const p = sigmoid(output[0]);
+    expect(net.biasGrads[1][0]).toBeCloseTo(p - 1, 6);
+  });
+
+  it('MSE network predicts raw outputs', () => {
+    const net = new Network([2, 4, 1], 123, { loss: 'mse' });
+    expect(net.predict([0.2, 0.9])).toEqual(net.forward([0.2, 0.9]));
+  });
+});
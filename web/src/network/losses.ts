@@ -0,0 +1,176 @@
+/**
+ * Loss function registry
+ *
+ * A loss takes the raw network output (the final layer's activation) and a
+ * target, and returns a scalar value plus its gradient with respect to that
+ * raw output. Each loss also declares the output "link" that turns raw outputs
+ * into predictions (sigmoid probabilities, softmax probabilities, or the raw
+ * values themselves for regression).
+ */
+
+import { sigmoid, softmax, binaryCrossEntropy, confidencePenalty } from './functions';
+
+export type LossName = 'bce' | 'mse' | 'mae' | 'huber' | 'softmaxCrossEntropy';
+
+export type OutputLink = 'sigmoid' | 'softmax' | 'identity';
+
+export interface Loss {
+  name: LossName;
+  label: string;
+  link: OutputLink;
+  minOutputs: number;       // softmax needs at least two output units
+  formula: string;          // L in terms of prediction p and target y
+  gradientFormula: string;  // ∂L/∂z_out in terms of p and y
+  value: (output: number[], target: number[]) => number;
+  gradient: (output: number[], target: number[]) => number[];  // ∂L/∂output
+}
+
+const EPS = 1e-7;
+const HUBER_DELTA = 1.0;
+
+function clampProb(p: number): number {
+  return Math.max(EPS, Math.min(1 - EPS, p));
+}
+
+export const LOSSES: Record<LossName, Loss> = {
+  bce: {
+    name: 'bce',
+    label: 'BCE',
+    link: 'sigmoid',
+    minOutputs: 1,
+    formula: 'L = -[y·ln(p) + (1-y)·ln(1-p)], p = σ(z)',
+    gradientFormula: 'δ_out = ∂L/∂z_out = p - y',
+    value: (output, target) => binaryCrossEntropy(sigmoid(output), target),
+    gradient: (output, target) => {
+      const n = output.length;
+      const probs = sigmoid(output);
+      return probs.map((raw, i) => {
+        // Chain rule: ∂L/∂p × ∂p/∂z = [-y/p + (1-y)/(1-p)] × σ(z)(1-σ(z))
+        const p = clampProb(raw);
+        const dLdp = (-target[i] / p) + ((1 - target[i]) / (1 - p));
+        return (dLdp * raw * (1 - raw)) / n;
+      });
+    },
+  },
+  mse: {
+    name: 'mse',
+    label: 'MSE',
+    link: 'identity',
+    minOutputs: 1,
+    formula: 'L = (p - y)², p = z',
+    gradientFormula: 'δ_out = ∂L/∂z_out = 2(p - y)',
+    value: (output, target) =>
+      output.reduce((sum, o, i) => sum + (o - target[i]) ** 2, 0) / output.length,
+    gradient: (output, target) => output.map((o, i) => (2 * (o - target[i])) / output.length),
+  },
+  mae: {
+    name: 'mae',
+    label: 'MAE',
+    link: 'identity',
+    minOutputs: 1,
+    formula: 'L = |p - y|, p = z',
+    gradientFormula: 'δ_out = ∂L/∂z_out = sign(p - y)',
+    value: (output, target) =>
+      output.reduce((sum, o, i) => sum + Math.abs(o - target[i]), 0) / output.length,
+    gradient: (output, target) => output.map((o, i) => Math.sign(o - target[i]) / output.length),
+  },
+  huber: {
+    name: 'huber',
+    label: 'Huber',
+    link: 'identity',
+    minOutputs: 1,
+    formula: `L = ½(p - y)² if |p - y| ≤ ${HUBER_DELTA}, else ${HUBER_DELTA}·(|p - y| - ½·${HUBER_DELTA}), p = z`,
+    gradientFormula: `δ_out = ∂L/∂z_out = clip(p - y, -${HUBER_DELTA}, ${HUBER_DELTA})`,
+    value: (output, target) =>
+      output.reduce((sum, o, i) => {
+        const r = Math.abs(o - target[i]);
+        return sum + (r <= HUBER_DELTA ? 0.5 * r * r : HUBER_DELTA * (r - 0.5 * HUBER_DELTA));
+      }, 0) / output.length,
+    gradient: (output, target) =>
+      output.map((o, i) => Math.max(-HUBER_DELTA, Math.min(HUBER_DELTA, o - target[i])) / output.length),
+  },
+  softmaxCrossEntropy: {
+    name: 'softmaxCrossEntropy',
+    label: 'Softmax CE',
+    link: 'softmax',
+    minOutputs: 2,
+    formula: 'L = -Σ_k y_k·ln(p_k), p = softmax(z)',
+    gradientFormula: 'δ_out[k] = ∂L/∂z_out[k] = p_k - y_k',
+    value: (output, target) => {
+      const probs = softmax(output);
+      return -target.reduce((sum, y, k) => sum + y * Math.log(clampProb(probs[k])), 0);
+    },
+    gradient: (output, target) => {
+      const probs = softmax(output);
+      const total = target.reduce((a, b) => a + b, 0);
+      return probs.map((p, k) => p * total - target[k]);
+    },
+  },
+};
+
+export const LOSS_NAMES = Object.keys(LOSSES) as LossName[];
+
+export function getLoss(name: LossName): Loss {
+  return LOSSES[name];
+}
+
+/**
+ * Turn raw network outputs into predictions using the loss's link
+ */
+export function applyLink(link: OutputLink, output: number[]): number[] {
+  if (link === 'sigmoid') return sigmoid(output);
+  if (link === 'softmax') return softmax(output);
+  return [...output];
+}
+
+/**
+ * Chain a gradient w.r.t. predictions back through the link to the raw outputs
+ */
+export function linkBackward(link: OutputLink, output: number[], gradWrtPrediction: number[]): number[] {
+  const p = applyLink(link, output);
+  if (link === 'sigmoid') {
+    return gradWrtPrediction.map((g, i) => g * p[i] * (1 - p[i]));
+  }
+  if (link === 'softmax') {
+    // Softmax Jacobian: ∂p_i/∂z_j = p_i(δ_ij - p_j)
+    const dot = gradWrtPrediction.reduce((sum, g, i) => sum + g * p[i], 0);
+    return p.map((pj, j) => pj * (gradWrtPrediction[j] - dot));
+  }
+  return [...gradWrtPrediction];
+}
+
+/**
+ * Loss value including the optional confidence penalty on predictions
+ */
+export function computeLoss(
+  loss: Loss,
+  output: number[],
+  target: number[],
+  penaltyStrength: number = 0
+): number {
+  let value = loss.value(output, target);
+  if (penaltyStrength > 0) {
+    value += penaltyStrength * confidencePenalty(applyLink(loss.link, output));
+  }
+  return value;
+}
+
+/**
+ * Gradient of computeLoss w.r.t. the raw network output
+ */
+export function computeLossGradient(
+  loss: Loss,
+  output: number[],
+  target: number[],
+  penaltyStrength: number = 0
+): number[] {
+  const grad = loss.gradient(output, target);
+  if (penaltyStrength > 0) {
+    // d/dp[4p(1-p)] = 4(1-2p), averaged over outputs like the penalty itself
+    const p = applyLink(loss.link, output);
+    const penaltyGrad = p.map(val => (penaltyStrength * 4 * (1 - 2 * val)) / p.length);
+    const chained = linkBackward(loss.link, output, penaltyGrad);
+    return grad.map((g, i) => g + chained[i]);
+  }
+  return grad;
+}
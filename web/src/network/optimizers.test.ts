@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { Optimizer, OPTIMIZER_NAMES } from './optimizers';
+import { Network } from './Network';
+
+function trainSample(net: Network, lr: number, optimizer?: Optimizer) {
+  net.forward([1, 0]);
+  net.backward([1, 0], [1]);
+  net.step(lr, optimizer);
+}
+
+describe('Optimizers', () => {
+  it('SGD optimizer should match plain Network.step', () => {
+    const a = new Network([2, 4, 1], 123);
+    const b = new Network([2, 4, 1], 123);
+    const sgd = new Optimizer('sgd');
+    for (let i = 0; i < 3; i++) {
+      trainSample(a, 0.5);
+      trainSample(b, 0.5, sgd);
+    }
+    expect(b.weights).toEqual(a.weights);
+    expect(b.biases).toEqual(a.biases);
+  });
+
+  it('Adam first step should move each parameter by about the learning rate', () => {
+    const net = new Network([2, 4, 1], 123);
+    const before = net.biases[1][0];
+    const adam = new Optimizer('adam');
+    trainSample(net, 0.01, adam);
+    // Bias-corrected m̂/√v̂ = sign(g) on step 1
+    expect(Math.abs(net.biases[1][0] - before)).toBeCloseTo(0.01, 6);
+    expect(adam.getState().t).toBe(1);
+  });
+
+  it('resuming from a saved state should match uninterrupted training', () => {
+    for (const name of OPTIMIZER_NAMES) {
+      const a = new Network([2, 4, 1], 7);
+      const optA = new Optimizer(name);
+      for (let i = 0; i < 4; i++) trainSample(a, 0.1, optA);
+
+      const b = new Network([2, 4, 1], 7);
+      const optB1 = new Optimizer(name);
+      for (let i = 0; i < 2; i++) trainSample(b, 0.1, optB1);
+      const optB2 = new Optimizer(name, {}, optB1.getState());
+      for (let i = 0; i < 2; i++) trainSample(b, 0.1, optB2);
+
+      expect(b.weights, name).toEqual(a.weights);
+      expect(optB2.getState(), name).toEqual(optA.getState());
+    }
+  });
+
+  it('should start fresh when resuming from another optimizer', () => {
+    const momentum = new Optimizer('momentum');
+    trainSample(new Network([2, 4, 1], 1), 0.1, momentum);
+    const adam = new Optimizer('adam', {}, momentum.getState());
+    expect(adam.getState()).toEqual({ name: 'adam', t: 0, slots: {} });
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Optimizers
+ *
+ * Every optimizer here updates each parameter independently, so a rule is
+ * written once for a single scalar parameter and its gradient. The Optimizer
+ * class applies that rule across the flat parameter buffer and owns the
+ * per-parameter state ("slots" such as velocity or Adam's moments, each a
+ * buffer with the same layout) plus the step count. The state is plain data
+ * so it can be snapshotted per training step and restored exactly.
+ */
+
+export type OptimizerName = 'sgd' | 'momentum' | 'nesterov' | 'rmsprop' | 'adagrad' | 'adam';
+
+export interface OptimizerHyperparams {
+  momentum: number;  // μ for momentum / Nesterov
+  rho: number;       // decay rate for RMSProp
+  beta1: number;     // Adam first-moment decay
+  beta2: number;     // Adam second-moment decay
+  epsilon: number;   // numerical stability term
+}
+
+export const DEFAULT_HYPERPARAMS: OptimizerHyperparams = {
+  momentum: 0.9,
+  rho: 0.9,
+  beta1: 0.9,
+  beta2: 0.999,
+  epsilon: 1e-8,
+};
+
+export interface OptimizerState {
+  name: OptimizerName;
+  t: number;                          // number of updates applied so far
+  slots: Record<string, Float64Array>;  // per-parameter state, same layout as the parameters
+}
+
+/**
+ * Anything with parameters and matching gradients (Network satisfies this)
+ */
+export interface ParameterSet {
+  params: Float64Array;
+  grads: Float64Array;
+}
+
+export interface OptimizerSpec {
+  name: OptimizerName;
+  label: string;
+  slots: string[];
+  hyperparams: (keyof OptimizerHyperparams)[];
+  formula: string[];  // update rule, one line per equation
+  /**
+   * Update one scalar parameter. Mutates `s` (this parameter's slot values)
+   * and returns the new parameter value. `t` is the 1-based step count.
+   * If `trace` is given, intermediate quantities are recorded into it.
+   */
+  update: (
+    param: number,
+    grad: number,
+    s: Record<string, number>,
+    hp: OptimizerHyperparams,
+    lr: number,
+    t: number,
+    trace?: Record<string, number>
+  ) => number;
+}
+
+export const OPTIMIZERS: Record<OptimizerName, OptimizerSpec> = {
+  sgd: {
+    name: 'sgd',
+    label: 'SGD',
+    slots: [],
+    hyperparams: [],
+    formula: ['w ← w - η·g'],
+    update: (param, grad, _s, _hp, lr) => param - lr * grad,
+  },
+  momentum: {
+    name: 'momentum',
+    label: 'Momentum',
+    slots: ['v'],
+    hyperparams: ['momentum'],
+    formula: ['v ← μ·v - η·g', 'w ← w + v'],
+    update: (param, grad, s, hp, lr) => {
+      s.v = hp.momentum * s.v - lr * grad;
+      return param + s.v;
+    },
+  },
+  nesterov: {
+    name: 'nesterov',
+    label: 'Nesterov',
+    slots: ['v'],
+    hyperparams: ['momentum'],
+    formula: ['v ← μ·v + g', 'w ← w - η·(g + μ·v)'],
+    update: (param, grad, s, hp, lr, _t, trace) => {
+      s.v = hp.momentum * s.v + grad;
+      const lookahead = grad + hp.momentum * s.v;
+      if (trace) trace['g + μ·v'] = lookahead;
+      return param - lr * lookahead;
+    },
+  },
+  rmsprop: {
+    name: 'rmsprop',
+    label: 'RMSProp',
+    slots: ['s'],
+    hyperparams: ['rho', 'epsilon'],
+    formula: ['s ← ρ·s + (1-ρ)·g²', 'w ← w - η·g / (√s + ε)'],
+    update: (param, grad, s, hp, lr, _t, trace) => {
+      s.s = hp.rho * s.s + (1 - hp.rho) * grad * grad;
+      const scaled = grad / (Math.sqrt(s.s) + hp.epsilon);
+      if (trace) trace['g / (√s + ε)'] = scaled;
+      return param - lr * scaled;
+    },
+  },
+  adagrad: {
+    name: 'adagrad',
+    label: 'AdaGrad',
+    slots: ['s'],
+    hyperparams: ['epsilon'],
+    formula: ['s ← s + g²', 'w ← w - η·g / (√s + ε)'],
+    update: (param, grad, s, hp, lr, _t, trace) => {
+      s.s = s.s + grad * grad;
+      const scaled = grad / (Math.sqrt(s.s) + hp.epsilon);
+      if (trace) trace['g / (√s + ε)'] = scaled;
+      return param - lr * scaled;
+    },
+  },
+  adam: {
+    name: 'adam',
+    label: 'Adam',
+    slots: ['m', 'v'],
+    hyperparams: ['beta1', 'beta2', 'epsilon'],
+    formula: [
+      'm ← β₁·m + (1-β₁)·g',
+      'v ← β₂·v + (1-β₂)·g²',
+      'm̂ = m / (1-β₁ᵗ),  v̂ = v / (1-β₂ᵗ)',
+      'w ← w - η·m̂ / (√v̂ + ε)',
+    ],
+    update: (param, grad, s, hp, lr, t, trace) => {
+      s.m = hp.beta1 * s.m + (1 - hp.beta1) * grad;
+      s.v = hp.beta2 * s.v + (1 - hp.beta2) * grad * grad;
+      const mHat = s.m / (1 - Math.pow(hp.beta1, t));
+      const vHat = s.v / (1 - Math.pow(hp.beta2, t));
+      if (trace) {
+        trace['m̂'] = mHat;
+        trace['v̂'] = vHat;
+      }
+      return param - lr * mHat / (Math.sqrt(vHat) + hp.epsilon);
+    },
+  },
+};
+
+export const OPTIMIZER_NAMES = Object.keys(OPTIMIZERS) as OptimizerName[];
+
+export function getOptimizerSpec(name: OptimizerName): OptimizerSpec {
+  return OPTIMIZERS[name];
+}
+
+function copySlots(slots: Record<string, Float64Array>): Record<string, Float64Array> {
+  const copy: Record<string, Float64Array> = {};
+  for (const [key, buf] of Object.entries(slots)) {
+    copy[key] = buf.slice();
+  }
+  return copy;
+}
+
+export class Optimizer {
+  spec: OptimizerSpec;
+  hyperparams: OptimizerHyperparams;
+  private t: number;
+  private slots: Record<string, Float64Array>;
+
+  /**
+   * @param state Previous state to resume from. Ignored if it belongs to a
+   *              different optimizer, so switching optimizers starts fresh.
+   */
+  constructor(name: OptimizerName, hyperparams: Partial<OptimizerHyperparams> = {}, state?: OptimizerState) {
+    this.spec = getOptimizerSpec(name);
+    this.hyperparams = { ...DEFAULT_HYPERPARAMS, ...hyperparams };
+    if (state && state.name === name) {
+      this.t = state.t;
+      this.slots = copySlots(state.slots);
+    } else {
+      this.t = 0;
+      this.slots = {};
+    }
+  }
+
+  /**
+   * Apply one update to every parameter using its current gradient
+   */
+  step(params: ParameterSet, learningRate: number): void {
+    this.t++;
+    for (const slot of this.spec.slots) {
+      if (!this.slots[slot]) this.slots[slot] = new Float64Array(params.params.length);
+    }
+
+    const s: Record<string, number> = {};
+    for (let idx = 0; idx < params.params.length; idx++) {
+      for (const slot of this.spec.slots) s[slot] = this.slots[slot][idx];
+      params.params[idx] = this.spec.update(
+        params.params[idx], params.grads[idx], s, this.hyperparams, learningRate, this.t
+      );
+      for (const slot of this.spec.slots) this.slots[slot][idx] = s[slot];
+    }
+  }
+
+  getState(): OptimizerState {
+    return {
+      name: this.spec.name,
+      t: this.t,
+      slots: copySlots(this.slots),
+    };
+  }
+}
+
+/**
+ * Preview the next update of the parameter at `index` (in the flat layout)
+ * without touching any state. Returns the slot values before and after,
+ * intermediate terms, and the new value.
+ */
+export function previewUpdate(
+  state: OptimizerState,
+  hyperparams: OptimizerHyperparams,
+  learningRate: number,
+  param: number,
+  grad: number,
+  index: number
+): { before: Record<string, number>; after: Record<string, number>; trace: Record<string, number>; t: number; value: number } {
+  const spec = getOptimizerSpec(state.name);
+  const before: Record<string, number> = {};
+  for (const slot of spec.slots) {
+    before[slot] = state.slots[slot]?.[index] ?? 0;
+  }
+  const after = { ...before };
+  const trace: Record<string, number> = {};
+  const t = state.t + 1;
+  const value = spec.update(param, grad, after, hyperparams, learningRate, t, trace);
+  return { before, after, trace, t, value };
+}
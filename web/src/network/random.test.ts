@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { RNG } from './random';
+
+const draw = (rng: RNG, n: number) => Array.from({ length: n }, () => rng.uniform());
+
+describe('RNG', () => {
+  it('should be reproducible from a seed', () => {
+    expect(draw(new RNG(42), 5)).toEqual(draw(new RNG(42), 5));
+    expect(draw(new RNG(42), 5)).not.toEqual(draw(new RNG(43), 5));
+  });
+
+  it('should resume mid-stream from a saved state', () => {
+    const a = new RNG(7);
+    draw(a, 3);
+    const saved = JSON.parse(JSON.stringify(a.getState()));
+    const expected = draw(a, 5);
+    expect(draw(RNG.fromState(saved), 5)).toEqual(expected);
+  });
+
+  it('forks should be deterministic, independent and not advance the parent', () => {
+    const root = new RNG(1);
+    const before = root.getState();
+    const dropout = draw(root.fork('dropout'), 5);
+    expect(root.getState()).toEqual(before);
+    expect(draw(root.fork('dropout'), 5)).toEqual(dropout);
+    expect(draw(root.fork('shuffle'), 5)).not.toEqual(dropout);
+  });
+
+  it('should sample from its distributions', () => {
+    const rng = new RNG(99);
+    const n = 20000;
+    const normals = Array.from({ length: n }, () => rng.normal(2, 3));
+    const mean = normals.reduce((s, x) => s + x, 0) / n;
+    const std = Math.sqrt(normals.reduce((s, x) => s + (x - mean) ** 2, 0) / n);
+    expect(mean).toBeCloseTo(2, 1);
+    expect(std).toBeCloseTo(3, 1);
+
+    const hits = Array.from({ length: n }, () => rng.bernoulli(0.25)).filter(Boolean).length;
+    expect(hits / n).toBeCloseTo(0.25, 1);
+
+    expect(['a', 'b', 'c']).toContain(rng.choice(['a', 'b', 'c']));
+    expect(rng.shuffle([0, 1, 2, 3, 4, 5]).sort()).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+});
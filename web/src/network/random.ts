@@ -0,0 +1,123 @@
+/**
+ * Seeded random number generation
+ *
+ * A Multiply-With-Carry generator whose whole state is two 32-bit integers,
+ * so it can be saved with a training step and resumed mid-stream. fork()
+ * derives independent, named substreams (e.g. 'init', 'data', 'dropout',
+ * 'shuffle') so that drawing more numbers from one never shifts another.
+ */
+
+export interface RNGState {
+  m_w: number;
+  m_z: number;
+}
+
+const MASK = 0xffffffff;
+
+// FNV-1a hash of a label, used to derive substream seeds
+function hashLabel(label: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < label.length; i++) {
+    h ^= label.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h;
+}
+
+export class RNG {
+  private m_w: number;
+  private m_z: number;
+
+  /**
+   * @param seed Any number; omit for a non-reproducible stream
+   */
+  constructor(seed: number = Math.floor(Math.random() * 0x7fffffff)) {
+    // Seed both m_w and m_z from the input seed for proper randomization
+    // Use different transformations to ensure different values
+    this.m_w = (seed * 1103515245 + 12345) >>> 0;
+    this.m_z = (seed * 134775813 + 1) >>> 0;
+    // Ensure they're non-zero
+    if (this.m_w === 0) this.m_w = 1;
+    if (this.m_z === 0) this.m_z = 1;
+    // Warm up the PRNG a few cycles
+    for (let i = 0; i < 10; i++) this.next();
+  }
+
+  static fromState(state: RNGState): RNG {
+    const rng = new RNG(0);
+    rng.setState(state);
+    return rng;
+  }
+
+  /**
+   * Uniform in [0, 1). An arrow property so it can be passed where a
+   * plain `() => number` is expected.
+   */
+  next = (): number => {
+    this.m_z = (36969 * (this.m_z & 65535) + (this.m_z >> 16)) & MASK;
+    this.m_w = (18000 * (this.m_w & 65535) + (this.m_w >> 16)) & MASK;
+    const result = ((this.m_z << 16) + (this.m_w & 65535)) >>> 0;
+    return result / 4294967296;
+  };
+
+  /**
+   * Uniform in [min, max)
+   */
+  uniform(min: number = 0, max: number = 1): number {
+    return min + (max - min) * this.next();
+  }
+
+  /**
+   * Normal sample via the Box-Muller transform (one sample per pair of uniforms)
+   */
+  normal(mean: number = 0, std: number = 1): number {
+    const u1 = this.next() || Number.MIN_VALUE;  // avoid log(0)
+    const u2 = this.next();
+    return mean + std * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+
+  /**
+   * True with probability p
+   */
+  bernoulli(p: number): boolean {
+    return this.next() < p;
+  }
+
+  /**
+   * Uniformly chosen element of a non-empty array
+   */
+  choice<T>(items: readonly T[]): T {
+    if (items.length === 0) throw new Error('choice() needs at least one item');
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /**
+   * Fisher-Yates shuffle in place; returns the same array
+   */
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+
+  /**
+   * Independent substream derived from this stream's current state and a
+   * label. Does not advance this stream, so the same label at the same
+   * point always gives the same substream.
+   */
+  fork(label: string): RNG {
+    const h = hashLabel(label);
+    return new RNG((this.m_w ^ Math.imul(this.m_z, 0x9e3779b1) ^ h) >>> 0);
+  }
+
+  getState(): RNGState {
+    return { m_w: this.m_w, m_z: this.m_z };
+  }
+
+  setState(state: RNGState): void {
+    this.m_w = state.m_w;
+    this.m_z = state.m_z;
+  }
+}
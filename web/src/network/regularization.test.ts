@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { regularizationPenalty, addRegularizationGrads, applyMaxNorm, dropoutMask } from './regularization';
+import { Network } from './Network';
+
+describe('Regularization', () => {
+  it('penalty gradient should match central differences', () => {
+    const config = { l1: 0.01, l2: 0.1, weightDecay: 0, dropout: 0, maxNorm: 0 };
+    const net = new Network([2, 3, 1], 5);
+    net.zeroGrads();
+    addRegularizationGrads(net, config);
+
+    const h = 1e-6;
+    const w = net.weights;
+    const original = w[0][1][2];
+    w[0][1][2] = original + h;
+    const plus = regularizationPenalty(w, config);
+    w[0][1][2] = original - h;
+    const minus = regularizationPenalty(w, config);
+    w[0][1][2] = original;
+    expect(net.weightGrads[0][1][2]).toBeCloseTo((plus - minus) / (2 * h), 6);
+  });
+
+  it('max-norm should cap each unit\'s incoming weight norm', () => {
+    const weights = [[[3, 0.1], [4, 0.1]]];
+    applyMaxNorm(weights, 2);
+    expect(Math.hypot(weights[0][0][0], weights[0][1][0])).toBeCloseTo(2, 12);
+    expect(weights[0][0][1]).toBe(0.1);
+  });
+
+  it('inverted dropout masks should be 0 or 1/(1-p)', () => {
+    let i = 0;
+    const values = [0.1, 0.9, 0.3, 0.7];
+    const mask = dropoutMask(4, 0.5, () => values[i++]);
+    expect(mask).toEqual([0, 2, 0, 2]);
+  });
+
+  it('dropped hidden units should get no gradient', () => {
+    const net = new Network([2, 4, 1], 123);
+    const random = () => 0.99;  // keep everything...
+    const drops = [0.1, 0.99, 0.99, 0.99];  // ...except unit 0
+    let i = 0;
+    net.forward([1, 1], { training: true, dropout: { rate: 0.5, random: () => drops[i++] ?? random() } });
+    net.backward([1, 1], [0]);
+    expect(net.dropoutMasks[0][0]).toBe(0);
+    expect(net.weightGrads[0][0][0]).toBe(0);
+    expect(net.weightGrads[1][0][0]).toBe(0);
+  });
+});
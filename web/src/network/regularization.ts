@@ -0,0 +1,115 @@
+/**
+ * Regularization: L1/L2 penalties, decoupled weight decay, dropout and max-norm
+ *
+ * Penalties and constraints apply to weights only; biases are left alone, as
+ * is conventional.
+ */
+
+import { forEachWeightRange } from './buffers';
+import type { LayerLayout } from './buffers';
+
+export interface RegularizationConfig {
+  l1: number;           // λ₁: adds λ₁·Σ|w| to the loss
+  l2: number;           // λ₂: adds (λ₂/2)·Σw² to the loss
+  weightDecay: number;  // decoupled decay: w ← w - η·wd·w after the optimizer update
+  dropout: number;      // probability of dropping each hidden unit during training
+  maxNorm: number;      // cap on each unit's incoming weight vector norm (0 = off)
+}
+
+export const NO_REGULARIZATION: RegularizationConfig = {
+  l1: 0,
+  l2: 0,
+  weightDecay: 0,
+  dropout: 0,
+  maxNorm: 0,
+};
+
+/**
+ * Flat parameter and gradient buffers plus their layout (Network satisfies this)
+ */
+interface FlatParameters {
+  layout: LayerLayout[];
+  params: Float64Array;
+  grads: Float64Array;
+}
+
+type WeightMatrices = ArrayLike<ArrayLike<number>>[];
+
+/**
+ * Penalty term R(w) added to the data loss
+ */
+export function regularizationPenalty(weights: WeightMatrices, config: RegularizationConfig): number {
+  if (config.l1 === 0 && config.l2 === 0) return 0;
+  let abs = 0;
+  let sq = 0;
+  for (const layer of weights) {
+    for (let j = 0; j < layer.length; j++) {
+      const row = layer[j];
+      for (let k = 0; k < row.length; k++) {
+        abs += Math.abs(row[k]);
+        sq += row[k] * row[k];
+      }
+    }
+  }
+  return config.l1 * abs + 0.5 * config.l2 * sq;
+}
+
+/**
+ * Gradient of the penalty for a single weight: λ₁·sign(w) + λ₂·w
+ */
+export function regularizationGradient(w: number, config: RegularizationConfig): number {
+  return config.l1 * Math.sign(w) + config.l2 * w;
+}
+
+/**
+ * Add ∂R/∂w to the existing weight gradients (call once per update)
+ */
+export function addRegularizationGrads(net: FlatParameters, config: RegularizationConfig): void {
+  if (config.l1 === 0 && config.l2 === 0) return;
+  forEachWeightRange(net.layout, (start, end) => {
+    for (let idx = start; idx < end; idx++) {
+      net.grads[idx] += regularizationGradient(net.params[idx], config);
+    }
+  });
+}
+
+/**
+ * Decoupled weight decay (as in AdamW): shrink weights directly, independent of the gradient
+ */
+export function applyWeightDecay(net: FlatParameters, learningRate: number, decay: number): void {
+  if (decay === 0) return;
+  const factor = 1 - learningRate * decay;
+  forEachWeightRange(net.layout, (start, end) => {
+    for (let idx = start; idx < end; idx++) {
+      net.params[idx] *= factor;
+    }
+  });
+}
+
+/**
+ * Rescale each unit's incoming weight vector (weights[layer][·][unit]) to norm ≤ maxNorm
+ */
+export function applyMaxNorm(weights: (number[] | Float64Array)[][], maxNorm: number): void {
+  if (maxNorm <= 0) return;
+  for (const layer of weights) {
+    const numUnits = layer[0]?.length ?? 0;
+    for (let k = 0; k < numUnits; k++) {
+      let sq = 0;
+      for (const row of layer) sq += row[k] * row[k];
+      const norm = Math.sqrt(sq);
+      if (norm > maxNorm) {
+        const scale = maxNorm / norm;
+        for (const row of layer) row[k] *= scale;
+      }
+    }
+  }
+}
+
+/**
+ * Inverted dropout mask: 0 for dropped units, 1/(1-rate) for kept units so
+ * the expected activation is unchanged and no rescaling is needed at test time
+ */
+export function dropoutMask(size: number, rate: number, random: () => number): number[] {
+  const keepScale = 1 / (1 - rate);
+  return Array.from({ length: size }, () => (random() < rate ? 0 : keepScale));
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SCHEDULE, SCHEDULE_NAMES, scheduleError, scheduledLearningRate } from './schedules';
+import type { ScheduleConfig, ScheduleName } from './schedules';
+
+const config = (overrides: Partial<ScheduleConfig>): ScheduleConfig => ({ ...DEFAULT_SCHEDULE, ...overrides });
+
+describe('Learning-rate schedules', () => {
+  it('every schedule except warmup and one-cycle should start at the base rate', () => {
+    for (const name of SCHEDULE_NAMES) {
+      if (name === 'warmup' || name === 'oneCycle') continue;
+      expect(scheduledLearningRate(0.5, config({ name }), 0)).toBeCloseTo(0.5, 12);
+    }
+  });
+
+  it('step decay should drop by gamma every stepSize epochs', () => {
+    const c = config({ name: 'step', stepSize: 10, gamma: 0.5 });
+    expect(scheduledLearningRate(1, c, 9.9)).toBe(1);
+    expect(scheduledLearningRate(1, c, 10)).toBe(0.5);
+    expect(scheduledLearningRate(1, c, 25)).toBe(0.25);
+  });
+
+  it('cosine should reach the floor at the end of each cycle and restart with longer cycles', () => {
+    const c = config({ name: 'cosine', period: 10, periodMult: 2, minFactor: 0.1 });
+    expect(scheduledLearningRate(1, c, 5)).toBeCloseTo(0.55, 12);
+    expect(scheduledLearningRate(1, c, 9.999)).toBeCloseTo(0.1, 6);
+    expect(scheduledLearningRate(1, c, 10)).toBeCloseTo(1, 12);   // restart
+    expect(scheduledLearningRate(1, c, 20)).toBeCloseTo(0.55, 12); // middle of the 20-epoch cycle
+  });
+
+  it('warmup and one-cycle should ramp up linearly, and one-cycle should anneal to the floor', () => {
+    const warm = config({ name: 'warmup', warmupEpochs: 4 });
+    expect(scheduledLearningRate(1, warm, 1)).toBe(0.25);
+    expect(scheduledLearningRate(1, warm, 8)).toBe(1);
+
+    const cycle = config({ name: 'oneCycle', warmupEpochs: 10, totalEpochs: 30, minFactor: 0.1 });
+    expect(scheduledLearningRate(1, cycle, 0)).toBeCloseTo(0.1, 12);
+    expect(scheduledLearningRate(1, cycle, 10)).toBeCloseTo(1, 12);
+    expect(scheduledLearningRate(1, cycle, 30)).toBeCloseTo(0.1, 12);
+    expect(scheduledLearningRate(1, cycle, 100)).toBeCloseTo(0.1, 12);
+  });
+
+  it('should reject parameters that would give NaN rates or endless cosine cycles', () => {
+    expect(scheduleError(config({ name: 'cosine', period: 0 }))).toMatch(/period .* greater than 0, got 0/);
+    expect(scheduleError(config({ name: 'cosine', periodMult: 0.5 }))).toMatch(/periodMult .* at least 1/);
+    expect(scheduleError(config({ name: 'step', stepSize: 0 }))).toMatch(/stepSize/);
+    expect(scheduleError(config({ name: 'step', gamma: NaN }))).toMatch(/gamma .* finite/);
+    expect(scheduleError({ name: 'step', stepSize: 1 } as ScheduleConfig)).toMatch(/gamma .* got undefined/);
+    expect(scheduleError({ ...DEFAULT_SCHEDULE, name: 'linear' as ScheduleName })).toMatch(/not a known schedule/);
+    // Parameters a schedule does not read are not checked
+    expect(scheduleError(config({ name: 'constant', period: 0 }))).toBeNull();
+    for (const name of SCHEDULE_NAMES) expect(scheduleError(config({ name }))).toBeNull();
+
+    expect(() => scheduledLearningRate(1, config({ name: 'cosine', period: -1 }), 3)).toThrow(/Invalid learning-rate schedule/);
+  });
+});
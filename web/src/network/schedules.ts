@@ -0,0 +1,154 @@
+/**
+ * Learning-rate schedules
+ *
+ * A schedule scales the base learning rate by a factor that depends on
+ * training time t, measured in epochs. t is fractional within an epoch
+ * (epoch + batch / batchesPerEpoch), so a schedule means the same thing for
+ * full-batch, mini-batch and per-sample training, and the rate changes
+ * smoothly between the updates of one epoch.
+ */
+
+export type ScheduleName = 'constant' | 'step' | 'exponential' | 'cosine' | 'warmup' | 'oneCycle';
+
+export interface ScheduleConfig {
+  name: ScheduleName;
+  stepSize: number;     // epochs between step decays
+  gamma: number;        // factor applied at each step decay
+  decay: number;        // exponential decay factor per epoch
+  period: number;       // epochs in the first cosine cycle
+  periodMult: number;   // each cosine restart's cycle is this many times longer
+  minFactor: number;    // lowest rate as a fraction of the base (cosine, one-cycle)
+  warmupEpochs: number; // length of the linear ramp (warmup, one-cycle)
+  totalEpochs: number;  // length of the whole one-cycle schedule
+}
+
+export const DEFAULT_SCHEDULE: ScheduleConfig = {
+  name: 'constant',
+  stepSize: 50,
+  gamma: 0.5,
+  decay: 0.99,
+  period: 50,
+  periodMult: 2,
+  minFactor: 0.01,
+  warmupEpochs: 10,
+  totalEpochs: 200,
+};
+
+export type ScheduleParam = Exclude<keyof ScheduleConfig, 'name'>;
+
+export interface ScheduleSpec {
+  name: ScheduleName;
+  label: string;
+  params: ScheduleParam[];
+  formula: string;  // η(t) in terms of the base rate η₀
+  factor: (t: number, config: ScheduleConfig) => number;
+}
+
+// Half-cosine from 1 down to minFactor as progress goes from 0 to 1
+function cosineFactor(progress: number, minFactor: number): number {
+  return minFactor + (1 - minFactor) * (1 + Math.cos(Math.PI * progress)) / 2;
+}
+
+export const SCHEDULES: Record<ScheduleName, ScheduleSpec> = {
+  constant: {
+    name: 'constant',
+    label: 'Constant',
+    params: [],
+    formula: 'η = η₀',
+    factor: () => 1,
+  },
+  step: {
+    name: 'step',
+    label: 'Step decay',
+    params: ['stepSize', 'gamma'],
+    formula: 'η = η₀·γ^⌊t / s⌋',
+    factor: (t, c) => Math.pow(c.gamma, Math.floor(t / c.stepSize)),
+  },
+  exponential: {
+    name: 'exponential',
+    label: 'Exponential',
+    params: ['decay'],
+    formula: 'η = η₀·d^t',
+    factor: (t, c) => Math.pow(c.decay, t),
+  },
+  cosine: {
+    name: 'cosine',
+    label: 'Cosine (restarts)',
+    params: ['period', 'periodMult', 'minFactor'],
+    formula: 'η = η_min + (η₀ - η_min)·(1 + cos(π·t_cur / T_i)) / 2',
+    factor: (t, c) => {
+      // Find the cycle containing t; cycle i lasts period·mult^i epochs
+      let start = 0;
+      let length = c.period;
+      while (t >= start + length) {
+        start += length;
+        length *= c.periodMult;
+      }
+      return cosineFactor((t - start) / length, c.minFactor);
+    },
+  },
+  warmup: {
+    name: 'warmup',
+    label: 'Linear warmup',
+    params: ['warmupEpochs'],
+    formula: 'η = η₀·min(1, t / T_warm)',
+    factor: (t, c) => (c.warmupEpochs > 0 ? Math.min(1, t / c.warmupEpochs) : 1),
+  },
+  oneCycle: {
+    name: 'oneCycle',
+    label: 'One-cycle',
+    params: ['warmupEpochs', 'totalEpochs', 'minFactor'],
+    formula: 'ramp η_min → η₀ over T_warm, then cosine η₀ → η_min until T',
+    factor: (t, c) => {
+      if (t < c.warmupEpochs) {
+        return c.minFactor + (1 - c.minFactor) * (t / c.warmupEpochs);
+      }
+      const annealing = c.totalEpochs - c.warmupEpochs;
+      if (annealing <= 0) return c.minFactor;
+      return cosineFactor(Math.min(1, (t - c.warmupEpochs) / annealing), c.minFactor);
+    },
+  },
+};
+
+export const SCHEDULE_NAMES = Object.keys(SCHEDULES) as ScheduleName[];
+
+// Values each parameter accepts (outside them a factor is NaN, or a cosine cycle never ends)
+const PARAM_BOUNDS: Record<ScheduleParam, { valid: (value: number) => boolean; rule: string }> = {
+  stepSize: { valid: v => v > 0, rule: 'greater than 0' },
+  gamma: { valid: v => Number.isFinite(v), rule: 'a finite number' },
+  decay: { valid: v => v > 0 && Number.isFinite(v), rule: 'a finite number greater than 0' },
+  period: { valid: v => v > 0 && Number.isFinite(v), rule: 'a finite number greater than 0' },
+  periodMult: { valid: v => v >= 1 && Number.isFinite(v), rule: 'a finite number of at least 1' },
+  minFactor: { valid: v => v >= 0 && v <= 1, rule: 'between 0 and 1' },
+  warmupEpochs: { valid: v => v >= 0 && Number.isFinite(v), rule: 'a finite number of at least 0' },
+  totalEpochs: { valid: v => v >= 0 && Number.isFinite(v), rule: 'a finite number of at least 0' },
+};
+
+export function getSchedule(name: ScheduleName): ScheduleSpec {
+  return SCHEDULES[name];
+}
+
+/**
+ * Why a schedule config cannot be used (null if it can). Only the
+ * parameters the schedule reads are checked.
+ */
+export function scheduleError(config: ScheduleConfig): string | null {
+  if (!SCHEDULE_NAMES.includes(config.name)) return `"${String(config.name)}" is not a known schedule`;
+  for (const param of getSchedule(config.name).params) {
+    const value = config[param];
+    if (typeof value !== 'number' || !PARAM_BOUNDS[param].valid(value)) {
+      return `${param} of the ${config.name} schedule must be ${PARAM_BOUNDS[param].rule}, got ${String(value)}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Effective learning rate at time t (in epochs). Throws for a schedule
+ * config that scheduleError() rejects.
+ */
+export function scheduledLearningRate(baseRate: number, config: ScheduleConfig, t: number): number {
+  const error = scheduleError(config);
+  if (error) throw new Error(`Invalid learning-rate schedule: ${error}`);
+  return baseRate * getSchedule(config.name).factor(t, config);
+}
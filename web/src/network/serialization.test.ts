@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { Network } from './Network';
+import { validateModel, MODEL_FORMAT_VERSION } from './serialization';
+import { DEFAULT_INIT } from './initializers';
+
+describe('Model format', () => {
+  it('should round-trip through JSON text', () => {
+    const net = new Network([2, 3, 1], 42, {
+      activations: ['tanh', 'identity'],
+      loss: 'mse',
+      init: { ...DEFAULT_INIT, weights: 'glorotUniform' },
+    });
+    const text = JSON.stringify(net.toJSON({ seeds: { data: 7 }, hyperparameters: { learningRate: 0.1 } }));
+    const loaded = Network.fromJSON(JSON.parse(text));
+
+    expect(loaded.layerSizes).toEqual([2, 3, 1]);
+    expect(loaded.layerActivations).toEqual(['tanh', 'identity']);
+    expect(loaded.lossName).toBe('mse');
+    expect(loaded.seed).toBe(42);
+    expect(loaded.init.weights).toBe('glorotUniform');
+    expect(loaded.params).toEqual(net.params);
+    expect(loaded.forward([0.3, 0.8])).toEqual(net.forward([0.3, 0.8]));
+  });
+
+  it('should report shape mismatches with their path', () => {
+    const json = new Network([2, 4, 1], 1).toJSON();
+    json.parameters.weights[1] = json.parameters.weights[1].slice(0, 3);
+    expect(() => Network.fromJSON(json)).toThrow('parameters.weights[1] has 3 rows but layer 1 has 4 inputs');
+
+    const badBias = new Network([2, 4, 1], 1).toJSON();
+    badBias.parameters.biases[0].push(0);
+    expect(() => Network.fromJSON(badBias)).toThrow("parameters.biases[0] has 5 entries but layer 1's size is 4");
+  });
+
+  it('should reject unknown names and newer versions', () => {
+    const json = new Network([2, 4, 1], 1).toJSON();
+    expect(() => validateModel({ ...json, architecture: { ...json.architecture, loss: 'hinge' } }))
+      .toThrow('unknown loss "hinge"');
+    expect(() => validateModel({ ...json, version: MODEL_FORMAT_VERSION + 1 })).toThrow('newer than supported');
+  });
+
+  it('should migrate an unversioned state dump', () => {
+    const net = new Network([2, 4, 1], 5);
+    const legacy = {
+      weights: net.weights.map(w => w.map(row => Array.from(row))),
+      biases: net.biases.map(b => Array.from(b)),
+    };
+    const loaded = Network.fromJSON(legacy);
+    expect(loaded.layerSizes).toEqual([2, 4, 1]);
+    expect(loaded.layerActivations).toEqual(['relu', 'identity']);
+    expect(loaded.params).toEqual(net.params);
+  });
+
+  it('should reject a malformed unversioned state dump', () => {
+    expect(() => Network.fromJSON({ weights: [null] })).toThrow('Invalid model: weights[0] must be a non-empty array of rows');
+    expect(() => Network.fromJSON({ weights: [[]] })).toThrow('weights[0] must be a non-empty array of rows');
+    expect(() => Network.fromJSON({ biases: [] })).toThrow('Invalid model: weights must be a non-empty array');
+  });
+
+  it('setState should reject a state from another architecture', () => {
+    const state = new Network([2, 3, 1], 1).getState();
+    expect(() => new Network([2, 4, 1], 1).setState(state)).toThrow('State is for layers [2, 3, 1]');
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Versioned JSON model format
+ *
+ * A saved model carries its architecture (layer sizes, activations, loss,
+ * normalization), the initialization it started from, RNG seeds, free-form
+ * training hyperparameters, metadata and the parameters as nested arrays.
+ * Documents from older versions are upgraded one version at a time by
+ * MIGRATIONS before validation, so loading code only ever sees the current
+ * shape.
+ */
+
+import { ACTIVATION_NAMES } from './activations';
+import type { ActivationName } from './activations';
+import { LOSS_NAMES } from './losses';
+import type { LossName } from './losses';
+import { INITIALIZER_NAMES, BIAS_INIT_NAMES, DEFAULT_INIT } from './initializers';
+import type { InitConfig } from './initializers';
+import { NORMALIZATIONS } from './layers';
+import type { Normalization } from './layers';
+
+export const MODEL_FORMAT = 'nn-visualizer-model';
+export const MODEL_FORMAT_VERSION = 3;
+
+export interface ModelSeeds {
+  init: number | null;   // weight init seed (null if initialized from an unseeded stream)
+  data?: number;         // training data seed
+}
+
+export interface ModelMetadata {
+  savedAt?: string;      // ISO timestamp
+  step?: number;
+  loss?: number;
+  accuracy?: number;
+  [key: string]: unknown;
+}
+
+export interface ModelJSON {
+  format: typeof MODEL_FORMAT;
+  version: typeof MODEL_FORMAT_VERSION;
+  architecture: {
+    layerSizes: number[];
+    activations: ActivationName[];
+    loss: LossName;
+    normalization: Normalization;
+  };
+  init: InitConfig;
+  seeds: ModelSeeds;
+  hyperparameters: Record<string, unknown>;
+  parameters: {
+    weights: number[][][];  // weights[layer][from][to]
+    biases: number[][];     // biases[layer][node]
+    normalization: NormalizationParameters[];  // one per hidden layer, empty without normalization
+  };
+  metadata: ModelMetadata;
+}
+
+export interface NormalizationParameters {
+  gamma: number[];
+  beta: number[];
+  runningMean?: number[];      // BatchNorm only
+  runningVariance?: number[];
+}
+
+/**
+ * Optional extras recorded alongside the network when saving
+ */
+export interface ModelExtras {
+  seeds?: Partial<ModelSeeds>;
+  hyperparameters?: Record<string, unknown>;
+  metadata?: ModelMetadata;
+}
+
+type Doc = Record<string, unknown>;
+
+/**
+ * Upgrade functions keyed by the version they upgrade *from*
+ */
+export const MIGRATIONS: Record<number, (doc: Doc) => Doc> = {
+  // v1: a bare NetworkState dump ({ weights, biases, layerActivations?, lossName? })
+  1: (doc) => {
+    const weights = doc.weights;
+    if (!Array.isArray(weights) || weights.length === 0) fail('weights', 'must be a non-empty array of weight matrices');
+    weights.forEach((w, l) => {
+      if (!Array.isArray(w) || w.length === 0 || !Array.isArray(w[0])) fail(`weights[${l}]`, 'must be a non-empty array of rows');
+    });
+    const matrices = weights as number[][][];
+    const layerSizes = [matrices[0].length, ...matrices.map(w => w[0].length)];
+    return {
+      format: MODEL_FORMAT,
+      version: 2,
+      architecture: {
+        layerSizes,
+        activations: doc.layerActivations ?? layerSizes.slice(1).map((_, i) => (i < layerSizes.length - 2 ? 'relu' : 'identity')),
+        loss: doc.lossName ?? 'bce',
+      },
+      init: DEFAULT_INIT,
+      seeds: { init: null },
+      hyperparameters: {},
+      parameters: { weights: doc.weights, biases: doc.biases },
+      metadata: {},
+    };
+  },
+  // v2: no normalization layers
+  2: (doc) => ({
+    ...doc,
+    version: 3,
+    architecture: { ...(doc.architecture as Doc), normalization: 'none' },
+    parameters: { ...(doc.parameters as Doc), normalization: [] },
+  }),
+};
+
+/**
+ * Version of a parsed document; unversioned documents are treated as v1
+ */
+function versionOf(doc: Doc): number {
+  return typeof doc.version === 'number' ? doc.version : 1;
+}
+
+/**
+ * Apply migrations until the document reaches the current version
+ */
+export function migrateModel(doc: Doc): Doc {
+  let current = doc;
+  let version = versionOf(current);
+  if (version > MODEL_FORMAT_VERSION) {
+    throw new Error(
+      `Invalid model: format version ${version} is newer than supported version ${MODEL_FORMAT_VERSION}`
+    );
+  }
+  while (version < MODEL_FORMAT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Invalid model: no migration from format version ${version}`);
+    current = migrate(current);
+    version = versionOf(current);
+  }
+  return current;
+}
+
+function fail(path: string, message: string): never {
+  throw new Error(`Invalid model: ${path} ${message}`);
+}
+
+function isFiniteNumber(x: unknown): x is number {
+  return typeof x === 'number' && Number.isFinite(x);
+}
+
+function checkVector(value: unknown, length: number, path: string, what: string): void {
+  if (!Array.isArray(value)) fail(path, 'must be an array');
+  if (value.length !== length) fail(path, `has ${value.length} entries but ${what} is ${length}`);
+  value.forEach((x, i) => {
+    if (!isFiniteNumber(x)) fail(`${path}[${i}]`, 'must be a finite number');
+  });
+}
+
+/**
+ * Migrate and validate a parsed document. Throws with the path of the first
+ * problem, e.g. a weight matrix whose shape does not match the layer sizes.
+ */
+export function validateModel(input: unknown): ModelJSON {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    fail('document', 'must be a JSON object');
+  }
+  const doc = migrateModel(input as Doc);
+  if (doc.format !== MODEL_FORMAT) fail('format', `must be "${MODEL_FORMAT}"`);
+
+  const arch = doc.architecture as Doc | undefined;
+  if (!arch || typeof arch !== 'object') fail('architecture', 'is missing');
+  const layerSizes = arch.layerSizes;
+  if (!Array.isArray(layerSizes) || layerSizes.length < 2) {
+    fail('architecture.layerSizes', 'must list at least an input and an output size');
+  }
+  layerSizes.forEach((n, i) => {
+    if (!Number.isInteger(n) || n < 1) fail(`architecture.layerSizes[${i}]`, 'must be a positive integer');
+  });
+  const numLayers = layerSizes.length - 1;
+
+  const activations = arch.activations;
+  if (!Array.isArray(activations) || activations.length !== numLayers) {
+    fail('architecture.activations', `must list ${numLayers} activations (one per layer)`);
+  }
+  activations.forEach((a, i) => {
+    if (!ACTIVATION_NAMES.includes(a)) fail(`architecture.activations[${i}]`, `has unknown activation "${a}"`);
+  });
+  if (!LOSS_NAMES.includes(arch.loss as LossName)) fail('architecture.loss', `has unknown loss "${arch.loss}"`);
+  const normalization = arch.normalization as Normalization;
+  if (!NORMALIZATIONS.includes(normalization)) {
+    fail('architecture.normalization', `has unknown normalization "${arch.normalization}"`);
+  }
+
+  const init = (doc.init ?? DEFAULT_INIT) as InitConfig;
+  if (!INITIALIZER_NAMES.includes(init.weights)) fail('init.weights', `has unknown initializer "${init.weights}"`);
+  if (!BIAS_INIT_NAMES.includes(init.biases)) fail('init.biases', `has unknown bias init "${init.biases}"`);
+
+  const params = doc.parameters as Doc | undefined;
+  if (!params || typeof params !== 'object') fail('parameters', 'is missing');
+  const { weights, biases } = params;
+  if (!Array.isArray(weights) || weights.length !== numLayers) {
+    fail('parameters.weights', `must have ${numLayers} layers to match layerSizes [${layerSizes.join(', ')}]`);
+  }
+  if (!Array.isArray(biases) || biases.length !== numLayers) {
+    fail('parameters.biases', `must have ${numLayers} layers to match layerSizes [${layerSizes.join(', ')}]`);
+  }
+  for (let l = 0; l < numLayers; l++) {
+    const w = weights[l];
+    if (!Array.isArray(w) || w.length !== layerSizes[l]) {
+      fail(
+        `parameters.weights[${l}]`,
+        `has ${Array.isArray(w) ? w.length : 0} rows but layer ${l} has ${layerSizes[l]} inputs`
+      );
+    }
+    w.forEach((row: unknown, j: number) =>
+      checkVector(row, layerSizes[l + 1], `parameters.weights[${l}][${j}]`, `layer ${l + 1}'s size`)
+    );
+    checkVector(biases[l], layerSizes[l + 1], `parameters.biases[${l}]`, `layer ${l + 1}'s size`);
+  }
+
+  const norms = params.normalization;
+  const numNormalized = normalization === 'none' ? 0 : numLayers - 1;
+  if (!Array.isArray(norms) || norms.length !== numNormalized) {
+    fail('parameters.normalization', `must have ${numNormalized} entries for ${normalization} normalization`);
+  }
+  norms.forEach((norm: Doc, l: number) => {
+    const path = `parameters.normalization[${l}]`;
+    const what = `layer ${l + 1}'s size`;
+    if (typeof norm !== 'object' || norm === null) fail(path, 'must be an object');
+    checkVector(norm.gamma, layerSizes[l + 1], `${path}.gamma`, what);
+    checkVector(norm.beta, layerSizes[l + 1], `${path}.beta`, what);
+    if (normalization === 'batchNorm') {
+      checkVector(norm.runningMean, layerSizes[l + 1], `${path}.runningMean`, what);
+      checkVector(norm.runningVariance, layerSizes[l + 1], `${path}.runningVariance`, what);
+    }
+  });
+
+  const seeds = (doc.seeds ?? { init: null }) as ModelSeeds;
+  return {
+    format: MODEL_FORMAT,
+    version: MODEL_FORMAT_VERSION,
+    architecture: {
+      layerSizes: [...layerSizes],
+      activations: [...activations],
+      loss: arch.loss as LossName,
+      normalization,
+    },
+    init: { ...DEFAULT_INIT, ...init },
+    seeds: { ...seeds, init: seeds.init ?? null },
+    hyperparameters: (doc.hyperparameters ?? {}) as Record<string, unknown>,
+    parameters: { weights, biases, normalization: norms },
+    metadata: (doc.metadata ?? {}) as ModelMetadata,
+  };
+}
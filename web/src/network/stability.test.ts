@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { clipGradients, findNonFinite, gradientNorm } from './stability';
+import { trainOnBatch } from './batching';
+import { Network } from './Network';
+
+describe('Stability guards', () => {
+  it('norm clipping should rescale to the threshold and keep the direction', () => {
+    const grads = new Float64Array([3, -4]);
+    expect(clipGradients(grads, { mode: 'norm', threshold: 1 })).toEqual({ norm: 5, clipped: true });
+    expect(grads[0]).toBeCloseTo(0.6, 12);
+    expect(grads[1]).toBeCloseTo(-0.8, 12);
+    expect(clipGradients(grads, { mode: 'norm', threshold: 1 }).clipped).toBe(false);
+  });
+
+  it('value clipping should clamp each component', () => {
+    const grads = new Float64Array([0.5, -3, 2]);
+    expect(clipGradients(grads, { mode: 'value', threshold: 1 }).clipped).toBe(true);
+    expect(Array.from(grads)).toEqual([0.5, -1, 1]);
+  });
+
+  it('value clipping should leave non-finite components to the non-finite check', () => {
+    const grads = new Float64Array([0.5, NaN, -0.2]);
+    expect(clipGradients(grads, { mode: 'value', threshold: 1 }).clipped).toBe(false);
+    expect(Array.from(grads)).toEqual([0.5, NaN, -0.2]);
+  });
+
+  it('should locate the first non-finite gradient before any parameter', () => {
+    const net = new Network([2, 3, 1], 1);
+    expect(findNonFinite(net)).toBeNull();
+
+    net.params[net.biasIndex(1, 0)] = Infinity;
+    net.grads[net.weightIndex(0, 1, 2)] = NaN;
+    expect(findNonFinite(net)).toMatchObject({ buffer: 'gradient', layer: 0, kind: 'weight', from: 1, to: 2 });
+
+    net.grads.fill(0);
+    expect(findNonFinite(net)).toMatchObject({ buffer: 'parameter', layer: 1, kind: 'bias', to: 0, value: Infinity });
+  });
+
+  it('trainOnBatch should report the pre-clip norm and bound the update', () => {
+    const batch = [{ input: [1, 0], target: [1] }];
+    const free = new Network([2, 4, 1], 3);
+    const clipped = new Network([2, 4, 1], 3);
+    const before = free.params.slice();
+
+    const report = trainOnBatch(free, batch, { learningRate: 1 });
+    const clippedReport = trainOnBatch(clipped, batch, { learningRate: 1, clipping: { mode: 'norm', threshold: 0.01 } });
+
+    expect(clippedReport.gradNorm).toBeCloseTo(report.gradNorm, 12);
+    expect(clippedReport.clipped).toBe(report.gradNorm > 0.01);
+    expect(report.nonFinite).toBeNull();
+    const step = gradientNorm(clipped.params.map((p, i) => p - before[i]));
+    expect(step).toBeCloseTo(Math.min(0.01, report.gradNorm), 10);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Numerical stability guards
+ *
+ * Gradient clipping bounds the size of each update: by global norm (the
+ * whole gradient vector is rescaled so its L2 norm is at most the threshold,
+ * keeping its direction) or by value (each component is clamped to
+ * [-threshold, threshold]). After an update, findNonFinite() locates the
+ * first NaN or ±Infinity so training can stop before it spreads.
+ */
+
+import { locateParameter } from './buffers';
+import type { LayerLayout, ParameterLocation } from './buffers';
+
+export type ClipMode = 'none' | 'norm' | 'value';
+
+export interface ClipConfig {
+  mode: ClipMode;
+  threshold: number;
+}
+
+export const NO_CLIPPING: ClipConfig = { mode: 'none', threshold: 1 };
+
+export const CLIP_MODE_LABELS: Record<ClipMode, string> = {
+  none: 'Off',
+  norm: 'Global norm',
+  value: 'Value',
+};
+
+export interface ClipResult {
+  norm: number;      // global L2 norm before clipping
+  clipped: boolean;  // whether any component changed
+}
+
+export interface NonFiniteValue extends ParameterLocation {
+  index: number;                       // position in the flat buffer
+  buffer: 'gradient' | 'parameter';
+  value: number;                       // NaN, Infinity or -Infinity
+}
+
+/**
+ * L2 norm of the whole gradient vector
+ */
+export function gradientNorm(grads: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < grads.length; i++) sum += grads[i] * grads[i];
+  return Math.sqrt(sum);
+}
+
+/**
+ * Clip the gradients in place and report the norm they had before
+ */
+export function clipGradients(grads: Float64Array, config: ClipConfig): ClipResult {
+  const norm = gradientNorm(grads);
+  if (config.mode === 'norm' && norm > config.threshold) {
+    const scale = config.threshold / norm;
+    for (let i = 0; i < grads.length; i++) grads[i] *= scale;
+    return { norm, clipped: true };
+  }
+  if (config.mode === 'value') {
+    let clipped = false;
+    for (let i = 0; i < grads.length; i++) {
+      // Non-finite entries are left for findNonFinite to report
+      if (!Number.isFinite(grads[i])) continue;
+      const g = Math.max(-config.threshold, Math.min(config.threshold, grads[i]));
+      if (g !== grads[i]) {
+        grads[i] = g;
+        clipped = true;
+      }
+    }
+    return { norm, clipped };
+  }
+  return { norm, clipped: false };
+}
+
+/**
+ * First non-finite entry, checking the gradients before the parameters
+ * (a bad gradient is what poisons the parameters in the update)
+ */
+export function findNonFinite(net: {
+  layout: LayerLayout[];
+  params: Float64Array;
+  grads: Float64Array;
+}): NonFiniteValue | null {
+  for (const [buffer, values] of [['gradient', net.grads], ['parameter', net.params]] as const) {
+    for (let index = 0; index < values.length; index++) {
+      if (!Number.isFinite(values[index])) {
+        return { ...locateParameter(net.layout, index), index, buffer, value: values[index] };
+      }
+    }
+  }
+  return null;
+}
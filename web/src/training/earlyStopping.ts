@@ -0,0 +1,36 @@
+/**
+ * Early stopping
+ *
+ * Scans a timeline's validation loss the way early stopping would during
+ * training: every new best is a checkpoint, and training stops once
+ * `patience` steps pass without one. The best checkpoint is the step early
+ * stopping would restore.
+ */
+
+import type { TrainingStep } from './session';
+
+export const DEFAULT_PATIENCE = 20;
+
+export interface EarlyStopping {
+  checkpoints: number[];  // steps where the validation loss reached a new best
+  best: number | null;    // the last checkpoint before stopping (null: no validation split)
+  stopStep: number | null;  // step at which patience ran out (null: not yet)
+}
+
+export function earlyStopping(steps: TrainingStep[], patience: number = DEFAULT_PATIENCE): EarlyStopping {
+  const checkpoints: number[] = [];
+  let bestLoss = Infinity;
+  let best: number | null = null;
+  for (const step of steps) {
+    const loss = step.metrics.validation?.loss;
+    if (loss === undefined || !Number.isFinite(loss)) continue;
+    if (loss < bestLoss) {
+      bestLoss = loss;
+      best = step.step;
+      checkpoints.push(step.step);
+    } else if (best !== null && step.step - best >= patience) {
+      return { checkpoints, best, stopStep: step.step };
+    }
+  }
+  return { checkpoints, best, stopStep: null };
+}
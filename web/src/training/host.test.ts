@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TrainingHost } from './host';
+import { PROTOCOL_VERSION } from './protocol';
+import type { TrainingEvent, TrainingRequestBody } from './protocol';
+import { DEFAULT_DATA_CONFIG, DEFAULT_HYPERPARAMETERS, TrainingSession, createNetwork } from './session';
+import type { ArchitectureConfig, DataConfig, TrainingHyperparameters } from './session';
+import { DEFAULT_INIT } from '../network/initializers';
+
+const ARCHITECTURE: ArchitectureConfig = {
+  layerSizes: [2, 4, 1],
+  hiddenActivation: 'tanh',
+  lossName: 'bce',
+  initConfig: DEFAULT_INIT,
+  normalization: 'none',
+};
+const DATA: DataConfig = { ...DEFAULT_DATA_CONFIG, numSamples: 40, noiseLevel: 0.2, dataSeed: 7 };
+// Small shuffled mini-batches, one update per step
+const HYPERPARAMETERS: TrainingHyperparameters = {
+  ...DEFAULT_HYPERPARAMETERS,
+  batchMode: 'minibatch',
+  miniBatchSize: 8,
+  shuffle: true,
+  stepUnit: 'update',
+};
+
+// A client that records events and (unless told otherwise) acks progress as it arrives
+function setup({ maxUnacked, autoAck = true }: { maxUnacked?: number; autoAck?: boolean } = {}) {
+  const events: TrainingEvent[] = [];
+  let id = 0;
+  const send = (body: TrainingRequestBody) => {
+    const requestId = ++id;
+    host.handle({ ...body, protocol: PROTOCOL_VERSION, id: requestId });
+    return requestId;
+  };
+  const host = new TrainingHost(event => {
+    events.push(event);
+    if (autoAck && event.type === 'progress') send({ type: 'ack' });
+  }, maxUnacked);
+  const init = () => send({
+    type: 'init',
+    network: { kind: 'fresh', architecture: ARCHITECTURE, seed: 3 },
+    data: DATA,
+    hyperparameters: HYPERPARAMETERS,
+  });
+  const ofType = <T extends TrainingEvent['type']>(type: T) =>
+    events.filter((e): e is Extract<TrainingEvent, { type: T }> => e.type === type);
+  return { events, send, init, ofType };
+}
+
+describe('Training host', () => {
+  it('should train the same steps as a session run directly', async () => {
+    const { send, init, ofType } = setup();
+    const timeline = init();
+    expect(ofType('ready')).toHaveLength(1);
+
+    const request = send({ type: 'train', steps: 5 });
+    await vi.waitFor(() => expect(ofType('done')).toHaveLength(1));
+    const [done] = ofType('done');
+    expect(done).toMatchObject({ requestId: request, timeline, reason: 'completed', currentStep: 5 });
+
+    const session = new TrainingSession(createNetwork(ARCHITECTURE, 3), HYPERPARAMETERS, DATA);
+    for (let i = 0; i < 5; i++) session.trainStep();
+    const progress = ofType('progress').map(e => e.step);
+    expect(progress.map(s => s.step)).toEqual([1, 2, 3, 4, 5]);
+    expect(progress.map(s => s.loss)).toEqual(session.steps.slice(1).map(s => s.loss));
+    expect(Array.from(progress[4].state.params)).toEqual(Array.from(session.steps[5].state.params));
+  });
+
+  it('should wait for acks when too many progress events are unacknowledged, and stop when cancelled', async () => {
+    const { send, init, ofType } = setup({ maxUnacked: 2, autoAck: false });
+    init();
+    send({ type: 'train', steps: 100 });
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(ofType('progress')).toHaveLength(2);
+
+    send({ type: 'ack' });
+    await vi.waitFor(() => expect(ofType('progress')).toHaveLength(3));
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(ofType('progress')).toHaveLength(3);
+
+    send({ type: 'cancel' });
+    await vi.waitFor(() => expect(ofType('done')).toHaveLength(1));
+    expect(ofType('done')[0]).toMatchObject({ reason: 'cancelled', currentStep: 3 });
+  });
+
+  it('should seek, truncate later steps on training and report the timeline in a snapshot', async () => {
+    const { send, init, ofType } = setup();
+    init();
+    send({ type: 'train', steps: 4 });
+    await vi.waitFor(() => expect(ofType('done')).toHaveLength(1));
+
+    send({ type: 'seek', step: 2 });
+    expect(ofType('seeked')[0].currentStep).toBe(2);
+    send({ type: 'train', steps: 1 });
+    await vi.waitFor(() => expect(ofType('done')).toHaveLength(2));
+    send({ type: 'snapshot' });
+    const [snapshot] = ofType('snapshot');
+    expect(snapshot.steps.map(s => s.step)).toEqual([0, 1, 2, 3]);
+    expect(snapshot.currentStep).toBe(3);
+  });
+
+  it('should keep the timeline when the data is edited and record the new version on later steps', async () => {
+    const { send, init, ofType } = setup();
+    init();
+    send({ type: 'train', steps: 2 });
+    await vi.waitFor(() => expect(ofType('done')).toHaveLength(1));
+
+    send({ type: 'setData', data: { ...DATA, edits: [{ kind: 'delete', index: 0 }], version: 1 } });
+    send({ type: 'train', steps: 1 });
+    await vi.waitFor(() => expect(ofType('done')).toHaveLength(2));
+    send({ type: 'snapshot' });
+    const [snapshot] = ofType('snapshot');
+    expect(snapshot.steps.map(s => s.dataVersion)).toEqual([0, 0, 0, 1]);
+  });
+
+  it('should report a step that throws as an error, then end the run as failed', async () => {
+    const { send, init, ofType } = setup();
+    init();
+    const trainStep = vi.spyOn(TrainingSession.prototype, 'trainStep').mockImplementation(() => {
+      throw new Error('step failed');
+    });
+    try {
+      send({ type: 'train', steps: 3 });
+      await vi.waitFor(() => expect(ofType('done')).toHaveLength(1));
+    } finally {
+      trainStep.mockRestore();
+    }
+    expect(ofType('error').map(e => e.message)).toEqual(['step failed']);
+    expect(ofType('done')[0]).toMatchObject({ reason: 'failed', currentStep: 0 });
+
+    send({ type: 'train', steps: 1 });
+    await vi.waitFor(() => expect(ofType('done')).toHaveLength(2));
+    expect(ofType('done')[1].reason).toBe('completed');
+  });
+
+  it('should answer bad requests with error events', () => {
+    const { events, send, init, ofType } = setup();
+    send({ type: 'train', steps: 1 });
+    expect(ofType('error')[0].message).toMatch(/init/);
+
+    init();
+    send({ type: 'seek', step: 9 });
+    expect(ofType('error')[1].message).toMatch(/not on the timeline/);
+
+    const host = new TrainingHost(event => events.push(event));
+    host.handle({ type: 'snapshot', protocol: PROTOCOL_VERSION + 1, id: 1 });
+    expect(ofType('error')[2].message).toMatch(/protocol version/);
+  });
+});
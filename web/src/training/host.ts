@@ -0,0 +1,168 @@
+/**
+ * Training worker host
+ *
+ * Handles protocol requests (see protocol.ts) for one TrainingSession and
+ * posts the resulting events. It does not touch worker globals, so the same
+ * host runs in the browser's training worker and directly in tests.
+ *
+ * A train request runs asynchronously, one step at a time, yielding between
+ * steps so cancel, seek and ack requests are handled while it runs.
+ */
+
+import { Network } from '../network/Network';
+import { MAX_UNACKED_PROGRESS, PROTOCOL_VERSION } from './protocol';
+import type { TrainDoneReason, TrainingEvent, TrainingEventBody, TrainingRequest } from './protocol';
+import { TrainingSession, createNetwork } from './session';
+
+// The train request being worked on
+interface TrainRun {
+  id: number;
+  cancelled: boolean;
+}
+
+const nextTask = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+export class TrainingHost {
+  private session: TrainingSession | null = null;
+  private timeline = 0;
+  private run: TrainRun | null = null;
+  private unacked = 0;
+  // Runs waiting for acks (or cancellation) before their next step
+  private waiting: (() => void)[] = [];
+  private readonly post: (event: TrainingEvent) => void;
+  private readonly maxUnacked: number;
+
+  constructor(post: (event: TrainingEvent) => void, maxUnacked: number = MAX_UNACKED_PROGRESS) {
+    this.post = post;
+    this.maxUnacked = maxUnacked;
+  }
+
+  handle(request: TrainingRequest): void {
+    if (request.protocol !== PROTOCOL_VERSION) {
+      this.emit(request.id, {
+        type: 'error',
+        message: `Unsupported protocol version ${request.protocol} (expected ${PROTOCOL_VERSION})`,
+      });
+      return;
+    }
+    try {
+      this.dispatch(request);
+    } catch (error) {
+      this.emit(request.id, { type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private dispatch(request: TrainingRequest): void {
+    switch (request.type) {
+      case 'init': {
+        this.cancel();
+        const { network } = request;
+        const net = network.kind === 'fresh'
+          ? createNetwork(network.architecture, network.seed)
+          : Network.fromState(network.kind === 'state' ? network.state : network.steps[0].state);
+        const session = new TrainingSession(net, request.hyperparameters, request.data);
+        if (network.kind === 'steps') session.restore(network.steps, network.currentStep);
+        this.session = session;
+        this.timeline = request.id;
+        this.emit(request.id, { type: 'ready', steps: session.steps, currentStep: session.currentStep });
+        return;
+      }
+      case 'configure':
+        this.requireSession().configure(request.hyperparameters);
+        return;
+      case 'setData':
+        this.requireSession().setData(request.data);
+        return;
+      case 'train': {
+        const session = this.requireSession();
+        this.cancel();
+        void this.train(session, request.id, request.steps);
+        return;
+      }
+      case 'cancel':
+        this.cancel();
+        return;
+      case 'seek': {
+        const session = this.requireSession();
+        this.cancel();
+        if (!session.seek(request.step)) {
+          throw new Error(`Step ${request.step} is not on the timeline (0 to ${session.steps.length - 1})`);
+        }
+        this.emit(request.id, { type: 'seeked', currentStep: session.currentStep });
+        return;
+      }
+      case 'snapshot': {
+        const session = this.requireSession();
+        this.emit(request.id, { type: 'snapshot', steps: session.steps, currentStep: session.currentStep });
+        return;
+      }
+      case 'ack':
+        this.unacked = Math.max(0, this.unacked - 1);
+        if (this.unacked < this.maxUnacked) this.wake();
+        return;
+    }
+  }
+
+  private async train(session: TrainingSession, id: number, steps: number): Promise<void> {
+    const run: TrainRun = { id, cancelled: false };
+    this.run = run;
+    // Events keep the timeline the run started on, even if an init replaces it
+    const timeline = this.timeline;
+
+    let reason: TrainDoneReason = 'completed';
+    try {
+      for (let i = 0; i < steps; i++) {
+        while (this.unacked >= this.maxUnacked && !run.cancelled) {
+          await new Promise<void>(resolve => this.waiting.push(resolve));
+        }
+        if (run.cancelled) {
+          reason = 'cancelled';
+          break;
+        }
+        const step = session.trainStep();
+        if (!step) {
+          reason = 'diverged';
+          break;
+        }
+        this.unacked++;
+        this.emit(id, { type: 'progress', step }, timeline);
+        if (step.divergence) {
+          reason = 'diverged';
+          break;
+        }
+        // Let queued requests (cancel, seek, ack) in before the next step
+        await nextTask();
+      }
+      if (run.cancelled) reason = 'cancelled';
+    } catch (error) {
+      // The client still gets its done, so it can train again
+      this.emit(id, { type: 'error', message: error instanceof Error ? error.message : String(error) }, timeline);
+      reason = 'failed';
+    }
+    if (this.run === run) this.run = null;
+    this.emit(id, { type: 'done', reason, currentStep: session.currentStep }, timeline);
+  }
+
+  // Stop the current run before its next step
+  private cancel(): void {
+    if (!this.run) return;
+    this.run.cancelled = true;
+    this.run = null;
+    this.wake();
+  }
+
+  private wake(): void {
+    const waiting = this.waiting;
+    this.waiting = [];
+    waiting.forEach(resolve => resolve());
+  }
+
+  private requireSession(): TrainingSession {
+    if (!this.session) throw new Error('No timeline: send an init request first');
+    return this.session;
+  }
+
+  private emit(requestId: number, body: TrainingEventBody, timeline: number = this.timeline): void {
+    this.post({ ...body, protocol: PROTOCOL_VERSION, requestId, timeline });
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Training worker protocol
+ *
+ * Messages between the UI thread and the training worker. Every message
+ * carries the protocol version; the worker rejects requests from another
+ * version with an error event instead of guessing at their shape.
+ *
+ * Requests carry an id chosen by the sender. Events name the request they
+ * answer (`requestId`) and the timeline they belong to (`timeline`: the id of
+ * the init request that started it), so a client can drop events from a
+ * timeline it has since replaced.
+ *
+ * Back-pressure: the worker stops training once MAX_UNACKED_PROGRESS
+ * progress events are unacknowledged, and continues as `ack` requests come
+ * in. A client must ack every progress event it receives, including ones it
+ * ignores.
+ */
+
+import type { NetworkState } from '../network/Network';
+import type { ArchitectureConfig, DataConfig, TrainingHyperparameters, TrainingStep } from './session';
+import type { SweepResult, SweepSpec } from './sweep';
+
+export const PROTOCOL_VERSION = 2;
+
+// Progress events the worker may have in flight before it waits for acks
+export const MAX_UNACKED_PROGRESS = 4;
+
+// What a new timeline starts from: a network, or recorded steps (an imported trajectory)
+export type NetworkSource =
+  | { kind: 'fresh'; architecture: ArchitectureConfig; seed: number }
+  | { kind: 'state'; state: NetworkState }
+  | { kind: 'steps'; steps: TrainingStep[]; currentStep: number };
+
+export type TrainingRequestBody =
+  // Start a new timeline (cancels any training in progress)
+  | { type: 'init'; network: NetworkSource; data: DataConfig; hyperparameters: TrainingHyperparameters }
+  // Change hyperparameters for the following steps
+  | { type: 'configure'; hyperparameters: Partial<TrainingHyperparameters> }
+  // Train the following steps on another version of the data, keeping the timeline
+  | { type: 'setData'; data: DataConfig }
+  // Train `steps` steps from the current one, replacing any later steps
+  | { type: 'train'; steps: number }
+  // Stop the training in progress after the step it is on
+  | { type: 'cancel' }
+  // Make a recorded step current (cancels any training in progress)
+  | { type: 'seek'; step: number }
+  // Send the whole timeline
+  | { type: 'snapshot' }
+  // One progress event has been handled
+  | { type: 'ack' };
+
+export type TrainingRequest = TrainingRequestBody & { protocol: number; id: number };
+
+// Why a train request ended ('failed': a step threw, reported in an error event first)
+export type TrainDoneReason = 'completed' | 'cancelled' | 'diverged' | 'failed';
+
+export type TrainingEventBody =
+  | { type: 'ready'; steps: TrainingStep[]; currentStep: number }
+  | { type: 'progress'; step: TrainingStep }
+  | { type: 'done'; reason: TrainDoneReason; currentStep: number }
+  | { type: 'seeked'; currentStep: number }
+  | { type: 'snapshot'; steps: TrainingStep[]; currentStep: number }
+  | { type: 'error'; message: string };
+
+export type TrainingEvent = TrainingEventBody & { protocol: number; requestId: number; timeline: number };
+
+/**
+ * Sweep worker (see sweepWorker.ts): runs every configuration of a sweep
+ * in order, reporting each result as it finishes. A sweep is stopped by
+ * terminating the worker.
+ */
+export type SweepRequest = { type: 'sweep'; spec: SweepSpec } & { protocol: number };
+
+export type SweepEvent = (
+  | { type: 'planned'; total: number }
+  | { type: 'result'; result: SweepResult }
+  | { type: 'done' }
+  | { type: 'error'; message: string }
+) & { protocol: number };
@@ -0,0 +1,221 @@
+/**
+ * Headless training runs
+ *
+ * A run trains a fresh network on a generated dataset for a number of epochs,
+ * with no UI: the CLI (cli/train.ts) runs one per invocation. Everything about
+ * a run is in its RunConfig, so the same config always trains the same steps.
+ */
+
+import { batchSizeFor } from '../network/batching';
+import {
+  DEFAULT_ARCHITECTURE, DEFAULT_DATA_CONFIG, DEFAULT_HYPERPARAMETERS, TrainingSession, createNetwork, dataSpec,
+  dataSplitsFor,
+} from './session';
+import type { ArchitectureConfig, DataConfig, TrainingHyperparameters, TrainingStep } from './session';
+import { CLIP_MODE_LABELS } from '../network/stability';
+import type { ClipConfig, ClipMode, NonFiniteValue } from '../network/stability';
+import { OPTIMIZER_NAMES } from '../network/optimizers';
+import type { OptimizerHyperparams } from '../network/optimizers';
+import type { RegularizationConfig } from '../network/regularization';
+import { scheduleError } from '../network/schedules';
+import type { ScheduleConfig } from '../network/schedules';
+import type { InitConfig } from '../network/initializers';
+import type { SplitConfig } from '../data/splits';
+
+export interface RunConfig {
+  architecture: ArchitectureConfig;
+  seed: number;          // weight init seed
+  data: DataConfig;
+  hyperparameters: TrainingHyperparameters;
+  epochs: number;        // train until this many epochs are complete
+}
+
+// Partial at every level, as read from a config file
+export interface RunConfigOverrides {
+  architecture?: Partial<Omit<ArchitectureConfig, 'initConfig'>> & { initConfig?: Partial<InitConfig> };
+  seed?: number;
+  data?: Partial<Omit<DataConfig, 'split'>> & { split?: Partial<SplitConfig> };
+  hyperparameters?: Partial<Omit<TrainingHyperparameters, 'schedule' | 'optimizerHyperparams' | 'regularization' | 'clipping'>> & {
+    schedule?: Partial<ScheduleConfig>;
+    optimizerHyperparams?: Partial<OptimizerHyperparams>;
+    regularization?: Partial<RegularizationConfig>;
+    clipping?: Partial<ClipConfig>;
+  };
+  epochs?: number;
+}
+
+export const DEFAULT_RUN_CONFIG: RunConfig = {
+  architecture: DEFAULT_ARCHITECTURE,
+  seed: 123,
+  data: DEFAULT_DATA_CONFIG,
+  hyperparameters: DEFAULT_HYPERPARAMETERS,
+  epochs: 100,
+};
+
+/**
+ * Apply overrides on top of a config (later overrides win). Nested objects
+ * are merged too, so an override can set part of one.
+ */
+export function mergeRunConfig(base: RunConfig, ...overrides: RunConfigOverrides[]): RunConfig {
+  return overrides.reduce<RunConfig>((config, o) => {
+    const hp = config.hyperparameters;
+    return {
+      architecture: {
+        ...config.architecture,
+        ...o.architecture,
+        initConfig: { ...config.architecture.initConfig, ...o.architecture?.initConfig },
+      },
+      seed: o.seed ?? config.seed,
+      data: { ...config.data, ...o.data, split: { ...config.data.split, ...o.data?.split } },
+      hyperparameters: {
+        ...hp,
+        ...o.hyperparameters,
+        schedule: { ...hp.schedule, ...o.hyperparameters?.schedule },
+        optimizerHyperparams: { ...hp.optimizerHyperparams, ...o.hyperparameters?.optimizerHyperparams },
+        regularization: { ...hp.regularization, ...o.hyperparameters?.regularization },
+        clipping: { ...hp.clipping, ...o.hyperparameters?.clipping },
+      },
+      epochs: o.epochs ?? config.epochs,
+    };
+  }, base);
+}
+
+const isFiniteNumber = (x: unknown): x is number => typeof x === 'number' && Number.isFinite(x);
+
+/**
+ * Throw if the hyperparameters cannot be trained with (a NaN or endless
+ * learning rate, an unknown optimizer or clipping mode)
+ */
+function checkHyperparameters({ learningRate, schedule, optimizerName, optimizerHyperparams, regularization, clipping }: TrainingHyperparameters): void {
+  if (!isFiniteNumber(learningRate) || learningRate <= 0) {
+    throw new Error(`Learning rate must be a finite number greater than 0, got ${String(learningRate)}`);
+  }
+  const error = scheduleError(schedule);
+  if (error) throw new Error(`Invalid learning-rate schedule: ${error}`);
+  if (!OPTIMIZER_NAMES.includes(optimizerName)) {
+    throw new Error(`Optimizer must be one of ${OPTIMIZER_NAMES.join(', ')}, got "${String(optimizerName)}"`);
+  }
+  for (const key of ['momentum', 'rho', 'beta1', 'beta2'] as const) {
+    const value = optimizerHyperparams[key];
+    if (!isFiniteNumber(value) || value < 0 || value >= 1) {
+      throw new Error(`Optimizer ${key} must be at least 0 and below 1, got ${String(value)}`);
+    }
+  }
+  if (!isFiniteNumber(optimizerHyperparams.epsilon) || optimizerHyperparams.epsilon <= 0) {
+    throw new Error(`Optimizer epsilon must be a finite number greater than 0, got ${String(optimizerHyperparams.epsilon)}`);
+  }
+  for (const [key, value] of Object.entries(regularization)) {
+    if (!isFiniteNumber(value) || value < 0) throw new Error(`Regularization ${key} must be a finite number of at least 0, got ${String(value)}`);
+  }
+  if (regularization.dropout >= 1) throw new Error(`Dropout must be below 1, got ${regularization.dropout}`);
+  const modes = Object.keys(CLIP_MODE_LABELS) as ClipMode[];
+  if (!modes.includes(clipping.mode)) throw new Error(`Clipping mode must be one of ${modes.join(', ')}, got "${String(clipping.mode)}"`);
+  if (clipping.mode !== 'none' && (!isFiniteNumber(clipping.threshold) || clipping.threshold <= 0)) {
+    throw new Error(`Clipping threshold must be a finite number greater than 0, got ${String(clipping.threshold)}`);
+  }
+}
+
+/**
+ * Throw if a run config cannot be trained as given
+ */
+export function checkRunConfig({ architecture, data, hyperparameters, epochs }: RunConfig): void {
+  const { layerSizes } = architecture;
+  if (layerSizes.length < 2 || !layerSizes.every(n => Number.isInteger(n) && n > 0)) {
+    throw new Error(`Layer sizes must be at least two positive integers, got [${layerSizes.join(', ')}]`);
+  }
+  const spec = dataSpec(data);
+  if (layerSizes[0] !== spec.inputSize) {
+    throw new Error(`The ${spec.label} dataset needs ${spec.inputSize} inputs, got ${layerSizes[0]}`);
+  }
+  if (layerSizes[layerSizes.length - 1] !== spec.outputSize) {
+    throw new Error(`The ${spec.label} dataset needs ${spec.outputSize} outputs, got ${layerSizes[layerSizes.length - 1]}`);
+  }
+  if (!data.imported && (!Number.isInteger(data.numSamples) || data.numSamples < 1)) {
+    throw new Error(`Sample count must be a positive integer, got ${data.numSamples}`);
+  }
+  const { split } = data;
+  if (split.mode === 'holdout' && !(split.validationFraction > 0 && split.validationFraction < 1)) {
+    throw new Error(`Validation fraction must be between 0 and 1, got ${split.validationFraction}`);
+  }
+  if (split.mode === 'kfold') {
+    if (!Number.isInteger(split.folds) || split.folds < 2) throw new Error(`Folds must be an integer of at least 2, got ${split.folds}`);
+    if (!Number.isInteger(split.fold) || split.fold < 0 || split.fold >= split.folds) {
+      throw new Error(`Validation fold must be between 1 and ${split.folds}, got ${split.fold + 1}`);
+    }
+  }
+  if (!Number.isInteger(split.testSize) || split.testSize < 0) {
+    throw new Error(`Test size must be a non-negative integer, got ${split.testSize}`);
+  }
+  checkHyperparameters(hyperparameters);
+  if (!Number.isInteger(epochs) || epochs < 0) throw new Error(`Epochs must be a non-negative integer, got ${epochs}`);
+}
+
+// One line of a run's metrics stream
+export interface StepMetrics {
+  step: number;
+  epoch: number;         // epochs completed (the epoch the next update belongs to)
+  loss: number;
+  cleanLoss: number;
+  accuracy: number;
+  trainLoss: number;     // data loss on the training split (no penalties)
+  trainAccuracy: number;
+  validationLoss: number | null;   // null without a validation split
+  validationAccuracy: number | null;
+  testLoss: number | null;         // null without a test set
+  testAccuracy: number | null;
+  learningRate: number;
+  gradNorm: number | null;   // largest gradient norm of the step's updates (null for step 0)
+  divergence: NonFiniteValue | null;
+}
+
+export function stepMetrics(step: TrainingStep): StepMetrics {
+  return {
+    step: step.step,
+    epoch: step.epoch,
+    loss: step.loss,
+    cleanLoss: step.cleanLoss,
+    accuracy: step.accuracy,
+    trainLoss: step.metrics.train.loss,
+    trainAccuracy: step.metrics.train.accuracy,
+    validationLoss: step.metrics.validation?.loss ?? null,
+    validationAccuracy: step.metrics.validation?.accuracy ?? null,
+    testLoss: step.metrics.test?.loss ?? null,
+    testAccuracy: step.metrics.test?.accuracy ?? null,
+    learningRate: step.learningRate,
+    gradNorm: step.gradNorms.length > 0 ? Math.max(...step.gradNorms) : null,
+    divergence: step.divergence,
+  };
+}
+
+/**
+ * Steps a run trains if it doesn't diverge (for training it elsewhere, e.g.
+ * in the visualizer's worker)
+ */
+export function runStepCount({ data, hyperparameters, epochs }: RunConfig): number {
+  if (hyperparameters.stepUnit === 'epoch') return epochs;
+  const { batchMode, miniBatchSize } = hyperparameters;
+  // Only the training split is trained on
+  const samples = dataSplitsFor(data, dataSpec(data).outputSize).train.length;
+  return epochs * Math.ceil(samples / batchSizeFor(batchMode, miniBatchSize, samples));
+}
+
+/**
+ * Train a run to completion (or divergence), calling `onStep` with every
+ * step including step 0
+ */
+export function runTraining(config: RunConfig, onStep?: (step: TrainingStep) => void): TrainingSession {
+  checkRunConfig(config);
+  const session = new TrainingSession(
+    createNetwork(config.architecture, config.seed),
+    config.hyperparameters,
+    config.data
+  );
+  onStep?.(session.steps[0]);
+  while (session.steps[session.currentStep].epoch < config.epochs) {
+    const step = session.trainStep();
+    if (!step) break;
+    onStep?.(step);
+    if (step.divergence) break;
+  }
+  return session;
+}
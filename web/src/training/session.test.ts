@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_DATA_CONFIG, DEFAULT_HYPERPARAMETERS, TrainingSession, dataSplitsFor } from './session';
+import type { DataConfig } from './session';
+import type { DataEdit } from '../data/edits';
+import { Network } from '../network/Network';
+
+const HYPERPARAMETERS = { ...DEFAULT_HYPERPARAMETERS, learningRate: 0.1 };
+const session = (data: DataConfig) => new TrainingSession(new Network([2, 3, 1], 1), HYPERPARAMETERS, data);
+
+describe('Training session', () => {
+  it('edits deleting every point should leave one to train on, and no data at all should fail clearly', () => {
+    const deletes: DataEdit[] = Array.from({ length: 100 }, () => ({ kind: 'delete', index: 0 }));
+    const edited = { ...DEFAULT_DATA_CONFIG, edits: deletes, version: 1 };
+    expect(dataSplitsFor(edited, 1).train).toHaveLength(1);
+    expect(session(edited).trainStep()).not.toBeNull();
+
+    expect(() => session({ ...DEFAULT_DATA_CONFIG, numSamples: 0 }).trainStep()).toThrow(/No training data/);
+  });
+
+  it('new data should keep the timeline, with later steps recording its version', () => {
+    const s = session(DEFAULT_DATA_CONFIG);
+    s.trainStep();
+    s.setData({ ...DEFAULT_DATA_CONFIG, edits: [{ kind: 'delete', index: 0 }], version: 1 });
+    expect(s.trainingData).toHaveLength(DEFAULT_DATA_CONFIG.numSamples - 1);
+    s.trainStep();
+    expect(s.steps.map(step => step.dataVersion)).toEqual([0, 0, 1]);
+  });
+});
@@ -0,0 +1,460 @@
+/**
+ * Training timeline
+ *
+ * A TrainingSession owns a network's training history: the steps recorded so
+ * far, the step currently shown, the training data and the hyperparameters.
+ * Each step stores everything needed to resume from it (network state,
+ * optimizer slots, epoch position and the dropout stream), so seeking back
+ * and training again replaces the later steps deterministically.
+ *
+ * The session has no UI or threading concerns; the training worker (see
+ * host.ts) drives it in response to messages.
+ */
+
+import { Network } from '../network/Network';
+import type { NetworkState } from '../network/Network';
+import { defaultActivations } from '../network/activations';
+import type { ActivationName } from '../network/activations';
+import { getLoss, computeLoss, applyLink } from '../network/losses';
+import type { LossName } from '../network/losses';
+import { Optimizer, DEFAULT_HYPERPARAMS } from '../network/optimizers';
+import type { OptimizerName, OptimizerHyperparams, OptimizerState } from '../network/optimizers';
+import { batchLoss, batchSizeFor, epochOrder, makeBatches, trainOnBatch } from '../network/batching';
+import type { BatchMode } from '../network/batching';
+import { NO_REGULARIZATION } from '../network/regularization';
+import type { RegularizationConfig } from '../network/regularization';
+import { DEFAULT_INIT } from '../network/initializers';
+import type { InitConfig } from '../network/initializers';
+import type { Normalization } from '../network/layers';
+import { DEFAULT_SCHEDULE, scheduledLearningRate } from '../network/schedules';
+import type { ScheduleConfig } from '../network/schedules';
+import { NO_CLIPPING } from '../network/stability';
+import type { ClipConfig, NonFiniteValue } from '../network/stability';
+import { RNG } from '../network/random';
+import type { RNGState } from '../network/random';
+import { outputSizeFor } from '../network/classification';
+import {
+  datasetOutputSize, datasetParams as resolveDatasetParams, evaluationData, generateDataset, getDataset, isCorrect,
+} from '../data/datasets';
+import type { DataPoint, DatasetName, DatasetParams, DatasetTask, EvalPoint } from '../data/datasets';
+import { importedEvalData, importedTrainingData } from '../data/importer';
+import type { ImportedDataset } from '../data/importer';
+import { DEFAULT_SPLIT, holdOutTest, splitPoints } from '../data/splits';
+import type { SplitConfig } from '../data/splits';
+import { applyEdits } from '../data/edits';
+import type { DataEdit } from '../data/edits';
+
+// Loss and accuracy on a set of points
+export interface EvalMetrics {
+  loss: number;
+  accuracy: number;
+}
+
+// Data loss (no penalties) and accuracy on each split; null for an empty split
+export interface SplitMetrics {
+  train: EvalMetrics;
+  validation: EvalMetrics | null;
+  test: EvalMetrics | null;
+}
+
+export interface TrainingStep {
+  step: number;
+  state: NetworkState;
+  loss: number;          // Training loss (on noisy data)
+  cleanLoss: number;     // Loss on the dataset's canonical points
+  accuracy: number;      // Accuracy on the canonical points
+  metrics: SplitMetrics; // Loss and accuracy on the training, validation and test splits
+  dataVersion: number;   // Version of the (hand-edited) data this step was trained on
+  currentInputIdx: number;
+  optimizerState: OptimizerState;  // Optimizer slots/step count after this step
+  epoch: number;         // Epoch the next update belongs to
+  batchInEpoch: number;  // Index of the next batch within that epoch
+  dropoutRngState: RNGState;  // Dropout stream position after this step
+  learningRate: number;  // Effective (scheduled) rate of this step's last update; step 0: of the first update
+  gradNorms: number[];   // Global gradient norm (before clipping) of each update in this step
+  divergence: NonFiniteValue | null;  // First NaN/Infinity, if an update in this step blew up
+}
+
+// What one step on the timeline means
+export type StepUnit = 'epoch' | 'update';
+
+// Training settings saved with a model (the "hyperparameters" of the model format)
+export interface TrainingHyperparameters {
+  learningRate: number;  // base rate, scaled by the schedule
+  schedule: ScheduleConfig;
+  optimizerName: OptimizerName;
+  optimizerHyperparams: OptimizerHyperparams;
+  batchMode: BatchMode;
+  miniBatchSize: number;
+  shuffle: boolean;
+  stepUnit: StepUnit;
+  regularization: RegularizationConfig;
+  clipping: ClipConfig;
+  confidencePenalty: number;
+}
+
+// How the training data is generated (see data/datasets.ts)
+export interface DataConfig {
+  datasetName: DatasetName;
+  numSamples: number;
+  noiseLevel: number;   // 0 to 1
+  dataSeed: number;
+  datasetParams: DatasetParams;  // generator parameters (missing ones take their defaults)
+  imported?: ImportedDataset;    // train on these rows instead of the generator (which is then unused)
+  split: SplitConfig;            // validation and test points (see data/splits.ts)
+  edits: DataEdit[];             // hand edits to the training split (see data/edits.ts)
+  version: number;               // version of the edits (0: none)
+}
+
+// The points a data config trains, validates and tests on
+export interface DataSplits {
+  train: DataPoint[];
+  validation: DataPoint[];
+  test: DataPoint[];
+}
+
+// Shape of the data a config trains on
+export interface DataSpec {
+  label: string;
+  task: DatasetTask;
+  inputSize: number;
+  numClasses: number;   // 1 for regression
+  outputSize: number;   // output units a network needs
+}
+
+// Everything needed to build a fresh network
+export interface ArchitectureConfig {
+  layerSizes: number[];
+  hiddenActivation: ActivationName;
+  lossName: LossName;
+  initConfig: InitConfig;
+  normalization: Normalization;
+}
+
+export const DEFAULT_ARCHITECTURE: ArchitectureConfig = {
+  layerSizes: [2, 4, 1],
+  hiddenActivation: 'relu',
+  lossName: 'bce',
+  initConfig: DEFAULT_INIT,
+  normalization: 'none',
+};
+
+export const DEFAULT_DATA_CONFIG: DataConfig = {
+  datasetName: 'xor',
+  numSamples: 100,
+  noiseLevel: 0,
+  dataSeed: 42,
+  datasetParams: {},
+  split: DEFAULT_SPLIT,
+  edits: [],
+  version: 0,
+};
+
+export const DEFAULT_HYPERPARAMETERS: TrainingHyperparameters = {
+  learningRate: 0.5,
+  schedule: DEFAULT_SCHEDULE,
+  optimizerName: 'sgd',
+  optimizerHyperparams: DEFAULT_HYPERPARAMS,
+  batchMode: 'sample',
+  miniBatchSize: 16,
+  shuffle: false,
+  stepUnit: 'epoch',
+  regularization: NO_REGULARIZATION,
+  clipping: NO_CLIPPING,
+  confidencePenalty: 0,
+};
+
+export function createNetwork(arch: ArchitectureConfig, seed?: number): Network {
+  return new Network(arch.layerSizes, seed, {
+    activations: defaultActivations(arch.layerSizes, arch.hiddenActivation),
+    loss: arch.lossName,
+    init: arch.initConfig,
+    normalization: arch.normalization,
+  });
+}
+
+/**
+ * Labelled points for a data config (before splitting), encoded for
+ * `outputSize` outputs
+ */
+export function trainingDataFor(config: DataConfig, outputSize: number): DataPoint[] {
+  if (config.imported) return importedTrainingData(config.imported, outputSize);
+  const { datasetName, numSamples, noiseLevel, dataSeed, datasetParams } = config;
+  return generateDataset(
+    getDataset(datasetName), numSamples, noiseLevel, new RNG(dataSeed).fork('data'), outputSize, datasetParams
+  );
+}
+
+/**
+ * Training, validation and test points for a data config. Each part comes
+ * from its own seeded stream, so changing the split leaves the labelled
+ * points as they are.
+ */
+export function dataSplitsFor(config: DataConfig, outputSize: number): DataSplits {
+  const { split, dataSeed } = config;
+  const rng = new RNG(dataSeed);
+  let labelled = trainingDataFor(config, outputSize);
+  let test: DataPoint[] = [];
+  if (config.imported) {
+    ({ kept: labelled, test } = holdOutTest(labelled, split.testSize, rng.fork('test')));
+  } else if (split.testSize > 0) {
+    // Noise-free points from the true distribution
+    test = generateDataset(
+      getDataset(config.datasetName), split.testSize, 0, rng.fork('test'), outputSize, config.datasetParams
+    );
+  }
+  const { train, validation } = splitPoints(labelled, split, rng.fork('validation'));
+  return {
+    train: config.edits.length > 0 ? applyEdits(train, config.edits, dataSpec(config).task, outputSize) : train,
+    validation,
+    test,
+  };
+}
+
+/**
+ * Canonical evaluation points for a data config (every row of an imported dataset)
+ */
+export function evalDataFor(config: DataConfig, outputSize: number): EvalPoint[] {
+  if (config.imported) return importedEvalData(config.imported, outputSize);
+  return evaluationData(getDataset(config.datasetName), outputSize, config.datasetParams);
+}
+
+export function dataSpec(config: DataConfig): DataSpec {
+  const { imported } = config;
+  if (imported) {
+    const numClasses = imported.task === 'regression' ? 1 : imported.classNames.length;
+    return {
+      label: imported.name,
+      task: imported.task,
+      inputSize: imported.featureNames.length,
+      numClasses,
+      outputSize: imported.task === 'regression' ? 1 : outputSizeFor(numClasses),
+    };
+  }
+  const dataset = getDataset(config.datasetName);
+  return {
+    label: dataset.label,
+    task: dataset.task,
+    inputSize: dataset.inputSize,
+    numClasses: dataset.numClasses(resolveDatasetParams(dataset, config.datasetParams)),
+    outputSize: datasetOutputSize(dataset, config.datasetParams),
+  };
+}
+
+/**
+ * Loss and accuracy on a set of points (e.g. the dataset's canonical points)
+ */
+export function cleanMetrics(net: Network, evalData: EvalPoint[], task: DatasetTask): EvalMetrics {
+  const loss = getLoss(net.lossName);
+  const outputs = net.forwardBatch(evalData.map(d => d.input));
+  let totalLoss = 0;
+  let correct = 0;
+  evalData.forEach((point, i) => {
+    totalLoss += computeLoss(loss, outputs[i], point.target);
+    if (isCorrect(task, applyLink(loss.link, outputs[i]), point)) correct++;
+  });
+  return {
+    loss: totalLoss / evalData.length,
+    accuracy: correct / evalData.length,
+  };
+}
+
+export function splitMetrics(net: Network, splits: DataSplits, task: DatasetTask): SplitMetrics {
+  const metrics = (points: DataPoint[]) => (points.length > 0 ? cleanMetrics(net, points, task) : null);
+  return {
+    train: metrics(splits.train) ?? { loss: NaN, accuracy: NaN },
+    validation: metrics(splits.validation),
+    test: metrics(splits.test),
+  };
+}
+
+export class TrainingSession {
+  hyperparameters: TrainingHyperparameters;
+  dataConfig: DataConfig;
+  trainingData: DataPoint[];
+  validationData: DataPoint[];
+  testData: DataPoint[];
+  evalData: EvalPoint[];
+  steps: TrainingStep[] = [];
+  currentStep = 0;
+
+  constructor(net: Network, hyperparameters: TrainingHyperparameters, dataConfig: DataConfig) {
+    this.hyperparameters = hyperparameters;
+    this.dataConfig = dataConfig;
+    this.trainingData = [];
+    this.validationData = [];
+    this.testData = [];
+    this.evalData = [];
+    this.start(net);
+  }
+
+  /**
+   * Replace the timeline with a single step 0 holding `net` (regenerating
+   * the data for its output size)
+   */
+  start(net: Network): TrainingStep {
+    this.generateData(net.layerSizes[net.layerSizes.length - 1]);
+
+    const { learningRate, schedule, optimizerName, confidencePenalty, regularization } = this.hyperparameters;
+    const { loss: cleanLoss, accuracy } = cleanMetrics(net, this.evalData, dataSpec(this.dataConfig).task);
+    const step: TrainingStep = {
+      step: 0,
+      dataVersion: this.dataConfig.version,
+      state: net.getState(),
+      loss: batchLoss(net, this.trainingData, confidencePenalty, regularization),
+      cleanLoss,
+      accuracy,
+      metrics: this.splitMetrics(net),
+      currentInputIdx: 0,
+      optimizerState: new Optimizer(optimizerName).getState(),
+      epoch: 0,
+      batchInEpoch: 0,
+      dropoutRngState: new RNG(this.dataConfig.dataSeed).fork('dropout').getState(),
+      learningRate: scheduledLearningRate(learningRate, schedule, 0),
+      gradNorms: [],
+      divergence: null,
+    };
+    this.steps = [step];
+    this.currentStep = 0;
+    return step;
+  }
+
+  /**
+   * Replace the timeline with recorded steps (e.g. an imported trajectory),
+   * making `currentStep` current
+   */
+  restore(steps: TrainingStep[], currentStep: number = steps.length - 1): void {
+    if (steps.length === 0) throw new Error('A timeline needs at least one step');
+    const { layerSizes } = steps[0].state;
+    this.generateData(layerSizes[layerSizes.length - 1]);
+    this.steps = steps;
+    this.currentStep = Math.max(0, Math.min(currentStep, steps.length - 1));
+  }
+
+  private generateData(outputSize: number): void {
+    const { train, validation, test } = dataSplitsFor(this.dataConfig, outputSize);
+    this.trainingData = train;
+    this.validationData = validation;
+    this.testData = test;
+    this.evalData = evalDataFor(this.dataConfig, outputSize);
+  }
+
+  private splitMetrics(net: Network): SplitMetrics {
+    const splits = { train: this.trainingData, validation: this.validationData, test: this.testData };
+    return splitMetrics(net, splits, dataSpec(this.dataConfig).task);
+  }
+
+  /**
+   * Switch to another version of the data (e.g. after hand edits), keeping
+   * the timeline; the following steps train on it
+   */
+  setData(dataConfig: DataConfig): void {
+    const { layerSizes } = this.steps[this.currentStep].state;
+    this.dataConfig = dataConfig;
+    this.generateData(layerSizes[layerSizes.length - 1]);
+  }
+
+  /**
+   * Change hyperparameters; they apply from the next step on
+   */
+  configure(hyperparameters: Partial<TrainingHyperparameters>): void {
+    this.hyperparameters = { ...this.hyperparameters, ...hyperparameters };
+  }
+
+  /**
+   * Make `step` current; the next trainStep() continues from it
+   */
+  seek(step: number): boolean {
+    if (step < 0 || step >= this.steps.length) return false;
+    this.currentStep = step;
+    return true;
+  }
+
+  /**
+   * Train one step (one update, or the rest of the epoch) from the current
+   * step, dropping any later steps. Returns null if the current step has
+   * diverged, since nothing sensible can be trained from non-finite
+   * parameters.
+   */
+  trainStep(): TrainingStep | null {
+    const prevStep = this.steps[this.currentStep];
+    if (prevStep.divergence) return null;
+    const {
+      learningRate, schedule, optimizerName, optimizerHyperparams, batchMode, miniBatchSize, shuffle, stepUnit,
+      regularization, clipping, confidencePenalty,
+    } = this.hyperparameters;
+    const { trainingData } = this;
+    if (trainingData.length === 0) throw new Error('No training data: the training split is empty');
+    const net = Network.fromState(prevStep.state);
+    // Resume the optimizer from this step's snapshot (fresh if the optimizer changed)
+    const optimizer = new Optimizer(optimizerName, optimizerHyperparams, prevStep.optimizerState);
+
+    const size = batchSizeFor(batchMode, miniBatchSize, trainingData.length);
+    // Each epoch's order is reproducible from the data seed and epoch number
+    const shuffleRng = new RNG(this.dataConfig.dataSeed).fork('shuffle');
+    const batchesForEpoch = (e: number) =>
+      makeBatches(epochOrder(trainingData.length, shuffle, shuffleRng.fork(`epoch ${e}`)), size);
+    // Dropout resumes its stream from this step's snapshot
+    const dropoutRng = RNG.fromState(prevStep.dropoutRngState);
+
+    let { epoch, batchInEpoch } = prevStep;
+    let batches = batchesForEpoch(epoch);
+    if (batchInEpoch >= batches.length) {
+      // Batch settings changed mid-epoch: start the next epoch
+      epoch++;
+      batchInEpoch = 0;
+      batches = batchesForEpoch(epoch);
+    }
+
+    // Run one update, or the rest of the current epoch
+    // (stopping early if an update produces NaN or Infinity)
+    let rate = learningRate;
+    const gradNorms: number[] = [];
+    let divergence: NonFiniteValue | null = null;
+    do {
+      const batch = batches[batchInEpoch].map(i => trainingData[i]);
+      rate = scheduledLearningRate(learningRate, schedule, epoch + batchInEpoch / batches.length);
+      const report = trainOnBatch(net, batch, {
+        learningRate: rate,
+        confidencePenalty,
+        optimizer,
+        regularization,
+        rng: dropoutRng,
+        clipping,
+      });
+      gradNorms.push(report.gradNorm);
+      divergence = report.nonFinite;
+      batchInEpoch++;
+    } while (!divergence && stepUnit === 'epoch' && batchInEpoch < batches.length);
+
+    if (batchInEpoch >= batches.length) {
+      epoch++;
+      batchInEpoch = 0;
+    }
+
+    // Snapshot before evaluation (evaluation forwards clear the dropout masks)
+    const state = net.getState();
+    const { loss: cleanLoss, accuracy } = cleanMetrics(net, this.evalData, dataSpec(this.dataConfig).task);
+    const step: TrainingStep = {
+      step: this.currentStep + 1,
+      dataVersion: this.dataConfig.version,
+      state,
+      loss: batchLoss(net, trainingData, confidencePenalty, regularization),
+      cleanLoss,
+      accuracy,
+      metrics: this.splitMetrics(net),
+      currentInputIdx: 0,
+      optimizerState: optimizer.getState(),
+      epoch,
+      batchInEpoch,
+      dropoutRngState: dropoutRng.getState(),
+      learningRate: rate,
+      gradNorms,
+      divergence,
+    };
+    this.steps = [...this.steps.slice(0, this.currentStep + 1), step];
+    this.currentStep = step.step;
+    return step;
+  }
+}
+
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RUN_CONFIG, mergeRunConfig, runStepCount } from './run';
+import { expandSweep, groupResults, runSweepRun, sweepRunConfig } from './sweep';
+import type { SweepSpec } from './sweep';
+
+const SPEC: SweepSpec = {
+  base: mergeRunConfig(DEFAULT_RUN_CONFIG, {
+    data: { numSamples: 20 },
+    hyperparameters: { batchMode: 'minibatch', miniBatchSize: 8, stepUnit: 'update' },
+    epochs: 3,
+  }),
+  space: {
+    seeds: [1, 2],
+    learningRates: [0.1, 1],
+    noiseLevels: [0, 0.2],
+    hiddenSizes: [[3], [4, 4]],
+    confidencePenalties: [0],
+  },
+  mode: 'grid',
+  samples: 5,
+  searchSeed: 7,
+  convergenceAccuracy: 1,
+};
+
+describe('Sweeps', () => {
+  it('grid search should run every setting with every seed', () => {
+    const runs = expandSweep(SPEC);
+    expect(runs).toHaveLength(2 * 2 * 2 * 1 * 2);
+    expect(runs.map(r => r.index)).toEqual(runs.map((_, i) => i));
+    expect(runs.slice(0, 3).map(r => [r.setting.learningRate, r.setting.noiseLevel, r.setting.hiddenSizes, r.seed])).toEqual([
+      [0.1, 0, [3], 1],
+      [0.1, 0, [3], 2],
+      [0.1, 0, [4, 4], 1],
+    ]);
+
+    const config = sweepRunConfig(SPEC.base, runs[2]);
+    expect(config.architecture.layerSizes).toEqual([2, 4, 4, 1]);
+    expect(config.seed).toBe(1);
+    expect(runStepCount(config)).toBe(3 * 3);
+    expect(() => expandSweep({ ...SPEC, space: { ...SPEC.space, seeds: [] } })).toThrow(/seeds/);
+  });
+
+  it('random search should draw the same settings from the same seed, within the listed ranges', () => {
+    const random = { ...SPEC, mode: 'random' as const };
+    const runs = expandSweep(random);
+    expect(runs).toHaveLength(5 * 2);
+    expect(expandSweep(random)).toEqual(runs);
+    expect(expandSweep({ ...random, searchSeed: 8 })).not.toEqual(runs);
+    for (const { setting } of runs) {
+      expect(setting.learningRate).toBeGreaterThanOrEqual(0.1);
+      expect(setting.learningRate).toBeLessThanOrEqual(1);
+      expect(setting.noiseLevel).toBeGreaterThanOrEqual(0);
+      expect(setting.noiseLevel).toBeLessThanOrEqual(0.2);
+      expect(SPEC.space.hiddenSizes).toContainEqual(setting.hiddenSizes);
+    }
+  });
+
+  it('should summarize runs deterministically and aggregate them over seeds', () => {
+    const runs = expandSweep(SPEC).slice(0, 4);
+    const results = runs.map(run => runSweepRun(SPEC, run));
+    expect(runs.map(run => runSweepRun(SPEC, run))).toEqual(results);
+    for (const { summary } of results) {
+      expect(summary.steps).toBe(9);
+      expect(summary.bestAccuracy).toBeGreaterThanOrEqual(summary.finalAccuracy);
+      expect(summary.stuck).toBe(summary.epochsToConverge === null);
+    }
+
+    const groups = groupResults(results);
+    expect(groups).toHaveLength(2);
+    const [first] = groups;
+    expect(first.runs.map(r => r.seed)).toEqual([1, 2]);
+    expect(first.meanFinalAccuracy).toBeCloseTo((results[0].summary.finalAccuracy + results[1].summary.finalAccuracy) / 2);
+    expect(first.stuckFraction).toBe(first.runs.filter(r => r.summary.stuck).length / 2);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Hyperparameter sweeps
+ *
+ * A sweep trains many headless runs (see run.ts) that differ in learning
+ * rate, noise level, hidden layer sizes and confidence penalty, each over
+ * several weight init seeds. Grid search takes every combination of the
+ * listed values; random search draws `samples` combinations, with the
+ * learning rate log-uniform and noise and penalty uniform between the
+ * smallest and largest listed values, and hidden sizes picked from the list.
+ *
+ * Every run is deterministic in its config, so a sweep result can be re-run
+ * exactly (e.g. to load it into the visualizer).
+ */
+
+import { RNG } from '../network/random';
+import { mergeRunConfig, runTraining, stepMetrics } from './run';
+import type { RunConfig, StepMetrics } from './run';
+
+export type SearchMode = 'grid' | 'random';
+
+export const SEARCH_MODE_LABELS: Record<SearchMode, string> = {
+  grid: 'Grid',
+  random: 'Random',
+};
+
+// Values to try along each axis
+export interface SweepSpace {
+  seeds: number[];
+  learningRates: number[];
+  noiseLevels: number[];
+  hiddenSizes: number[][];   // hidden layer sizes per option, e.g. [[4], [8], [4, 4]]
+  confidencePenalties: number[];
+}
+
+export interface SweepSpec {
+  base: RunConfig;           // everything not swept (architecture, data, hyperparameters, epochs)
+  space: SweepSpace;
+  mode: SearchMode;
+  samples: number;           // random search: configurations to draw (each runs with every seed)
+  searchSeed: number;        // random search: seed for drawing them
+  convergenceAccuracy: number;  // accuracy on the canonical points that counts as converged
+}
+
+// One configuration of the swept axes (without the seed)
+export interface SweepSetting {
+  learningRate: number;
+  noiseLevel: number;
+  hiddenSizes: number[];
+  confidencePenalty: number;
+}
+
+export interface SweepRun {
+  index: number;
+  setting: SweepSetting;
+  seed: number;
+}
+
+export interface RunSummary {
+  finalAccuracy: number;
+  finalLoss: number;
+  bestAccuracy: number;
+  bestStep: number;
+  epochsToConverge: number | null;  // epochs completed when accuracy first reached the threshold
+  stuck: boolean;                   // never converged (including runs that diverged)
+  diverged: boolean;
+  steps: number;
+}
+
+export interface SweepResult extends SweepRun {
+  summary: RunSummary;
+}
+
+// Runs that share a setting, aggregated over their seeds
+export interface SweepGroup {
+  key: string;
+  setting: SweepSetting;
+  runs: SweepResult[];
+  meanFinalAccuracy: number;
+  meanBestAccuracy: number;
+  meanEpochsToConverge: number | null;  // over the runs that converged
+  stuckFraction: number;
+}
+
+export function settingKey({ learningRate, noiseLevel, hiddenSizes, confidencePenalty }: SweepSetting): string {
+  return `lr=${learningRate} noise=${noiseLevel} hidden=[${hiddenSizes.join(',')}] penalty=${confidencePenalty}`;
+}
+
+// Keep drawn values readable
+function round(x: number): number {
+  return Number(x.toPrecision(3));
+}
+
+function drawSetting(space: SweepSpace, rng: RNG): SweepSetting {
+  const range = (values: number[]) => [Math.min(...values), Math.max(...values)];
+  const [lrMin, lrMax] = range(space.learningRates);
+  const [noiseMin, noiseMax] = range(space.noiseLevels);
+  const [penaltyMin, penaltyMax] = range(space.confidencePenalties);
+  return {
+    learningRate: round(Math.exp(rng.uniform(Math.log(lrMin), Math.log(lrMax)))),
+    noiseLevel: round(rng.uniform(noiseMin, noiseMax)),
+    hiddenSizes: space.hiddenSizes[Math.floor(rng.uniform(0, space.hiddenSizes.length))],
+    confidencePenalty: round(rng.uniform(penaltyMin, penaltyMax)),
+  };
+}
+
+/**
+ * Every run of a sweep: each setting with each seed, settings in order
+ */
+export function expandSweep({ space, mode, samples, searchSeed }: SweepSpec): SweepRun[] {
+  for (const [axis, values] of Object.entries(space)) {
+    if (values.length === 0) throw new Error(`The sweep needs at least one value for ${axis}`);
+  }
+  if (mode === 'random' && space.learningRates.some(lr => lr <= 0)) {
+    throw new Error('Random search draws learning rates on a log scale, so they must be positive');
+  }
+
+  let settings: SweepSetting[];
+  if (mode === 'grid') {
+    settings = space.learningRates.flatMap(learningRate =>
+      space.noiseLevels.flatMap(noiseLevel =>
+        space.hiddenSizes.flatMap(hiddenSizes =>
+          space.confidencePenalties.map(confidencePenalty => ({ learningRate, noiseLevel, hiddenSizes, confidencePenalty }))
+        )
+      )
+    );
+  } else {
+    const rng = new RNG(searchSeed);
+    settings = Array.from({ length: samples }, () => drawSetting(space, rng));
+  }
+  return settings.flatMap((setting, i) =>
+    space.seeds.map((seed, j) => ({ index: i * space.seeds.length + j, setting, seed }))
+  );
+}
+
+/**
+ * The full config of one run
+ */
+export function sweepRunConfig(base: RunConfig, { setting, seed }: SweepRun): RunConfig {
+  const { layerSizes } = base.architecture;
+  return mergeRunConfig(base, {
+    architecture: { layerSizes: [layerSizes[0], ...setting.hiddenSizes, layerSizes[layerSizes.length - 1]] },
+    seed,
+    data: { noiseLevel: setting.noiseLevel },
+    hyperparameters: { learningRate: setting.learningRate, confidencePenalty: setting.confidencePenalty },
+  });
+}
+
+export function summarizeRun(metrics: StepMetrics[], convergenceAccuracy: number): RunSummary {
+  const last = metrics[metrics.length - 1];
+  let best = metrics[0];
+  for (const m of metrics) if (m.accuracy > best.accuracy) best = m;
+  const converged = metrics.find(m => m.accuracy >= convergenceAccuracy);
+  return {
+    finalAccuracy: last.accuracy,
+    finalLoss: last.loss,
+    bestAccuracy: best.accuracy,
+    bestStep: best.step,
+    epochsToConverge: converged ? converged.epoch : null,
+    stuck: !converged,
+    diverged: last.divergence !== null,
+    steps: last.step,
+  };
+}
+
+export function runSweepRun(spec: SweepSpec, run: SweepRun): SweepResult {
+  const metrics: StepMetrics[] = [];
+  runTraining(sweepRunConfig(spec.base, run), step => metrics.push(stepMetrics(step)));
+  return { ...run, summary: summarizeRun(metrics, spec.convergenceAccuracy) };
+}
+
+const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+
+/**
+ * Aggregate results over seeds, one group per setting (in first-seen order)
+ */
+export function groupResults(results: SweepResult[]): SweepGroup[] {
+  const groups = new Map<string, SweepResult[]>();
+  for (const r of results) {
+    const key = settingKey(r.setting);
+    groups.set(key, [...(groups.get(key) ?? []), r]);
+  }
+  return [...groups].map(([key, runs]) => {
+    const converged = runs.map(r => r.summary.epochsToConverge).filter((e): e is number => e !== null);
+    return {
+      key,
+      setting: runs[0].setting,
+      runs,
+      meanFinalAccuracy: mean(runs.map(r => r.summary.finalAccuracy)),
+      meanBestAccuracy: mean(runs.map(r => r.summary.bestAccuracy)),
+      meanEpochsToConverge: converged.length > 0 ? mean(converged) : null,
+      stuckFraction: runs.filter(r => r.summary.stuck).length / runs.length,
+    };
+  });
+}
@@ -0,0 +1,30 @@
+/**
+ * Sweep worker entry point: trains a sweep's runs off the UI thread
+ */
+
+import { PROTOCOL_VERSION } from './protocol';
+import type { SweepEvent, SweepRequest } from './protocol';
+import { expandSweep, runSweepRun } from './sweep';
+
+const post = (event: SweepEvent) => self.postMessage(event);
+
+self.onmessage = ({ data: request }: MessageEvent<SweepRequest>) => {
+  if (request.protocol !== PROTOCOL_VERSION) {
+    post({
+      type: 'error',
+      message: `Unsupported protocol version ${request.protocol} (expected ${PROTOCOL_VERSION})`,
+      protocol: PROTOCOL_VERSION,
+    });
+    return;
+  }
+  try {
+    const runs = expandSweep(request.spec);
+    post({ type: 'planned', total: runs.length, protocol: PROTOCOL_VERSION });
+    for (const run of runs) {
+      post({ type: 'result', result: runSweepRun(request.spec, run), protocol: PROTOCOL_VERSION });
+    }
+    post({ type: 'done', protocol: PROTOCOL_VERSION });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error), protocol: PROTOCOL_VERSION });
+  }
+};
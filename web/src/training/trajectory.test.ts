@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RUN_CONFIG, mergeRunConfig, runTraining } from './run';
+import { TrainingSession } from './session';
+import { Network } from '../network/Network';
+import { parseTrajectory, toTrajectoryJSON } from './trajectory';
+import { earlyStopping } from './earlyStopping';
+
+const CONFIG = mergeRunConfig(DEFAULT_RUN_CONFIG, {
+  architecture: { layerSizes: [2, 5, 1], normalization: 'batchNorm' },
+  data: { noiseLevel: 0.2, numSamples: 30 },
+  hyperparameters: { optimizerName: 'adam', learningRate: 0.05, batchMode: 'minibatch', miniBatchSize: 8, shuffle: true },
+  epochs: 4,
+});
+
+describe('Trajectories', () => {
+  it('a headless run should train until the requested epoch', () => {
+    const seen: number[] = [];
+    const session = runTraining(CONFIG, step => seen.push(step.step));
+    expect(seen).toEqual([0, 1, 2, 3, 4]);
+    expect(session.steps[session.currentStep].epoch).toBe(4);
+    expect(() => runTraining(mergeRunConfig(CONFIG, { data: { datasetName: 'quadrants' } }))).toThrow(/needs 4 outputs/);
+  });
+
+  it('should survive JSON and continue training exactly as the original timeline', () => {
+    const session = runTraining(CONFIG);
+    const json = JSON.parse(JSON.stringify(toTrajectoryJSON(session.steps, 2, CONFIG.hyperparameters, CONFIG.data)));
+    const { steps, currentStep, data, model } = parseTrajectory(json);
+    expect(currentStep).toBe(2);
+    expect(model.metadata.step).toBe(2);
+    expect(steps.map(s => s.loss)).toEqual(session.steps.map(s => s.loss));
+
+    const restored = new TrainingSession(Network.fromState(steps[0].state), CONFIG.hyperparameters, data);
+    restored.restore(steps, currentStep);
+    const replayed = restored.trainStep()!;
+    expect(Array.from(replayed.state.params)).toEqual(Array.from(session.steps[3].state.params));
+    expect(replayed.loss).toBe(session.steps[3].loss);
+  });
+
+  it('should reject documents that are not trajectories', () => {
+    const session = runTraining({ ...CONFIG, epochs: 1 });
+    const json = toTrajectoryJSON(session.steps, 1, CONFIG.hyperparameters, CONFIG.data);
+    expect(() => parseTrajectory(json.model)).toThrow(/format/);
+    expect(() => parseTrajectory({ ...json, version: 2 })).toThrow(/version 2/);
+    expect(() => parseTrajectory({ ...json, steps: [json.steps[1]] })).toThrow(/steps\[0\]\.step/);
+  });
+
+  it('should record split metrics, recomputing them for older trajectories', () => {
+    const config = mergeRunConfig(CONFIG, { data: { split: { mode: 'holdout', validationFraction: 0.3, testSize: 20 } }, epochs: 3 });
+    const session = runTraining(config);
+    expect(session.trainingData).toHaveLength(21);
+    expect(session.validationData).toHaveLength(9);
+    expect(session.testData).toHaveLength(20);
+    const last = session.steps[session.currentStep];
+    expect(last.metrics.validation).not.toBeNull();
+    expect(last.metrics.test).not.toBeNull();
+
+    const json = JSON.parse(JSON.stringify(toTrajectoryJSON(session.steps, 3, config.hyperparameters, config.data)));
+    for (const step of json.steps) delete step.metrics;
+    const { steps } = parseTrajectory(json);
+    expect(steps.map(s => s.metrics)).toEqual(session.steps.map(s => s.metrics));
+  });
+
+  it('early stopping should checkpoint each new best validation loss and stop after its patience', () => {
+    const session = runTraining({ ...CONFIG, epochs: 2 });
+    const withLosses = (losses: (number | null)[]) => losses.map((loss, i) => ({
+      ...session.steps[0],
+      step: i,
+      metrics: { ...session.steps[0].metrics, validation: loss === null ? null : { loss, accuracy: 0 } },
+    }));
+    expect(earlyStopping(withLosses([0.9, 0.7, 0.8, 0.6, 0.65, 0.7, 0.75, 0.5]), 3))
+      .toEqual({ checkpoints: [0, 1, 3], best: 3, stopStep: 6 });
+    expect(earlyStopping(withLosses([0.9, 0.7, 0.8]), 3)).toEqual({ checkpoints: [0, 1], best: 1, stopStep: null });
+    expect(earlyStopping(withLosses([null, null]), 3)).toEqual({ checkpoints: [], best: null, stopStep: null });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Versioned JSON trajectory format
+ *
+ * A trajectory is a whole training timeline: the model of its current step
+ * (in the model format of network/serialization.ts, carrying the
+ * architecture, seeds and hyperparameters), the data config the steps were
+ * trained on, and for every step its parameters (in the model format's
+ * `parameters` shape) with the metrics, optimizer slots and stream positions
+ * needed to replay it and to continue training from any step.
+ *
+ * The CLI writes trajectories; the web app imports them to replay a run.
+ */
+
+import { Network } from '../network/Network';
+import { validateModel } from '../network/serialization';
+import type { ModelJSON } from '../network/serialization';
+import { OPTIMIZER_NAMES } from '../network/optimizers';
+import type { OptimizerName } from '../network/optimizers';
+import type { RNGState } from '../network/random';
+import type { NonFiniteValue } from '../network/stability';
+import { DATASET_NAMES, datasetParams, getDataset } from '../data/datasets';
+import { isImportedDataset } from '../data/importer';
+import { DEFAULT_SPLIT, SPLIT_MODE_LABELS } from '../data/splits';
+import type { SplitMode } from '../data/splits';
+import { dataSpec, dataSplitsFor, splitMetrics } from './session';
+import type { DataConfig, DataSplits, EvalMetrics, SplitMetrics, TrainingHyperparameters, TrainingStep } from './session';
+
+export const TRAJECTORY_FORMAT = 'nn-visualizer-trajectory';
+export const TRAJECTORY_FORMAT_VERSION = 1;
+
+export interface TrajectoryStepJSON {
+  step: number;
+  parameters: ModelJSON['parameters'];
+  loss: number;
+  cleanLoss: number;
+  accuracy: number;
+  metrics?: SplitMetrics;  // missing in trajectories from before splits (recomputed on import)
+  dataVersion?: number;    // missing in trajectories from before data edits
+  epoch: number;
+  batchInEpoch: number;
+  learningRate: number;
+  gradNorms: number[];
+  divergence: NonFiniteValue | null;
+  optimizer: { name: OptimizerName; t: number; slots: Record<string, number[]> };
+  dropoutRng: RNGState;
+}
+
+export interface TrajectoryJSON {
+  format: typeof TRAJECTORY_FORMAT;
+  version: typeof TRAJECTORY_FORMAT_VERSION;
+  model: ModelJSON;
+  data: DataConfig;
+  currentStep: number;
+  steps: TrajectoryStepJSON[];
+}
+
+/**
+ * A step's network as a model document, with the settings needed to keep
+ * training it (what the web app's "Save model" writes)
+ */
+export function stepModel(step: TrainingStep, hyperparameters: TrainingHyperparameters, data: DataConfig): ModelJSON {
+  return Network.fromState(step.state).toJSON({
+    seeds: { data: data.dataSeed },
+    hyperparameters: { ...hyperparameters },
+    metadata: {
+      savedAt: new Date().toISOString(),
+      step: step.step,
+      loss: step.loss,
+      accuracy: step.accuracy,
+      numSamples: data.numSamples,
+      noiseLevel: data.noiseLevel,
+      // Imported data isn't one of the named datasets
+      dataset: data.imported ? undefined : data.datasetName,
+      importedDataset: data.imported?.name,
+      datasetParams: { ...data.datasetParams },
+    },
+  });
+}
+
+/**
+ * Trajectory of a timeline. Steps whose parameters went non-finite (a
+ * diverged update) cannot be stored in the model format and are left out.
+ */
+export function toTrajectoryJSON(
+  allSteps: TrainingStep[],
+  currentStep: number,
+  hyperparameters: TrainingHyperparameters,
+  data: DataConfig
+): TrajectoryJSON {
+  const steps = allSteps.filter(s => s.state.params.every(Number.isFinite));
+  const current = Math.min(currentStep, steps.length - 1);
+  return {
+    format: TRAJECTORY_FORMAT,
+    version: TRAJECTORY_FORMAT_VERSION,
+    model: stepModel(steps[current], hyperparameters, data),
+    data: { ...data },
+    currentStep: current,
+    steps: steps.map(s => ({
+      step: s.step,
+      parameters: Network.fromState(s.state).toJSON().parameters,
+      loss: s.loss,
+      cleanLoss: s.cleanLoss,
+      accuracy: s.accuracy,
+      metrics: s.metrics,
+      dataVersion: s.dataVersion,
+      epoch: s.epoch,
+      batchInEpoch: s.batchInEpoch,
+      learningRate: s.learningRate,
+      gradNorms: [...s.gradNorms],
+      divergence: s.divergence,
+      optimizer: {
+        name: s.optimizerState.name,
+        t: s.optimizerState.t,
+        slots: Object.fromEntries(Object.entries(s.optimizerState.slots).map(([k, v]) => [k, Array.from(v)])),
+      },
+      dropoutRng: { ...s.dropoutRngState },
+    })),
+  };
+}
+
+export function isTrajectory(input: unknown): boolean {
+  return typeof input === 'object' && input !== null && (input as Record<string, unknown>).format === TRAJECTORY_FORMAT;
+}
+
+function fail(path: string, message: string): never {
+  throw new Error(`Invalid trajectory: ${path} ${message}`);
+}
+
+function isNumber(x: unknown): x is number {
+  return typeof x === 'number';
+}
+
+function isEvalMetrics(x: unknown): x is EvalMetrics {
+  return typeof x === 'object' && x !== null
+    && isNumber((x as EvalMetrics).loss) && isNumber((x as EvalMetrics).accuracy);
+}
+
+function isSplitMetrics(x: unknown): x is SplitMetrics {
+  if (typeof x !== 'object' || x === null) return false;
+  const m = x as SplitMetrics;
+  return isEvalMetrics(m.train)
+    && (m.validation === null || isEvalMetrics(m.validation))
+    && (m.test === null || isEvalMetrics(m.test));
+}
+
+/**
+ * Check a parsed trajectory document and rebuild its steps (each step's
+ * parameters are checked by the model format)
+ */
+export function parseTrajectory(input: unknown): {
+  model: ModelJSON;
+  data: DataConfig;
+  steps: TrainingStep[];
+  currentStep: number;
+} {
+  if (!isTrajectory(input)) fail('format', `must be "${TRAJECTORY_FORMAT}"`);
+  const doc = input as Record<string, unknown>;
+  if (doc.version !== TRAJECTORY_FORMAT_VERSION) {
+    fail('version', `${String(doc.version)} is not supported (expected ${TRAJECTORY_FORMAT_VERSION})`);
+  }
+  const model = validateModel(doc.model);
+
+  const data = doc.data as DataConfig | undefined;
+  if (typeof data !== 'object' || data === null) fail('data', 'must be an object');
+  if (!DATASET_NAMES.includes(data.datasetName)) fail('data.datasetName', `"${String(data.datasetName)}" is not a known dataset`);
+  for (const key of ['numSamples', 'noiseLevel', 'dataSeed'] as const) {
+    if (!isNumber(data[key])) fail(`data.${key}`, 'must be a number');
+  }
+  if (data.imported !== undefined && !isImportedDataset(data.imported)) fail('data.imported', 'must be an imported dataset');
+  if (data.split !== undefined && !(Object.keys(SPLIT_MODE_LABELS) as SplitMode[]).includes(data.split.mode)) {
+    fail('data.split.mode', `"${String(data.split.mode)}" is not a known split`);
+  }
+  if (data.edits !== undefined && !Array.isArray(data.edits)) fail('data.edits', 'must be an array');
+  // Trajectories from before dataset parameters, splits or edits existed used the defaults
+  const params = typeof data.datasetParams === 'object' && data.datasetParams !== null ? data.datasetParams : {};
+  const resolvedData: DataConfig = {
+    ...data,
+    datasetParams: datasetParams(getDataset(data.datasetName), params),
+    split: { ...DEFAULT_SPLIT, ...data.split },
+    edits: data.edits ?? [],
+    version: isNumber(data.version) ? data.version : 0,
+  };
+  // Split points, for steps saved without split metrics
+  let splits: DataSplits | null = null;
+  const outputSize = model.architecture.layerSizes[model.architecture.layerSizes.length - 1];
+
+  if (!Array.isArray(doc.steps) || doc.steps.length === 0) fail('steps', 'must be a non-empty array');
+  const steps = (doc.steps as TrajectoryStepJSON[]).map((s, i): TrainingStep => {
+    const path = `steps[${i}]`;
+    if (s.step !== i) fail(`${path}.step`, `must be ${i}`);
+    for (const key of ['loss', 'cleanLoss', 'accuracy', 'epoch', 'batchInEpoch', 'learningRate'] as const) {
+      if (!isNumber(s[key])) fail(`${path}.${key}`, 'must be a number');
+    }
+    if (!s.optimizer || !OPTIMIZER_NAMES.includes(s.optimizer.name)) fail(`${path}.optimizer.name`, 'must be a known optimizer');
+    if (!s.dropoutRng || !isNumber(s.dropoutRng.m_w) || !isNumber(s.dropoutRng.m_z)) fail(`${path}.dropoutRng`, 'must be an RNG state');
+
+    let net: Network;
+    try {
+      net = Network.fromJSON({ ...model, parameters: s.parameters });
+    } catch (e) {
+      fail(`${path}.parameters`, e instanceof Error ? e.message : String(e));
+    }
+    let metrics: SplitMetrics;
+    if (isSplitMetrics(s.metrics)) {
+      metrics = s.metrics;
+    } else {
+      splits ??= dataSplitsFor(resolvedData, outputSize);
+      metrics = splitMetrics(net, splits, dataSpec(resolvedData).task);
+    }
+    return {
+      step: s.step,
+      state: net.getState(),
+      loss: s.loss,
+      cleanLoss: s.cleanLoss,
+      accuracy: s.accuracy,
+      metrics,
+      dataVersion: isNumber(s.dataVersion) ? s.dataVersion : resolvedData.version,
+      currentInputIdx: 0,
+      optimizerState: {
+        name: s.optimizer.name,
+        t: s.optimizer.t,
+        slots: Object.fromEntries(Object.entries(s.optimizer.slots ?? {}).map(([k, v]) => [k, Float64Array.from(v)])),
+      },
+      epoch: s.epoch,
+      batchInEpoch: s.batchInEpoch,
+      dropoutRngState: { ...s.dropoutRng },
+      learningRate: s.learningRate,
+      gradNorms: Array.isArray(s.gradNorms) ? s.gradNorms : [],
+      divergence: s.divergence ?? null,
+    };
+  });
+
+  const currentStep = isNumber(doc.currentStep) ? doc.currentStep : steps.length - 1;
+  if (currentStep < 0 || currentStep >= steps.length) fail('currentStep', `must be between 0 and ${steps.length - 1}`);
+  return {
+    model,
+    data: resolvedData,
+    steps,
+    currentStep,
+  };
+}
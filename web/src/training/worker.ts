@@ -0,0 +1,10 @@
+/**
+ * Training worker entry point: runs a TrainingHost off the UI thread
+ */
+
+import { TrainingHost } from './host';
+import type { TrainingRequest } from './protocol';
+
+const host = new TrainingHost(event => self.postMessage(event));
+
+self.onmessage = (event: MessageEvent<TrainingRequest>) => host.handle(event.data);